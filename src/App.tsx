@@ -12,7 +12,12 @@ import Tasks from "./pages/Tasks";
 import TeamManagement from "./pages/TeamManagement";
 import Clients from "./pages/Clients";
 import DropdownManagement from "./pages/DropdownManagement";
+import Approvals from "./pages/Approvals";
+import Leave from "./pages/Leave";
+import TeamNow from "./pages/TeamNow";
 import NotFound from "./pages/NotFound";
+import RequirePermission from "./components/RequirePermission";
+import { AuthProvider } from "./contexts/AuthContext";
 
 const queryClient = new QueryClient();
 
@@ -22,18 +27,23 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Login />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/timesheet" element={<Timesheet />} />
-          <Route path="/reports" element={<Reports />} />
-          <Route path="/tasks" element={<Tasks />} />
-          <Route path="/team" element={<TeamManagement />} />
-          <Route path="/clients" element={<Clients />} />
-          <Route path="/dropdown-management" element={<DropdownManagement />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<Login />} />
+            <Route path="/dashboard" element={<RequirePermission><Dashboard /></RequirePermission>} />
+            <Route path="/timesheet" element={<RequirePermission permission="timesheet.submit"><Timesheet /></RequirePermission>} />
+            <Route path="/reports" element={<RequirePermission permission="reports.view.team"><Reports /></RequirePermission>} />
+            <Route path="/tasks" element={<RequirePermission permission="catalog.view"><Tasks /></RequirePermission>} />
+            <Route path="/team" element={<RequirePermission permission="employees.manage"><TeamManagement /></RequirePermission>} />
+            <Route path="/clients" element={<RequirePermission permission="clients.view"><Clients /></RequirePermission>} />
+            <Route path="/dropdown-management" element={<RequirePermission permission="dropdowns.edit"><DropdownManagement /></RequirePermission>} />
+            <Route path="/approvals" element={<RequirePermission permission="timesheets.review"><Approvals /></RequirePermission>} />
+            <Route path="/leave" element={<RequirePermission permission="leave.request"><Leave /></RequirePermission>} />
+            <Route path="/team-now" element={<RequirePermission permission="presence.view"><TeamNow /></RequirePermission>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -10,13 +10,16 @@ import {
   CheckCircle,
   AlertTriangle
 } from "lucide-react";
+import type { BreakWarning } from "@/services/BreakService";
 
 interface AvailabilityTrackerProps {
   totalLoggedTime: number; // in seconds
   breakTime: number; // in seconds
   isOnBreak: boolean;
-  targetHours: number;
-  workTargetHours?: number; // for remaining time calculation, defaults to 8
+  targetHours: number; // scheduled hours for the day; 0 on days off
+  workTargetHours?: number; // for remaining time calculation, defaults to targetHours
+  dayOff?: string | null; // why nothing is scheduled, e.g. the holiday's name
+  breakWarnings?: BreakWarning[]; // break allowances exceeded today
 }
 
 export const AvailabilityTracker = ({ 
@@ -24,7 +27,9 @@ export const AvailabilityTracker = ({
   breakTime, 
   isOnBreak, 
   targetHours,
-  workTargetHours = 8
+  workTargetHours = targetHours,
+  dayOff = null,
+  breakWarnings = []
 }: AvailabilityTrackerProps) => {
   const [currentBreakTime, setCurrentBreakTime] = useState(breakTime);
 
@@ -59,7 +64,7 @@ export const AvailabilityTracker = ({
 
   const targetSeconds = targetHours * 3600;
   const workTargetSeconds = workTargetHours * 3600;
-  const progressPercentage = Math.min((totalLoggedTime / targetSeconds) * 100, 100);
+  const progressPercentage = targetSeconds > 0 ? Math.min((totalLoggedTime / targetSeconds) * 100, 100) : 100;
   const remainingTime = Math.max(workTargetSeconds - totalLoggedTime, 0);
   
   const getProgressColor = () => {
@@ -96,7 +101,9 @@ export const AvailabilityTracker = ({
                 )}
               </CardTitle>
               <CardDescription>
-                Track your progress towards the daily {targetHours}-hour target
+                {targetSeconds > 0
+                  ? `Track your progress towards the daily ${targetHours}-hour target`
+                  : `No hours scheduled${dayOff ? `: ${dayOff}` : " for this day"}`}
               </CardDescription>
             </div>
           </div>
@@ -178,6 +185,22 @@ export const AvailabilityTracker = ({
           </div>
         </div>
 
+        {/* Break Compliance */}
+        {breakWarnings.length > 0 && (
+          <div className="bg-destructive/10 rounded-lg p-4 border border-destructive/40 space-y-1">
+            {breakWarnings.map(warning => (
+              <div key={`${warning.breakType}-${warning.kind}`} className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <span className="text-sm font-medium">
+                  {warning.kind === "daily"
+                    ? `${warning.label}: ${formatTime(warning.usedSeconds)} taken today, over the ${formatTime(warning.limitSeconds)} allowance`
+                    : `${warning.label}: a single break ran ${formatTime(warning.usedSeconds)}, longer than ${formatTime(warning.limitSeconds)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Status Messages */}
         <div className="bg-accent/30 rounded-lg p-4 border border-accent">
           {isOnBreak ? (
@@ -187,6 +210,13 @@ export const AvailabilityTracker = ({
                 Currently on break - Timer paused for all tasks
               </span>
             </div>
+          ) : targetSeconds === 0 ? (
+            <div className="flex items-center gap-2 text-foreground-muted">
+              <CheckCircle className="w-4 h-4" />
+              <span className="text-sm font-medium">
+                {dayOff || "Not a scheduled working day"} - any time logged counts as extra
+              </span>
+            </div>
           ) : progressPercentage >= 100 ? (
             <div className="flex items-center gap-2 text-success">
               <CheckCircle className="w-4 h-4" />
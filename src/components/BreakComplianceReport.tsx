@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Coffee } from "lucide-react";
+import { getBreakCompliance, getBreaks, getBreakTypes } from "@/services/BreakService";
+import type { BreakComplianceRow, BreakType } from "@/services/BreakService";
+import { formatHours } from "@/utils/formatUtils";
+
+interface ReportEmployee {
+  id: string; // employee id, e.g. EMP001
+  name: string;
+  email: string | null;
+}
+
+interface BreakComplianceReportProps {
+  startDate: string; // work dates, inclusive
+  endDate: string;
+  employees: ReportEmployee[];
+  refreshKey?: unknown;
+}
+
+// Breaks are stored under the same user key as timesheet sessions: full name, employee id or email
+const findEmployee = (employees: ReportEmployee[], userKey: string) =>
+  employees.find(employee => [employee.id, employee.name, employee.email].includes(userKey));
+
+/**
+ * Break time per employee and type for the report period, with the allowances each employee exceeded
+ */
+export const BreakComplianceReport = ({ startDate, endDate, employees, refreshKey }: BreakComplianceReportProps) => {
+  const [breakTypes, setBreakTypes] = useState<BreakType[]>([]);
+  const [rows, setRows] = useState<BreakComplianceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([getBreakTypes(), getBreaks(null, startDate, endDate)])
+      .then(([types, entries]) => {
+        setBreakTypes(types);
+        setRows(getBreakCompliance(entries, types));
+      })
+      .finally(() => setLoading(false));
+  }, [startDate, endDate, refreshKey]);
+
+  const visibleRows = rows.filter(row => findEmployee(employees, row.employeeId));
+
+  return (
+    <Card className="mt-8 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coffee className="w-5 h-5" />
+          Break Compliance
+        </CardTitle>
+        <CardDescription>Break time by type; breaks over the daily or single-break allowance are flagged</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2">Employee</th>
+                <th className="text-left py-2">Days</th>
+                {breakTypes.map(type => (
+                  <th key={type.key} className="text-left py-2">{type.label}</th>
+                ))}
+                <th className="text-left py-2">Total</th>
+                <th className="text-left py-2">Over Allowance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={breakTypes.length + 4} className="py-8 text-center text-foreground-muted">
+                    <div className="animate-pulse">Loading breaks...</div>
+                  </td>
+                </tr>
+              ) : visibleRows.length > 0 ? (
+                visibleRows.map(row => (
+                  <tr key={row.employeeId} className="border-b border-border">
+                    <td className="py-2">{findEmployee(employees, row.employeeId)?.name || row.employeeId}</td>
+                    <td className="py-2">{row.days}</td>
+                    {breakTypes.map(type => (
+                      <td key={type.key} className="py-2">{formatHours((row.secondsByType[type.key] || 0) / 3600)}</td>
+                    ))}
+                    <td className="py-2">{formatHours(row.totalSeconds / 3600)}</td>
+                    <td className="py-2">
+                      {row.warnings.length === 0 ? (
+                        <span className="text-success">None</span>
+                      ) : (
+                        <Badge
+                          variant="destructive"
+                          title={row.warnings.map(warning => `${warning.label} (${warning.kind === "daily" ? "per day" : "per break"})`).join(", ")}
+                        >
+                          {row.warnings.length}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={breakTypes.length + 4} className="py-8 text-center text-foreground-muted">
+                    No breaks were taken during this timeframe.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
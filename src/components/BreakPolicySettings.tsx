@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coffee, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getBreakTypes, saveBreakType, type BreakType } from "@/services/BreakService";
+
+// Blank means no limit
+const toMinutes = (value: string): number | null => value.trim() === "" ? null : Math.min(1440, Math.max(0, parseInt(value) || 0));
+
+// Break categories and how much of each may be taken per day and in one go
+const BreakPolicySettings = () => {
+  const { toast } = useToast();
+  const [breakTypes, setBreakTypes] = useState<BreakType[]>([]);
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  useEffect(() => {
+    getBreakTypes().then(setBreakTypes);
+  }, []);
+
+  const updateType = (key: string, updates: Partial<BreakType>) => {
+    setBreakTypes(prev => prev.map(type => type.key === key ? { ...type, ...updates } : type));
+  };
+
+  const handleSave = async (breakType: BreakType) => {
+    if (!breakType.label.trim()) {
+      toast({ title: "Validation Error", description: "Break name is required", variant: "destructive" });
+      return;
+    }
+
+    setSavingType(breakType.key);
+    const saved = await saveBreakType(breakType);
+    setSavingType(null);
+
+    toast(saved ? {
+      title: "Break Policy Saved",
+      description: `${breakType.label.trim()} allowances were updated`
+    } : {
+      title: "Error",
+      description: "Failed to save the break policy",
+      variant: "destructive"
+    });
+  };
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coffee className="w-5 h-5" />
+          Break Allowances
+        </CardTitle>
+        <CardDescription>
+          Minutes of each break type allowed per day and per break. Leave a field blank for no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Break Type</TableHead>
+              <TableHead>Per Day (min)</TableHead>
+              <TableHead>Per Break (min)</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {breakTypes.map(breakType => (
+              <TableRow key={breakType.key}>
+                <TableCell>
+                  <Input
+                    value={breakType.label}
+                    onChange={(e) => updateType(breakType.key, { label: e.target.value })}
+                    className="w-40"
+                    aria-label={`Name of ${breakType.key}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={breakType.dailyAllowanceMinutes ?? ""}
+                    onChange={(e) => updateType(breakType.key, { dailyAllowanceMinutes: toMinutes(e.target.value) })}
+                    className="w-24"
+                    placeholder="No limit"
+                    aria-label={`Minutes per day for ${breakType.key}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={breakType.maxMinutesPerBreak ?? ""}
+                    onChange={(e) => {
+                      const minutes = toMinutes(e.target.value);
+                      updateType(breakType.key, { maxMinutesPerBreak: minutes === 0 ? null : minutes });
+                    }}
+                    className="w-24"
+                    placeholder="No limit"
+                    aria-label={`Minutes per break for ${breakType.key}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={breakType.isActive}
+                    onCheckedChange={(checked) => updateType(breakType.key, { isActive: checked })}
+                    aria-label={`${breakType.label} active`}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" onClick={() => handleSave(breakType)} disabled={savingType === breakType.key}>
+                    <Save className="w-4 h-4 mr-1" />
+                    {savingType === breakType.key ? "Saving..." : "Save"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BreakPolicySettings;
@@ -8,6 +8,17 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Upload, Download, AlertTriangle, CheckCircle, X, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { SheetColumnMapper } from "@/components/SheetColumnMapper";
+import {
+  applyHeaderMapping,
+  exportSheets,
+  ExportFormat,
+  HeaderMapping,
+  ImportedSheet,
+  isSpreadsheetFile,
+  readSpreadsheet,
+  suggestHeaderMapping
+} from "@/utils/spreadsheetUtils";
 
 export interface BulkUploadError {
   row: number;
@@ -48,6 +59,9 @@ const BulkUpload = ({
 }: BulkUploadProps) => {
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<Record<string, string>[]>([]);
+  const [sheets, setSheets] = useState<ImportedSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<HeaderMapping>({});
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadResult, setUploadResult] = useState<BulkUploadResult | null>(null);
@@ -60,49 +74,59 @@ const BulkUpload = ({
     const selectedFile = event.target.files?.[0];
     if (!selectedFile) return;
 
-    if (!selectedFile.name.toLowerCase().endsWith('.csv')) {
+    if (!isSpreadsheetFile(selectedFile.name)) {
       toast({
         title: "Invalid File Type",
-        description: "Please select a CSV file",
+        description: "Please select a CSV or Excel (.xlsx) file",
         variant: "destructive"
       });
       return;
     }
 
     setFile(selectedFile);
-    parseCSV(selectedFile);
+    parseFile(selectedFile);
   };
 
-  const parseCSV = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        toast({
-          title: "Invalid CSV",
-          description: "CSV file must contain headers and at least one data row",
-          variant: "destructive"
-        });
-        return;
-      }
+  const parseFile = async (file: File) => {
+    let fileSheets: ImportedSheet[];
+    try {
+      fileSheets = (await readSpreadsheet(file)).filter(sheet => sheet.rows.length >= 2);
+    } catch (error) {
+      console.error("Error reading upload file:", error);
+      toast({
+        title: "Invalid File",
+        description: "The file could not be read. Please check it is a valid CSV or Excel file.",
+        variant: "destructive"
+      });
+      return;
+    }
 
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-      const data = lines.slice(1).map((line, index) => {
-        const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-        const row: Record<string, string> = {};
-        headers.forEach((header, i) => {
-          row[header] = values[i] || '';
-        });
-        return row;
+    if (fileSheets.length === 0) {
+      toast({
+        title: "Invalid File",
+        description: "The file must contain headers and at least one data row",
+        variant: "destructive"
       });
+      return;
+    }
 
-      setCsvData(data);
-      setPreviewMode(true);
-      validateData(data);
-    };
-    reader.readAsText(file);
+    setSheets(fileSheets);
+    selectSheet(fileSheets, 0);
+    setPreviewMode(true);
+  };
+
+  const selectSheet = (fileSheets: ImportedSheet[], index: number) => {
+    const sheetMapping = suggestHeaderMapping(templateColumns, fileSheets[index].rows[0]);
+    setSheetIndex(index);
+    applyMapping(fileSheets[index], sheetMapping);
+  };
+
+  // Rows are re-read whenever the sheet or the header mapping changes
+  const applyMapping = (sheet: ImportedSheet, sheetMapping: HeaderMapping) => {
+    const data = applyHeaderMapping(sheet, sheetMapping);
+    setMapping(sheetMapping);
+    setCsvData(data);
+    validateData(data);
   };
 
   const validateData = (data: Record<string, string>[]) => {
@@ -188,19 +212,12 @@ const BulkUpload = ({
     }
   };
 
-  const downloadTemplate = () => {
-    const csvContent = [
-      templateColumns.join(','),
-      ...sampleData.map(row => templateColumns.map(col => row[col] || '').join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${title.toLowerCase().replace(/\s+/g, '_')}_template.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+  const downloadTemplate = (format: ExportFormat) => {
+    exportSheets([{
+      name: "Template",
+      columns: templateColumns.map(header => ({ header })),
+      rows: sampleData.map(row => templateColumns.map(col => row[col] || ''))
+    }], `${title.toLowerCase().replace(/\s+/g, '_')}_template`, format);
   };
 
   return (
@@ -220,7 +237,7 @@ const BulkUpload = ({
             {/* Format Information */}
             {formatInfo && (
               <div className="space-y-4 p-4 bg-muted/30 rounded-lg border border-border">
-                <h3 className="font-semibold text-lg">CSV Format Requirements</h3>
+                <h3 className="font-semibold text-lg">File Format Requirements</h3>
                 <p className="text-sm text-muted-foreground">{formatInfo.description}</p>
                 
                 <div className="grid md:grid-cols-2 gap-4">
@@ -288,30 +305,36 @@ const BulkUpload = ({
               <div>
                 <h3 className="font-semibold">Download Template</h3>
                 <p className="text-sm text-foreground-muted">
-                  Download the CSV template with sample data to get started
+                  Download the CSV or Excel template with sample data to get started
                 </p>
               </div>
-              <Button variant="outline" onClick={downloadTemplate}>
-                <Download className="w-4 h-4 mr-2" />
-                Template
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => downloadTemplate("csv")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={() => downloadTemplate("xlsx")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Excel
+                </Button>
+              </div>
             </div>
 
             {/* File Upload */}
             <div className="space-y-4">
-              <Label htmlFor="csvFile">Upload CSV File</Label>
+              <Label htmlFor="csvFile">Upload CSV or Excel File</Label>
               <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
                 <input
                   ref={fileInputRef}
                   id="csvFile"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx"
                   onChange={handleFileSelect}
                   className="hidden"
                 />
                 <FileText className="w-12 h-12 text-foreground-muted mx-auto mb-4" />
                 <p className="text-foreground-muted mb-4">
-                  Drag and drop your CSV file here, or click to browse
+                  Drag and drop your CSV or Excel file here, or click to browse
                 </p>
                 <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
                   Choose File
@@ -321,6 +344,15 @@ const BulkUpload = ({
           </>
         ) : (
           <>
+            <SheetColumnMapper
+              sheets={sheets}
+              sheetIndex={sheetIndex}
+              columns={templateColumns}
+              mapping={mapping}
+              onSheetChange={(index) => selectSheet(sheets, index)}
+              onMappingChange={(sheetMapping) => applyMapping(sheets[sheetIndex], sheetMapping)}
+            />
+
             {/* Data Preview */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -0,0 +1,67 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CornerDownRight, Plus } from "lucide-react";
+import { format } from "date-fns";
+import type { UnfinishedTicket } from "@/services/TicketLifecycleService";
+import { formatAHT } from "@/services/UserStatsService";
+import { addDaysToWorkDate, fromWorkDate } from "@/utils/dateHelpers";
+
+interface CarryOverTicketsProps {
+  tickets: UnfinishedTicket[];
+  workDate: string;
+  onContinue: (tickets: UnfinishedTicket[]) => void;
+}
+
+/**
+ * Unfinished tickets from earlier timesheets, offered as pre-filled rows for the work date
+ */
+export const CarryOverTickets = ({ tickets, workDate, onContinue }: CarryOverTicketsProps) => {
+  if (tickets.length === 0) return null;
+
+  const previousDay = addDaysToWorkDate(workDate, -1);
+  const formatDay = (date: string) => date === previousDay ? "Yesterday" : format(fromWorkDate(date), "EEE, MMM d");
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <CornerDownRight className="w-5 h-5" />
+              Continue from {tickets.every(ticket => ticket.lastWorkedOn === previousDay) ? "Yesterday" : "Earlier Days"}
+            </CardTitle>
+            <CardDescription>
+              Tickets you left in progress or on hold. Continuing one adds a row linked to it; time logged on it so far keeps counting.
+            </CardDescription>
+          </div>
+          {tickets.length > 1 && (
+            <Button size="sm" variant="outline" onClick={() => onContinue(tickets)}>
+              Continue All
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {tickets.map(ticket => (
+          <div key={ticket.ticketHistoryId} className="flex items-center justify-between gap-4 p-3 bg-muted/30 rounded-lg border">
+            <div className="flex items-center gap-3 text-sm">
+              <Badge variant={ticket.status === "WIP" ? "secondary" : "outline"} className="text-xs">{ticket.status}</Badge>
+              <span className="font-medium">#{ticket.ticketNumber}</span>
+              <span className="text-foreground-muted">
+                {[ticket.university, ticket.taskName || ticket.category].filter(Boolean).join(" • ")}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 text-sm text-foreground-muted">
+              <span>{formatAHT(ticket.totalSeconds)} so far • {formatDay(ticket.lastWorkedOn)}</span>
+              <Button size="sm" onClick={() => onContinue([ticket])}>
+                <Plus className="w-4 h-4 mr-1" />
+                Continue
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getPasswordStrength } from "@/utils/passwordPolicy";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  // Employee ID or email used to sign in
+  login: string;
+  // Password just used to sign in
+  currentPassword: string;
+  onChanged: (newPassword: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown at sign-in when the password was set by an admin, is a first-login password or has expired.
+ * Signing in only continues once a new password is saved.
+ */
+const ChangePasswordDialog = ({ open, login, currentPassword, onChanged, onCancel }: ChangePasswordDialogProps) => {
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { strength, feedback } = getPasswordStrength(newPassword);
+  const passwordsMatch = newPassword === confirmPassword;
+  const canSave = strength === 100 && passwordsMatch && !isSaving;
+
+  const reset = () => {
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    const { data, error } = await supabase.rpc('change_employee_password', {
+      p_login: login,
+      p_current_password: currentPassword,
+      p_new_password: newPassword
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: "Password Not Changed",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // A wrong current password counts towards the lockout like a failed sign-in
+    const result = data?.[0];
+    if (!result?.changed) {
+      const lockedUntil = result?.locked_until ? new Date(result.locked_until) : null;
+      toast({
+        title: lockedUntil ? "Account Locked" : "Password Not Changed",
+        description: lockedUntil
+          ? `Too many failed attempts. Try again after ${lockedUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+          : "Current password is incorrect",
+        variant: "destructive"
+      });
+      if (lockedUntil) handleCancel();
+      return;
+    }
+
+    reset();
+    toast({
+      title: "Password Changed",
+      description: "Use your new password from now on"
+    });
+    onChanged(newPassword);
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-primary" />
+            Choose a New Password
+          </DialogTitle>
+          <DialogDescription>
+            Your password was set by an administrator or has expired. Choose a new one to continue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="change-new-password">New Password</Label>
+            <Input
+              id="change-new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="Enter new password"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="change-confirm-password">Confirm Password</Label>
+            <Input
+              id="change-confirm-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Repeat new password"
+            />
+          </div>
+
+          {newPassword && (
+            <div className="space-y-2">
+              <Progress value={strength} className="h-2" />
+              {feedback.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  <AlertDescription>
+                    Missing: {feedback.join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {confirmPassword && !passwordsMatch && (
+                <p className="text-sm text-destructive">Passwords do not match</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end pt-2">
+            <Button variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave}>
+              {isSaving ? "Saving..." : "Change Password"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangePasswordDialog;
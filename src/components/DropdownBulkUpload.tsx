@@ -15,6 +15,17 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { BulkUploadError, BulkUploadResult, DropdownType, DROPDOWN_TEMPLATES } from "@/types/dropdown";
+import { SheetColumnMapper } from "@/components/SheetColumnMapper";
+import {
+  applyHeaderMapping,
+  exportSheets,
+  ExportFormat,
+  HeaderMapping,
+  ImportedSheet,
+  isSpreadsheetFile,
+  readSpreadsheet,
+  suggestHeaderMapping
+} from "@/utils/spreadsheetUtils";
 
 interface DropdownBulkUploadProps {
   title: string;
@@ -31,6 +42,9 @@ export const DropdownBulkUpload = ({
 }: DropdownBulkUploadProps) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<any[]>([]);
+  const [sheets, setSheets] = useState<ImportedSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<HeaderMapping>({});
   const [previewMode, setPreviewMode] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -39,62 +53,60 @@ export const DropdownBulkUpload = ({
   const { toast } = useToast();
 
   const templateColumns = DROPDOWN_TEMPLATES[type];
+  const templateFields = templateColumns.map(col => col.field);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!isSpreadsheetFile(file.name)) {
       toast({
         title: "Invalid File",
-        description: "Please select a CSV file",
+        description: "Please select a CSV or Excel (.xlsx) file",
         variant: "destructive"
       });
       return;
     }
 
     setSelectedFile(file);
-    parseCSV(file);
+    parseFile(file);
   };
 
-  const parseCSV = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim());
-        
-        if (lines.length < 2) {
-          toast({
-            title: "Invalid CSV",
-            description: "CSV file must contain headers and at least one data row",
-            variant: "destructive"
-          });
-          return;
-        }
-
-        const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-        const rows = lines.slice(1).map(line => {
-          const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-          const obj: any = {};
-          headers.forEach((header, index) => {
-            obj[header] = values[index] || '';
-          });
-          return obj;
-        });
-
-        setCsvData(rows);
-        validateData(rows, headers);
-        setPreviewMode(true);
-      } catch (error) {
+  const parseFile = async (file: File) => {
+    try {
+      const fileSheets = (await readSpreadsheet(file)).filter(sheet => sheet.rows.length >= 2);
+      if (fileSheets.length === 0) {
         toast({
-          title: "Parse Error",
-          description: "Failed to parse CSV file. Please check the format.",
+          title: "Invalid File",
+          description: "The file must contain headers and at least one data row",
           variant: "destructive"
         });
+        return;
       }
-    };
-    reader.readAsText(file);
+
+      setSheets(fileSheets);
+      selectSheet(fileSheets, 0);
+      setPreviewMode(true);
+    } catch (error) {
+      toast({
+        title: "Parse Error",
+        description: "Failed to read the file. Please check the format.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const selectSheet = (fileSheets: ImportedSheet[], index: number) => {
+    setSheetIndex(index);
+    applyMapping(fileSheets[index], suggestHeaderMapping(templateFields, fileSheets[index].rows[0]));
+  };
+
+  // Rows are re-read whenever the sheet or the header mapping changes
+  const applyMapping = (sheet: ImportedSheet, sheetMapping: HeaderMapping) => {
+    const rows = applyHeaderMapping(sheet, sheetMapping);
+    setMapping(sheetMapping);
+    setCsvData(rows);
+    validateData(rows, templateFields.filter(field => sheetMapping[field]));
   };
 
   const validateData = (data: any[], headers: string[]) => {
@@ -178,22 +190,12 @@ export const DropdownBulkUpload = ({
     }
   };
 
-  const downloadTemplate = () => {
-    const headers = templateColumns.map(col => col.field);
-    const sampleRow = templateColumns.map(col => col.example);
-    
-    const csvContent = [
-      headers.join(','),
-      sampleRow.join(',')
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${type}_template.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+  const downloadTemplate = async (format: ExportFormat) => {
+    await exportSheets([{
+      name: "Template",
+      columns: templateFields.map(header => ({ header })),
+      rows: [templateColumns.map(col => col.example)]
+    }], `${type}_template`, format);
 
     toast({
       title: "Template Downloaded",
@@ -204,6 +206,7 @@ export const DropdownBulkUpload = ({
   const resetUpload = () => {
     setSelectedFile(null);
     setCsvData([]);
+    setSheets([]);
     setPreviewMode(false);
     setUploading(false);
     setUploadProgress(0);
@@ -220,7 +223,7 @@ export const DropdownBulkUpload = ({
             {title}
           </CardTitle>
           <CardDescription>
-            Upload {type} data via CSV file
+            Upload {type} data via CSV or Excel file
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -241,11 +244,19 @@ export const DropdownBulkUpload = ({
           <div className="flex gap-3">
             <Button
               variant="outline"
-              onClick={downloadTemplate}
+              onClick={() => downloadTemplate("csv")}
+              className="flex-1"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV Template
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadTemplate("xlsx")}
               className="flex-1"
             >
               <Download className="w-4 h-4 mr-2" />
-              Download Template
+              Excel Template
             </Button>
           </div>
 
@@ -254,13 +265,13 @@ export const DropdownBulkUpload = ({
             <label htmlFor="file-upload" className="block">
               <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors cursor-pointer">
                 <FileText className="w-8 h-8 mx-auto mb-2 text-foreground-muted" />
-                <p className="text-sm font-medium">Click to upload CSV file</p>
+                <p className="text-sm font-medium">Click to upload CSV or Excel file</p>
                 <p className="text-xs text-foreground-muted">or drag and drop</p>
               </div>
               <input
                 id="file-upload"
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx"
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -296,6 +307,15 @@ export const DropdownBulkUpload = ({
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        <SheetColumnMapper
+          sheets={sheets}
+          sheetIndex={sheetIndex}
+          columns={templateFields}
+          mapping={mapping}
+          onSheetChange={(index) => selectSheet(sheets, index)}
+          onMappingChange={(sheetMapping) => applyMapping(sheets[sheetIndex], sheetMapping)}
+        />
+
         {/* Validation Errors */}
         {validationErrors.length > 0 && (
           <Alert variant="destructive">
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { toast } from '@/hooks/use-toast';
+import { getDropdownData, getSimpleDropdownData } from '@/utils/dropdownStorage';
+import { getTaskCatalog } from '@/services/TaskService';
+import type { TaskWithAHT } from '@/types/dropdown';
+import { TicketHistoryEntry } from '@/services/UserStatsService';
+import { correctTicket, getTicketChanges } from '@/services/TicketCorrectionService';
+
+interface EditTicketDialogProps {
+  entry: TicketHistoryEntry | null;
+  changedBy: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const EditTicketDialog: React.FC<EditTicketDialogProps> = ({ entry, changedBy, onClose, onSaved }) => {
+  const [ticketNumber, setTicketNumber] = useState('');
+  const [category, setCategory] = useState('');
+  const [subcategory, setSubcategory] = useState('');
+  const [status, setStatus] = useState('');
+  const [hours, setHours] = useState(0);
+  const [minutes, setMinutes] = useState(0);
+  const [comments, setComments] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [tasks, setTasks] = useState<TaskWithAHT[]>(() => getDropdownData().tasks);
+
+  useEffect(() => {
+    if (entry) getTaskCatalog().then(setTasks);
+  }, [entry]);
+
+  useEffect(() => {
+    if (!entry) return;
+    setTicketNumber(entry.ticket_number);
+    setCategory(entry.category);
+    setSubcategory(entry.subcategory);
+    setStatus(entry.status);
+    setHours(Math.floor(entry.time_logged_seconds / 3600));
+    setMinutes(Math.floor((entry.time_logged_seconds % 3600) / 60));
+    setComments(entry.comments);
+    setReason('');
+  }, [entry]);
+
+  const categories = [...new Set(tasks.map(task => task.category))].sort();
+  const subcategories = [...new Set(tasks.filter(task => task.category === category).map(task => task.subCategory))].sort();
+  const statuses = getSimpleDropdownData().statuses;
+
+  const handleSave = async () => {
+    if (!entry) return;
+
+    // Seconds below a minute are kept so an untouched time is not reported as changed
+    const timeLoggedSeconds = hours * 3600 + minutes * 60 + (entry.time_logged_seconds % 60);
+    const changes = getTicketChanges(entry, {
+      ticket_number: ticketNumber,
+      category,
+      subcategory,
+      status,
+      time_logged_seconds: timeLoggedSeconds,
+      comments
+    });
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await correctTicket(entry.id, changes, changedBy, reason);
+      toast({
+        title: "Ticket Updated",
+        description: `Ticket #${changes.ticket_number || entry.ticket_number} has been corrected`
+      });
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update ticket",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Correct Ticket</DialogTitle>
+          <DialogDescription>
+            Changes are recorded in the ticket's change log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="edit-ticket-number">Ticket Number *</Label>
+            <Input id="edit-ticket-number" value={ticketNumber} onChange={(e) => setTicketNumber(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Category *</Label>
+            <SearchableSelect
+              value={category}
+              onValueChange={(value) => { setCategory(value); setSubcategory(''); }}
+              options={categories.includes(category) || !category ? categories : [category, ...categories]}
+              placeholder="Category"
+              searchPlaceholder="Search categories..."
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Sub Category</Label>
+            <SearchableSelect
+              value={subcategory}
+              onValueChange={setSubcategory}
+              options={subcategories.includes(subcategory) || !subcategory ? subcategories : [subcategory, ...subcategories]}
+              placeholder="Sub Category"
+              searchPlaceholder="Search subcategories..."
+              disabled={!category}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Time Logged</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={hours}
+                onChange={(e) => setHours(Math.max(0, parseInt(e.target.value) || 0))}
+                aria-label="Hours"
+              />
+              <span className="text-sm text-muted-foreground">h</span>
+              <Input
+                type="number"
+                min={0}
+                max={59}
+                value={minutes}
+                onChange={(e) => setMinutes(Math.min(59, Math.max(0, parseInt(e.target.value) || 0)))}
+                aria-label="Minutes"
+              />
+              <span className="text-sm text-muted-foreground">m</span>
+            </div>
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="edit-comments">Comments</Label>
+            <Textarea id="edit-comments" value={comments} onChange={(e) => setComments(e.target.value)} />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="edit-reason">Reason for change</Label>
+            <Input
+              id="edit-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Mistyped ticket number"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !ticketNumber.trim() || !category.trim()}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,28 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@/utils/spreadsheetUtils";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Export button offering CSV or Excel
+ */
+export const ExportMenu = ({ onExport, label = "Export", disabled = false }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" disabled={disabled}>
+        <Download className="w-4 h-4 mr-2" />
+        {label}
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={() => onExport("csv")}>CSV (.csv)</DropdownMenuItem>
+      <DropdownMenuItem onClick={() => onExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
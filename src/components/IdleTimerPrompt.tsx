@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useIdleDetection } from "@/hooks/useIdleDetection";
+import { useToast } from "@/hooks/use-toast";
+import * as TimerStore from "@/services/PerformanceTimerService";
+import { getTaskWorkDate, saveSessionEdits } from "@/services/TimesheetSessionSync";
+import { getBreakTypes, recordBreak } from "@/services/BreakService";
+import type { BreakEntry, BreakType } from "@/services/BreakService";
+import { getIdleThresholdMinutes } from "@/services/IdleService";
+import type { IdleResolution } from "@/services/IdleService";
+import { formatMinutes } from "@/utils/formatUtils";
+import { toWorkDate } from "@/utils/dateHelpers";
+
+interface IdleTimerPromptProps {
+  employeeKey: string | null; // user key the timer spans are stored under
+  taskLabel?: (taskId: string) => string;
+  onBreakRecorded?: (entry: BreakEntry) => void;
+}
+
+/**
+ * Pauses the running timer when the employee goes idle and asks on return whether the
+ * idle time was work, a break or should be dropped. Every answer resumes the timer;
+ * closing the prompt drops the time and leaves the timer paused.
+ */
+export const IdleTimerPrompt = ({ employeeKey, taskLabel, onBreakRecorded }: IdleTimerPromptProps) => {
+  const { toast } = useToast();
+  const { employee } = useAuth();
+  // Off until the team's threshold is known
+  const [thresholdMinutes, setThresholdMinutes] = useState(0);
+  const [breakTypes, setBreakTypes] = useState<BreakType[]>([]);
+  const [breakType, setBreakType] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { idlePeriod, clearIdle } = useIdleDetection(employeeKey ? thresholdMinutes : 0);
+
+  useEffect(() => {
+    if (employee?.employeeId) getIdleThresholdMinutes(employee.employeeId).then(setThresholdMinutes);
+  }, [employee?.employeeId]);
+
+  useEffect(() => {
+    getBreakTypes().then(types => {
+      const active = types.filter(type => type.isActive);
+      setBreakTypes(active);
+      setBreakType(active[0]?.key || "");
+    });
+  }, []);
+
+  if (!idlePeriod || idlePeriod.endedAt === null) return null;
+
+  const { taskId, startedAt, endedAt } = idlePeriod;
+  const idleMinutes = Math.round((endedAt - startedAt) / 60000);
+  const label = taskLabel?.(taskId) || "your task";
+
+  const handleResolve = async (resolution: IdleResolution) => {
+    if (!employeeKey) return;
+
+    setSaving(true);
+    try {
+      if (resolution === "keep") {
+        // Put the idle time back on the task as timer time
+        await saveSessionEdits(employeeKey, [], [{
+          id: crypto.randomUUID(),
+          taskId,
+          workDate: getTaskWorkDate(taskId) || toWorkDate(new Date(startedAt)),
+          kind: "work",
+          startAt: startedAt,
+          endAt: endedAt,
+          source: "timer"
+        }]);
+      } else if (resolution === "break") {
+        onBreakRecorded?.(recordBreak(employeeKey, breakType, startedAt, endedAt));
+      }
+
+      if (TimerStore.getAllTimers().some(timer => timer.taskId === taskId)) {
+        TimerStore.resume(taskId);
+      }
+
+      toast({
+        title: "Timer Resumed",
+        description: resolution === "keep"
+          ? `${formatMinutes(idleMinutes)} kept on ${label}`
+          : resolution === "break"
+            ? `${formatMinutes(idleMinutes)} logged as ${breakTypes.find(type => type.key === breakType)?.label || "a break"}`
+            : `${formatMinutes(idleMinutes)} of idle time discarded`
+      });
+      clearIdle();
+    } catch (error) {
+      console.error("Error resolving idle time:", error);
+      toast({
+        title: "Error",
+        description: "The idle time could not be saved. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) clearIdle(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Were you away?</DialogTitle>
+          <DialogDescription>
+            Nothing happened on this page between {new Date(startedAt).toLocaleTimeString()} and {new Date(endedAt).toLocaleTimeString()},
+            so the timer for {label} was paused. What should these {formatMinutes(idleMinutes)} count as?
+          </DialogDescription>
+        </DialogHeader>
+        {breakTypes.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="idle-break-type">Break type</Label>
+            <Select value={breakType} onValueChange={setBreakType}>
+              <SelectTrigger id="idle-break-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {breakTypes.map(type => (
+                  <SelectItem key={type.key} value={type.key}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleResolve("discard")} disabled={saving}>
+            Discard
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve("break")} disabled={saving || !breakType}>
+            Log as Break
+          </Button>
+          <Button onClick={() => handleResolve("keep")} disabled={saving}>
+            Keep as Work
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Eye, EyeOff, RefreshCw, AlertTriangle, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getPasswordStrength, PASSWORD_SPECIAL_CHARACTERS } from "@/utils/passwordPolicy";
 
 interface Employee {
   id: string;
@@ -17,20 +18,21 @@ interface Employee {
   is_active: boolean;
   join_date: string;
   last_active: string;
-  password_hash: string;
 }
 
 interface PasswordResetModalProps {
   open: boolean;
   onClose: () => void;
   employee: Employee | null;
-  onPasswordReset: (employeeId: string, newPassword: string) => void;
+  // Resolves to false when the server refused the password
+  onPasswordReset: (employeeId: string, newPassword: string) => Promise<boolean>;
 }
 
 const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: PasswordResetModalProps) => {
   const [newPassword, setNewPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
   const generateSecurePassword = () => {
@@ -41,7 +43,7 @@ const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: Passwo
       const uppercase = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
       const lowercase = 'abcdefghijklmnopqrstuvwxyz';
       const numbers = '0123456789';
-      const special = '@$!%*?&';
+      const special = PASSWORD_SPECIAL_CHARACTERS;
       
       let password = '';
       password += uppercase[Math.floor(Math.random() * uppercase.length)];
@@ -62,29 +64,7 @@ const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: Passwo
     }, 500);
   };
 
-  const getPasswordStrength = (password: string) => {
-    let strength = 0;
-    let feedback = [];
-    
-    if (password.length >= 8) strength += 20;
-    else feedback.push('At least 8 characters');
-    
-    if (/[a-z]/.test(password)) strength += 20;
-    else feedback.push('Lowercase letter');
-    
-    if (/[A-Z]/.test(password)) strength += 20;
-    else feedback.push('Uppercase letter');
-    
-    if (/\d/.test(password)) strength += 20;
-    else feedback.push('Number');
-    
-    if (/[@$!%*?&]/.test(password)) strength += 20;
-    else feedback.push('Special character (@$!%*?&)');
-    
-    return { strength, feedback };
-  };
-
-  const handleReset = () => {
+  const handleReset = async () => {
     if (!employee || !newPassword) return;
     
     const { strength } = getPasswordStrength(newPassword);
@@ -97,7 +77,11 @@ const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: Passwo
       return;
     }
     
-    onPasswordReset(employee.id, newPassword);
+    setIsSaving(true);
+    const saved = await onPasswordReset(employee.id, newPassword);
+    setIsSaving(false);
+    if (!saved) return;
+
     setNewPassword('');
     onClose();
     
@@ -210,7 +194,7 @@ const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: Passwo
           <Alert>
             <AlertTriangle className="w-4 h-4" />
             <AlertDescription>
-              The employee will need to use this new password for their next login.
+              The employee will sign in with this password once and then choose a new one.
             </AlertDescription>
           </Alert>
 
@@ -221,7 +205,7 @@ const PasswordResetModal = ({ open, onClose, employee, onPasswordReset }: Passwo
             </Button>
             <Button 
               onClick={handleReset}
-              disabled={!isValidPassword}
+              disabled={!isValidPassword || isSaving}
               className="bg-primary hover:bg-primary/90"
             >
               Reset Password
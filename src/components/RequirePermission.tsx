@@ -0,0 +1,32 @@
+import { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import type { Permission } from "@/services/RoleService";
+
+interface RequirePermissionProps {
+  // Permission needed for the route; any signed-in employee when omitted
+  permission?: Permission;
+  children: ReactNode;
+}
+
+/**
+ * Route guard driven by the permissions of the session's role. Signed-out visitors go to the login page,
+ * signed-in employees without the permission go to the dashboard.
+ */
+const RequirePermission = ({ permission, children }: RequirePermissionProps) => {
+  const { employee, loading, can } = useAuth();
+
+  if (loading) return null;
+
+  if (!employee) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, ShieldCheck, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteRole,
+  getPermissionCatalog,
+  saveRole,
+  SUPER_USER_ROLE,
+  type Permission,
+  type PermissionInfo,
+  type Role
+} from "@/services/RoleService";
+
+interface RolePermissionsSettingsProps {
+  roles: Role[];
+  onRolesChanged: () => void;
+}
+
+// Lower-case letters, digits and dashes, like the built-in role names
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
+const getActor = () => localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "";
+
+// Which permissions each role bundle grants; the super-user bundle is shown but locked
+const RolePermissionsSettings = ({ roles, onRolesChanged }: RolePermissionsSettingsProps) => {
+  const { toast } = useToast();
+  const [catalog, setCatalog] = useState<PermissionInfo[]>([]);
+  const [drafts, setDrafts] = useState<Role[]>(roles);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [newRole, setNewRole] = useState({ name: "", label: "" });
+
+  useEffect(() => {
+    getPermissionCatalog().then(setCatalog);
+  }, []);
+
+  useEffect(() => {
+    setDrafts(roles);
+  }, [roles]);
+
+  const categories = [...new Set(catalog.map(permission => permission.category))];
+
+  const togglePermission = (roleName: string, permission: Permission, granted: boolean) => {
+    setDrafts(prev => prev.map(role => role.name !== roleName ? role : {
+      ...role,
+      permissions: granted
+        ? [...role.permissions, permission]
+        : role.permissions.filter(existing => existing !== permission)
+    }));
+  };
+
+  const handleSave = async (role: Role) => {
+    setSavingRole(role.name);
+    try {
+      await saveRole(role, getActor());
+      toast({ title: "Role Saved", description: `${role.label} now has ${role.permissions.length} permission(s)` });
+      onRolesChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the role",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`Delete the ${role.label} role?`)) return;
+
+    try {
+      await deleteRole(role.name, getActor());
+      toast({ title: "Role Deleted", description: `${role.label} was removed` });
+      onRolesChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = newRole.name.trim().toLowerCase();
+    const label = newRole.label.trim();
+
+    if (!ROLE_NAME_PATTERN.test(name) || !label) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a label and a name of lower-case letters, digits and dashes",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (roles.some(role => role.name === name)) {
+      toast({ title: "Validation Error", description: `A role named ${name} already exists`, variant: "destructive" });
+      return;
+    }
+
+    await handleSave({ name, label, description: "", isSystem: false, permissions: [] });
+    setNewRole({ name: "", label: "" });
+  };
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Roles & Permissions
+        </CardTitle>
+        <CardDescription>
+          What each role is allowed to do. Changes apply the next time an employee with the role signs in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {drafts.map(role => (
+                  <TableHead key={role.name} className="text-center">{role.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map(category => [
+                <TableRow key={category}>
+                  <TableCell colSpan={drafts.length + 1} className="font-semibold text-muted-foreground bg-muted/40">
+                    {category}
+                  </TableCell>
+                </TableRow>,
+                ...catalog.filter(permission => permission.category === category).map(permission => (
+                  <TableRow key={permission.key}>
+                    <TableCell title={permission.key}>{permission.label}</TableCell>
+                    {drafts.map(role => (
+                      <TableCell key={role.name} className="text-center">
+                        <Checkbox
+                          checked={role.permissions.includes(permission.key)}
+                          onCheckedChange={(checked) => togglePermission(role.name, permission.key, checked === true)}
+                          disabled={role.name === SUPER_USER_ROLE}
+                          aria-label={`${permission.label} for ${role.label}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ])}
+              <TableRow>
+                <TableCell />
+                {drafts.map(role => (
+                  <TableCell key={role.name} className="text-center">
+                    {role.name !== SUPER_USER_ROLE && (
+                      <div className="flex justify-center gap-1">
+                        <Button size="sm" onClick={() => handleSave(role)} disabled={savingRole === role.name}>
+                          <Save className="w-4 h-4 mr-1" />
+                          {savingRole === role.name ? "Saving..." : "Save"}
+                        </Button>
+                        {!role.isSystem && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleDelete(role)}
+                            className="w-8 h-8 text-destructive hover:text-destructive"
+                            title="Delete Role"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            placeholder="Role label (e.g. Team Lead)"
+            value={newRole.label}
+            onChange={(e) => setNewRole(prev => ({ ...prev, label: e.target.value }))}
+            className="w-56"
+          />
+          <Input
+            placeholder="Role name (e.g. team-lead)"
+            value={newRole.name}
+            onChange={(e) => setNewRole(prev => ({ ...prev, name: e.target.value }))}
+            className="w-56"
+          />
+          <Button variant="outline" onClick={handleAdd}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Role
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RolePermissionsSettings;
@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarDays, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { toWorkDate } from "@/utils/dateHelpers";
+import type { Team } from "@/services/TeamService";
+import {
+  deleteAssignment,
+  deleteHoliday,
+  EMPTY_CALENDAR,
+  getScheduleCalendar,
+  getShiftSeconds,
+  saveAssignment,
+  saveHoliday,
+  saveSchedule,
+  type ScheduleCalendar,
+  type ShiftSchedule,
+  type ShiftScheduleDraft
+} from "@/services/ScheduleService";
+
+interface ScheduleSettingsProps {
+  teams: Team[];
+  employees: { id: string; employee_id: string; full_name: string; is_active: boolean }[];
+}
+
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 7, label: "Sun" }
+];
+
+const NEW_SCHEDULE: ShiftScheduleDraft = {
+  name: "",
+  startTime: "09:00",
+  endTime: "18:00",
+  workingDays: [1, 2, 3, 4, 5],
+  breakMinutes: 60,
+  isActive: true
+};
+
+// Assignment targets are "employee:<id>" or "team:<id>"
+const parseTarget = (target: string) => {
+  const [kind, id] = target.split(":");
+  return { employeeId: kind === "employee" ? id : null, teamId: kind === "team" ? id : null };
+};
+
+// Shift patterns, who works which, and the company holiday calendar
+const ScheduleSettings = ({ teams, employees }: ScheduleSettingsProps) => {
+  const { toast } = useToast();
+  const [calendar, setCalendar] = useState<ScheduleCalendar>(EMPTY_CALENDAR);
+  const [drafts, setDrafts] = useState<ShiftScheduleDraft[]>([]);
+  const [newAssignment, setNewAssignment] = useState({ target: "", scheduleId: "", fteRatio: 1, validFrom: toWorkDate() });
+  const [newHoliday, setNewHoliday] = useState({ date: "", name: "" });
+
+  const loadCalendar = async () => {
+    const loaded = await getScheduleCalendar();
+    setCalendar(loaded);
+    setDrafts([...loaded.schedules, NEW_SCHEDULE]);
+  };
+
+  useEffect(() => {
+    loadCalendar();
+  }, []);
+
+  const notify = (saved: boolean, title: string, description: string) => {
+    toast(saved ? { title, description } : {
+      title: "Error",
+      description: "The change could not be saved",
+      variant: "destructive"
+    });
+    if (saved) loadCalendar();
+  };
+
+  const updateDraft = (index: number, updates: Partial<ShiftScheduleDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...updates } : draft));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = drafts[index].workingDays;
+    updateDraft(index, { workingDays: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const handleSaveSchedule = async (schedule: ShiftScheduleDraft) => {
+    if (!schedule.name.trim() || schedule.startTime === schedule.endTime) {
+      toast({ title: "Validation Error", description: "Enter a name and different start and end times", variant: "destructive" });
+      return;
+    }
+    notify(await saveSchedule(schedule), "Schedule Saved", `${schedule.name.trim()} was saved`);
+  };
+
+  const handleAddAssignment = async () => {
+    if (!newAssignment.target || !newAssignment.scheduleId || !newAssignment.validFrom) {
+      toast({ title: "Validation Error", description: "Choose who, which schedule and from when", variant: "destructive" });
+      return;
+    }
+
+    // A new assignment ends the one it replaces
+    const { employeeId, teamId } = parseTarget(newAssignment.target);
+    const current = calendar.assignments.find(assignment =>
+      assignment.employeeId === employeeId && assignment.teamId === teamId && assignment.validTo === null &&
+      assignment.validFrom < newAssignment.validFrom);
+    if (current) {
+      await saveAssignment({ ...current, validTo: newAssignment.validFrom });
+    }
+
+    const saved = await saveAssignment({
+      scheduleId: newAssignment.scheduleId,
+      employeeId,
+      teamId,
+      fteRatio: newAssignment.fteRatio,
+      validFrom: newAssignment.validFrom,
+      validTo: null
+    });
+    notify(saved, "Schedule Assigned", "The schedule applies from " + newAssignment.validFrom);
+    if (saved) setNewAssignment(prev => ({ ...prev, target: "" }));
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) {
+      toast({ title: "Validation Error", description: "Enter a date and a name", variant: "destructive" });
+      return;
+    }
+    const saved = await saveHoliday(newHoliday);
+    notify(saved, "Holiday Added", `${newHoliday.name.trim()} on ${newHoliday.date}`);
+    if (saved) setNewHoliday({ date: "", name: "" });
+  };
+
+  const scheduleName = (id: string) => calendar.schedules.find(schedule => schedule.id === id)?.name || "-";
+
+  const targetName = (employeeId: string | null, teamId: string | null) => {
+    if (teamId) return `Team: ${teams.find(team => team.id === teamId)?.name || teamId}`;
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.full_name} (${employee.employee_id})` : employeeId || "-";
+  };
+
+  const formatShift = (schedule: Pick<ShiftSchedule, "startTime" | "endTime" | "breakMinutes">) =>
+    `${((getShiftSeconds(schedule) - schedule.breakMinutes * 60) / 3600).toFixed(1)}h`;
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Shift Schedules & Holidays
+        </CardTitle>
+        <CardDescription>
+          Expected hours for utilization and remaining time. People without a schedule work 09:00 to 18:00, Monday to Friday, with an hour's break.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div>
+          <h3 className="font-semibold mb-2">Schedules</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Start</TableHead>
+                <TableHead>End</TableHead>
+                <TableHead>Working Days</TableHead>
+                <TableHead>Break (min)</TableHead>
+                <TableHead>Work Hours</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((schedule, index) => (
+                <TableRow key={schedule.id || "new"}>
+                  <TableCell>
+                    <Input
+                      value={schedule.name}
+                      placeholder="New schedule"
+                      onChange={(e) => updateDraft(index, { name: e.target.value })}
+                      className="w-36"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="time" value={schedule.startTime} onChange={(e) => updateDraft(index, { startTime: e.target.value })} className="w-28" />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="time" value={schedule.endTime} onChange={(e) => updateDraft(index, { endTime: e.target.value })} className="w-28" />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {WEEKDAYS.map(({ day, label }) => (
+                        <Button
+                          key={day}
+                          size="sm"
+                          variant={schedule.workingDays.includes(day) ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() => toggleDay(index, day)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={schedule.breakMinutes}
+                      onChange={(e) => updateDraft(index, { breakMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20"
+                    />
+                  </TableCell>
+                  <TableCell>{formatShift(schedule)}</TableCell>
+                  <TableCell>
+                    <Switch checked={schedule.isActive} onCheckedChange={(checked) => updateDraft(index, { isActive: checked })} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" onClick={() => handleSaveSchedule(schedule)}>
+                      {schedule.id ? <Save className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+                      {schedule.id ? "Save" : "Add"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">Assignments</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee or Team</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Part-time Ratio</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Until</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {calendar.assignments.map(assignment => (
+                <TableRow key={assignment.id}>
+                  <TableCell>{targetName(assignment.employeeId, assignment.teamId)}</TableCell>
+                  <TableCell>{scheduleName(assignment.scheduleId)}</TableCell>
+                  <TableCell>{Math.round(assignment.fteRatio * 100)}%</TableCell>
+                  <TableCell>{assignment.validFrom}</TableCell>
+                  <TableCell>{assignment.validTo || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="w-8 h-8 text-destructive hover:text-destructive"
+                      onClick={async () => notify(await deleteAssignment(assignment.id), "Assignment Removed", scheduleName(assignment.scheduleId))}
+                      title="Remove Assignment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-end gap-2 mt-4">
+            <div className="space-y-1">
+              <Label>Employee or Team</Label>
+              <Select value={newAssignment.target} onValueChange={(value) => setNewAssignment(prev => ({ ...prev, target: value }))}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose who" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.filter(team => team.isActive).map(team => (
+                    <SelectItem key={team.id} value={`team:${team.id}`}>Team: {team.name}</SelectItem>
+                  ))}
+                  {employees.filter(employee => employee.is_active).map(employee => (
+                    <SelectItem key={employee.id} value={`employee:${employee.id}`}>
+                      {employee.full_name} ({employee.employee_id})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Schedule</Label>
+              <Select value={newAssignment.scheduleId} onValueChange={(value) => setNewAssignment(prev => ({ ...prev, scheduleId: value }))}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Choose schedule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {calendar.schedules.filter(schedule => schedule.isActive).map(schedule => (
+                    <SelectItem key={schedule.id} value={schedule.id}>{schedule.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Part-time %</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={Math.round(newAssignment.fteRatio * 100)}
+                onChange={(e) => setNewAssignment(prev => ({
+                  ...prev,
+                  fteRatio: Math.min(100, Math.max(1, parseInt(e.target.value) || 100)) / 100
+                }))}
+                className="w-24"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={newAssignment.validFrom}
+                onChange={(e) => setNewAssignment(prev => ({ ...prev, validFrom: e.target.value }))}
+                className="w-40"
+              />
+            </div>
+            <Button variant="outline" onClick={handleAddAssignment}>
+              <Plus className="w-4 h-4 mr-1" />
+              Assign
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">Holidays</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {calendar.holidays.map(holiday => (
+                <TableRow key={holiday.id}>
+                  <TableCell>{holiday.date}</TableCell>
+                  <TableCell>{holiday.name}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="w-8 h-8 text-destructive hover:text-destructive"
+                      onClick={async () => notify(await deleteHoliday(holiday.id), "Holiday Removed", holiday.name)}
+                      title="Remove Holiday"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-end gap-2 mt-4">
+            <Input
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+              className="w-40"
+            />
+            <Input
+              placeholder="Holiday name"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+              className="w-56"
+            />
+            <Button variant="outline" onClick={handleAddHoliday}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Holiday
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduleSettings;
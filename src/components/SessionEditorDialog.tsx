@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, Scissors, Merge, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { loadSessions, saveSessionEdits } from '@/services/TimesheetSessionSync';
+import { formatAHT } from '@/services/UserStatsService';
+import { addDaysToWorkDate, fromWorkDate, toWorkDate } from '@/utils/dateHelpers';
+import {
+  EditableSpan,
+  findFreeSlot,
+  getSpanDurationMs,
+  getSpanError,
+  mergeSpans,
+  splitSpan,
+  validateSpans
+} from '@/utils/sessionSpans';
+
+interface SessionEditorDialogProps {
+  taskId: string | null;
+  taskLabel: string;
+  employeeId: string;
+  workDate: string;
+  onClose: () => void;
+}
+
+// "HH:mm:ss" in local time
+const toTimeInput = (ms: number) => {
+  const date = new Date(ms);
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map(part => part.toString().padStart(2, '0'))
+    .join(':');
+};
+
+const fromTimeInput = (value: string, dayStart: number): number | null => {
+  const [hours, minutes, seconds = '0'] = value.split(':');
+  if (hours === undefined || minutes === undefined) return null;
+  return dayStart + ((parseInt(hours) * 60 + parseInt(minutes)) * 60 + parseInt(seconds)) * 1000;
+};
+
+export const SessionEditorDialog: React.FC<SessionEditorDialogProps> = ({ taskId, taskLabel, employeeId, workDate, onClose }) => {
+  const [original, setOriginal] = useState<EditableSpan[]>([]);
+  const [spans, setSpans] = useState<EditableSpan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [manualStart, setManualStart] = useState('');
+  const [manualEnd, setManualEnd] = useState('');
+  const [manualMinutes, setManualMinutes] = useState(15);
+  const [now, setNow] = useState(Date.now());
+
+  const dayStart = fromWorkDate(workDate).getTime();
+  const dayEnd = fromWorkDate(addDaysToWorkDate(workDate, 1)).getTime();
+  const isToday = workDate === toWorkDate();
+
+  useEffect(() => {
+    if (!taskId || !employeeId) return;
+    setLoading(true);
+    setNow(Date.now());
+    loadSessions(employeeId, workDate)
+      .then(loaded => {
+        setOriginal(loaded);
+        setSpans(loaded);
+      })
+      .finally(() => setLoading(false));
+  }, [taskId, employeeId, workDate]);
+
+  const taskSpans = useMemo(
+    () => spans.filter(span => span.taskId === taskId).sort((a, b) => a.startAt - b.startAt),
+    [spans, taskId]
+  );
+  const errors = useMemo(() => validateSpans(spans, now, dayStart, dayEnd), [spans, now, dayStart, dayEnd]);
+  const hasErrors = taskSpans.some(span => errors[span.id]);
+
+  const updateSpan = (id: string, updates: Partial<EditableSpan>) => {
+    setSpans(prev => prev.map(span => span.id === id ? { ...span, ...updates } : span));
+  };
+
+  const handleSplit = (span: EditableSpan) => {
+    const midpoint = span.startAt + Math.floor(getSpanDurationMs(span) / 2000) * 1000;
+    const parts = splitSpan(span, midpoint, crypto.randomUUID());
+    if (!parts) return;
+    setSpans(prev => prev.flatMap(existing => existing.id === span.id ? parts : [existing]));
+  };
+
+  const handleMergeWithNext = (span: EditableSpan, next: EditableSpan) => {
+    const merged = mergeSpans(span, next);
+    if (!merged) return;
+    setSpans(prev => prev
+      .filter(existing => existing.id !== next.id)
+      .map(existing => existing.id === span.id ? merged : existing));
+  };
+
+  const handleDelete = (id: string) => {
+    setSpans(prev => prev.filter(span => span.id !== id));
+  };
+
+  const addManualSpan = (startAt: number, endAt: number) => {
+    if (!taskId) return;
+    const span: EditableSpan = {
+      id: crypto.randomUUID(),
+      taskId,
+      workDate,
+      kind: 'work',
+      startAt,
+      endAt,
+      source: 'manual'
+    };
+    const currentNow = Date.now();
+    const error = getSpanError(span, spans, currentNow, dayStart, dayEnd);
+    if (error) {
+      toast({ title: "Cannot Add Time", description: error, variant: "destructive" });
+      return;
+    }
+    setNow(currentNow);
+    setSpans(prev => [...prev, span]);
+  };
+
+  const handleAddRange = () => {
+    const startAt = fromTimeInput(manualStart, dayStart);
+    const endAt = fromTimeInput(manualEnd, dayStart);
+    if (startAt == null || endAt == null) {
+      toast({ title: "Missing Time", description: "Enter both a start and an end time", variant: "destructive" });
+      return;
+    }
+    addManualSpan(startAt, endAt);
+  };
+
+  const handleAddDuration = () => {
+    const slot = findFreeSlot(spans, manualMinutes * 60 * 1000, Math.min(Date.now(), dayEnd), dayStart);
+    if (!slot) {
+      toast({
+        title: "No Free Time",
+        description: `There is no free ${manualMinutes} minute slot earlier ${isToday ? 'today' : 'that day'}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    addManualSpan(slot.startAt, slot.endAt);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSessionEdits(employeeId, original, spans);
+      toast({ title: "Time Updated", description: `Time for ${taskLabel} has been updated` });
+      onClose();
+    } catch (error) {
+      console.error('Error saving session edits:', error);
+      toast({ title: "Error", description: "Failed to save time changes", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalMs = taskSpans
+    .filter(span => span.kind === 'work')
+    .reduce((total, span) => total + getSpanDurationMs(span, now), 0);
+
+  return (
+    <Dialog open={!!taskId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Time</DialogTitle>
+          <DialogDescription>
+            {taskLabel} • {formatAHT(Math.floor(totalMs / 1000))} logged {isToday ? 'today' : `on ${fromWorkDate(workDate).toLocaleDateString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-6">Loading sessions...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+              {taskSpans.length === 0 ? (
+                <div className="text-center py-4 text-sm text-muted-foreground">No time recorded for this task yet.</div>
+              ) : taskSpans.map((span, index) => {
+                const next = taskSpans[index + 1];
+                const isOpen = span.endAt == null;
+                return (
+                  <div key={span.id} className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <Input
+                        type="time"
+                        step={1}
+                        value={toTimeInput(span.startAt)}
+                        onChange={(e) => {
+                          const startAt = fromTimeInput(e.target.value, dayStart);
+                          if (startAt != null) updateSpan(span.id, { startAt });
+                        }}
+                        disabled={isOpen}
+                        className="h-7 w-28 text-xs"
+                        aria-label="Start time"
+                      />
+                      <span>–</span>
+                      {isOpen ? (
+                        <span className="w-28 text-muted-foreground">In progress</span>
+                      ) : (
+                        <Input
+                          type="time"
+                          step={1}
+                          value={toTimeInput(span.endAt!)}
+                          onChange={(e) => {
+                            const endAt = fromTimeInput(e.target.value, dayStart);
+                            if (endAt != null) updateSpan(span.id, { endAt });
+                          }}
+                          className="h-7 w-28 text-xs"
+                          aria-label="End time"
+                        />
+                      )}
+                      <span className="w-16 font-mono">{formatAHT(Math.floor(getSpanDurationMs(span, now) / 1000))}</span>
+                      {span.kind === 'break' && <Badge variant="outline" className="text-xs">Break</Badge>}
+                      {span.source === 'manual' && <Badge variant="secondary" className="text-xs">Manual</Badge>}
+                      <div className="flex gap-1 ml-auto">
+                        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => handleSplit(span)} disabled={isOpen} title="Split in two">
+                          <Scissors className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2"
+                          onClick={() => next && handleMergeWithNext(span, next)}
+                          disabled={isOpen || !next || next.endAt == null || next.kind !== span.kind}
+                          title="Merge with next"
+                        >
+                          <Merge className="w-3 h-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => handleDelete(span.id)} disabled={isOpen} title="Delete">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    {errors[span.id] && <div className="text-xs text-destructive">{errors[span.id]}</div>}
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Add time manually</Label>
+              <Tabs defaultValue="range">
+                <TabsList>
+                  <TabsTrigger value="range">Start &amp; End</TabsTrigger>
+                  <TabsTrigger value="duration">Duration</TabsTrigger>
+                </TabsList>
+                <TabsContent value="range">
+                  <div className="flex items-center gap-2">
+                    <Input type="time" step={1} value={manualStart} onChange={(e) => setManualStart(e.target.value)} className="w-32" aria-label="Manual start time" />
+                    <span>–</span>
+                    <Input type="time" step={1} value={manualEnd} onChange={(e) => setManualEnd(e.target.value)} className="w-32" aria-label="Manual end time" />
+                    <Button size="sm" onClick={handleAddRange}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                </TabsContent>
+                <TabsContent value="duration">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={manualMinutes}
+                      onChange={(e) => setManualMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-24"
+                      aria-label="Minutes"
+                    />
+                    <span className="text-sm text-muted-foreground">minutes, placed in the latest free slot</span>
+                    <Button size="sm" onClick={handleAddDuration}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || hasErrors}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,79 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { HeaderMapping, ImportedSheet } from "@/utils/spreadsheetUtils";
+
+interface SheetColumnMapperProps {
+  sheets: ImportedSheet[];
+  sheetIndex: number;
+  columns: string[];
+  mapping: HeaderMapping;
+  onSheetChange: (index: number) => void;
+  onMappingChange: (mapping: HeaderMapping) => void;
+}
+
+// Select items cannot hold an empty value
+const NOT_MAPPED = "__not_mapped__";
+
+/**
+ * Pick the sheet of an uploaded workbook and the header each template column is read from
+ */
+export const SheetColumnMapper = ({
+  sheets,
+  sheetIndex,
+  columns,
+  mapping,
+  onSheetChange,
+  onMappingChange
+}: SheetColumnMapperProps) => {
+  const headers = (sheets[sheetIndex]?.rows[0] || []).filter(Boolean);
+
+  return (
+    <div className="space-y-4 p-4 bg-muted/30 rounded-lg border border-border">
+      {sheets.length > 1 && (
+        <div className="space-y-2">
+          <Label>Sheet</Label>
+          <Select value={String(sheetIndex)} onValueChange={(value) => onSheetChange(Number(value))}>
+            <SelectTrigger className="w-full md:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map((sheet, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {sheet.name} ({Math.max(0, sheet.rows.length - 1)} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-sm">Column Mapping</h4>
+        <p className="text-xs text-foreground-muted">
+          Choose which column of your file fills each field. Columns with matching names are mapped for you.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {columns.map(column => (
+            <div key={column} className="flex items-center justify-between gap-2 text-sm">
+              <code className="bg-muted px-1 rounded text-xs">{column}</code>
+              <Select
+                value={mapping[column] || NOT_MAPPED}
+                onValueChange={(value) => onMappingChange({ ...mapping, [column]: value === NOT_MAPPED ? "" : value })}
+              >
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                  {headers.map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Target } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { getSlaTargets, getSlaTicketRows, getTicketSla, SLA_STATUS_LABELS } from "@/services/SlaService";
+import type { TicketSla } from "@/services/SlaService";
+import { getPublishedDropdownData } from "@/services/DropdownService";
+import { addDaysToWorkDate, toWorkDate } from "@/utils/dateHelpers";
+
+// Tickets still open after this many days are left to the SLA report
+const LOOKBACK_DAYS = 30;
+
+const MAX_TICKETS = 5;
+
+/**
+ * Open tickets the signed-in user may see that are at risk of missing their SLA or already past it
+ */
+export const SlaAtRiskWidget = () => {
+  const [tickets, setTickets] = useState<TicketSla[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    Promise.all([getSlaTargets(), getPublishedDropdownData(), getSlaTicketRows(addDaysToWorkDate(toWorkDate(), -LOOKBACK_DAYS))])
+      .then(([targets, lists, rows]) => {
+        setTickets(getTicketSla(rows, targets, lists.clientTypes, now)
+          .filter(ticket => ticket.completedAt === null && (ticket.status === "at-risk" || ticket.status === "breached")));
+      })
+      .finally(() => setLoading(false));
+  }, [now]);
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Tickets at Risk
+          {!loading && tickets.length > 0 && <Badge variant="destructive" className="ml-2">{tickets.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Open tickets close to or past their SLA target, soonest due first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-foreground-muted animate-pulse">Loading tickets...</p>
+        ) : tickets.length === 0 ? (
+          <p className="text-sm text-foreground">None - every open ticket is on track</p>
+        ) : (
+          <div className="space-y-2">
+            {tickets.slice(0, MAX_TICKETS).map(ticket => (
+              <div key={ticket.ticketNumber} className="flex items-center justify-between gap-4 text-sm">
+                <div>
+                  <p className="font-medium">#{ticket.ticketNumber}</p>
+                  <p className="text-foreground-muted">{[ticket.category, ticket.subCategory].filter(Boolean).join(" - ")}</p>
+                </div>
+                <div className="flex items-center gap-2 text-right">
+                  <span className={ticket.status === "breached" ? "text-destructive" : "text-warning"}>
+                    {ticket.dueAt < now
+                      ? `${formatDistance(ticket.dueAt, now)} overdue`
+                      : `due in ${formatDistance(ticket.dueAt, now)}`}
+                  </span>
+                  <Badge variant={ticket.status === "breached" ? "destructive" : "secondary"}>
+                    {SLA_STATUS_LABELS[ticket.status]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+            {tickets.length > MAX_TICKETS && (
+              <p className="text-xs text-foreground-muted">and {tickets.length - MAX_TICKETS} more</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Target } from "lucide-react";
+import { format } from "date-fns";
+import { getSlaTargets, getSlaTicketRows, getTicketSla, SLA_STATUS_LABELS } from "@/services/SlaService";
+import type { SlaStatus, TicketSla } from "@/services/SlaService";
+import { getPublishedDropdownData } from "@/services/DropdownService";
+import { addDaysToWorkDate, fromWorkDate } from "@/utils/dateHelpers";
+import { formatHours } from "@/utils/formatUtils";
+
+interface ReportEmployee {
+  id: string; // employee id, e.g. EMP001
+  name: string;
+  email: string | null;
+}
+
+interface SlaReportProps {
+  startDate: string; // work dates, inclusive
+  endDate: string;
+  employees: ReportEmployee[];
+  refreshKey?: unknown;
+}
+
+const slaStatusVariant = (status: SlaStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "met": return "default";
+    case "breached": return "destructive";
+    case "at-risk": return "secondary";
+    default: return "outline";
+  }
+};
+
+// Ticket history stores the same user key as timesheet sessions: full name, employee id or email
+const isReportEmployee = (employees: ReportEmployee[], userKey: string) =>
+  employees.some(employee => [employee.id, employee.name, employee.email].includes(userKey));
+
+/**
+ * Tickets received in the report period against their SLA targets
+ */
+export const SlaReport = ({ startDate, endDate, employees, refreshKey }: SlaReportProps) => {
+  const [tickets, setTickets] = useState<TicketSla[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([getSlaTargets(), getPublishedDropdownData(), getSlaTicketRows(startDate)])
+      .then(([targets, lists, rows]) => {
+        const from = fromWorkDate(startDate).getTime();
+        const to = fromWorkDate(addDaysToWorkDate(endDate, 1)).getTime();
+        setTickets(getTicketSla(rows, targets, lists.clientTypes)
+          .filter(ticket => ticket.receivedAt >= from && ticket.receivedAt < to));
+      })
+      .finally(() => setLoading(false));
+  }, [startDate, endDate, refreshKey]);
+
+  const visibleTickets = tickets.filter(ticket => ticket.userIds.some(userKey => isReportEmployee(employees, userKey)));
+  const count = (status: SlaStatus) => visibleTickets.filter(ticket => ticket.status === status).length;
+  const closed = count("met") + count("breached");
+
+  return (
+    <Card className="mt-8 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          SLA Compliance
+        </CardTitle>
+        <CardDescription>
+          Tickets received in this period, from received to completed, against the target of their task or client type priority.
+          {!loading && closed > 0 && ` ${Math.round((count("met") / closed) * 100)}% of completed tickets met their target.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!loading && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(SLA_STATUS_LABELS) as SlaStatus[]).map(status => (
+              <Badge key={status} variant={slaStatusVariant(status)}>
+                {SLA_STATUS_LABELS[status]}: {count(status)}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2">Ticket</th>
+                <th className="text-left py-2">Task</th>
+                <th className="text-left py-2">Client Type</th>
+                <th className="text-left py-2">Received</th>
+                <th className="text-left py-2">Due</th>
+                <th className="text-left py-2">Completed</th>
+                <th className="text-left py-2">Elapsed / Target</th>
+                <th className="text-left py-2">SLA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={8} className="py-8 text-center text-foreground-muted">
+                    <div className="animate-pulse">Loading tickets...</div>
+                  </td>
+                </tr>
+              ) : visibleTickets.length > 0 ? (
+                visibleTickets.map(ticket => (
+                  <tr key={ticket.ticketNumber} className="border-b border-border">
+                    <td className="py-2 font-medium">#{ticket.ticketNumber}</td>
+                    <td className="py-2">{[ticket.category, ticket.subCategory].filter(Boolean).join(" - ")}</td>
+                    <td className="py-2">
+                      {ticket.clientType ? `${ticket.clientType}${ticket.priority ? ` (${ticket.priority})` : ""}` : "—"}
+                    </td>
+                    <td className="py-2">{format(ticket.receivedAt, "MMM d, HH:mm")}</td>
+                    <td className="py-2">{format(ticket.dueAt, "MMM d, HH:mm")}</td>
+                    <td className="py-2">{ticket.completedAt ? format(ticket.completedAt, "MMM d, HH:mm") : "Open"}</td>
+                    <td className="py-2">{formatHours(ticket.elapsedHours)} / {formatHours(ticket.targetHours)}</td>
+                    <td className="py-2">
+                      <Badge variant={slaStatusVariant(ticket.status)}>{SLA_STATUS_LABELS[ticket.status]}</Badge>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} className="py-8 text-center text-foreground-muted">
+                    No tickets with an SLA target were received during this timeframe.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
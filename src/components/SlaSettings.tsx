@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Target, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deleteSlaTarget, getSlaTargets, saveSlaTarget, type SlaTarget } from "@/services/SlaService";
+import { getPublishedDropdownData } from "@/services/DropdownService";
+import { getTaskCatalog } from "@/services/TaskService";
+import type { TaskWithAHT } from "@/types/dropdown";
+
+// Targets being edited; hours stay text so a field can be cleared while typing
+interface EditableTarget extends SlaTarget {
+  key: string;
+  hours: string;
+}
+
+const ALL_SUBCATEGORIES = "__all__";
+
+const toEditable = (target: SlaTarget): EditableTarget => ({
+  ...target,
+  key: target.id || crypto.randomUUID(),
+  hours: target.targetHours > 0 ? String(target.targetHours) : ""
+});
+
+// Hours allowed from receiving a ticket to completing it, per client type priority and per task
+const SlaSettings = () => {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<EditableTarget[]>([]);
+  const [priorities, setPriorities] = useState<string[]>([]);
+  const [tasks, setTasks] = useState<TaskWithAHT[]>([]);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getSlaTargets(), getPublishedDropdownData(), getTaskCatalog()]).then(([saved, lists, catalog]) => {
+      // Every priority of the client types gets a row, whether or not it has a target yet
+      const names = [...new Set([
+        ...lists.clientTypes.map(type => type.priority).filter(Boolean),
+        ...saved.map(target => target.priority).filter((priority): priority is string => !!priority)
+      ])];
+      setPriorities(names);
+      setTasks(catalog);
+      setTargets([
+        ...saved.map(toEditable),
+        ...names
+          .filter(name => !saved.some(target => target.priority === name))
+          .map(name => toEditable({ priority: name, category: null, subCategory: null, targetHours: 0 }))
+      ]);
+    });
+  }, []);
+
+  const updateTarget = (key: string, updates: Partial<EditableTarget>) => {
+    setTargets(prev => prev.map(target => target.key === key ? { ...target, ...updates } : target));
+  };
+
+  const describe = (target: EditableTarget) =>
+    target.priority
+      ? `${target.priority} priority`
+      : [target.category, target.subCategory].filter(Boolean).join(" - ");
+
+  const handleSave = async (target: EditableTarget) => {
+    const hours = parseFloat(target.hours);
+    if (!target.priority && !target.category) {
+      toast({ title: "Validation Error", description: "Pick a category for the task target", variant: "destructive" });
+      return;
+    }
+    if (!(hours > 0)) {
+      toast({ title: "Validation Error", description: "Target hours must be more than 0", variant: "destructive" });
+      return;
+    }
+    if (targets.some(other => other.key !== target.key && other.id && !other.priority &&
+      other.category === target.category && (other.subCategory || null) === (target.subCategory || null))) {
+      toast({ title: "Validation Error", description: `${describe(target)} already has a target`, variant: "destructive" });
+      return;
+    }
+
+    setSavingKey(target.key);
+    const saved = await saveSlaTarget({ ...target, targetHours: hours });
+    setSavingKey(null);
+
+    if (saved) {
+      updateTarget(target.key, { id: saved.id, targetHours: saved.targetHours, hours: String(saved.targetHours) });
+    }
+
+    toast(saved ? {
+      title: "SLA Target Saved",
+      description: `${describe(target)} tickets are due ${hours} hour(s) after they are received`
+    } : {
+      title: "Error",
+      description: "Failed to save the SLA target",
+      variant: "destructive"
+    });
+  };
+
+  const handleDelete = async (target: EditableTarget) => {
+    if (target.id) {
+      setSavingKey(target.key);
+      const deleted = await deleteSlaTarget(target.id);
+      setSavingKey(null);
+
+      if (!deleted) {
+        toast({ title: "Error", description: "Failed to delete the SLA target", variant: "destructive" });
+        return;
+      }
+    }
+
+    setTargets(prev => target.priority
+      // Priorities keep their row, without a target
+      ? prev.map(other => other.key === target.key ? { ...other, id: undefined, targetHours: 0, hours: "" } : other)
+      : prev.filter(other => other.key !== target.key));
+  };
+
+  const addTaskTarget = () => {
+    setTargets(prev => [...prev, toEditable({ priority: null, category: null, subCategory: null, targetHours: 0 })]);
+  };
+
+  const categories = [...new Set(tasks.map(task => task.category))];
+  const priorityTargets = priorities
+    .map(name => targets.find(target => target.priority === name))
+    .filter((target): target is EditableTarget => !!target);
+  const taskTargets = targets.filter(target => !target.priority);
+
+  const renderActions = (target: EditableTarget) => (
+    <TableCell className="text-right space-x-2">
+      <Button size="sm" onClick={() => handleSave(target)} disabled={savingKey === target.key}>
+        <Save className="w-4 h-4 mr-1" />
+        {savingKey === target.key ? "Saving..." : "Save"}
+      </Button>
+      {(target.id || !target.priority) && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleDelete(target)}
+          disabled={savingKey === target.key}
+          aria-label={`Delete target for ${describe(target) || "new task"}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    </TableCell>
+  );
+
+  const renderHours = (target: EditableTarget) => (
+    <TableCell>
+      <Input
+        type="number"
+        min={0}
+        step={0.5}
+        value={target.hours}
+        onChange={(e) => updateTarget(target.key, { hours: e.target.value })}
+        className="w-24"
+        placeholder="None"
+        aria-label={`Target hours for ${describe(target) || "new task"}`}
+      />
+    </TableCell>
+  );
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          SLA Targets
+        </CardTitle>
+        <CardDescription>
+          Hours from receiving a ticket to completing it. A task target applies before the target of the ticket's client type priority.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client Type Priority</TableHead>
+              <TableHead>Target (hours)</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {priorityTargets.map(target => (
+              <TableRow key={target.key}>
+                <TableCell className="font-medium">{target.priority}</TableCell>
+                {renderHours(target)}
+                {renderActions(target)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead>Sub Category</TableHead>
+              <TableHead>Target (hours)</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {taskTargets.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-foreground-muted">
+                  No task targets; tickets use their client type priority
+                </TableCell>
+              </TableRow>
+            )}
+            {taskTargets.map(target => (
+              <TableRow key={target.key}>
+                <TableCell>
+                  <Select
+                    value={target.category || ""}
+                    onValueChange={(value) => updateTarget(target.key, { category: value, subCategory: null })}
+                  >
+                    <SelectTrigger className="w-48" aria-label="Category">
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={target.subCategory || ALL_SUBCATEGORIES}
+                    onValueChange={(value) => updateTarget(target.key, { subCategory: value === ALL_SUBCATEGORIES ? null : value })}
+                    disabled={!target.category}
+                  >
+                    <SelectTrigger className="w-48" aria-label="Sub Category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SUBCATEGORIES}>All sub categories</SelectItem>
+                      {tasks.filter(task => task.category === target.category).map(task => (
+                        <SelectItem key={task.subCategory} value={task.subCategory}>{task.subCategory}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                {renderHours(target)}
+                {renderActions(target)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Button variant="outline" onClick={addTaskTarget}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Task Target
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SlaSettings;
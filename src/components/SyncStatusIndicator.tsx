@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { useOutboxStatus } from "@/hooks/useOutboxStatus";
+import { retryFailed } from "@/services/SyncOutbox";
+
+// Header badge for writes still waiting in the offline outbox
+export const SyncStatusIndicator = () => {
+  const { pending, failed } = useOutboxStatus();
+
+  if (pending === 0 && failed === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {pending > 0 && (
+        <Badge variant="secondary" className="flex items-center gap-1" title="Changes waiting to sync">
+          <CloudOff className="w-3 h-3" />
+          {pending} pending
+        </Badge>
+      )}
+      {failed > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => retryFailed()}
+          className="h-7 px-2 text-destructive border-destructive/50"
+          title="Some changes could not be synced. Click to retry."
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {failed} failed
+          <RefreshCw className="w-3 h-3 ml-1" />
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { getLeaveByDate, getLeaveRequests } from '@/services/LeaveService';
+import type { LeaveRequest } from '@/services/LeaveService';
+import type { Holiday } from '@/services/ScheduleService';
+import { addDaysToWorkDate, fromWorkDate, getWeekWorkDates, toWorkDate } from '@/utils/dateHelpers';
+
+interface TeamLeaveCalendarProps {
+  holidays: Holiday[];
+  // Bumped by the page after a request changes so the calendar reloads
+  refreshKey: number;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// First day of the month a work date falls in
+const getMonthStart = (workDate: string) => `${workDate.slice(0, 7)}-01`;
+
+/**
+ * Who is off on each day of a month: approved leave of the team, plus pending leave for reviewers.
+ */
+export const TeamLeaveCalendar: React.FC<TeamLeaveCalendarProps> = ({ holidays, refreshKey }) => {
+  const [monthStart, setMonthStart] = useState(getMonthStart(toWorkDate()));
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const today = toWorkDate();
+
+  // Whole weeks, Monday first, covering the month
+  const weeks = useMemo(() => {
+    const month = monthStart.slice(0, 7);
+    const result: string[][] = [];
+    for (let week = getWeekWorkDates(monthStart); week[0].slice(0, 7) <= month; week = getWeekWorkDates(addDaysToWorkDate(week[0], 7))) {
+      result.push(week);
+    }
+    return result;
+  }, [monthStart]);
+
+  useEffect(() => {
+    setLoading(true);
+    getLeaveRequests(weeks[0][0], weeks[weeks.length - 1][6], ['pending', 'approved'])
+      .then(setRequests)
+      .finally(() => setLoading(false));
+  }, [weeks, refreshKey]);
+
+  const leaveByDate = getLeaveByDate(requests, weeks.flat());
+  const changeMonth = (months: number) => {
+    const date = fromWorkDate(monthStart);
+    date.setMonth(date.getMonth() + months);
+    setMonthStart(getMonthStart(toWorkDate(date)));
+  };
+
+  return (
+    <Card className="shadow-soft border-border">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Team Leave Calendar
+            </CardTitle>
+            <CardDescription>{format(fromWorkDate(monthStart), 'MMMM yyyy')}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => changeMonth(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setMonthStart(getMonthStart(today))}>
+              This Month
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => changeMonth(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8">Loading leave...</div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1 text-xs">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="text-center font-medium text-muted-foreground py-1">{day}</div>
+            ))}
+            {weeks.flat().map(date => {
+              const holiday = holidays.find(h => h.date === date);
+              const inMonth = date.startsWith(monthStart.slice(0, 7));
+              return (
+                <div
+                  key={date}
+                  className={`min-h-20 rounded border border-border p-1 space-y-1 ${inMonth ? '' : 'opacity-40'} ${date === today ? 'bg-accent/40' : ''}`}
+                >
+                  <div className="font-medium">{format(fromWorkDate(date), 'd')}</div>
+                  {holiday && <div className="text-muted-foreground truncate" title={holiday.name}>{holiday.name}</div>}
+                  {leaveByDate[date].map(request => (
+                    <Badge
+                      key={request.id}
+                      variant={request.status === 'approved' ? 'secondary' : 'outline'}
+                      className="block truncate px-1 py-0 text-[10px] font-normal"
+                      title={`${request.employeeName}: ${request.leaveLabel}${request.halfDay ? ' (half day)' : ''}${request.status === 'pending' ? ' - pending' : ''}`}
+                    >
+                      {request.employeeName}{request.halfDay ? ' ½' : ''}
+                    </Badge>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,295 @@
+import { Fragment, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, Network, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteTeam,
+  getSubtreeIds,
+  getTeamMemberships,
+  saveTeam,
+  type Team,
+  type TeamDraft,
+  type TeamMembership
+} from "@/services/TeamService";
+import { DEFAULT_IDLE_THRESHOLD_MINUTES } from "@/services/IdleService";
+
+interface TeamEmployee {
+  id: string;
+  employee_id: string;
+  full_name: string;
+  team: string;
+  is_active: boolean;
+}
+
+interface TeamSettingsProps {
+  teams: Team[];
+  employees: TeamEmployee[];
+  onTeamsChanged: () => void;
+}
+
+// Select items cannot have an empty value
+const NONE = "none";
+
+const getActor = () => localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "";
+
+// Teams with their parent team and manager. Managers see the timesheets of their team and its sub-teams.
+const TeamSettings = ({ teams, employees, onTeamsChanged }: TeamSettingsProps) => {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Team[]>(teams);
+  const [savingTeam, setSavingTeam] = useState<string | null>(null);
+  const [newTeam, setNewTeam] = useState({ name: "", parentId: NONE });
+  const [historyTeam, setHistoryTeam] = useState<string | null>(null);
+  const [history, setHistory] = useState<TeamMembership[]>([]);
+
+  useEffect(() => {
+    setDrafts(teams);
+  }, [teams]);
+
+  const managers = employees.filter(employee => employee.is_active);
+
+  const updateDraft = (id: string, updates: Partial<Team>) => {
+    setDrafts(prev => prev.map(team => team.id === id ? { ...team, ...updates } : team));
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const handleSave = async (team: TeamDraft) => {
+    if (!team.name.trim()) {
+      toast({ title: "Validation Error", description: "Team name is required", variant: "destructive" });
+      return false;
+    }
+
+    setSavingTeam(team.id || "new");
+    try {
+      await saveTeam({ ...team, name: team.name.trim() }, getActor());
+      toast({ title: "Team Saved", description: `${team.name.trim()} was saved` });
+      onTeamsChanged();
+      return true;
+    } catch (error) {
+      showError(error, "Failed to save the team");
+      return false;
+    } finally {
+      setSavingTeam(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const saved = await handleSave({
+      name: newTeam.name,
+      parentId: newTeam.parentId === NONE ? null : newTeam.parentId,
+      managerId: null,
+      isActive: true,
+      idleThresholdMinutes: DEFAULT_IDLE_THRESHOLD_MINUTES
+    });
+    if (saved) {
+      setNewTeam({ name: "", parentId: NONE });
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    if (!confirm(`Delete the ${team.name} team?`)) return;
+
+    try {
+      await deleteTeam(team.id, getActor());
+      toast({ title: "Team Deleted", description: `${team.name} was removed` });
+      onTeamsChanged();
+    } catch (error) {
+      showError(error, "Failed to delete the team");
+    }
+  };
+
+  const toggleHistory = async (teamId: string) => {
+    if (historyTeam === teamId) {
+      setHistoryTeam(null);
+      return;
+    }
+    setHistoryTeam(teamId);
+    setHistory(await getTeamMemberships(teamId));
+  };
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="w-5 h-5" />
+          Teams
+        </CardTitle>
+        <CardDescription>
+          Parent teams, managers and idle pause. Managers see the timesheets of their team and every team below it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Team</TableHead>
+              <TableHead>Parent Team</TableHead>
+              <TableHead>Manager</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead title="Minutes without activity before a running timer is paused; 0 turns it off">Idle Pause (min)</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.map(team => {
+              // A team cannot move under itself or one of its sub-teams
+              const subtree = getSubtreeIds(teams, team.id);
+              const memberCount = employees.filter(employee => employee.team === team.name).length;
+
+              return (
+                <Fragment key={team.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Input
+                        value={team.name}
+                        onChange={(e) => updateDraft(team.id, { name: e.target.value })}
+                        className="w-40"
+                        aria-label="Team name"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={team.parentId || NONE}
+                        onValueChange={(value) => updateDraft(team.id, { parentId: value === NONE ? null : value })}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>None</SelectItem>
+                          {teams.filter(parent => !subtree.includes(parent.id)).map(parent => (
+                            <SelectItem key={parent.id} value={parent.id}>{parent.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={team.managerId || NONE}
+                        onValueChange={(value) => updateDraft(team.id, { managerId: value === NONE ? null : value })}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>No manager</SelectItem>
+                          {managers.map(employee => (
+                            <SelectItem key={employee.id} value={employee.id}>
+                              {employee.full_name} ({employee.employee_id})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => toggleHistory(team.id)} title="Membership History">
+                        <History className="w-4 h-4 mr-1" />
+                        {memberCount}
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={480}
+                        value={team.idleThresholdMinutes}
+                        onChange={(e) => updateDraft(team.id, { idleThresholdMinutes: Math.min(480, Math.max(0, parseInt(e.target.value) || 0)) })}
+                        className="w-20"
+                        aria-label={`Idle minutes for ${team.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={team.isActive}
+                        onCheckedChange={(checked) => updateDraft(team.id, { isActive: checked })}
+                        aria-label={`${team.name} active`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" onClick={() => handleSave(team)} disabled={savingTeam === team.id}>
+                          <Save className="w-4 h-4 mr-1" />
+                          {savingTeam === team.id ? "Saving..." : "Save"}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleDelete(team)}
+                          className="w-8 h-8 text-destructive hover:text-destructive"
+                          title="Delete Team"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {historyTeam === team.id && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="bg-muted/40">
+                        {history.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">Nobody has been in this team yet</p>
+                        ) : (
+                          <ul className="text-sm space-y-1">
+                            {history.map(membership => (
+                              <li key={`${membership.employeeId}-${membership.validFrom}`}>
+                                <span className="font-medium">{membership.employeeName}</span>
+                                {" "}
+                                <span className="text-muted-foreground">
+                                  {membership.validTo
+                                    ? `${membership.validFrom} to ${membership.validTo}`
+                                    : `since ${membership.validFrom}`}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            placeholder="New team name"
+            value={newTeam.name}
+            onChange={(e) => setNewTeam(prev => ({ ...prev, name: e.target.value }))}
+            className="w-56"
+          />
+          <Select value={newTeam.parentId} onValueChange={(value) => setNewTeam(prev => ({ ...prev, parentId: value }))}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Parent team" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No parent team</SelectItem>
+              {teams.map(team => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleAdd} disabled={savingTeam === "new"}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Team
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamSettings;
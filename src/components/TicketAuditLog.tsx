@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { TicketHistoryEntry, formatAHT } from '@/services/UserStatsService';
+import { TicketAuditEntry, getTicketAudit } from '@/services/TicketCorrectionService';
+
+interface TicketAuditLogProps {
+  entry: TicketHistoryEntry | null;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  ticket_number: 'Ticket Number',
+  category: 'Category',
+  subcategory: 'Sub Category',
+  task_name: 'Task',
+  status: 'Status',
+  time_logged_seconds: 'Time Logged',
+  comments: 'Comments'
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'time_logged_seconds') return formatAHT(Number(value));
+  return String(value);
+};
+
+export const TicketAuditLog: React.FC<TicketAuditLogProps> = ({ entry, onClose }) => {
+  const [auditEntries, setAuditEntries] = useState<TicketAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!entry) return;
+    setLoading(true);
+    getTicketAudit(entry.id)
+      .then(setAuditEntries)
+      .finally(() => setLoading(false));
+  }, [entry]);
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Change Log</DialogTitle>
+          <DialogDescription>
+            {entry && `Ticket #${entry.ticket_number} • ${format(new Date(entry.submission_date), 'MMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-6">Loading change log...</div>
+        ) : auditEntries.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">This ticket has not been changed since it was submitted.</div>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {auditEntries.map(audit => (
+              <div key={audit.id} className="border rounded p-3 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{audit.changed_by}</span>
+                  <span className="text-muted-foreground">{format(new Date(audit.created_at), 'MMM d, yyyy HH:mm')}</span>
+                </div>
+                {audit.reason && <div className="text-sm italic">{audit.reason}</div>}
+                <div className="space-y-1">
+                  {audit.changed_fields.map(field => (
+                    <div key={field} className="grid grid-cols-3 gap-2 text-xs">
+                      <Badge variant="outline" className="w-fit">{FIELD_LABELS[field] || field}</Badge>
+                      <span className="line-through text-muted-foreground">{formatValue(field, audit.before[field])}</span>
+                      <span>{formatValue(field, audit.after[field])}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
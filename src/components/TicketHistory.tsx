@@ -4,10 +4,15 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Calendar, Search, Clock, FileText } from 'lucide-react';
+import { Calendar, Search, Clock, FileText, Pencil, History, Lock } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import { getTicketHistory, TicketHistoryEntry, formatAHT } from '@/services/UserStatsService';
+import { ApprovalStatus, isLocked, reviewSubmission } from '@/services/ApprovalService';
+import { EditTicketDialog } from '@/components/EditTicketDialog';
+import { TicketAuditLog } from '@/components/TicketAuditLog';
+import { TicketLifecycleDialog } from '@/components/TicketLifecycleDialog';
+import { useAuth } from '@/hooks/useAuth';
 
 // TicketHistoryEntry is now imported from UserStatsService
 
@@ -22,6 +27,12 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
   const [searchDate, setSearchDate] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [editingEntry, setEditingEntry] = useState<TicketHistoryEntry | null>(null);
+  const [auditEntry, setAuditEntry] = useState<TicketHistoryEntry | null>(null);
+  const [lifecycleTicket, setLifecycleTicket] = useState<string | null>(null);
+
+  const { can } = useAuth();
+  const canViewChangeLog = can('tickets.audit.view');
 
   const fetchTicketHistory = async () => {
     setLoading(true);
@@ -76,6 +87,14 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
     }
   };
 
+  const refreshEntries = async () => {
+    if (searchDate || startDate || endDate) {
+      await handleSearch();
+    } else {
+      await fetchTicketHistory();
+    }
+  };
+
   const clearFilters = () => {
     setSearchDate('');
     setStartDate('');
@@ -100,6 +119,43 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
 
   const groupedEntries = groupEntriesByDate(filteredEntries);
 
+  // One approval state per submission that contributed to the day
+  const getDaySubmissions = (entries: TicketHistoryEntry[]) => {
+    const submissions = new Map<string, { status: ApprovalStatus; comment: string | null }>();
+    entries.forEach(entry => {
+      if (entry.submission_id && entry.approval_status) {
+        submissions.set(entry.submission_id, { status: entry.approval_status, comment: entry.review_comment });
+      }
+    });
+    return [...submissions.entries()];
+  };
+
+  const approvalVariant = (status: ApprovalStatus): "default" | "secondary" | "destructive" | "outline" => {
+    switch (status) {
+      case 'approved': return 'default';
+      case 'rejected': return 'destructive';
+      case 'reopened': return 'outline';
+      default: return 'secondary';
+    }
+  };
+
+  const handleResubmit = async (submissionId: string) => {
+    try {
+      await reviewSubmission(submissionId, 'resubmit', userId);
+      toast({
+        title: "Resubmitted",
+        description: "Your timesheet has been sent back for approval"
+      });
+      await refreshEntries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resubmit timesheet",
+        variant: "destructive"
+      });
+    }
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -175,7 +231,26 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
                       <Calendar className="w-5 h-5" />
                       {format(new Date(date), 'EEEE, MMMM d, yyyy')}
                       <Badge variant="secondary">{entries.length} tickets</Badge>
+                      {getDaySubmissions(entries).map(([submissionId, submission]) => (
+                        <Badge key={submissionId} variant={approvalVariant(submission.status)} className="capitalize">
+                          {submission.status}
+                        </Badge>
+                      ))}
                     </div>
+
+                    {getDaySubmissions(entries)
+                      .filter(([, submission]) => submission.status === 'rejected' || submission.status === 'reopened')
+                      .map(([submissionId, submission]) => (
+                        <div key={submissionId} className="flex items-center justify-between gap-4 p-3 rounded border border-destructive/30 bg-destructive/5 text-sm">
+                          <div>
+                            <span className="font-medium capitalize">{submission.status}:</span>{' '}
+                            {submission.comment || 'Reopened for changes'}
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => handleResubmit(submissionId)}>
+                            Resubmit
+                          </Button>
+                        </div>
+                      ))}
                     
                     <div className="grid gap-3">
                       {entries.map((entry) => (
@@ -183,15 +258,36 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
                           <CardContent className="p-4">
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                               <div className="space-y-2">
-                                <div className="font-semibold text-primary">
+                                <button
+                                  type="button"
+                                  className="font-semibold text-primary hover:underline text-left"
+                                  onClick={() => setLifecycleTicket(entry.ticket_number)}
+                                  title="Show every day and status of this ticket"
+                                >
                                   Ticket #{entry.ticket_number}
-                                </div>
+                                </button>
                                 <div className="text-sm text-muted-foreground">
                                   {entry.university} • {entry.domain}
                                 </div>
-                                <Badge variant="outline" className="w-fit">
-                                  {entry.status}
-                                </Badge>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline" className="w-fit">
+                                    {entry.status}
+                                  </Badge>
+                                  {isLocked(entry.approval_status) ? (
+                                    <Lock className="w-4 h-4 text-muted-foreground" aria-label="Approved and locked" />
+                                  ) : (
+                                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setEditingEntry(entry)}>
+                                      <Pencil className="w-3 h-3 mr-1" />
+                                      Edit
+                                    </Button>
+                                  )}
+                                  {canViewChangeLog && (
+                                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setAuditEntry(entry)}>
+                                      <History className="w-3 h-3 mr-1" />
+                                      Change Log
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
                               
                               <div className="space-y-1">
@@ -241,6 +337,18 @@ export const TicketHistory: React.FC<TicketHistoryProps> = ({ userId }) => {
           </div>
         </CardContent>
       </Card>
+
+      <EditTicketDialog
+        entry={editingEntry}
+        changedBy={userId}
+        onClose={() => setEditingEntry(null)}
+        onSaved={() => {
+          setEditingEntry(null);
+          refreshEntries();
+        }}
+      />
+      <TicketAuditLog entry={auditEntry} onClose={() => setAuditEntry(null)} />
+      <TicketLifecycleDialog ticketNumber={lifecycleTicket} onClose={() => setLifecycleTicket(null)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ArrowRight, Clock, PauseCircle, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatAHT } from '@/services/UserStatsService';
+import { COMPLETED_STATUS } from '@/services/SlaService';
+import {
+  buildTicketLifecycle,
+  getTicketLifecycleData,
+  isOnHoldStatus,
+  TicketLifecycle
+} from '@/services/TicketLifecycleService';
+import { fromWorkDate } from '@/utils/dateHelpers';
+
+interface TicketLifecycleDialogProps {
+  ticketNumber: string | null;
+  onClose: () => void;
+}
+
+const statusVariant = (status: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (status === COMPLETED_STATUS) return 'default';
+  if (isOnHoldStatus(status)) return 'destructive';
+  return 'secondary';
+};
+
+/**
+ * Every day, session and status change of one ticket number, across submissions and contributors
+ */
+export const TicketLifecycleDialog: React.FC<TicketLifecycleDialogProps> = ({ ticketNumber, onClose }) => {
+  const [lifecycle, setLifecycle] = useState<TicketLifecycle | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!ticketNumber) return;
+    setLoading(true);
+    setLifecycle(null);
+    getTicketLifecycleData(ticketNumber)
+      .then(data => {
+        setNames(data.names);
+        setLifecycle(buildTicketLifecycle(ticketNumber, data));
+      })
+      .finally(() => setLoading(false));
+  }, [ticketNumber]);
+
+  return (
+    <Dialog open={!!ticketNumber} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Ticket #{ticketNumber}</DialogTitle>
+          <DialogDescription>
+            {lifecycle && lifecycle.days.length > 0
+              ? `Worked on ${lifecycle.days.length} day(s) from ${format(fromWorkDate(lifecycle.days[0].date), 'MMM d, yyyy')}`
+              : 'Every submission and timer session for this ticket'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !lifecycle ? (
+          <div className="text-center py-6">Loading ticket...</div>
+        ) : lifecycle.days.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">Nothing has been logged for this ticket yet.</div>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div className="border rounded p-3">
+                <div className="text-muted-foreground">Status</div>
+                {lifecycle.currentStatus && (
+                  <Badge variant={statusVariant(lifecycle.currentStatus)} className="mt-1">{lifecycle.currentStatus}</Badge>
+                )}
+              </div>
+              <div className="border rounded p-3">
+                <div className="flex items-center gap-1 text-muted-foreground"><Clock className="w-3 h-3" /> Total Effort</div>
+                <div className="font-semibold mt-1">{formatAHT(lifecycle.totalSeconds)}</div>
+              </div>
+              <div className="border rounded p-3">
+                <div className="flex items-center gap-1 text-muted-foreground"><PauseCircle className="w-3 h-3" /> On Hold</div>
+                <div className="font-semibold mt-1">{formatAHT(lifecycle.totalHoldSeconds)}</div>
+                {Object.entries(lifecycle.holdSeconds).map(([status, seconds]) => (
+                  <div key={status} className="text-xs text-muted-foreground">
+                    {status.replace(/^On Hold - /, '')}: {formatAHT(seconds)}
+                  </div>
+                ))}
+              </div>
+              <div className="border rounded p-3">
+                <div className="text-muted-foreground">Received</div>
+                <div className="font-semibold mt-1">
+                  {lifecycle.receivedAt ? format(lifecycle.receivedAt, 'MMM d, HH:mm') : '—'}
+                </div>
+                {lifecycle.completedAt && (
+                  <div className="text-xs text-muted-foreground">Completed {format(lifecycle.completedAt, 'MMM d, HH:mm')}</div>
+                )}
+              </div>
+            </div>
+
+            {/* Contributors */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 font-medium text-sm">
+                <Users className="w-4 h-4" />
+                Contributors
+              </div>
+              {lifecycle.contributors.map(contributor => (
+                <div key={contributor.userId} className="flex items-center justify-between text-sm">
+                  <span>{contributor.name}</span>
+                  <span className="text-muted-foreground">
+                    {formatAHT(contributor.seconds)} over {contributor.days} day(s), last on {format(fromWorkDate(contributor.lastWorkedOn), 'MMM d')}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Status transitions */}
+            <div className="space-y-2">
+              <div className="font-medium text-sm">Status Changes</div>
+              {lifecycle.transitions.map((transition, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    {transition.from && (
+                      <>
+                        <Badge variant="outline">{transition.from}</Badge>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                      </>
+                    )}
+                    <Badge variant={statusVariant(transition.status)}>{transition.status}</Badge>
+                  </div>
+                  <span className="text-muted-foreground text-xs">
+                    {format(transition.at, 'MMM d, HH:mm')} by {names[transition.userId] || transition.userId}
+                    {transition.status !== COMPLETED_STATUS && ` • ${formatAHT(transition.durationSeconds)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Timeline */}
+            <div className="space-y-3">
+              <div className="font-medium text-sm">Timeline</div>
+              {lifecycle.days.map(day => (
+                <div key={day.date} className="border rounded p-3 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{format(fromWorkDate(day.date), 'EEE, MMM d, yyyy')}</span>
+                    <span className="text-muted-foreground">
+                      {formatAHT(day.seconds)}
+                      {day.sessionCount > 0 && day.firstStartAt !== null && day.lastEndAt !== null &&
+                        ` • ${day.sessionCount} session(s) ${format(day.firstStartAt, 'HH:mm')}–${format(day.lastEndAt, 'HH:mm')}`}
+                    </span>
+                  </div>
+                  {day.entries.length === 0 ? (
+                    <div className="text-xs text-muted-foreground">Timer sessions not submitted yet</div>
+                  ) : day.entries.map(entry => (
+                    <div key={entry.id} className="grid grid-cols-3 gap-2 text-xs">
+                      <span>{names[entry.userId] || entry.userId}</span>
+                      <span className="flex items-center gap-2">
+                        <Badge variant={statusVariant(entry.status)} className="w-fit">{entry.status}</Badge>
+                        {formatAHT(entry.timeLoggedSeconds)}
+                      </span>
+                      <span className="text-muted-foreground">{entry.comments || ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -8,10 +8,11 @@ import { SearchableSelect } from '@/components/ui/searchable-select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Play, Pause, Trash2, Timer } from 'lucide-react';
-import { getTaskAHT, getDropdownData } from '@/utils/dropdownStorage';
+import { Play, Pause, Trash2, Timer, Clock } from 'lucide-react';
+import { getActiveTasks } from '@/services/TaskService';
+import type { TaskWithAHT } from '@/types/dropdown';
 import { useTimer } from '@/hooks/useTimer';
-import * as TimerStore from '@/services/PerformanceTimerService';
+import { fromDateTimeInput, toDateTimeInput } from '@/utils/dateHelpers';
 
 interface TimesheetRow {
   id: string;
@@ -22,10 +23,13 @@ interface TimesheetRow {
   taskName: string;
   university: string;
   domain: string;
+  clientType: string;
   status: string;
-  receivedDate: string;
+  receivedDate: string; // datetime-local value; older drafts hold a bare date
   ticketCount: number;
   comments: string;
+  continuedFrom?: string; // ticket_history row of an unfinished ticket this row carries on
+  priorSeconds?: number;  // time logged on that ticket before
 }
 
 interface TimerRowProps {
@@ -38,24 +42,38 @@ interface TimerRowProps {
     tasks: string[];
     statuses: string[];
   };
+  taskCatalog: TaskWithAHT[];
   onUpdate: (id: string, updates: Partial<TimesheetRow>) => void;
   onDelete: (id: string) => void;
   onStartTimer: (id: string) => void;
   onPauseTimer: (id: string) => void;
   onResumeTimer: (id: string) => void;
+  onEditTime: (id: string) => void;
   
   isOnGlobalBreak: boolean;
+  canUseTimer: boolean;   // timers only run on today's timesheet
+  canEditTime: boolean;   // no time can be logged on planned (future) days
 }
 
+// Drafts from before received times were recorded hold a bare date
+const toReceivedInput = (value: string): string => {
+  const date = fromDateTimeInput(value || "");
+  return date ? toDateTimeInput(date) : "";
+};
+
 const TimerRow: React.FC<TimerRowProps> = ({ 
   row, 
   dropdownData, 
+  taskCatalog,
   onUpdate, 
   onDelete,
   onStartTimer,
   onPauseTimer,
   onResumeTimer,
-  isOnGlobalBreak
+  onEditTime,
+  isOnGlobalBreak,
+  canUseTimer,
+  canEditTime
 }) => {
   const [taskAHT, setTaskAHT] = useState<number>(0);
   
@@ -65,26 +83,19 @@ const TimerRow: React.FC<TimerRowProps> = ({
   // Update AHT when both category and subcategory are selected
   useEffect(() => {
     if (row.category && row.subCategory) {
-      const taskKey = `${row.category} - ${row.subCategory}`;
-      const aht = getTaskAHT(taskKey);
-      if (aht !== null) {
-        setTaskAHT(aht);
-      } else {
-        setTaskAHT(0); // Default to 0 if no AHT found
-      }
+      const task = taskCatalog.find(t => t.category === row.category && t.subCategory === row.subCategory);
+      setTaskAHT(task ? task.aht : 0); // Default to 0 if no AHT found
     }
-  }, [row.category, row.subCategory]);
+  }, [row.category, row.subCategory, taskCatalog]);
 
-  // Helper functions to get categories and subcategories from AHT data
+  // Helper functions to get categories and subcategories from the task catalog
   const getUniqueCategories = () => {
-    const data = getDropdownData();
-    const categories = [...new Set(data.tasks.map(task => task.category))];
+    const categories = [...new Set(getActiveTasks(taskCatalog).map(task => task.category))];
     return categories.sort();
   };
 
   const getSubCategoriesForCategory = (category: string) => {
-    const data = getDropdownData();
-    const subCategories = data.tasks
+    const subCategories = getActiveTasks(taskCatalog)
       .filter(task => task.category === category)
       .map(task => task.subCategory);
     return [...new Set(subCategories)].sort();
@@ -111,6 +122,7 @@ const TimerRow: React.FC<TimerRowProps> = ({
   // Timer state comes from hook
   const isTimerRunning = timer.isRunning;
   const isTimerPaused = timer.isPaused;
+  const isTimerStopped = timer.isStopped;
 
   return (
     <Card className="shadow-sm border-border">
@@ -136,6 +148,17 @@ const TimerRow: React.FC<TimerRowProps> = ({
                     {formatTime(timer.currentTime)}
                   </span>
                 </div>
+
+                {/* Carried-over rows keep counting the ticket's earlier time */}
+                {row.continuedFrom && (
+                  <div
+                    className="flex items-center gap-1 text-xs text-foreground-muted"
+                    title="Time logged on this ticket on earlier days plus this row"
+                  >
+                    <Clock className="w-3 h-3" />
+                    <span>Cumulative: {formatTime((row.priorSeconds || 0) + timer.currentTime)}</span>
+                  </div>
+                )}
               </div>
               
               <div className="flex items-center gap-1">
@@ -149,8 +172,8 @@ const TimerRow: React.FC<TimerRowProps> = ({
                       onClick={() => onStartTimer(row.id)}
                       variant="outline"
                       className="h-6 px-2"
-                      disabled={isOnGlobalBreak}
-                      title={isOnGlobalBreak ? "Cannot start timer while on break" : "Start timer"}
+                      disabled={!canUseTimer || isOnGlobalBreak || isTimerStopped}
+                      title={!canUseTimer ? "Timers only run on today's timesheet" : isTimerStopped ? "Timer stopped" : isOnGlobalBreak ? "Cannot start timer while on break" : "Start timer"}
                     >
                       <Play className="w-3 h-3 mr-1" />
                       Start
@@ -174,8 +197,8 @@ const TimerRow: React.FC<TimerRowProps> = ({
                       onClick={() => onResumeTimer(row.id)}
                       variant="outline"
                       className="h-6 px-2"
-                      disabled={isOnGlobalBreak}
-                      title={isOnGlobalBreak ? "Cannot resume timer while on break" : "Resume timer"}
+                      disabled={!canUseTimer || isOnGlobalBreak}
+                      title={!canUseTimer ? "Timers only run on today's timesheet" : isOnGlobalBreak ? "Cannot resume timer while on break" : "Resume timer"}
                     >
                       <Play className="w-3 h-3 mr-1" />
                       Resume
@@ -183,6 +206,18 @@ const TimerRow: React.FC<TimerRowProps> = ({
                   )}
                 </div>
                 
+                <Button
+                  size="sm"
+                  onClick={() => onEditTime(row.id)}
+                  variant="outline"
+                  className="h-6 px-2"
+                  disabled={!canEditTime || isTimerStopped}
+                  title={canEditTime ? "Log time manually or edit recorded sessions" : "Time cannot be logged on a planned day"}
+                >
+                  <Clock className="w-3 h-3 mr-1" />
+                  Edit Time
+                </Button>
+
                 <Button
                   size="sm"
                   onClick={() => onDelete(row.id)}
@@ -230,6 +265,23 @@ const TimerRow: React.FC<TimerRowProps> = ({
               />
             </div>
 
+            {/* Client Type - sets the ticket's SLA priority */}
+            <div className="col-span-1">
+              <Select
+                value={row.clientType || ""}
+                onValueChange={(value) => onUpdate(row.id, { clientType: value })}
+              >
+                <SelectTrigger className="h-7 text-xs border-border">
+                  <SelectValue placeholder="Client Type" />
+                </SelectTrigger>
+                <SelectContent className="z-50">
+                  {dropdownData.clientTypes.map((clientType) => (
+                    <SelectItem key={clientType} value={clientType} className="text-xs">{clientType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Main Category */}
             <div className="col-span-1 lg:col-span-2">
               <SearchableSelect
@@ -314,13 +366,14 @@ const TimerRow: React.FC<TimerRowProps> = ({
               />
             </div>
 
-            {/* Received Date - Compact */}
+            {/* Received Date and Time - Compact */}
             <div className="col-span-1">
               <Input
-                type="date"
-                value={row.receivedDate}
+                type="datetime-local"
+                value={toReceivedInput(row.receivedDate)}
                 onChange={(e) => onUpdate(row.id, { receivedDate: e.target.value })}
                 className="h-7 text-xs border-border"
+                title="Received"
               />
             </div>
             </div>
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getTimesheetPolicies, updateTimesheetPolicy, TimesheetPolicy } from "@/services/TimesheetPolicyService";
+import { getRoleLabel, type Role } from "@/services/RoleService";
+
+interface TimesheetPolicySettingsProps {
+  roles: Role[];
+}
+
+// Per-role window of days in which time can be logged and submitted
+const TimesheetPolicySettings = ({ roles }: TimesheetPolicySettingsProps) => {
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<TimesheetPolicy[]>([]);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (roles.length > 0) {
+      getTimesheetPolicies(roles.map(role => role.name)).then(setPolicies);
+    }
+  }, [roles]);
+
+  const updatePolicy = (role: string, updates: Partial<TimesheetPolicy>) => {
+    setPolicies(prev => prev.map(policy => policy.role === role ? { ...policy, ...updates } : policy));
+  };
+
+  const handleSave = async (policy: TimesheetPolicy) => {
+    setSavingRole(policy.role);
+    const saved = await updateTimesheetPolicy(policy);
+    setSavingRole(null);
+
+    toast(saved ? {
+      title: "Policy Saved",
+      description: `${getRoleLabel(roles, policy.role)} can log time ${policy.backdateDays} day(s) back and plan ${policy.forwardDays} day(s) ahead`
+    } : {
+      title: "Error",
+      description: "Failed to save the timesheet policy",
+      variant: "destructive"
+    });
+  };
+
+  const toDays = (value: string) => Math.min(365, Math.max(0, parseInt(value) || 0));
+
+  return (
+    <Card className="mt-6 shadow-soft border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Timesheet Backdating
+        </CardTitle>
+        <CardDescription>
+          How many days back each role may log and submit time, and how far ahead days can be planned
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Days Back</TableHead>
+              <TableHead>Days Ahead</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map(policy => (
+              <TableRow key={policy.role}>
+                <TableCell className="font-medium">{getRoleLabel(roles, policy.role)}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={policy.backdateDays}
+                    onChange={(e) => updatePolicy(policy.role, { backdateDays: toDays(e.target.value) })}
+                    className="w-24"
+                    aria-label={`Days back for ${policy.role}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={policy.forwardDays}
+                    onChange={(e) => updatePolicy(policy.role, { forwardDays: toDays(e.target.value) })}
+                    className="w-24"
+                    aria-label={`Days ahead for ${policy.role}`}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" onClick={() => handleSave(policy)} disabled={savingRole === policy.role}>
+                    <Save className="w-4 h-4 mr-1" />
+                    {savingRole === policy.role ? "Saving..." : "Save"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimesheetPolicySettings;
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { useTimerSummary } from '@/hooks/useTimer';
+import * as TimerStore from '@/services/PerformanceTimerService';
+import { getTicketHistory, formatAHT } from '@/services/UserStatsService';
+import type { TicketHistoryEntry } from '@/services/UserStatsService';
+import { getDayApprovalStatuses } from '@/services/ApprovalService';
+import type { ApprovalStatus } from '@/services/ApprovalService';
+import { getDaySchedule, getMissingTimesheetDates } from '@/services/ScheduleService';
+import type { ScheduleCalendar } from '@/services/ScheduleService';
+import { loadTimesheetDraft } from '@/utils/timesheetStorage';
+import { addDaysToWorkDate, fromWorkDate, getWeekWorkDates, toWorkDate } from '@/utils/dateHelpers';
+
+interface WeeklyTimesheetGridProps {
+  userId: string;
+  workDate: string;
+  minDate: string;
+  maxDate: string;
+  calendar: ScheduleCalendar;
+  onSelectDate: (workDate: string) => void;
+}
+
+const statusVariant = (status: ApprovalStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'approved': return 'default';
+    case 'rejected': return 'destructive';
+    case 'reopened': return 'outline';
+    default: return 'secondary';
+  }
+};
+
+const getTaskLabel = (category: string, subCategory: string, taskName: string) =>
+  taskName || [category, subCategory].filter(Boolean).join(' - ') || 'Unassigned';
+
+/**
+ * Time per task (rows) and weekday (columns): submitted tickets plus the drafts of each day.
+ * Past working days without a submission are flagged as missing, unless they are holidays or leave.
+ */
+export const WeeklyTimesheetGrid: React.FC<WeeklyTimesheetGridProps> = ({ userId, workDate, minDate, maxDate, calendar, onSelectDate }) => {
+  const [weekOf, setWeekOf] = useState(workDate);
+  const [tickets, setTickets] = useState<TicketHistoryEntry[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, ApprovalStatus>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Draft totals follow the running timer
+  useTimerSummary();
+
+  const weekDates = useMemo(() => getWeekWorkDates(weekOf), [weekOf]);
+  const today = toWorkDate();
+
+  useEffect(() => {
+    setWeekOf(workDate);
+  }, [workDate]);
+
+  useEffect(() => {
+    if (!userId) return;
+    setLoading(true);
+    Promise.all([
+      getTicketHistory(userId, weekDates[0], weekDates[6]),
+      getDayApprovalStatuses(userId, weekDates[0], weekDates[6])
+    ])
+      .then(([weekTickets, weekStatuses]) => {
+        setTickets(weekTickets);
+        setStatuses(weekStatuses);
+      })
+      .finally(() => setLoading(false));
+  }, [userId, weekDates]);
+
+  // label -> work date -> seconds
+  const grid = new Map<string, Record<string, number>>();
+  const addTime = (label: string, date: string, seconds: number) => {
+    const cells = grid.get(label) || {};
+    cells[date] = (cells[date] || 0) + seconds;
+    grid.set(label, cells);
+  };
+
+  tickets.forEach(ticket => {
+    addTime(getTaskLabel(ticket.category, ticket.subcategory, ticket.task_name), ticket.submission_date, ticket.time_logged_seconds);
+  });
+
+  const draftDates = new Set<string>();
+  weekDates.forEach(date => {
+    (loadTimesheetDraft(date) || []).forEach(row => {
+      const seconds = TimerStore.getCurrentTime(row.id);
+      if (!seconds && !row.category) return;
+      draftDates.add(date);
+      addTime(getTaskLabel(row.category, row.subCategory, row.taskName), date, seconds);
+    });
+  });
+
+  const labels = [...grid.keys()].sort();
+  const dayTotals = weekDates.map(date => labels.reduce((total, label) => total + (grid.get(label)![date] || 0), 0));
+  const weekTotal = dayTotals.reduce((total, seconds) => total + seconds, 0);
+  const missingDates = getMissingTimesheetDates(calendar, userId, weekDates, Object.keys(statuses), today);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Week of {format(fromWorkDate(weekDates[0]), 'MMM d, yyyy')}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setWeekOf(addDaysToWorkDate(weekOf, -7))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setWeekOf(today)}>
+              This Week
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setWeekOf(addDaysToWorkDate(weekOf, 7))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8">Loading week...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                {weekDates.map(date => {
+                  const selectable = date >= minDate && date <= maxDate;
+                  const { leave } = getDaySchedule(calendar, userId, date);
+                  return (
+                    <TableHead key={date} className="text-center">
+                      <button
+                        type="button"
+                        onClick={() => onSelectDate(date)}
+                        disabled={!selectable}
+                        className={`flex flex-col items-center gap-1 w-full py-1 rounded ${date === workDate ? 'bg-accent' : ''} ${selectable ? 'hover:bg-accent/60' : 'opacity-50 cursor-not-allowed'}`}
+                        title={selectable ? 'Open this day' : 'Outside your backdating window'}
+                      >
+                        <span className={date === today ? 'font-semibold text-foreground' : ''}>
+                          {format(fromWorkDate(date), 'EEE d')}
+                        </span>
+                        {statuses[date] ? (
+                          <Badge variant={statusVariant(statuses[date])} className="text-[10px] px-1 py-0 capitalize">
+                            {statuses[date]}
+                          </Badge>
+                        ) : draftDates.has(date) ? (
+                          <Badge variant="outline" className="text-[10px] px-1 py-0">Draft</Badge>
+                        ) : missingDates.includes(date) ? (
+                          <Badge variant="destructive" className="text-[10px] px-1 py-0">Missing</Badge>
+                        ) : leave ? (
+                          <Badge variant="outline" className="text-[10px] px-1 py-0">{leave}</Badge>
+                        ) : null}
+                      </button>
+                    </TableHead>
+                  );
+                })}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {labels.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    No time logged this week.
+                  </TableCell>
+                </TableRow>
+              ) : labels.map(label => {
+                const cells = grid.get(label)!;
+                return (
+                  <TableRow key={label}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    {weekDates.map(date => (
+                      <TableCell key={date} className="text-center font-mono text-xs">
+                        {cells[date] ? formatAHT(cells[date]) : '-'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatAHT(weekDates.reduce((total, date) => total + (cells[date] || 0), 0))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {dayTotals.map((seconds, index) => (
+                  <TableCell key={weekDates[index]} className="text-center font-mono text-xs">
+                    {seconds ? formatAHT(seconds) : '-'}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-mono text-xs">{formatAHT(weekTotal)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  SessionEmployee,
+  getSessionEmployee,
+  storeSessionEmployee,
+  signInEmployee,
+  signOutEmployee
+} from '@/services/AuthService';
+import { Permission, getRolePermissions } from '@/services/RoleService';
+import { AuthContext, AuthContextType } from '@/hooks/useAuth';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [employee, setEmployee] = useState<SessionEmployee | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  // Permissions of the role they were loaded for, so a role change never shows stale ones
+  const [rolePermissions, setRolePermissions] = useState<{ role: string; permissions: Permission[] } | null>(null);
+  const role = employee?.role;
+
+  const applySession = useCallback((next: SessionEmployee | null) => {
+    if (next) storeSessionEmployee(next);
+    setEmployee(next);
+  }, []);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      applySession(getSessionEmployee(session));
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      applySession(getSessionEmployee(session));
+      setSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [applySession]);
+
+  useEffect(() => {
+    if (!role) return;
+    let cancelled = false;
+    getRolePermissions(role).then(permissions => {
+      if (!cancelled) setRolePermissions({ role, permissions });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [role]);
+
+  const permissions = role && rolePermissions?.role === role ? rolePermissions.permissions : null;
+
+  const can = useCallback(
+    (permission: Permission) => !!permissions?.includes(permission),
+    [permissions]
+  );
+
+  const signIn = useCallback(async (employeeId: string, password: string) => {
+    const signedIn = await signInEmployee(employeeId, password);
+    applySession(signedIn);
+    return signedIn;
+  }, [applySession]);
+
+  const signOut = useCallback(async () => {
+    await signOutEmployee();
+    setEmployee(null);
+  }, []);
+
+  const value: AuthContextType = {
+    employee,
+    loading: sessionLoading || (!!employee && !permissions),
+    can,
+    signIn,
+    signOut
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { SessionEmployee } from '@/services/AuthService';
+import type { Permission } from '@/services/RoleService';
+
+export interface AuthContextType {
+  employee: SessionEmployee | null;
+  // True until the stored session and its role's permissions have been read
+  loading: boolean;
+  // Whether the signed-in employee's role grants a permission
+  can: (permission: Permission) => boolean;
+  signIn: (employeeId: string, password: string) => Promise<SessionEmployee>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
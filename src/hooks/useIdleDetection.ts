@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as TimerStore from '@/services/PerformanceTimerService';
+import { ACTIVITY_EVENTS, getIdleSince, IDLE_TICK_MS } from '@/services/IdleService';
+import type { IdleClock, IdlePeriod } from '@/services/IdleService';
+
+// Pause the running timer once nobody has used the page for thresholdMinutes (0 turns it off).
+// idlePeriod is set once the employee is back, for them to decide what the time was.
+export function useIdleDetection(thresholdMinutes: number) {
+  const [idlePeriod, setIdlePeriod] = useState<IdlePeriod | null>(null);
+  const pendingRef = useRef<IdlePeriod | null>(null);
+
+  useEffect(() => {
+    const thresholdMs = thresholdMinutes * 60000;
+    if (thresholdMs <= 0) return;
+
+    const clock: IdleClock = { lastActivityAt: Date.now(), lastTickAt: Date.now() };
+
+    const markReturned = (at: number) => {
+      const pending = pendingRef.current;
+      if (!pending || pending.endedAt !== null) return;
+      pendingRef.current = { ...pending, endedAt: Math.max(at, pending.startedAt) };
+      setIdlePeriod(pendingRef.current);
+    };
+
+    const check = () => {
+      const now = Date.now();
+      if (now < clock.lastTickAt) clock.lastActivityAt = now;
+      const since = getIdleSince(clock, now, thresholdMs);
+      clock.lastTickAt = now;
+
+      const taskId = TimerStore.getRunningTimerId();
+      if (since === null || !taskId || pendingRef.current) return;
+
+      TimerStore.pauseIdle(taskId, now - since);
+      pendingRef.current = { taskId, startedAt: since, endedAt: null };
+      // Input after the idle stretch (e.g. waking the machine) means they are already back
+      if (clock.lastActivityAt > since) markReturned(clock.lastActivityAt);
+    };
+
+    const onActivity = () => {
+      clock.lastActivityAt = Date.now();
+      markReturned(clock.lastActivityAt);
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      check();
+      onActivity();
+    };
+
+    const interval = window.setInterval(check, IDLE_TICK_MS);
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [thresholdMinutes]);
+
+  const clearIdle = useCallback(() => {
+    pendingRef.current = null;
+    setIdlePeriod(null);
+  }, []);
+
+  return { idlePeriod, clearIdle };
+}
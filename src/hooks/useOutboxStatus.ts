@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getOutboxCounts, subscribeOutbox } from '@/services/SyncOutbox';
+
+export function useOutboxStatus() {
+  const [counts, setCounts] = useState(() => getOutboxCounts());
+
+  useEffect(() => {
+    setCounts(getOutboxCounts());
+    return subscribeOutbox(() => setCounts(getOutboxCounts()));
+  }, []);
+
+  return counts;
+}
@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { ACTIVITY_EVENTS } from '@/services/IdleService';
+import { HEARTBEAT_MS, recordActivity } from '@/services/PresenceService';
+
+// Tell the team presence board the employee is here, at most once per heartbeat while they use the page
+export function usePresenceHeartbeat(employeeKey: string | null) {
+  useEffect(() => {
+    if (!employeeKey) return;
+
+    let lastSentAt = 0;
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastSentAt < HEARTBEAT_MS) return;
+      lastSentAt = now;
+      // The next heartbeat tries again
+      recordActivity(employeeKey, now).catch(error => console.error('Error recording activity:', error));
+    };
+
+    onActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+    };
+  }, [employeeKey]);
+}
@@ -1,26 +1,14 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import * as TimerStore from '@/services/PerformanceTimerService';
+import { startSessionSync, loadTimers } from '@/services/TimesheetSessionSync';
 
 export function useTimer(taskId: string) {
-  const [state, setState] = useState(() => ({
-    currentTime: TimerStore.getCurrentTime(taskId),
-    breakTime: TimerStore.getBreakTime(taskId),
-    status: TimerStore.getStatus(taskId),
-    isRunning: TimerStore.isRunning(taskId),
-    isPaused: TimerStore.isPaused(taskId),
-    isOnBreak: TimerStore.isOnBreak(taskId)
-  }));
+  const [state, setState] = useState(() => TimerStore.getSnapshot(taskId));
 
   useEffect(() => {
+    setState(TimerStore.getSnapshot(taskId));
     const unsubscribe = TimerStore.subscribe(() => {
-      setState({
-        currentTime: TimerStore.getCurrentTime(taskId),
-        breakTime: TimerStore.getBreakTime(taskId),
-        status: TimerStore.getStatus(taskId),
-        isRunning: TimerStore.isRunning(taskId),
-        isPaused: TimerStore.isPaused(taskId),
-        isOnBreak: TimerStore.isOnBreak(taskId)
-      });
+      setState(TimerStore.getSnapshot(taskId));
     });
 
     return unsubscribe;
@@ -30,47 +18,40 @@ export function useTimer(taskId: string) {
 }
 
 export function useTimerSummary() {
-  const [summary, setSummary] = useState(() => {
-    const allTimers = TimerStore.getAllTimers();
-    const totalLoggedTime = allTimers.reduce((total, timer) => {
-      return total + TimerStore.getCurrentTime(timer.taskId);
-    }, 0);
-    const totalBreakTime = allTimers.reduce((total, timer) => {
-      return total + TimerStore.getBreakTime(timer.taskId);
-    }, 0);
-    const hasActiveTask = allTimers.some(timer => TimerStore.isRunning(timer.taskId));
-    const runningTaskId = TimerStore.getRunningTimerId();
-
-    return {
-      totalLoggedTime,
-      totalBreakTime,
-      hasActiveTask,
-      runningTaskId
-    };
-  });
+  const [summary, setSummary] = useState(() => TimerStore.getSummary());
 
   useEffect(() => {
     const unsubscribe = TimerStore.subscribe(() => {
-      const allTimers = TimerStore.getAllTimers();
-      const totalLoggedTime = allTimers.reduce((total, timer) => {
-        return total + TimerStore.getCurrentTime(timer.taskId);
-      }, 0);
-      const totalBreakTime = allTimers.reduce((total, timer) => {
-        return total + TimerStore.getBreakTime(timer.taskId);
-      }, 0);
-      const hasActiveTask = allTimers.some(timer => TimerStore.isRunning(timer.taskId));
-      const runningTaskId = TimerStore.getRunningTimerId();
-
-      setSummary({
-        totalLoggedTime,
-        totalBreakTime,
-        hasActiveTask,
-        runningTaskId
-      });
+      setSummary(TimerStore.getSummary());
     });
 
     return unsubscribe;
   }, []);
 
   return summary;
-}
\ No newline at end of file
+}
+
+// Persist the employee's timer spans and rebuild the engine from the server.
+// onLoaded receives the tasks that have timer data and the work date of each.
+export function useTimerSync(
+  employeeId: string | null,
+  onLoaded?: (tasks: { taskId: string; workDate: string }[]) => void
+) {
+  const onLoadedRef = useRef(onLoaded);
+  onLoadedRef.current = onLoaded;
+
+  useEffect(() => {
+    if (!employeeId) return;
+
+    let cancelled = false;
+    const stopSessionSync = startSessionSync(employeeId);
+    loadTimers(employeeId).then(tasks => {
+      if (!cancelled) onLoadedRef.current?.(tasks);
+    });
+
+    return () => {
+      cancelled = true;
+      stopSessionSync();
+    };
+  }, [employeeId]);
+}
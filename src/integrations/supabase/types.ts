@@ -14,51 +14,442 @@ export type Database = {
   }
   public: {
     Tables: {
+      break_types: {
+        Row: {
+          daily_allowance_minutes: number | null
+          is_active: boolean
+          key: string
+          label: string
+          max_minutes_per_break: number | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          daily_allowance_minutes?: number | null
+          is_active?: boolean
+          key: string
+          label: string
+          max_minutes_per_break?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          daily_allowance_minutes?: number | null
+          is_active?: boolean
+          key?: string
+          label?: string
+          max_minutes_per_break?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      clients: {
+        Row: {
+          client_type: string
+          contact_email: string | null
+          contact_name: string | null
+          created_at: string
+          created_by: string | null
+          domain: string | null
+          id: string
+          phone: string | null
+          status: string
+          university: string
+          updated_at: string
+        }
+        Insert: {
+          client_type?: string
+          contact_email?: string | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          domain?: string | null
+          id?: string
+          phone?: string | null
+          status?: string
+          university: string
+          updated_at?: string
+        }
+        Update: {
+          client_type?: string
+          contact_email?: string | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          domain?: string | null
+          id?: string
+          phone?: string | null
+          status?: string
+          university?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dropdown_list_versions: {
+        Row: {
+          client_types: Json
+          created_at: string
+          created_by: string | null
+          domains: Json
+          effective_from: string | null
+          effective_to: string | null
+          published_at: string | null
+          published_by: string | null
+          status: string
+          stubs: Json
+          universities: Json
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          client_types?: Json
+          created_at?: string
+          created_by?: string | null
+          domains?: Json
+          effective_from?: string | null
+          effective_to?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
+          stubs?: Json
+          universities?: Json
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          client_types?: Json
+          created_at?: string
+          created_by?: string | null
+          domains?: Json
+          effective_from?: string | null
+          effective_to?: string | null
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
+          stubs?: Json
+          universities?: Json
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      employee_breaks: {
+        Row: {
+          break_type: string
+          created_at: string
+          duration_seconds: number
+          employee_id: string
+          end_at: string | null
+          id: string
+          start_at: string
+          work_date: string
+        }
+        Insert: {
+          break_type: string
+          created_at?: string
+          duration_seconds?: number
+          employee_id: string
+          end_at?: string | null
+          id?: string
+          start_at: string
+          work_date?: string
+        }
+        Update: {
+          break_type?: string
+          created_at?: string
+          duration_seconds?: number
+          employee_id?: string
+          end_at?: string | null
+          id?: string
+          start_at?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_breaks_break_type_fkey"
+            columns: ["break_type"]
+            isOneToOne: false
+            referencedRelation: "break_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      employee_password_history: {
+        Row: {
+          created_at: string
+          employee_id: string
+          id: string
+          password_hash: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          id?: string
+          password_hash: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          id?: string
+          password_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_password_history_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_presence: {
+        Row: {
+          employee_id: string
+          last_activity_at: string
+        }
+        Insert: {
+          employee_id: string
+          last_activity_at?: string
+        }
+        Update: {
+          employee_id?: string
+          last_activity_at?: string
+        }
+        Relationships: []
+      }
       employees: {
         Row: {
+          auth_user_id: string | null
           created_at: string
           email: string | null
           employee_id: string
+          failed_login_attempts: number
           full_name: string | null
           id: string
           is_active: boolean
           join_date: string | null
           last_active: string | null
+          locked_until: string | null
+          must_change_password: boolean
+          password_changed_at: string
           password_hash: string
           role: string
           team: string | null
+          team_id: string | null
           updated_at: string
         }
         Insert: {
+          auth_user_id?: string | null
           created_at?: string
           email?: string | null
           employee_id: string
+          failed_login_attempts?: number
           full_name?: string | null
           id?: string
           is_active?: boolean
           join_date?: string | null
           last_active?: string | null
+          locked_until?: string | null
+          must_change_password?: boolean
+          password_changed_at?: string
           password_hash: string
           role: string
           team?: string | null
+          team_id?: string | null
           updated_at?: string
         }
         Update: {
+          auth_user_id?: string | null
           created_at?: string
           email?: string | null
           employee_id?: string
+          failed_login_attempts?: number
           full_name?: string | null
           id?: string
           is_active?: boolean
           join_date?: string | null
           last_active?: string | null
+          locked_until?: string | null
+          must_change_password?: boolean
+          password_changed_at?: string
           password_hash?: string
           role?: string
           team?: string | null
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employees_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "employees_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      leave_requests: {
+        Row: {
+          created_at: string
+          employee_id: string
+          end_date: string
+          half_day: boolean
+          id: string
+          leave_type: string
+          reason: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          end_date: string
+          half_day?: boolean
+          id?: string
+          leave_type: string
+          reason?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          end_date?: string
+          half_day?: boolean
+          id?: string
+          leave_type?: string
+          reason?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      leave_types: {
+        Row: {
+          is_active: boolean
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          is_active?: boolean
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          is_active?: boolean
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      password_policy: {
+        Row: {
+          history_count: number
+          id: boolean
+          lockout_minutes: number
+          max_age_days: number
+          max_failed_attempts: number
+          updated_at: string
+        }
+        Insert: {
+          history_count?: number
+          id?: boolean
+          lockout_minutes?: number
+          max_age_days?: number
+          max_failed_attempts?: number
+          updated_at?: string
+        }
+        Update: {
+          history_count?: number
+          id?: boolean
+          lockout_minutes?: number
+          max_age_days?: number
+          max_failed_attempts?: number
           updated_at?: string
         }
         Relationships: []
       }
+      permissions: {
+        Row: {
+          category: string
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          category: string
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          category?: string
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -83,113 +474,680 @@ export type Database = {
         }
         Relationships: []
       }
-      ticket_history: {
+      role_permissions: {
+        Row: {
+          permission: string
+          role: string
+        }
+        Insert: {
+          permission: string
+          role: string
+        }
+        Update: {
+          permission?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "role_permissions_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      roles: {
         Row: {
-          activity_type: string | null
-          category: string
-          client_type: string | null
-          comments: string | null
           created_at: string
-          domain: string | null
-          id: string
-          received_date: string | null
-          status: string
-          stub_name: string | null
-          subcategory: string | null
-          submission_date: string
-          task_name: string | null
-          ticket_count: number | null
-          ticket_number: string
-          time_logged_seconds: number
-          university: string | null
+          description: string | null
+          is_system: boolean
+          label: string
+          name: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          activity_type?: string | null
-          category: string
-          client_type?: string | null
-          comments?: string | null
           created_at?: string
-          domain?: string | null
-          id?: string
-          received_date?: string | null
-          status?: string
-          stub_name?: string | null
-          subcategory?: string | null
-          submission_date: string
-          task_name?: string | null
-          ticket_count?: number | null
-          ticket_number: string
-          time_logged_seconds?: number
-          university?: string | null
+          description?: string | null
+          is_system?: boolean
+          label: string
+          name: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          activity_type?: string | null
-          category?: string
-          client_type?: string | null
-          comments?: string | null
           created_at?: string
-          domain?: string | null
-          id?: string
-          received_date?: string | null
-          status?: string
-          stub_name?: string | null
-          subcategory?: string | null
-          submission_date?: string
-          task_name?: string | null
-          ticket_count?: number | null
-          ticket_number?: string
-          time_logged_seconds?: number
-          university?: string | null
+          description?: string | null
+          is_system?: boolean
+          label?: string
+          name?: string
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
-      timesheet_sessions: {
+      schedule_assignments: {
         Row: {
           created_at: string
-          duration_seconds: number | null
-          end_at: string | null
+          employee_id: string | null
+          fte_ratio: number
           id: string
-          start_at: string
-          task_id: string
-          updated_at: string
-          user_id: string | null
-          work_date: string
+          schedule_id: string
+          team_id: string | null
+          valid_from: string
+          valid_to: string | null
         }
         Insert: {
           created_at?: string
-          duration_seconds?: number | null
-          end_at?: string | null
+          employee_id?: string | null
+          fte_ratio?: number
           id?: string
-          start_at?: string
-          task_id: string
-          updated_at?: string
-          user_id?: string | null
-          work_date?: string
+          schedule_id: string
+          team_id?: string | null
+          valid_from?: string
+          valid_to?: string | null
         }
         Update: {
           created_at?: string
-          duration_seconds?: number | null
-          end_at?: string | null
+          employee_id?: string | null
+          fte_ratio?: number
           id?: string
+          schedule_id?: string
+          team_id?: string | null
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_assignments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_assignments_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "shift_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_assignments_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_schedules: {
+        Row: {
+          break_minutes: number
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          name: string
+          start_time: string
+          updated_at: string
+          working_days: number[]
+        }
+        Insert: {
+          break_minutes?: number
+          created_at?: string
+          end_time: string
+          id?: string
+          is_active?: boolean
+          name: string
+          start_time: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Update: {
+          break_minutes?: number
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_time?: string
+          updated_at?: string
+          working_days?: number[]
+        }
+        Relationships: []
+      }
+      sla_targets: {
+        Row: {
+          category: string | null
+          id: string
+          priority: string | null
+          subcategory: string | null
+          target_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          id?: string
+          priority?: string | null
+          subcategory?: string | null
+          target_hours: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          id?: string
+          priority?: string | null
+          subcategory?: string | null
+          target_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tasks: {
+        Row: {
+          aht: number
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          priority: string
+          status: string
+          subcategory: string
+          team: string
+          team_id: string | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          aht?: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          priority?: string
+          status?: string
+          subcategory: string
+          team?: string
+          team_id?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          aht?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          priority?: string
+          status?: string
+          subcategory?: string
+          team?: string
+          team_id?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_memberships: {
+        Row: {
+          created_at: string
+          employee_id: string
+          id: string
+          team_id: string
+          valid_from: string
+          valid_to: string | null
+        }
+        Insert: {
+          created_at?: string
+          employee_id: string
+          id?: string
+          team_id: string
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string
+          id?: string
+          team_id?: string
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_memberships_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_memberships_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          idle_threshold_minutes: number
+          is_active: boolean
+          manager_id: string | null
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          idle_threshold_minutes?: number
+          is_active?: boolean
+          manager_id?: string | null
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          idle_threshold_minutes?: number
+          is_active?: boolean
+          manager_id?: string | null
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "teams_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_history: {
+        Row: {
+          activity_type: string | null
+          category: string
+          client_id: string | null
+          client_type: string | null
+          comments: string | null
+          continued_from: string | null
+          created_at: string
+          domain: string | null
+          dropdown_version: number | null
+          id: string
+          received_date: string | null
+          status: string
+          stub_name: string | null
+          subcategory: string | null
+          submission_date: string
+          submission_id: string | null
+          task_name: string | null
+          ticket_count: number | null
+          ticket_number: string
+          time_logged_seconds: number
+          university: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_type?: string | null
+          category: string
+          client_id?: string | null
+          client_type?: string | null
+          comments?: string | null
+          continued_from?: string | null
+          created_at?: string
+          domain?: string | null
+          dropdown_version?: number | null
+          id?: string
+          received_date?: string | null
+          status?: string
+          stub_name?: string | null
+          subcategory?: string | null
+          submission_date: string
+          submission_id?: string | null
+          task_name?: string | null
+          ticket_count?: number | null
+          ticket_number: string
+          time_logged_seconds?: number
+          university?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_type?: string | null
+          category?: string
+          client_id?: string | null
+          client_type?: string | null
+          comments?: string | null
+          continued_from?: string | null
+          created_at?: string
+          domain?: string | null
+          dropdown_version?: number | null
+          id?: string
+          received_date?: string | null
+          status?: string
+          stub_name?: string | null
+          subcategory?: string | null
+          submission_date?: string
+          submission_id?: string | null
+          task_name?: string | null
+          ticket_count?: number | null
+          ticket_number?: string
+          time_logged_seconds?: number
+          university?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_history_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_history_continued_from_fkey"
+            columns: ["continued_from"]
+            isOneToOne: false
+            referencedRelation: "ticket_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_history_dropdown_version_fkey"
+            columns: ["dropdown_version"]
+            isOneToOne: false
+            referencedRelation: "dropdown_list_versions"
+            referencedColumns: ["version"]
+          },
+          {
+            foreignKeyName: "ticket_history_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "timesheet_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_history_audit: {
+        Row: {
+          after: Json
+          before: Json
+          changed_by: string
+          changed_fields: string[]
+          created_at: string
+          id: string
+          reason: string | null
+          ticket_history_id: string
+        }
+        Insert: {
+          after: Json
+          before: Json
+          changed_by: string
+          changed_fields: string[]
+          created_at?: string
+          id?: string
+          reason?: string | null
+          ticket_history_id: string
+        }
+        Update: {
+          after?: Json
+          before?: Json
+          changed_by?: string
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          reason?: string | null
+          ticket_history_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_history_audit_ticket_history_id_fkey"
+            columns: ["ticket_history_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheet_policies: {
+        Row: {
+          backdate_days: number
+          created_at: string
+          forward_days: number
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          backdate_days?: number
+          created_at?: string
+          forward_days?: number
+          role: string
+          updated_at?: string
+        }
+        Update: {
+          backdate_days?: number
+          created_at?: string
+          forward_days?: number
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_policies_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      timesheet_sessions: {
+        Row: {
+          aht_minutes: number | null
+          created_at: string
+          duration_seconds: number | null
+          edited_at: string | null
+          employee_id: string | null
+          end_at: string | null
+          id: string
+          source: string
+          span_type: string
+          start_at: string
+          submitted_at: string | null
+          task_id: string
+          task_label: string | null
+          ticket_number: string | null
+          updated_at: string
+          user_id: string | null
+          work_date: string
+        }
+        Insert: {
+          aht_minutes?: number | null
+          created_at?: string
+          duration_seconds?: number | null
+          edited_at?: string | null
+          employee_id?: string | null
+          end_at?: string | null
+          id?: string
+          source?: string
+          span_type?: string
           start_at?: string
+          submitted_at?: string | null
+          task_id: string
+          task_label?: string | null
+          ticket_number?: string | null
+          updated_at?: string
+          user_id?: string | null
+          work_date?: string
+        }
+        Update: {
+          aht_minutes?: number | null
+          created_at?: string
+          duration_seconds?: number | null
+          edited_at?: string | null
+          employee_id?: string | null
+          end_at?: string | null
+          id?: string
+          source?: string
+          span_type?: string
+          start_at?: string
+          submitted_at?: string | null
           task_id?: string
+          task_label?: string | null
+          ticket_number?: string | null
           updated_at?: string
           user_id?: string | null
           work_date?: string
         }
         Relationships: []
       }
+      timesheet_submission_reviews: {
+        Row: {
+          action: string
+          actor: string
+          comment: string | null
+          created_at: string
+          from_status: string
+          id: string
+          submission_id: string
+          to_status: string
+        }
+        Insert: {
+          action: string
+          actor: string
+          comment?: string | null
+          created_at?: string
+          from_status: string
+          id?: string
+          submission_id: string
+          to_status: string
+        }
+        Update: {
+          action?: string
+          actor?: string
+          comment?: string | null
+          created_at?: string
+          from_status?: string
+          id?: string
+          submission_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_submission_reviews_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "timesheet_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheet_submissions: {
+        Row: {
+          created_at: string
+          id: string
+          idempotency_key: string
+          result: Json | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submission_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          result?: Json | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submission_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          result?: Json | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submission_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assert_client_manager: {
+        Args: {
+          p_actor: string
+        }
+        Returns: undefined
+      }
+      assert_dropdown_manager: {
+        Args: {
+          p_actor: string
+        }
+        Returns: undefined
+      }
+      assert_permission: {
+        Args: {
+          p_actor: string
+          p_permission: string
+        }
+        Returns: undefined
+      }
+      assert_task_manager: {
+        Args: {
+          p_actor: string
+        }
+        Returns: undefined
+      }
       authenticate_employee: {
         Args: {
           input_email: string
@@ -201,9 +1159,459 @@ export type Database = {
           email: string
           employee_id: string
           full_name: string
+          locked_until: string | null
+          must_change_password: boolean
           role: string
         }[]
       }
+      can_review_leave: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: boolean
+      }
+      can_review_submission: {
+        Args: {
+          p_submission_id: string
+        }
+        Returns: boolean
+      }
+      can_view_employee_data: {
+        Args: {
+          p_user_key: string
+        }
+        Returns: boolean
+      }
+      cancel_leave_request: {
+        Args: {
+          p_actor: string
+          p_request_id: string
+        }
+        Returns: {
+          created_at: string
+          employee_id: string
+          end_date: string
+          half_day: boolean
+          id: string
+          leave_type: string
+          reason: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+      }
+      change_employee_password: {
+        Args: {
+          p_current_password: string
+          p_login: string
+          p_new_password: string
+        }
+        Returns: {
+          changed: boolean
+          locked_until: string
+        }[]
+      }
+      check_password_strength: {
+        Args: {
+          p_password: string
+        }
+        Returns: undefined
+      }
+      correct_ticket_history: {
+        Args: {
+          p_changed_by: string
+          p_changes: Json
+          p_reason?: string
+          p_ticket_id: string
+        }
+        Returns: {
+          activity_type: string | null
+          category: string
+          client_id: string | null
+          client_type: string | null
+          comments: string | null
+          continued_from: string | null
+          created_at: string
+          domain: string | null
+          dropdown_version: number | null
+          id: string
+          received_date: string | null
+          status: string
+          stub_name: string | null
+          subcategory: string | null
+          submission_date: string
+          submission_id: string | null
+          task_name: string | null
+          ticket_count: number | null
+          ticket_number: string
+          time_logged_seconds: number
+          university: string | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_clients: {
+        Args: {
+          p_actor: string
+          p_ids: string[]
+        }
+        Returns: number
+      }
+      delete_role: {
+        Args: {
+          p_actor: string
+          p_name: string
+        }
+        Returns: undefined
+      }
+      delete_tasks: {
+        Args: {
+          p_actor: string
+          p_ids: string[]
+        }
+        Returns: number
+      }
+      delete_team: {
+        Args: {
+          p_actor: string
+          p_id: string
+        }
+        Returns: undefined
+      }
+      discard_dropdown_draft: {
+        Args: {
+          p_actor: string
+        }
+        Returns: number
+      }
+      dropdown_version_on: {
+        Args: {
+          p_date: string
+        }
+        Returns: number
+      }
+      employee_auth_email: {
+        Args: {
+          p_employee_id: string
+        }
+        Returns: string
+      }
+      employee_team_on: {
+        Args: {
+          p_date: string
+          p_employee: string
+        }
+        Returns: string
+      }
+      get_carry_over_tickets: {
+        Args: {
+          p_user_key: string
+          p_work_date: string
+        }
+        Returns: {
+          activity_type: string | null
+          category: string
+          client_type: string | null
+          created_at: string
+          domain: string | null
+          id: string
+          received_date: string | null
+          status: string
+          subcategory: string | null
+          submission_date: string
+          task_name: string | null
+          ticket_number: string
+          ticket_seconds: number
+          time_logged_seconds: number
+          university: string | null
+        }[]
+      }
+      get_client_activity: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          client_id: string
+          entry_count: number
+          last_activity: string
+          ticket_count: number
+          total_seconds: number
+        }[]
+      }
+      get_review_queue: {
+        Args: {
+          p_reviewer: string
+          p_status?: string
+        }
+        Returns: {
+          employee_name: string
+          entry_count: number
+          review_comment: string | null
+          reviewed_by: string | null
+          status: string
+          submission_date: string
+          submission_id: string
+          submitted_at: string
+          team: string | null
+          total_seconds: number
+          user_id: string
+        }[]
+      }
+      has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      hash_password: {
+        Args: {
+          p_password: string
+        }
+        Returns: string
+      }
+      is_current_employee: {
+        Args: {
+          p_key: string
+        }
+        Returns: boolean
+      }
+      is_password_hash: {
+        Args: {
+          p_value: string
+        }
+        Returns: boolean
+      }
+      parse_received_date: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
+      password_change_required: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      publish_dropdown_version: {
+        Args: {
+          p_actor: string
+          p_effective_from?: string
+        }
+        Returns: {
+          client_types: Json
+          created_at: string
+          created_by: string | null
+          domains: Json
+          effective_from: string | null
+          effective_to: string | null
+          published_at: string | null
+          published_by: string | null
+          status: string
+          stubs: Json
+          universities: Json
+          updated_at: string
+          version: number
+        }
+      }
+      request_leave: {
+        Args: {
+          p_actor: string
+          p_leave: Json
+        }
+        Returns: {
+          created_at: string
+          employee_id: string
+          end_date: string
+          half_day: boolean
+          id: string
+          leave_type: string
+          reason: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+      }
+      reset_employee_password: {
+        Args: {
+          p_actor: string
+          p_employee: string
+          p_new_password: string
+        }
+        Returns: undefined
+      }
+      resolve_team_id: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      review_leave_request: {
+        Args: {
+          p_action: string
+          p_actor: string
+          p_comment?: string
+          p_request_id: string
+        }
+        Returns: {
+          created_at: string
+          employee_id: string
+          end_date: string
+          half_day: boolean
+          id: string
+          leave_type: string
+          reason: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+      }
+      review_timesheet_submission: {
+        Args: {
+          p_action: string
+          p_actor: string
+          p_comment?: string
+          p_submission_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          idempotency_key: string
+          result: Json | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submission_date: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      role_within_own_permissions: {
+        Args: {
+          p_role: string
+        }
+        Returns: boolean
+      }
+      save_clients: {
+        Args: {
+          p_actor: string
+          p_clients: Json
+        }
+        Returns: {
+          client_type: string
+          contact_email: string | null
+          contact_name: string | null
+          created_at: string
+          created_by: string | null
+          domain: string | null
+          id: string
+          phone: string | null
+          status: string
+          university: string
+          updated_at: string
+        }[]
+      }
+      save_dropdown_draft: {
+        Args: {
+          p_actor: string
+          p_lists: Json
+        }
+        Returns: {
+          client_types: Json
+          created_at: string
+          created_by: string | null
+          domains: Json
+          effective_from: string | null
+          effective_to: string | null
+          published_at: string | null
+          published_by: string | null
+          status: string
+          stubs: Json
+          universities: Json
+          updated_at: string
+          version: number
+        }
+      }
+      save_role: {
+        Args: {
+          p_actor: string
+          p_role: Json
+        }
+        Returns: {
+          created_at: string
+          description: string | null
+          is_system: boolean
+          label: string
+          name: string
+          updated_at: string
+        }
+      }
+      save_tasks: {
+        Args: {
+          p_actor: string
+          p_tasks: Json
+        }
+        Returns: {
+          aht: number
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          priority: string
+          status: string
+          subcategory: string
+          team: string
+          team_id: string | null
+          type: string
+          updated_at: string
+        }[]
+      }
+      save_team: {
+        Args: {
+          p_actor: string
+          p_team: Json
+        }
+        Returns: {
+          created_at: string
+          id: string
+          idle_threshold_minutes: number
+          is_active: boolean
+          manager_id: string | null
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+      }
+      set_employee_password: {
+        Args: {
+          p_employee: string
+          p_must_change: boolean
+          p_new_password: string
+        }
+        Returns: undefined
+      }
+      submit_timesheet: {
+        Args: {
+          idempotency_key: string
+          payload: Json
+        }
+        Returns: Json
+      }
+      visible_team_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -2,5 +2,9 @@ import React from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { startOutboxSync } from './services/SyncOutbox'
+
+// Replay writes that were queued while offline
+startOutboxSync();
 
 createRoot(document.getElementById("root")!).render(<App />);
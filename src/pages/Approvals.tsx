@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Check, X, RotateCcw, ClipboardCheck } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  ApprovalStatus,
+  ReviewAction,
+  ReviewQueueEntry,
+  getReviewActions,
+  getReviewQueue,
+  reviewSubmission
+} from "@/services/ApprovalService";
+import { formatAHT } from "@/services/UserStatsService";
+
+const statusVariant = (status: ApprovalStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "approved": return "default";
+    case "rejected": return "destructive";
+    case "reopened": return "outline";
+    default: return "secondary";
+  }
+};
+
+const Approvals = () => {
+  const { employee } = useAuth();
+  // The reviewer's employee id; it also signs the review
+  const reviewer = employee?.employeeId ?? "";
+  const actor = reviewer;
+  const [statusFilter, setStatusFilter] = useState<ApprovalStatus | "all">("submitted");
+  const [entries, setEntries] = useState<ReviewQueueEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rejecting, setRejecting] = useState<ReviewQueueEntry | null>(null);
+  const [rejectComment, setRejectComment] = useState("");
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+
+  const loadQueue = useCallback(async () => {
+    if (!reviewer) return;
+    setLoading(true);
+    try {
+      setEntries(await getReviewQueue(reviewer, statusFilter));
+    } finally {
+      setLoading(false);
+    }
+  }, [reviewer, statusFilter]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleAction = async (entry: ReviewQueueEntry, action: ReviewAction, comment?: string) => {
+    try {
+      const status = await reviewSubmission(entry.submission_id, action, actor, comment);
+      toast({
+        title: "Timesheet updated",
+        description: `${entry.employee_name} • ${format(new Date(entry.submission_date), "MMM d, yyyy")} is now ${status}`
+      });
+      await loadQueue();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update timesheet",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConfirmReject = async () => {
+    if (!rejecting) return;
+    if (!rejectComment.trim()) {
+      toast({
+        title: "Comment Required",
+        description: "Please explain why the timesheet is rejected",
+        variant: "destructive"
+      });
+      return;
+    }
+    await handleAction(rejecting, "reject", rejectComment);
+    setRejecting(null);
+    setRejectComment("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated">
+      <div className="container mx-auto p-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate("/dashboard")}
+            className="bg-surface border-border hover:bg-surface-elevated"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-foreground">Timesheet Approvals</h1>
+            <p className="text-foreground-muted">Review submitted timesheets for your team</p>
+          </div>
+        </div>
+
+        <Card className="shadow-soft border-border">
+          <CardHeader>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="w-5 h-5" />
+                  Review Queue
+                </CardTitle>
+                <CardDescription>{entries.length} timesheet(s)</CardDescription>
+              </div>
+              <div className="space-y-1 w-48">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ApprovalStatus | "all")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="submitted">Pending</SelectItem>
+                    <SelectItem value="approved">Approved</SelectItem>
+                    <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value="reopened">Reopened</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading timesheets...</div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No timesheets to review.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Tickets</TableHead>
+                    <TableHead>Time Logged</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => {
+                    const actions = getReviewActions(entry.status);
+                    return (
+                      <TableRow key={entry.submission_id}>
+                        <TableCell className="font-medium">{entry.employee_name}</TableCell>
+                        <TableCell>{entry.team || "-"}</TableCell>
+                        <TableCell>{format(new Date(entry.submission_date), "EEE, MMM d, yyyy")}</TableCell>
+                        <TableCell>{entry.entry_count}</TableCell>
+                        <TableCell>{formatAHT(entry.total_seconds)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant(entry.status)} className="capitalize">{entry.status}</Badge>
+                          {entry.review_comment && (
+                            <div className="text-xs text-muted-foreground mt-1">{entry.review_comment}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {actions.includes("approve") && (
+                              <Button size="sm" onClick={() => handleAction(entry, "approve")}>
+                                <Check className="w-4 h-4 mr-1" />
+                                Approve
+                              </Button>
+                            )}
+                            {actions.includes("reject") && (
+                              <Button size="sm" variant="destructive" onClick={() => setRejecting(entry)}>
+                                <X className="w-4 h-4 mr-1" />
+                                Reject
+                              </Button>
+                            )}
+                            {actions.includes("reopen") && (
+                              <Button size="sm" variant="outline" onClick={() => handleAction(entry, "reopen")}>
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Reopen
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setRejectComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Timesheet</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.employee_name} • ${format(new Date(rejecting.submission_date), "MMM d, yyyy")}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-comment">Reason *</Label>
+            <Textarea
+              id="reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              placeholder="Explain what needs to be corrected"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setRejecting(null); setRejectComment(""); }}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmReject} disabled={!rejectComment.trim()}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
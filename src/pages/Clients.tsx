@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,26 +8,22 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Plus, Search, Edit, Trash2, Save, X, Upload, Download, Building2 } from "lucide-react";
+import { ArrowLeft, Plus, Search, Edit, Trash2, Save, X, Upload, Building2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import BulkUpload, { type BulkUploadResult } from "@/components/BulkUpload";
+import { getClients, getClientActivity, saveClients, deleteClients, type Client, type ClientActivity } from "@/services/ClientService";
+import { formatHours } from "@/utils/formatUtils";
+import { ExportMenu } from "@/components/ExportMenu";
+import { exportSheets, ExportFormat } from "@/utils/spreadsheetUtils";
 
-interface Client {
-  id: string;
-  university: string;
-  domain: string;
-  clientType: "New" | "BAU";
-  contactName: string;
-  contactEmail: string;
-  phone: string;
-  status: "active" | "inactive";
-  createdBy: string;
-  createdAt: string;
-}
+// Rows added in the table are only stored once saved
+const NEW_CLIENT_PREFIX = "new-";
 
 const Clients = () => {
-  const [userRole, setUserRole] = useState<string>("");
+  const { can } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
+  const [activity, setActivity] = useState<Record<string, ClientActivity>>({});
+  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterDomain, setFilterDomain] = useState("all");
   const [filterType, setFilterType] = useState("all");
@@ -38,56 +35,67 @@ const Clients = () => {
   const { toast } = useToast();
 
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role) {
-      navigate("/");
-      return;
+    loadClients();
+  }, []);
+
+  const loadClients = async () => {
+    setLoading(true);
+    const [storedClients, clientActivity] = await Promise.all([getClients(), getClientActivity()]);
+    setClients(storedClients);
+    setActivity(clientActivity);
+    setLoading(false);
+  };
+
+  const getActor = () => localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "";
+
+  // Persist clients and merge the stored versions into the table
+  const persistClients = async (changed: Client[], replacedIds: string[] = []): Promise<Client[] | null> => {
+    try {
+      const saved = await saveClients(
+        changed.map(({ id, createdBy, createdAt, ...client }) => ({
+          ...client,
+          id: id.startsWith(NEW_CLIENT_PREFIX) ? undefined : id
+        })),
+        getActor()
+      );
+      setClients(prev => {
+        const savedById = new Map(saved.map(client => [client.id, client]));
+        const next = prev
+          .filter(client => !replacedIds.includes(client.id) || savedById.has(client.id))
+          .map(client => savedById.get(client.id) || client);
+        saved.forEach(client => {
+          if (!next.some(existing => existing.id === client.id)) next.push(client);
+        });
+        return next;
+      });
+      return saved;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save clients",
+        variant: "destructive"
+      });
+      return null;
     }
-    setUserRole(role);
-    
-    // Load sample clients
-    const sampleClients: Client[] = [
-      {
-        id: "1",
-        university: "Harvard University",
-        domain: "Healthcare",
-        clientType: "New",
-        contactName: "Dr. Sarah Johnson",
-        contactEmail: "s.johnson@harvard.edu",
-        phone: "+1-617-495-1000",
-        status: "active",
-        createdBy: "admin@company.com",
-        createdAt: "2024-01-15"
-      },
-      {
-        id: "2",
-        university: "MIT",
-        domain: "Technology",
-        clientType: "BAU",
-        contactName: "Prof. John Smith",
-        contactEmail: "j.smith@mit.edu",
-        phone: "+1-617-253-1000",
-        status: "active",
-        createdBy: "sme@company.com",
-        createdAt: "2024-01-10"
-      },
-      {
-        id: "3",
-        university: "Stanford University",
-        domain: "Finance",
-        clientType: "New",
-        contactName: "Dr. Lisa Chen",
-        contactEmail: "l.chen@stanford.edu",
-        phone: "+1-650-723-2300",
-        status: "active",
-        createdBy: "admin@company.com",
-        createdAt: "2024-01-12"
-      }
-    ];
-    setClients(sampleClients);
-  }, [navigate]);
+  };
 
-  const canManageClients = userRole === "sme" || userRole === "admin" || userRole === "super-user";
+  const removeClients = async (ids: string[]): Promise<boolean> => {
+    const storedIds = ids.filter(id => !id.startsWith(NEW_CLIENT_PREFIX));
+    try {
+      if (storedIds.length > 0) await deleteClients(storedIds, getActor());
+      setClients(prev => prev.filter(client => !ids.includes(client.id)));
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete clients",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const canManageClients = can("clients.edit");
 
   const universities = ["Harvard University", "MIT", "Stanford University", "Yale University", "Princeton University"];
   const domains = ["Healthcare", "Technology", "Finance", "Education", "Research"];
@@ -103,7 +111,7 @@ const Clients = () => {
 
   const handleAddClient = () => {
     const newClient: Client = {
-      id: Date.now().toString(),
+      id: `${NEW_CLIENT_PREFIX}${Date.now()}`,
       university: "New University",
       domain: "Healthcare",
       clientType: "New",
@@ -125,14 +133,12 @@ const Clients = () => {
     setEditingData({ ...client });
   };
 
-  const handleSaveClient = () => {
-    if (!editingClient || !editingData.university || !editingData.contactName) return;
+  const handleSaveClient = async () => {
+    const client = clients.find(c => c.id === editingClient);
+    if (!client || !editingData.university || !editingData.contactName) return;
 
-    setClients(prev => prev.map(client => 
-      client.id === editingClient 
-        ? { ...client, ...editingData }
-        : client
-    ));
+    const saved = await persistClients([{ ...client, ...editingData, id: client.id }], [client.id]);
+    if (!saved) return;
     
     setEditingClient(null);
     setEditingData({});
@@ -144,22 +150,26 @@ const Clients = () => {
   };
 
   const handleCancelEdit = () => {
+    // Unsaved new rows are dropped
+    if (editingClient?.startsWith(NEW_CLIENT_PREFIX)) {
+      setClients(prev => prev.filter(client => client.id !== editingClient));
+    }
     setEditingClient(null);
     setEditingData({});
   };
 
-  const deleteClient = (clientId: string) => {
-    setClients(prev => prev.filter(client => client.id !== clientId));
+  const deleteClient = async (clientId: string) => {
+    if (!await removeClients([clientId])) return;
     toast({
       title: "Client Deleted",
       description: "Client has been removed successfully"
     });
   };
 
-  const handleBulkDelete = () => {
+  const handleBulkDelete = async () => {
     if (selectedClients.length === 0) return;
     
-    setClients(prev => prev.filter(client => !selectedClients.includes(client.id)));
+    if (!await removeClients(selectedClients)) return;
     setSelectedClients([]);
     
     toast({
@@ -184,6 +194,11 @@ const Clients = () => {
     }
   };
 
+  const getClientActivityFor = (clientId: string): ClientActivity =>
+    activity[clientId] || { totalSeconds: 0, ticketCount: 0, entryCount: 0, lastActivity: null };
+
+  const totalLoggedSeconds = Object.values(activity).reduce((total, item) => total + item.totalSeconds, 0);
+
   const getTypeBadge = (type: string) => {
     return type === "New" ? "default" : "secondary";
   };
@@ -195,7 +210,7 @@ const Clients = () => {
     data.forEach((row, index) => {
       try {
         const client: Client = {
-          id: Date.now().toString() + index,
+          id: `${NEW_CLIENT_PREFIX}${Date.now()}-${index}`,
           university: row["University"] || "",
           domain: row["Domain"] || "",
           clientType: (row["Client Type"] as "New" | "BAU") || "New",
@@ -212,7 +227,13 @@ const Clients = () => {
       }
     });
 
-    setClients(prev => [...prev, ...successful]);
+    if (successful.length > 0 && !await persistClients(successful)) {
+      return {
+        successful: 0,
+        failed: data.length,
+        errors: [{ row: 0, field: "", value: "", error: "Clients could not be saved" }]
+      };
+    }
     
     return {
       successful: successful.length,
@@ -221,22 +242,19 @@ const Clients = () => {
     };
   };
 
-  const handleExport = () => {
-    const csvContent = [
-      ["University", "Domain", "Client Type", "Contact Name", "Contact Email", "Phone", "Status", "Created By", "Created Date"],
-      ...clients.map(client => [
-        client.university, client.domain, client.clientType, client.contactName, 
+  const handleExport = (format: ExportFormat) => {
+    exportSheets([{
+      name: "Clients",
+      columns: [
+        { header: "University" }, { header: "Domain" }, { header: "Client Type" }, { header: "Contact Name" },
+        { header: "Contact Email" }, { header: "Phone" }, { header: "Status" }, { header: "Created By" },
+        { header: "Created Date", type: "date" }
+      ],
+      rows: clients.map(client => [
+        client.university, client.domain, client.clientType, client.contactName,
         client.contactEmail, client.phone, client.status, client.createdBy, client.createdAt
       ])
-    ].map(row => row.join(",")).join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'clients.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+    }], "clients", format);
   };
 
   const bulkUploadValidation = {
@@ -313,10 +331,7 @@ const Clients = () => {
                   <Upload className="w-4 h-4 mr-2" />
                   Bulk Upload
                 </Button>
-                <Button variant="outline" onClick={handleExport}>
-                  <Download className="w-4 h-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu onExport={handleExport} />
                 <Button 
                   onClick={handleAddClient}
                   className="bg-primary hover:bg-primary/90"
@@ -366,7 +381,7 @@ const Clients = () => {
         </div>
 
         {/* Statistics */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6 mb-8">
           <Card className="shadow-soft border-border">
             <CardContent className="p-6">
               <div className="text-2xl font-bold text-primary">{clients.length}</div>
@@ -391,6 +406,12 @@ const Clients = () => {
               <div className="text-sm text-foreground-muted">Domains</div>
             </CardContent>
           </Card>
+          <Card className="shadow-soft border-border">
+            <CardContent className="p-6">
+              <div className="text-2xl font-bold text-primary">{formatHours(totalLoggedSeconds / 3600)}</div>
+              <div className="text-sm text-foreground-muted">Hours Logged</div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Excel-style Table */}
@@ -429,6 +450,9 @@ const Clients = () => {
                     <th className="p-3 text-left font-semibold">Email</th>
                     <th className="p-3 text-left font-semibold">Phone</th>
                     <th className="p-3 text-left font-semibold">Status</th>
+                    <th className="p-3 text-left font-semibold">Hours</th>
+                    <th className="p-3 text-left font-semibold">Tickets</th>
+                    <th className="p-3 text-left font-semibold">Last Activity</th>
                     {canManageClients && <th className="p-3 text-left font-semibold">Actions</th>}
                   </tr>
                 </thead>
@@ -531,12 +555,36 @@ const Clients = () => {
                         )}
                       </td>
                       <td className="p-3">
-                        <div className="flex items-center gap-2">
-                          <div className={`w-2 h-2 rounded-full ${client.status === 'active' ? 'bg-success' : 'bg-muted'}`} />
-                          <span className={client.status === 'active' ? 'text-success' : 'text-foreground-muted'}>
-                            {client.status}
-                          </span>
-                        </div>
+                        {editingClient === client.id ? (
+                          <Select 
+                            value={editingData.status || client.status}
+                            onValueChange={(value: "active" | "inactive") => setEditingData(prev => ({ ...prev, status: value }))}
+                          >
+                            <SelectTrigger className="bg-surface border-border h-8 w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-surface border-border z-50">
+                              <SelectItem value="active">active</SelectItem>
+                              <SelectItem value="inactive">inactive</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <div className={`w-2 h-2 rounded-full ${client.status === 'active' ? 'bg-success' : 'bg-muted'}`} />
+                            <span className={client.status === 'active' ? 'text-success' : 'text-foreground-muted'}>
+                              {client.status}
+                            </span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-3 text-foreground">
+                        {formatHours(getClientActivityFor(client.id).totalSeconds / 3600)}
+                      </td>
+                      <td className="p-3 text-foreground">
+                        {getClientActivityFor(client.id).ticketCount}
+                      </td>
+                      <td className="p-3 text-foreground-muted">
+                        {getClientActivityFor(client.id).lastActivity || "—"}
                       </td>
                       {canManageClients && (
                         <td className="p-3">
@@ -588,6 +636,11 @@ const Clients = () => {
                 </tbody>
               </table>
             </div>
+            {loading ? (
+              <div className="p-8 text-center text-foreground-muted">Loading clients...</div>
+            ) : filteredClients.length === 0 && (
+              <div className="p-8 text-center text-foreground-muted">No clients found</div>
+            )}
           </CardContent>
         </Card>
       </div>
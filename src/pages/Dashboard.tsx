@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import { clearSessionEntries } from "@/utils/timesheetStorage";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,13 +16,33 @@ import {
   LogOut,
   Plus,
   FileText,
-  Database
+  Database,
+  Plane,
+  Radio,
+  type LucideIcon
 } from "lucide-react";
 import { getUserStats, formatAHT, UserDayStats } from "@/services/UserStatsService";
+import { useTimerSummary, useTimerSync } from "@/hooks/useTimer";
+import { usePresenceHeartbeat } from "@/hooks/usePresenceHeartbeat";
+import { getLoggedSecondsByWorkDate } from "@/services/TimesheetSessionSync";
+import { fromWorkDate, getWeekWorkDates, toWorkDate } from "@/utils/dateHelpers";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { IdleTimerPrompt } from "@/components/IdleTimerPrompt";
+import { SlaAtRiskWidget } from "@/components/SlaAtRiskWidget";
+import {
+  EMPTY_CALENDAR,
+  getDaySchedule,
+  getMissingTimesheetDates,
+  getScheduleCalendar,
+  ScheduleCalendar
+} from "@/services/ScheduleService";
+import { getDayApprovalStatuses } from "@/services/ApprovalService";
+import { format } from "date-fns";
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const [userRole, setUserRole] = useState("");
+  const { employee, signOut, can } = useAuth();
+  const userRole = employee?.role ?? "";
   const [userEmail, setUserEmail] = useState("");
   const [employeeId, setEmployeeId] = useState("");
   const [userStats, setUserStats] = useState<UserDayStats>({
@@ -32,30 +53,41 @@ const Dashboard = () => {
     ticketHistory: []
   });
   const [loading, setLoading] = useState(true);
+  // Rows are keyed by the employee id of the session; names are not unique
+  const employeeKey = employee?.employeeId ?? null;
+  const [scheduleCalendar, setScheduleCalendar] = useState<ScheduleCalendar>(EMPTY_CALENDAR);
+  const [submittedDates, setSubmittedDates] = useState<string[]>([]);
+
+  // Live, not-yet-submitted time comes from the same timer engine the Timesheet uses
+  useTimerSync(employeeKey);
+  useTimerSummary(); // re-render on every timer tick
+  usePresenceHeartbeat(employeeKey);
 
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
     const email = localStorage.getItem("userEmail");
     const empId = localStorage.getItem("employeeId");
     
-    // Check if user is authenticated (either super-user with email or employee with ID)
-    if (!role || (!email && !empId)) {
-      navigate("/");
-      return;
-    }
-    
-    setUserRole(role);
     setUserEmail(email || "");
     setEmployeeId(empId || "");
 
+    getScheduleCalendar().then(setScheduleCalendar);
+  }, []);
+
+  useEffect(() => {
+    if (!employeeKey) return;
+
     // Load user stats
     const loadStats = async () => {
       setLoading(true);
       try {
-        const currentUser = localStorage.getItem('currentUser');
-        const userId = currentUser || empId || email || 'unknown';
-        const stats = await getUserStats(userId);
+        const userId = employeeKey;
+        const weekDates = getWeekWorkDates(toWorkDate());
+        const [stats, statuses] = await Promise.all([
+          getUserStats(userId),
+          getDayApprovalStatuses(userId, weekDates[0], weekDates[6])
+        ]);
         setUserStats(stats);
+        setSubmittedDates(Object.keys(statuses));
       } catch (error) {
         console.error('Error loading user stats:', error);
       } finally {
@@ -64,12 +96,10 @@ const Dashboard = () => {
     };
 
     loadStats();
-  }, [navigate]);
+  }, [employeeKey]);
 
-  const handleLogout = () => {
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("userEmail");
-    localStorage.removeItem("employeeId");
+  const handleLogout = async () => {
+    await signOut();
     clearSessionEntries(); // Clear session timesheet entries
     navigate("/");
   };
@@ -94,21 +124,32 @@ const Dashboard = () => {
     return variantMap[role] || "default";
   };
 
-  // Target hours (could be made configurable per user)
-  const targetHours = 9;
+  // Submitted time plus time on timers that have not been submitted yet
+  const loggedByDate = getLoggedSecondsByWorkDate();
+  const today = toWorkDate();
+
+  // Today's target comes from the user's shift schedule; 0 on days off
+  const targetHours = Math.round(getDaySchedule(scheduleCalendar, employeeKey || '', today).workSeconds / 36) / 100;
+  const liveTodayHours = (loggedByDate[today] || 0) / 3600;
+  const liveWeekHours = getWeekWorkDates(today).reduce((total, date) => total + (loggedByDate[date] || 0), 0) / 3600;
+  const todayHours = Math.round((userStats.todayHours + liveTodayHours) * 100) / 100;
+  // Earlier working days of this week without a submitted timesheet; holidays and leave are excused
+  const missingDates = getMissingTimesheetDates(scheduleCalendar, employeeKey || '', getWeekWorkDates(today), submittedDates, today);
+  const weekHours = Math.round((userStats.weekHours + liveWeekHours) * 100) / 100;
 
-  const quickActions = [
-    {
+  const quickActions: { title: string; description: string; icon: LucideIcon; action: () => void; variant: "default" }[] = [];
+
+  if (can("timesheet.submit")) {
+    quickActions.push({
       title: "Start Timesheet",
       description: "Begin tracking your daily tasks",
       icon: Play,
       action: () => navigate("/timesheet"),
       variant: "default" as const
-    }
-  ];
+    });
+  }
 
-  // Add View Reports for roles other than Team Member and SME
-  if (userRole !== "team-member" && userRole !== "sme") {
+  if (can("reports.view.team")) {
     quickActions.push({
       title: "View Reports", 
       description: "Access your time tracking reports",
@@ -118,8 +159,7 @@ const Dashboard = () => {
     });
   }
 
-  // Add role-specific actions
-  if (userRole === "sme" || userRole === "admin" || userRole === "super-user") {
+  if (can("catalog.view")) {
     quickActions.push({
       title: "Manage Tasks",
       description: "Add or modify task definitions",
@@ -129,7 +169,37 @@ const Dashboard = () => {
     });
   }
 
-  if (userRole === "admin" || userRole === "super-user") {
+  if (can("timesheets.review")) {
+    quickActions.push({
+      title: "Approve Timesheets",
+      description: "Review your team's submitted days",
+      icon: CheckCircle,
+      action: () => navigate("/approvals"),
+      variant: "default" as const
+    });
+  }
+
+  if (can("presence.view")) {
+    quickActions.push({
+      title: "Team Now",
+      description: "See who is working on what right now",
+      icon: Radio,
+      action: () => navigate("/team-now"),
+      variant: "default" as const
+    });
+  }
+
+  if (can("leave.request")) {
+    quickActions.push({
+      title: "Leave",
+      description: "Request time off and see who is away",
+      icon: Plane,
+      action: () => navigate("/leave"),
+      variant: "default" as const
+    });
+  }
+
+  if (can("employees.manage")) {
     quickActions.push({
       title: "Team Management",
       description: "Manage team members and settings", 
@@ -137,7 +207,9 @@ const Dashboard = () => {
       action: () => navigate("/team"),
       variant: "default" as const
     });
-    
+  }
+
+  if (can("dropdowns.edit")) {
     quickActions.push({
       title: "Dropdown Management",
       description: "Manage dropdown lists and data", 
@@ -163,6 +235,7 @@ const Dashboard = () => {
             </div>
             
             <div className="flex items-center space-x-4">
+              <SyncStatusIndicator />
               <div className="text-right">
                 <p className="text-sm font-medium text-foreground">
                   {userEmail || employeeId || "User"}
@@ -205,7 +278,7 @@ const Dashboard = () => {
                 <div>
                   <p className="text-sm font-medium text-foreground-muted">Today's Hours</p>
                   <p className="text-2xl font-bold text-foreground">
-                    {loading ? "--" : `${userStats.todayHours}h`}
+                    {loading ? "--" : `${todayHours}h`}
                   </p>
                   <p className="text-sm text-foreground-subtle">
                     of {targetHours}h target
@@ -262,7 +335,7 @@ const Dashboard = () => {
                 <div>
                   <p className="text-sm font-medium text-foreground-muted">This Week</p>
                   <p className="text-2xl font-bold text-foreground">
-                    {loading ? "--" : `${userStats.weekHours}h`}
+                    {loading ? "--" : `${weekHours}h`}
                   </p>
                   <p className="text-sm text-foreground-subtle">
                     this week
@@ -324,13 +397,13 @@ const Dashboard = () => {
                   <div className="flex justify-between text-sm mb-2">
                     <span className="text-foreground-muted">Daily Target Progress</span>
                     <span className="text-foreground">
-                      {loading ? "--" : `${userStats.todayHours}h / ${targetHours}h`}
+                      {loading ? "--" : `${todayHours}h / ${targetHours}h`}
                     </span>
                   </div>
                   <div className="w-full bg-muted rounded-full h-2">
                     <div 
                       className="bg-gradient-to-r from-primary to-primary-glow h-2 rounded-full transition-all duration-300"
-                      style={{ width: loading ? '0%' : `${Math.min((userStats.todayHours / targetHours) * 100, 100)}%` }}
+                      style={{ width: loading ? '0%' : `${targetHours > 0 ? Math.min((todayHours / targetHours) * 100, 100) : 100}%` }}
                     ></div>
                   </div>
                 </div>
@@ -338,14 +411,36 @@ const Dashboard = () => {
                 <div className="pt-4 border-t border-border">
                   <p className="text-sm text-foreground-muted mb-2">Remaining time needed:</p>
                   <p className="text-lg font-semibold text-warning">
-                    {loading ? "--" : `${Math.max(targetHours - userStats.todayHours, 0).toFixed(1)}h`}
+                    {loading ? "--" : `${Math.max(targetHours - todayHours, 0).toFixed(1)}h`}
                   </p>
                 </div>
+
+                {!loading && can("timesheet.submit") && (
+                  <div className="pt-4 border-t border-border">
+                    <p className="text-sm text-foreground-muted mb-2">Missing timesheets this week:</p>
+                    {missingDates.length === 0 ? (
+                      <p className="text-sm text-foreground">None - you're all caught up</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {missingDates.map(date => (
+                          <Badge key={date} variant="destructive" className="cursor-pointer" onClick={() => navigate("/timesheet")}>
+                            {format(fromWorkDate(date), "EEE, MMM d")}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
+
+        {(can("timesheet.submit") || can("reports.view.team")) && <SlaAtRiskWidget />}
       </main>
+
+      {/* Timers keep running here, so idle time is caught here too */}
+      <IdleTimerPrompt employeeKey={employeeKey} />
     </div>
   );
 };
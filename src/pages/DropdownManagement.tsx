@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -15,34 +16,41 @@ import {
   CheckSquare,
   Plus,
   Upload,
-  Download,
   Trash2,
-  X
+  X,
+  History
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { DropdownBulkUpload } from "@/components/DropdownBulkUpload";
+import {
+  getDropdownVersions,
+  saveDropdownDraft,
+  publishDropdownVersion,
+  discardDropdownDraft
+} from "@/services/DropdownService";
+import { toWorkDate } from "@/utils/dateHelpers";
 import { 
-  getDropdownData, 
-  updateUniversities, 
-  updateDomains
-} from "@/utils/dropdownStorage";
-import { 
-  DropdownData, 
+  DropdownLists, 
+  DropdownListVersion, 
   DropdownType, 
   BulkUploadResult, 
   University as UniversityType, 
   Domain as DomainType
 } from "@/types/dropdown";
+import { ExportMenu } from "@/components/ExportMenu";
+import { exportSheets, ExportFormat } from "@/utils/spreadsheetUtils";
 
 const DropdownManagement = () => {
-  const [userRole, setUserRole] = useState<string>("");
-  const [dropdownData, setDropdownData] = useState<DropdownData>({
+  const { employee } = useAuth();
+  const userRole = employee?.role ?? "";
+  const [dropdownData, setDropdownData] = useState<DropdownLists>({
     universities: [],
     domains: [],
     clientTypes: [],
-    stubs: [],
-    tasks: []
+    stubs: []
   });
+  const [versions, setVersions] = useState<DropdownListVersion[]>([]);
+  const [effectiveFrom, setEffectiveFrom] = useState<string>(() => toWorkDate());
   const [showBulkUpload, setShowBulkUpload] = useState<{
     type: DropdownType | null;
     title: string;
@@ -53,18 +61,70 @@ const DropdownManagement = () => {
   const { toast } = useToast();
 
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role || (role !== "admin" && role !== "super-user")) {
-      navigate("/dashboard");
-      return;
-    }
-    setUserRole(role);
     loadDropdownData();
-  }, [navigate]);
+  }, []);
+
+  // Changes go to the draft; the lists shown are the draft's, or the latest published version's
+  const loadDropdownData = async () => {
+    const allVersions = await getDropdownVersions();
+    setVersions(allVersions);
+    const shown = allVersions.find(v => v.status === 'draft') || allVersions.find(v => v.status === 'published');
+    if (shown) setDropdownData(shown.lists);
+  };
+
+  const draft = versions.find(v => v.status === 'draft');
+  const latestPublished = versions.find(v => v.status === 'published');
 
-  const loadDropdownData = () => {
-    const data = getDropdownData();
-    setDropdownData(data);
+  const getActor = () => localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "";
+
+  const saveLists = async (lists: Partial<DropdownLists>): Promise<boolean> => {
+    try {
+      const saved = await saveDropdownDraft(lists, getActor());
+      setDropdownData(saved.lists);
+      setVersions(prev => [saved, ...prev.filter(v => v.status !== 'draft')]);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save changes",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const updateUniversities = (universities: UniversityType[]) => saveLists({ universities });
+  const updateDomains = (domains: DomainType[]) => saveLists({ domains });
+
+  const handlePublish = async () => {
+    try {
+      const published = await publishDropdownVersion(getActor(), effectiveFrom);
+      await loadDropdownData();
+      toast({
+        title: "Version Published",
+        description: `Version ${published.version} is in effect from ${published.effectiveFrom}`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!confirm("Discard all unpublished changes?")) return;
+    try {
+      await discardDropdownDraft(getActor());
+      await loadDropdownData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to discard changes",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleBulkUpload = async (type: DropdownType, data: any[]): Promise<BulkUploadResult> => {
@@ -76,18 +136,17 @@ const DropdownManagement = () => {
           processedData = data.map(row => ({
             name: row.University
           }));
-          updateUniversities(processedData as UniversityType[]);
+          if (!await updateUniversities(processedData as UniversityType[])) throw new Error("Upload failed");
           break;
           
         case 'domains':
           processedData = data.map(row => ({
             name: row.Domain || row.domain || row.Name || row.name || ''
           }));
-          updateDomains(processedData as DomainType[]);
+          if (!await updateDomains(processedData as DomainType[])) throw new Error("Upload failed");
           break;
       }
 
-      loadDropdownData(); // Refresh the data
       setShowBulkUpload({ type: null, title: "" });
       
       return {
@@ -104,57 +163,40 @@ const DropdownManagement = () => {
     }
   };
 
-  const exportData = (type: DropdownType) => {
-    let csvContent = "";
-    let filename = "";
-    
+  const exportData = async (type: DropdownType, format: ExportFormat) => {
     switch (type) {
       case 'universities':
-        csvContent = [
-          ["University"],
-          ...dropdownData.universities.map(u => [u.name])
-        ].map(row => row.join(",")).join("\n");
-        filename = "universities_export.csv";
+        await exportSheets([{
+          name: "Universities",
+          columns: [{ header: "University" }],
+          rows: dropdownData.universities.map(u => [u.name])
+        }], "universities_export", format);
         break;
         
       case 'domains':
-        csvContent = [
-          ["Domain"],
-          ...dropdownData.domains.map(d => [d.name])
-        ].map(row => row.join(",")).join("\n");
-        filename = "domains_export.csv";
+        await exportSheets([{
+          name: "Domains",
+          columns: [{ header: "Domain" }],
+          rows: dropdownData.domains.map(d => [d.name])
+        }], "domains_export", format);
         break;
     }
     
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    window.URL.revokeObjectURL(url);
-    
+
     toast({
       title: "Export Complete",
       description: `${type} data exported successfully`
     });
   };
 
-  const clearAllData = (type: DropdownType) => {
+  const clearAllData = async (type: DropdownType) => {
     if (!confirm(`Are you sure you want to clear all ${type} data? This action cannot be undone.`)) {
       return;
     }
     
-    switch (type) {
-      case 'universities':
-        updateUniversities([]);
-        break;
-      case 'domains':
-        updateDomains([]);
-        break;
-    }
-    
-    loadDropdownData();
+    const saved = type === 'universities' ? await updateUniversities([]) : await updateDomains([]);
+    if (!saved) return;
+
     toast({
       title: "Data Cleared",
       description: `All ${type} data has been cleared`,
@@ -162,7 +204,7 @@ const DropdownManagement = () => {
     });
   };
 
-  const addItem = (type: DropdownType) => {
+  const addItem = async (type: DropdownType) => {
     const trimmedName = newItemName.trim();
     
     if (!trimmedName) {
@@ -185,7 +227,7 @@ const DropdownManagement = () => {
           });
           return;
         }
-        updateUniversities([...dropdownData.universities, { name: trimmedName }]);
+        if (!await updateUniversities([...dropdownData.universities, { name: trimmedName }])) return;
         break;
       case 'domains':
         const existingDomain = dropdownData.domains.find(d => d.name === trimmedName);
@@ -197,29 +239,23 @@ const DropdownManagement = () => {
           });
           return;
         }
-        updateDomains([...dropdownData.domains, { name: trimmedName }]);
+        if (!await updateDomains([...dropdownData.domains, { name: trimmedName }])) return;
         break;
     }
 
     setNewItemName("");
-    loadDropdownData();
     toast({
       title: "Added Successfully",
       description: `${trimmedName} has been added to ${type}`
     });
   };
 
-  const removeItem = (type: DropdownType, itemName: string) => {
-    switch (type) {
-      case 'universities':
-        updateUniversities(dropdownData.universities.filter(u => u.name !== itemName));
-        break;
-      case 'domains':
-        updateDomains(dropdownData.domains.filter(d => d.name !== itemName));
-        break;
-    }
+  const removeItem = async (type: DropdownType, itemName: string) => {
+    const saved = type === 'universities'
+      ? await updateUniversities(dropdownData.universities.filter(u => u.name !== itemName))
+      : await updateDomains(dropdownData.domains.filter(d => d.name !== itemName));
+    if (!saved) return;
 
-    loadDropdownData();
     toast({
       title: "Removed Successfully",
       description: `${itemName} has been removed`
@@ -234,7 +270,7 @@ const DropdownManagement = () => {
     setEditingItem(null);
   };
 
-  const saveEdit = (type: DropdownType) => {
+  const saveEdit = async (type: DropdownType) => {
     if (!editingItem || !editingItem.newName.trim()) {
       toast({
         title: "Error",
@@ -257,9 +293,9 @@ const DropdownManagement = () => {
           });
           return;
         }
-        updateUniversities(dropdownData.universities.map(u => 
+        if (!await updateUniversities(dropdownData.universities.map(u => 
           u.name === editingItem.originalName ? { name: trimmedName } : u
-        ));
+        ))) return;
         break;
       case 'domains':
         const existingDom = dropdownData.domains.find(d => d.name === trimmedName && d.name !== editingItem.originalName);
@@ -271,13 +307,12 @@ const DropdownManagement = () => {
           });
           return;
         }
-        updateDomains(dropdownData.domains.map(d => 
+        if (!await updateDomains(dropdownData.domains.map(d => 
           d.name === editingItem.originalName ? { name: trimmedName } : d
-        ));
+        ))) return;
         break;
     }
 
-    loadDropdownData();
     setEditingItem(null);
     toast({
       title: "Updated Successfully",
@@ -341,6 +376,59 @@ const DropdownManagement = () => {
           <Badge variant="secondary">{userRole}</Badge>
         </div>
 
+        {/* Versions */}
+        <Card className="shadow-soft border-border mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <History className="w-6 h-6 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">
+                    {draft ? `Draft version ${draft.version}` : `Version ${latestPublished?.version ?? "-"}`}
+                  </CardTitle>
+                  <CardDescription>
+                    {draft
+                      ? "Changes are not visible on timesheets until they are published"
+                      : "Changes are saved as a draft and published as a new version"}
+                  </CardDescription>
+                </div>
+              </div>
+              {draft && <Badge variant="outline">Unpublished changes</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {draft && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-foreground-muted">Effective from</span>
+                <Input
+                  type="date"
+                  value={effectiveFrom}
+                  min={latestPublished?.effectiveFrom ?? undefined}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  className="w-44"
+                />
+                <Button onClick={handlePublish} disabled={!effectiveFrom}>
+                  Publish
+                </Button>
+                <Button variant="outline" onClick={handleDiscardDraft}>
+                  Discard Changes
+                </Button>
+              </div>
+            )}
+            <div className="space-y-1 text-sm">
+              {versions.filter(v => v.status === 'published').slice(0, 5).map(v => (
+                <div key={v.version} className="flex items-center gap-3 text-foreground-muted">
+                  <Badge variant={v.version === latestPublished?.version ? "default" : "secondary"}>v{v.version}</Badge>
+                  <span>{v.effectiveFrom} – {v.effectiveTo ?? "now"}</span>
+                  {v.publishedBy && <span>by {v.publishedBy}</span>}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Management Tabs */}
         <Tabs defaultValue="universities" className="space-y-6">
           <TabsList className="grid grid-cols-2 w-full">
@@ -406,14 +494,10 @@ const DropdownManagement = () => {
                       <Upload className="w-4 h-4 mr-2" />
                       Bulk Upload
                     </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => exportData(section.id)}
+                    <ExportMenu
+                      onExport={(format) => exportData(section.id, format)}
                       disabled={section.data.length === 0}
-                    >
-                      <Download className="w-4 h-4 mr-2" />
-                      Export CSV
-                    </Button>
+                    />
                     <Button
                       variant="destructive"
                       onClick={() => clearAllData(section.id)}
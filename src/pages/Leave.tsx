@@ -0,0 +1,401 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, CalendarPlus, Check, ClipboardCheck, Plane, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { TeamLeaveCalendar } from "@/components/TeamLeaveCalendar";
+import {
+  LeaveAction,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  canCancelLeave,
+  cancelLeaveRequest,
+  getEmployeeLeave,
+  getLeaveRequests,
+  getLeaveTypes,
+  requestLeave,
+  reviewLeaveRequest
+} from "@/services/LeaveService";
+import { EMPTY_CALENDAR, getExpectedWork, getScheduleCalendar, ScheduleCalendar } from "@/services/ScheduleService";
+import { addDaysToWorkDate, fromWorkDate, toWorkDate } from "@/utils/dateHelpers";
+
+const statusVariant = (status: LeaveStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "approved": return "default";
+    case "rejected": return "destructive";
+    case "cancelled": return "outline";
+    default: return "secondary";
+  }
+};
+
+const formatRange = (request: LeaveRequest) =>
+  request.startDate === request.endDate
+    ? `${format(fromWorkDate(request.startDate), "EEE, MMM d, yyyy")}${request.halfDay ? " (half day)" : ""}`
+    : `${format(fromWorkDate(request.startDate), "MMM d")} - ${format(fromWorkDate(request.endDate), "MMM d, yyyy")}`;
+
+const emptyDraft = () => ({ leaveType: "", startDate: toWorkDate(), endDate: toWorkDate(), halfDay: false, reason: "" });
+
+const Leave = () => {
+  const { employee, can } = useAuth();
+  const [actor, setActor] = useState("");
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [submitting, setSubmitting] = useState(false);
+  const [myLeave, setMyLeave] = useState<LeaveRequest[]>([]);
+  const [pending, setPending] = useState<LeaveRequest[]>([]);
+  const [calendar, setCalendar] = useState<ScheduleCalendar>(EMPTY_CALENDAR);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [rejecting, setRejecting] = useState<LeaveRequest | null>(null);
+  const [rejectComment, setRejectComment] = useState("");
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const today = toWorkDate();
+  const canApprove = can("leave.approve");
+
+  useEffect(() => {
+    setActor(localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "");
+    getLeaveTypes().then(types => {
+      setLeaveTypes(types);
+      setDraft(prev => ({ ...prev, leaveType: prev.leaveType || types[0]?.key || "" }));
+    });
+    getScheduleCalendar().then(setCalendar);
+  }, []);
+
+  const loadRequests = useCallback(async () => {
+    if (!employee) return;
+    setMyLeave(await getEmployeeLeave(employee.employeeId));
+    if (canApprove) {
+      // Reviewers see pending leave of the teams they can see, from a month back
+      const requests = await getLeaveRequests(addDaysToWorkDate(today, -31), addDaysToWorkDate(today, 366), ["pending"]);
+      setPending(requests.filter(request => request.employeeCode !== employee.employeeId));
+    }
+  }, [employee, canApprove, today]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const refresh = async () => {
+    await loadRequests();
+    setRefreshKey(key => key + 1);
+    getScheduleCalendar().then(setCalendar);
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const singleDay = draft.startDate === draft.endDate;
+  const scheduledDays = draft.startDate && draft.endDate && draft.endDate >= draft.startDate
+    ? getExpectedWork(calendar, employee?.employeeId || "", draft.startDate, draft.endDate).days
+    : 0;
+
+  const handleSubmit = async () => {
+    if (!draft.leaveType || !draft.startDate || !draft.endDate) {
+      toast({ title: "Validation Error", description: "Choose a leave type and dates", variant: "destructive" });
+      return;
+    }
+    if (draft.endDate < draft.startDate) {
+      toast({ title: "Validation Error", description: "Leave must end on or after the day it starts", variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await requestLeave({ ...draft, halfDay: singleDay && draft.halfDay }, actor);
+      toast({ title: "Leave Requested", description: "Your request was sent for approval" });
+      setDraft(prev => ({ ...emptyDraft(), leaveType: prev.leaveType }));
+      await refresh();
+    } catch (error) {
+      showError(error, "Failed to request leave");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    if (!confirm(`Cancel your ${request.leaveLabel.toLowerCase()} on ${formatRange(request)}?`)) return;
+
+    try {
+      await cancelLeaveRequest(request.id, actor);
+      toast({ title: "Leave Cancelled", description: `${request.leaveLabel} on ${formatRange(request)} was cancelled` });
+      await refresh();
+    } catch (error) {
+      showError(error, "Failed to cancel leave");
+    }
+  };
+
+  const handleReview = async (request: LeaveRequest, action: LeaveAction, comment?: string) => {
+    try {
+      const status = await reviewLeaveRequest(request.id, action, actor, comment);
+      toast({
+        title: "Leave updated",
+        description: `${request.employeeName} • ${formatRange(request)} is now ${status}`
+      });
+      await refresh();
+    } catch (error) {
+      showError(error, "Failed to update leave");
+    }
+  };
+
+  const handleConfirmReject = async () => {
+    if (!rejecting) return;
+    if (!rejectComment.trim()) {
+      toast({
+        title: "Comment Required",
+        description: "Please explain why the leave is rejected",
+        variant: "destructive"
+      });
+      return;
+    }
+    await handleReview(rejecting, "reject", rejectComment);
+    setRejecting(null);
+    setRejectComment("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate("/dashboard")}
+            className="bg-surface border-border hover:bg-surface-elevated"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-foreground">Leave</h1>
+            <p className="text-foreground-muted">Request time off and see who is away</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="shadow-soft border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarPlus className="w-5 h-5" />
+                Request Leave
+              </CardTitle>
+              <CardDescription>Approved leave is taken out of your expected hours</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label>Leave Type</Label>
+                <Select value={draft.leaveType} onValueChange={(value) => setDraft(prev => ({ ...prev, leaveType: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a leave type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {leaveTypes.map(type => (
+                      <SelectItem key={type.key} value={type.key}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="leave-start">From</Label>
+                  <Input
+                    id="leave-start"
+                    type="date"
+                    value={draft.startDate}
+                    onChange={(e) => setDraft(prev => ({
+                      ...prev,
+                      startDate: e.target.value,
+                      endDate: prev.endDate < e.target.value ? e.target.value : prev.endDate
+                    }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="leave-end">To</Label>
+                  <Input
+                    id="leave-end"
+                    type="date"
+                    value={draft.endDate}
+                    min={draft.startDate}
+                    onChange={(e) => setDraft(prev => ({ ...prev, endDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {singleDay && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="leave-half-day"
+                    checked={draft.halfDay}
+                    onCheckedChange={(checked) => setDraft(prev => ({ ...prev, halfDay: checked }))}
+                  />
+                  <Label htmlFor="leave-half-day">Half day</Label>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="leave-reason">Reason</Label>
+                <Textarea
+                  id="leave-reason"
+                  value={draft.reason}
+                  onChange={(e) => setDraft(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {scheduledDays} scheduled working day(s) in this range
+              </p>
+              <Button className="w-full" onClick={handleSubmit} disabled={submitting}>
+                {submitting ? "Sending..." : "Request Leave"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-soft border-border lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plane className="w-5 h-5" />
+                My Leave
+              </CardTitle>
+              <CardDescription>{myLeave.length} request(s)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {myLeave.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No leave requested yet.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {myLeave.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.leaveLabel}</TableCell>
+                        <TableCell>{formatRange(request)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant(request.status)} className="capitalize">{request.status}</Badge>
+                          {request.reviewComment && (
+                            <div className="text-xs text-muted-foreground mt-1">{request.reviewComment}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canCancelLeave(request, today) && (
+                            <Button size="sm" variant="outline" onClick={() => handleCancel(request)}>
+                              <X className="w-4 h-4 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {canApprove && (
+          <Card className="shadow-soft border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="w-5 h-5" />
+                Leave Approvals
+              </CardTitle>
+              <CardDescription>{pending.length} pending request(s) from your teams</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {pending.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No leave to review.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pending.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.employeeName}</TableCell>
+                        <TableCell>{request.leaveLabel}</TableCell>
+                        <TableCell>{formatRange(request)}</TableCell>
+                        <TableCell className="text-muted-foreground">{request.reason || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={() => handleReview(request, "approve")}>
+                              <Check className="w-4 h-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button size="sm" variant="destructive" onClick={() => setRejecting(request)}>
+                              <X className="w-4 h-4 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <TeamLeaveCalendar holidays={calendar.holidays} refreshKey={refreshKey} />
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setRejectComment(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Leave</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.employeeName} • ${rejecting.leaveLabel} • ${formatRange(rejecting)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="leave-reject-comment">Reason *</Label>
+            <Textarea
+              id="leave-reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              placeholder="Why is this leave rejected?"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setRejecting(null); setRejectComment(""); }}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmReject} disabled={!rejectComment.trim()}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Leave;
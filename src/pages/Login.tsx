@@ -9,6 +9,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { Clock, Shield, Users } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import ChangePasswordDialog from "@/components/ChangePasswordDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { getRoles, SUPER_USER_ROLE, type Role } from "@/services/RoleService";
+
+type AuthResult = Database["public"]["Functions"]["authenticate_employee"]["Returns"][number];
 
 const Login = () => {
   const [loginType, setLoginType] = useState<"employee" | "super-user">("employee");
@@ -16,15 +22,56 @@ const Login = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [role, setRole] = useState("");
+  const [roles, setRoles] = useState<Role[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Signed in, but the password has to be changed before continuing
+  const [pendingLogin, setPendingLogin] = useState<{ record: AuthResult; login: string } | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { signIn } = useAuth();
 
   // Clear session storage when component mounts (user is logging in)
   useEffect(() => {
     clearSessionEntries();
   }, []);
 
+  useEffect(() => {
+    getRoles().then(setRoles);
+  }, []);
+
+  const rejectLogin = (record: AuthResult | undefined) => {
+    const lockedUntil = record?.locked_until ? new Date(record.locked_until) : null;
+    toast({
+      title: lockedUntil ? "Account Locked" : "Login Failed",
+      description: lockedUntil
+        ? `Too many failed attempts. Try again after ${lockedUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+        : "Invalid username or password",
+      variant: "destructive",
+    });
+  };
+
+  // The password is already verified; this starts the Supabase Auth session the role claims come from
+  const completeLogin = async (userRecord: AuthResult, sessionPassword: string) => {
+    try {
+      await signIn(userRecord.employee_id, sessionPassword);
+    } catch (error) {
+      console.error('Session error:', error);
+      toast({
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : "Could not start your session",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    toast({
+      title: "Login Successful",
+      description: `Welcome back, ${userRecord.full_name || (loginType === "super-user" ? 'Super User' : userRecord.employee_id)}!`,
+    });
+    
+    navigate("/dashboard");
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -61,11 +108,7 @@ const Login = () => {
         }
         
         if (!data || data.length === 0 || !data[0].auth_success) {
-          toast({
-            title: "Login Failed",
-            description: "Invalid username or password",
-            variant: "destructive",
-          });
+          rejectLogin(data?.[0]);
           setIsLoading(false);
           return;
         }
@@ -81,16 +124,12 @@ const Login = () => {
           return;
         }
         
-        localStorage.setItem("userRole", userRecord.role);
-        localStorage.setItem("userEmail", userRecord.email);
-        localStorage.setItem("currentUser", userRecord.full_name || userRecord.email);
-        
-        toast({
-          title: "Login Successful",
-          description: `Welcome back, ${userRecord.full_name || 'Super User'}!`,
-        });
+        if (userRecord.must_change_password) {
+          setPendingLogin({ record: userRecord, login: email });
+          return;
+        }
         
-        navigate("/dashboard");
+        await completeLogin(userRecord, password);
       } else {
         // Employee login with Employee ID
         if (!employeeId || !password || !role) {
@@ -122,11 +161,7 @@ const Login = () => {
         }
         
         if (!data || data.length === 0 || !data[0].auth_success) {
-          toast({
-            title: "Login Failed",
-            description: "Invalid username or password",
-            variant: "destructive",
-          });
+          rejectLogin(data?.[0]);
           setIsLoading(false);
           return;
         }
@@ -142,16 +177,12 @@ const Login = () => {
           return;
         }
         
-        localStorage.setItem("userRole", userRecord.role);
-        localStorage.setItem("employeeId", userRecord.employee_id);
-        localStorage.setItem("currentUser", userRecord.full_name || userRecord.employee_id);
-        
-        toast({
-          title: "Login Successful",
-          description: `Welcome back, ${userRecord.full_name || userRecord.employee_id}!`,
-        });
+        if (userRecord.must_change_password) {
+          setPendingLogin({ record: userRecord, login: employeeId });
+          return;
+        }
         
-        navigate("/dashboard");
+        await completeLogin(userRecord, password);
       }
     } catch (error) {
       console.error('Login error:', error);
@@ -165,13 +196,6 @@ const Login = () => {
     }
   };
 
-  const roles = [
-    { value: "team-member", label: "Team Member", icon: Users },
-    { value: "sme", label: "SME", icon: Shield },
-    { value: "admin", label: "Admin", icon: Shield },
-    { value: "super-user", label: "Super User", icon: Shield },
-  ];
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -283,10 +307,10 @@ const Login = () => {
                         <SelectValue placeholder="Select your role" />
                       </SelectTrigger>
                       <SelectContent className="bg-surface border-border">
-                        {roles.filter(r => r.value !== "super-user").map((roleOption) => (
-                          <SelectItem key={roleOption.value} value={roleOption.value}>
+                        {roles.filter(r => r.name !== SUPER_USER_ROLE).map((roleOption) => (
+                          <SelectItem key={roleOption.name} value={roleOption.name}>
                             <div className="flex items-center gap-2">
-                              <roleOption.icon className="w-4 h-4" />
+                              {roleOption.name === "team-member" ? <Users className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
                               {roleOption.label}
                             </div>
                           </SelectItem>
@@ -308,6 +332,22 @@ const Login = () => {
           </CardContent>
         </Card>
 
+        <ChangePasswordDialog
+          open={!!pendingLogin}
+          login={pendingLogin?.login || ""}
+          currentPassword={password}
+          onChanged={(newPassword) => {
+            const record = pendingLogin?.record;
+            setPendingLogin(null);
+            setPassword("");
+            if (record) completeLogin(record, newPassword);
+          }}
+          onCancel={() => {
+            setPendingLogin(null);
+            setPassword("");
+          }}
+        />
+
         {/* Footer */}
         <div className="text-center mt-6">
           <p className="text-sm text-foreground-subtle">
@@ -7,18 +7,23 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, BarChart3, FileText, Calendar, Download, Filter } from "lucide-react";
 import { PerformanceFilters, FilterPeriod } from "@/components/PerformanceFilters";
 import { useToast } from "@/hooks/use-toast";
-import { getSupabaseReportData, exportReportWithNames } from "@/utils/reportUtils";
+import { getSupabaseReportData, exportReportWithNames, ReportApprovalFilter } from "@/utils/reportUtils";
+import type { ExportFormat } from "@/utils/spreadsheetUtils";
 import { DashboardProvider, useDashboard } from "@/contexts/DashboardContext";
 import { GlobalDateFilter } from "@/components/GlobalDateFilter";
 import { FilterStatusPill } from "@/components/FilterStatusPill";
-import { getFilterCacheKey } from "@/utils/dateHelpers";
+import { getDateBoundaries, getFilterCacheKey, toWorkDate } from "@/utils/dateHelpers";
 import { formatHours, formatMinutes } from "@/utils/formatUtils";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { getSubtreeIds, getTeamPath, getTeams, getVisibleTeamIds, type Team } from "@/services/TeamService";
+import { BreakComplianceReport } from "@/components/BreakComplianceReport";
+import { SlaReport } from "@/components/SlaReport";
 
 const ReportsContent = () => {
-  const [userRole, setUserRole] = useState<string>("");
   const [selectedTeam, setSelectedTeam] = useState("all");
   const [selectedEmployee, setSelectedEmployee] = useState("all");
+  const [approvalFilter, setApprovalFilter] = useState<ReportApprovalFilter>("all");
   const [performanceFilter, setPerformanceFilter] = useState<{
     period: FilterPeriod;
     startDate: Date;
@@ -31,15 +36,16 @@ const ReportsContent = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { globalDateFilter, lastUpdated } = useDashboard();
+  const { can } = useAuth();
 
-  // State for teams and employees from database
-  const [teams, setTeams] = useState<Array<{ id: string; name: string }>>([]);
-  const [employees, setEmployees] = useState<Array<{ id: string; name: string; team?: string }>>([]);
+  // State for teams and employees from database, limited to the teams this user may see
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [employees, setEmployees] = useState<Array<{ id: string; name: string; email: string | null; teamId: string | null }>>([]);
   const [loadingTeamsEmployees, setLoadingTeamsEmployees] = useState(true);
 
   // Get actual report data from Supabase using global date filter
   const getActualReportData = async () => {
-    return await getSupabaseReportData(globalDateFilter);
+    return await getSupabaseReportData(globalDateFilter, approvalFilter);
   };
 
   const [reportData, setReportData] = useState<any>(null);
@@ -50,37 +56,33 @@ const ReportsContent = () => {
     const loadTeamsAndEmployees = async () => {
       setLoadingTeamsEmployees(true);
       try {
-        const { data: employeesData, error } = await supabase
-          .from('employees')
-          .select('id, employee_id, full_name, team')
-          .eq('is_active', true)
-          .order('full_name');
+        const [{ data: employeesData, error }, allTeams, visibleTeamIds] = await Promise.all([
+          supabase
+            .from('employees')
+            .select('id, employee_id, full_name, email, team_id')
+            .eq('is_active', true)
+            .order('full_name'),
+          getTeams(),
+          getVisibleTeamIds()
+        ]);
 
         if (error) {
           console.error('Error loading employees:', error);
           return;
         }
 
-        // Process employees
-        const processedEmployees = (employeesData || []).map(emp => ({
-          id: emp.employee_id,
-          name: emp.full_name || emp.employee_id,
-          team: emp.team
-        }));
+        // Employees outside the visible teams have no rows in the report anyway
+        const processedEmployees = (employeesData || [])
+          .filter(emp => can("teams.view.all") || (emp.team_id && visibleTeamIds.includes(emp.team_id)))
+          .map(emp => ({
+            id: emp.employee_id,
+            name: emp.full_name || emp.employee_id,
+            email: emp.email,
+            teamId: emp.team_id
+          }));
 
         setEmployees(processedEmployees);
-
-        // Extract unique teams
-        const uniqueTeams = Array.from(new Set(
-          processedEmployees
-            .map(emp => emp.team)
-            .filter(team => team && team.trim() !== '')
-        )).map(team => ({
-          id: team!,
-          name: team!
-        }));
-
-        setTeams(uniqueTeams);
+        setTeams(allTeams.filter(team => visibleTeamIds.includes(team.id)));
       } catch (error) {
         console.error('Error loading teams and employees:', error);
       } finally {
@@ -89,7 +91,7 @@ const ReportsContent = () => {
     };
 
     loadTeamsAndEmployees();
-  }, [lastUpdated]); // Reload when data is refreshed
+  }, [lastUpdated, can]); // Reload when data is refreshed
 
   // Load report data when filter changes
   useEffect(() => {
@@ -111,14 +113,15 @@ const ReportsContent = () => {
     };
 
     loadReportData();
-  }, [getFilterCacheKey(globalDateFilter), lastUpdated]);
+  }, [getFilterCacheKey(globalDateFilter), approvalFilter, lastUpdated]);
 
-  // Get filtered employees based on selected team
+  // Get filtered employees based on selected team, including its sub-teams
   const getFilteredEmployees = () => {
     if (selectedTeam === "all") {
       return employees;
     }
-    return employees.filter(emp => emp.team === selectedTeam);
+    const teamIds = getSubtreeIds(teams, selectedTeam);
+    return employees.filter(emp => emp.teamId && teamIds.includes(emp.teamId));
   };
 
   // Get filtered report data based on selections using actual data
@@ -154,7 +157,9 @@ const ReportsContent = () => {
     setPerformanceFilter({ period, startDate, endDate });
   };
 
-  const exportReport = (reportType: string) => {
+  const reportBoundaries = getDateBoundaries(globalDateFilter);
+
+  const exportReport = async (reportType: string, format: ExportFormat) => {
     if (!reportData) {
       toast({
         title: "Error",
@@ -165,7 +170,7 @@ const ReportsContent = () => {
     }
 
     try {
-      const filename = exportReportWithNames(reportType, reportData, globalDateFilter);
+      const filename = await exportReportWithNames(reportType, reportData, globalDateFilter, format);
       toast({
         title: "Export Complete",
         description: `${reportType} report exported as ${filename}`
@@ -180,22 +185,6 @@ const ReportsContent = () => {
     }
   };
 
-  useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role) {
-      navigate("/");
-      return;
-    }
-    
-    // Block access for Team Member and SME roles
-    if (role === "team-member" || role === "sme") {
-      navigate("/dashboard");
-      return;
-    }
-    
-    setUserRole(role);
-  }, [navigate]);
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated">
       <div className="container mx-auto p-6">
@@ -229,7 +218,7 @@ const ReportsContent = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
               <div className="space-y-4">
                 <GlobalDateFilter />
               </div>
@@ -245,7 +234,7 @@ const ReportsContent = () => {
                   <SelectContent>
                     <SelectItem value="all">All Teams</SelectItem>
                     {teams.map(team => (
-                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      <SelectItem key={team.id} value={team.id}>{getTeamPath(teams, team.id)}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
@@ -264,11 +253,32 @@ const ReportsContent = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="approval">Approval State</Label>
+                <Select value={approvalFilter} onValueChange={(value) => setApprovalFilter(value as ReportApprovalFilter)}>
+                  <SelectTrigger className="bg-surface border-border">
+                    <SelectValue placeholder="Select approval state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Time</SelectItem>
+                    <SelectItem value="submitted">Pending Approval</SelectItem>
+                    <SelectItem value="approved">Approved</SelectItem>
+                    <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value="reopened">Reopened</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </CardContent>
         </Card>
 
         {/* Reports Grid */}
+        <div className="flex justify-end mb-4">
+          <Button variant="outline" onClick={() => exportReport("full-report", "xlsx")}>
+            <Download className="w-4 h-4 mr-2" />
+            Export All Reports (Excel)
+          </Button>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
           <Card className="shadow-soft border-border hover:shadow-medium transition-all duration-300">
             <CardHeader>
@@ -283,14 +293,16 @@ const ReportsContent = () => {
               </div>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={() => exportReport("time-summary")}
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => exportReport("time-summary", "csv")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={() => exportReport("time-summary", "xlsx")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Excel
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
@@ -307,14 +319,16 @@ const ReportsContent = () => {
               </div>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={() => exportReport("task-breakdown")}
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => exportReport("task-breakdown", "csv")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={() => exportReport("task-breakdown", "xlsx")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Excel
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
@@ -331,14 +345,16 @@ const ReportsContent = () => {
               </div>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Button 
-                className="w-full" 
-                variant="outline"
-                onClick={() => exportReport("employee-summary")}
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => exportReport("employee-summary", "csv")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={() => exportReport("employee-summary", "xlsx")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Excel
+                </Button>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -367,6 +383,10 @@ const ReportsContent = () => {
                   <span className="text-foreground-muted">Billable Hours:</span>
                   <span className="font-semibold">{formatHours(reportData.timeSummary.billableHours)}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-foreground-muted">Scheduled Hours:</span>
+                  <span className="font-semibold">{formatHours(reportData.timeSummary.expectedHours)}</span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-foreground-muted">Avg Daily Hours:</span>
                   <span className="font-semibold">{formatHours(reportData.timeSummary.avgDailyHours)}</span>
@@ -456,6 +476,7 @@ const ReportsContent = () => {
                     <th className="text-left py-2">Employee ID</th>
                     <th className="text-left py-2">Name</th>
                     <th className="text-left py-2">Total Hours</th>
+                    <th className="text-left py-2">Utilization</th>
                     <th className="text-left py-2">Tasks Completed</th>
                     <th className="text-left py-2">Avg AHT</th>
                     <th className="text-left py-2">AHT Efficiency</th>
@@ -464,7 +485,7 @@ const ReportsContent = () => {
                 <tbody>
                   {isLoading ? (
                     <tr>
-                      <td colSpan={6} className="py-8 text-center text-foreground-muted">
+                      <td colSpan={7} className="py-8 text-center text-foreground-muted">
                         <div className="animate-pulse">Loading employee data...</div>
                       </td>
                     </tr>
@@ -474,6 +495,9 @@ const ReportsContent = () => {
                         <td className="py-2">{employee.id}</td>
                         <td className="py-2">{employee.name}</td>
                         <td className="py-2">{formatHours(employee.totalHours)}</td>
+                        <td className="py-2" title={`Scheduled: ${formatHours(employee.expectedHours)}`}>
+                          {employee.utilizationRate}%
+                        </td>
                         <td className="py-2">{employee.tasks}</td>
                         <td className="py-2">{formatMinutes(employee.avgAHT)}</td>
                         <td className="py-2">
@@ -485,7 +509,7 @@ const ReportsContent = () => {
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={6} className="py-8 text-center text-foreground-muted">
+                      <td colSpan={7} className="py-8 text-center text-foreground-muted">
                         <p>No employee data available for the selected period.</p>
                         <p className="text-xs mt-1">No timesheet sessions were logged during this timeframe.</p>
                       </td>
@@ -497,6 +521,20 @@ const ReportsContent = () => {
           </CardContent>
         </Card>
 
+        <BreakComplianceReport
+          startDate={toWorkDate(reportBoundaries.startDate)}
+          endDate={toWorkDate(reportBoundaries.endDate)}
+          employees={getFilteredEmployees().filter(emp => selectedEmployee === "all" || emp.id === selectedEmployee)}
+          refreshKey={lastUpdated}
+        />
+
+        <SlaReport
+          startDate={toWorkDate(reportBoundaries.startDate)}
+          endDate={toWorkDate(reportBoundaries.endDate)}
+          employees={getFilteredEmployees().filter(emp => selectedEmployee === "all" || emp.id === selectedEmployee)}
+          refreshKey={lastUpdated}
+        />
+
         {/* Quick Stats */}
         <div className="mt-8">
           <h2 className="text-xl font-semibold text-foreground mb-4">Quick Statistics</h2>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,31 +8,23 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Plus, Search, Edit, Trash2, CheckCircle, Clock, AlertTriangle, Save, X, Upload, Download } from "lucide-react";
+import { ArrowLeft, Plus, Search, Edit, Trash2, CheckCircle, Clock, AlertTriangle, Save, X, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import BulkUpload from "@/components/BulkUpload";
 import { ColumnManager, ColumnManagerTrigger, ColumnConfig } from "@/components/ColumnManager";
-import { updateTasks } from "@/utils/dropdownStorage";
-
-interface Task {
-  id: string;
-  category: string;
-  subCategory: string;
-  aht: number; // Average Handle Time in minutes
-  team: string;
-  status: "active" | "inactive";
-  type: "direct" | "indirect";
-  // Backend-only fields (not displayed in UI)
-  description?: string;
-  estimatedTime?: number;
-  priority?: "low" | "medium" | "high";
-  createdBy: string;
-  createdAt: string;
-}
+import { getTasks, saveTasks, deleteTasks, Task } from "@/services/TaskService";
+import { getTeams, ALL_TEAMS, type Team } from "@/services/TeamService";
+import { ExportMenu } from "@/components/ExportMenu";
+import { exportSheets, ExportFormat } from "@/utils/spreadsheetUtils";
+
+// Rows added in the table are only stored once saved
+const NEW_TASK_PREFIX = "new-";
 
 const Tasks = () => {
-  const [userRole, setUserRole] = useState<string>("");
+  const { can } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [teamList, setTeamList] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterTeam, setFilterTeam] = useState("all");
   const [editingTask, setEditingTask] = useState<string | null>(null);
@@ -51,159 +44,98 @@ const Tasks = () => {
   const { toast } = useToast();
 
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role) {
-      navigate("/");
-      return;
-    }
-    setUserRole(role);
-    
     // Load column preferences from localStorage
     const savedColumns = localStorage.getItem("taskColumns");
     if (savedColumns) {
       setColumns(JSON.parse(savedColumns));
     }
     
-    // Load tasks from localStorage, or use sample data if none exists
-    const TASKS_STORAGE_KEY = "taskManagementData";
-    const savedTasks = localStorage.getItem(TASKS_STORAGE_KEY);
-    
-    if (savedTasks !== null) {
-      try {
-        const parsedTasks = JSON.parse(savedTasks);
-        setTasks(parsedTasks);
-      } catch (error) {
-        console.error("Error parsing saved tasks:", error);
-        // Fallback to sample data if parsing fails
-        loadSampleTasks();
-      }
-    } else {
-      // Load sample data only on first load (when null, not when empty)
-      loadSampleTasks();
+    loadTasks();
+    getTeams().then(setTeamList);
+  }, []);
+
+  const loadTasks = async () => {
+    setLoading(true);
+    setTasks(await getTasks());
+    setLoading(false);
+  };
+
+  const getActor = () => localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "";
+
+  // Persist tasks and merge the stored versions into the table
+  const persistTasks = async (changed: Task[], replacedIds: string[] = []): Promise<Task[] | null> => {
+    try {
+      const saved = await saveTasks(
+        changed.map(({ id, createdBy, createdAt, ...task }) => ({
+          ...task,
+          id: id.startsWith(NEW_TASK_PREFIX) ? undefined : id
+        })),
+        getActor()
+      );
+      setTasks(prev => {
+        const savedById = new Map(saved.map(task => [task.id, task]));
+        const next = prev
+          .filter(task => !replacedIds.includes(task.id) || savedById.has(task.id))
+          .map(task => savedById.get(task.id) || task);
+        saved.forEach(task => {
+          if (!next.some(existing => existing.id === task.id)) next.push(task);
+        });
+        return next;
+      });
+      return saved;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save tasks",
+        variant: "destructive"
+      });
+      return null;
     }
-  }, [navigate]);
-
-  const loadSampleTasks = () => {
-    const sampleTasks: Task[] = [
-      {
-        id: "1",
-        category: "Customer Support",
-        subCategory: "Phone Support",
-        aht: 15,
-        team: "Support",
-        status: "active",
-        type: "direct",
-        // Backend fields
-        description: "Handle customer inquiries and provide support",
-        estimatedTime: 15,
-        priority: "medium",
-        createdBy: "admin@company.com",
-        createdAt: "2024-01-15"
-      },
-      {
-        id: "2", 
-        category: "Customer Support",
-        subCategory: "Email Support",
-        aht: 10,
-        team: "All Teams",
-        status: "active",
-        type: "direct",
-        // Backend fields
-        description: "Handle email inquiries and provide support",
-        estimatedTime: 10,
-        priority: "medium",
-        createdBy: "sme@company.com",
-        createdAt: "2024-01-10"
-      },
-      {
-        id: "3",
-        category: "Technical",
-        subCategory: "Code Review",
-        aht: 30,
-        team: "Migration",
-        status: "active",
-        type: "direct",
-        // Backend fields
-        description: "Review code and provide feedback",
-        estimatedTime: 30,
-        priority: "high",
-        createdBy: "admin@company.com",
-        createdAt: "2024-01-12"
-      },
-      {
-        id: "4",
-        category: "Technical",
-        subCategory: "Bug Fixing",
-        aht: 90,
-        team: "All Teams",
-        status: "active",
-        type: "indirect",
-        // Backend fields
-        description: "Fix bugs and issues in the system",
-        estimatedTime: 90,
-        priority: "high",
-        createdBy: "sme@company.com",
-        createdAt: "2024-01-08"
-      },
-      {
-        id: "5",
-        category: "Content",
-        subCategory: "Documentation",
-        aht: 45,
-        team: "Exxat One",
-        status: "active",
-        type: "direct",
-        // Backend fields
-        description: "Create and maintain documentation",
-        estimatedTime: 45,
-        priority: "medium",
-        createdBy: "admin@company.com",
-        createdAt: "2024-01-14"
-      }
-    ];
-    setTasks(sampleTasks);
-    saveTasksToStorage(sampleTasks);
   };
 
-  // Save tasks to localStorage
-  const saveTasksToStorage = (taskList: Task[]) => {
-    const TASKS_STORAGE_KEY = "taskManagementData";
+  const removeTasks = async (ids: string[]): Promise<boolean> => {
+    const storedIds = ids.filter(id => !id.startsWith(NEW_TASK_PREFIX));
     try {
-      localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(taskList));
+      if (storedIds.length > 0) await deleteTasks(storedIds, getActor());
+      setTasks(prev => prev.filter(task => !ids.includes(task.id)));
+      return true;
     } catch (error) {
-      console.error("Error saving tasks to localStorage:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete tasks",
+        variant: "destructive"
+      });
+      return false;
     }
   };
 
-  const canManageTasks = userRole === "sme" || userRole === "admin" || userRole === "super-user";
+  // The catalog is shared by everyone, so only admins change it
+  const canManageTasks = can("catalog.edit");
 
   const filteredTasks = tasks.filter(task => {
     const matchesSearch = task.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          task.subCategory.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesTeam = filterTeam === "all" || task.team === filterTeam || task.team === "All Teams";
+    const matchesTeam = filterTeam === "all" || task.team === filterTeam || task.team === ALL_TEAMS;
     return matchesSearch && matchesTeam;
   });
 
   const handleAddTask = () => {
     const newTask: Task = {
-      id: Date.now().toString(),
+      id: `${NEW_TASK_PREFIX}${Date.now()}`,
       category: "New Category",
       subCategory: "New Sub Category",
       aht: 30,
-      team: "Support",
+      team: ALL_TEAMS,
       status: "active",
       type: "direct",
       // Backend fields
       description: "Task description",
-      estimatedTime: 30,
       priority: "medium",
       createdBy: localStorage.getItem("userEmail") || "",
       createdAt: new Date().toISOString().split('T')[0]
     };
 
-    const updatedTasks = [...tasks, newTask];
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
+    setTasks(prev => [...prev, newTask]);
     setEditingTask(newTask.id);
     setEditingData(newTask);
   };
@@ -213,17 +145,12 @@ const Tasks = () => {
     setEditingData({ ...task });
   };
 
-  const handleSaveTask = () => {
-    if (!editingTask || !editingData.category) return;
+  const handleSaveTask = async () => {
+    const task = tasks.find(t => t.id === editingTask);
+    if (!task || !editingData.category) return;
 
-    const updatedTasks = tasks.map(task => 
-      task.id === editingTask 
-        ? { ...task, ...editingData }
-        : task
-    );
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
-    syncTasksToDropdownStorage(updatedTasks);
+    const saved = await persistTasks([{ ...task, ...editingData, id: task.id }], [task.id]);
+    if (!saved) return;
     
     setEditingTask(null);
     setEditingData({});
@@ -235,39 +162,32 @@ const Tasks = () => {
   };
 
   const handleCancelEdit = () => {
+    // Unsaved new rows are dropped
+    if (editingTask?.startsWith(NEW_TASK_PREFIX)) {
+      setTasks(prev => prev.filter(task => task.id !== editingTask));
+    }
     setEditingTask(null);
     setEditingData({});
   };
 
-  const toggleTaskStatus = (taskId: string) => {
-    const updatedTasks = tasks.map(task => 
-      task.id === taskId 
-        ? { ...task, status: (task.status === "active" ? "inactive" : "active") as "active" | "inactive" }
-        : task
-    );
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
-    syncTasksToDropdownStorage(updatedTasks);
+  const toggleTaskStatus = async (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || taskId.startsWith(NEW_TASK_PREFIX)) return;
+    await persistTasks([{ ...task, status: task.status === "active" ? "inactive" : "active" }]);
   };
 
-  const deleteTask = (taskId: string) => {
-    const updatedTasks = tasks.filter(task => task.id !== taskId);
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
-    syncTasksToDropdownStorage(updatedTasks);
+  const deleteTask = async (taskId: string) => {
+    if (!await removeTasks([taskId])) return;
     toast({
       title: "Task Deleted",
       description: "Task has been removed successfully"
     });
   };
 
-  const handleBulkDelete = () => {
+  const handleBulkDelete = async () => {
     if (selectedTasks.length === 0) return;
     
-    const updatedTasks = tasks.filter(task => !selectedTasks.includes(task.id));
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
-    syncTasksToDropdownStorage(updatedTasks);
+    if (!await removeTasks(selectedTasks)) return;
     setSelectedTasks([]);
     
     toast({
@@ -301,22 +221,8 @@ const Tasks = () => {
     return variants[priority as keyof typeof variants] || "default";
   };
 
-  const teams = ["Support", "CI", "Migration", "Config", "Exxat One", "All Teams"];
-  
-  // Sync tasks to dropdown storage for timesheet integration
-  const syncTasksToDropdownStorage = (taskList: Task[]) => {
-    const tasksWithAHT = taskList.map(task => ({
-      category: task.category,
-      subCategory: task.subCategory,
-      aht: task.aht
-    }));
-    updateTasks(tasksWithAHT);
-  };
-
-  // Sync tasks whenever tasks change
-  useEffect(() => {
-    syncTasksToDropdownStorage(tasks);
-  }, [tasks]);
+  // Tasks go to one active team, or to every team
+  const teams = [...teamList.filter(team => team.isActive).map(team => team.name), ALL_TEAMS];
   
   const handleColumnsChange = (newColumns: ColumnConfig[]) => {
     setColumns(newColumns);
@@ -421,7 +327,7 @@ const Tasks = () => {
     data.forEach((row, index) => {
       try {
         const task: Task = {
-          id: Date.now().toString() + index,
+          id: `${NEW_TASK_PREFIX}${Date.now()}-${index}`,
           category: row["Category"] || "",
           subCategory: row["Sub Category"] || "",
           aht: parseInt(row["AHT"]) || 0,
@@ -430,7 +336,6 @@ const Tasks = () => {
           type: (row["Type"] as "direct" | "indirect") || "direct",
           // Backend fields
           description: "",
-          estimatedTime: parseInt(row["AHT"]) || 0,
           priority: "medium",
           createdBy: localStorage.getItem("userEmail") || "",
           createdAt: new Date().toISOString().split('T')[0]
@@ -441,10 +346,13 @@ const Tasks = () => {
       }
     });
 
-    const updatedTasks = [...tasks, ...successful];
-    setTasks(updatedTasks);
-    saveTasksToStorage(updatedTasks);
-    syncTasksToDropdownStorage(updatedTasks);
+    if (successful.length > 0 && !await persistTasks(successful)) {
+      return {
+        successful: 0,
+        failed: data.length,
+        errors: [{ row: 0, error: "Tasks could not be saved" }]
+      };
+    }
     
     return {
       successful: successful.length,
@@ -453,21 +361,16 @@ const Tasks = () => {
     };
   };
 
-  const handleExport = () => {
-    const csvContent = [
-      ["Category", "Sub Category", "AHT", "Team", "Status", "Type"],
-      ...tasks.map(task => [
-        task.category, task.subCategory, task.aht, task.team, task.status, task.type
-      ])
-    ].map(row => row.join(",")).join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'tasks.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+  // AHT stays in minutes so the export can be uploaded again
+  const handleExport = (format: ExportFormat) => {
+    exportSheets([{
+      name: "Tasks",
+      columns: [
+        { header: "Category" }, { header: "Sub Category" }, { header: "AHT", type: "number" },
+        { header: "Team" }, { header: "Status" }, { header: "Type" }
+      ],
+      rows: tasks.map(task => [task.category, task.subCategory, task.aht, task.team, task.status, task.type])
+    }], "tasks", format);
   };
 
   const bulkUploadValidation = {
@@ -540,10 +443,7 @@ const Tasks = () => {
                   <Upload className="w-4 h-4 mr-2" />
                   Bulk Upload
                 </Button>
-                <Button variant="outline" onClick={handleExport}>
-                  <Download className="w-4 h-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu onExport={handleExport} />
                 <Button 
                   onClick={handleAddTask}
                   className="bg-primary hover:bg-primary/90"
@@ -575,7 +475,7 @@ const Tasks = () => {
             </SelectTrigger>
             <SelectContent className="bg-surface border-border z-50">
               <SelectItem value="all">All Teams</SelectItem>
-              {teams.filter(team => team !== "All Teams").map(team => (
+              {teams.filter(team => team !== ALL_TEAMS).map(team => (
                 <SelectItem key={team} value={team}>{team}</SelectItem>
               ))}
             </SelectContent>
@@ -694,7 +594,9 @@ const Tasks = () => {
               </table>
             </div>
 
-            {filteredTasks.length === 0 && (
+            {loading ? (
+              <div className="p-8 text-center text-foreground-muted">Loading tasks...</div>
+            ) : filteredTasks.length === 0 && (
               <div className="p-8 text-center">
                 <AlertTriangle className="w-12 h-12 text-foreground-muted mx-auto mb-4" />
                 <h3 className="text-lg font-semibold text-foreground mb-2">No Tasks Found</h3>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,11 +10,22 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Plus, Search, Edit, Trash2, Users, Upload, Download, Save, X, ToggleLeft, ToggleRight, Key } from "lucide-react";
+import { ArrowLeft, Plus, Search, Edit, Trash2, Users, Upload, Save, X, ToggleLeft, ToggleRight, Key } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import BulkUpload from "@/components/BulkUpload";
 import PasswordResetModal from "@/components/PasswordResetModal";
+import { getPasswordStrength, isStrongPassword } from "@/utils/passwordPolicy";
+import TimesheetPolicySettings from "@/components/TimesheetPolicySettings";
+import BreakPolicySettings from "@/components/BreakPolicySettings";
+import SlaSettings from "@/components/SlaSettings";
+import RolePermissionsSettings from "@/components/RolePermissionsSettings";
+import TeamSettings from "@/components/TeamSettings";
+import ScheduleSettings from "@/components/ScheduleSettings";
+import { getRoles, getRoleLabel, SUPER_USER_ROLE, type Role } from "@/services/RoleService";
+import { getTeams, type Team } from "@/services/TeamService";
 import { supabase } from "@/integrations/supabase/client";
+import { ExportMenu } from "@/components/ExportMenu";
+import { exportSheets, ExportFormat } from "@/utils/spreadsheetUtils";
 
 interface Employee {
   id: string;
@@ -24,11 +36,17 @@ interface Employee {
   is_active: boolean;
   join_date: string;
   last_active: string;
-  password_hash: string;
+  must_change_password: boolean;
+  locked_until: string | null;
 }
 
+// Password hashes never leave the database
+const EMPLOYEE_COLUMNS = 'id, employee_id, full_name, role, team, is_active, join_date, last_active, must_change_password, locked_until';
+
 const TeamManagement = () => {
-  const [userRole, setUserRole] = useState<string>("");
+  const { can } = useAuth();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterRole, setFilterRole] = useState("all");
@@ -56,20 +74,18 @@ const TeamManagement = () => {
   const { toast } = useToast();
 
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role || (role !== "admin" && role !== "super-user")) {
-      navigate("/dashboard");
-      return;
-    }
-    setUserRole(role);
     loadEmployees();
-  }, [navigate]);
+    loadTeams();
+    getRoles().then(setRoles);
+  }, []);
+
+  const loadTeams = () => getTeams().then(setTeams);
 
   const loadEmployees = async () => {
     try {
       const { data, error } = await supabase
         .from('employees')
-        .select('*')
+        .select(EMPLOYEE_COLUMNS)
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -93,7 +109,8 @@ const TeamManagement = () => {
     }
   };
 
-  const teams = ["Support", "CI", "Migration", "Config", "Exxat One"];
+  // Employees can only be placed in active teams
+  const teamNames = teams.filter(team => team.isActive).map(team => team.name);
 
   const filteredEmployees = employees.filter(employee => {
     const matchesSearch = employee.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -113,6 +130,15 @@ const TeamManagement = () => {
       return;
     }
 
+    if (!isStrongPassword(newEmployee.password)) {
+      toast({
+        title: "Weak Password",
+        description: `Password needs: ${getPasswordStrength(newEmployee.password).feedback.join(", ")}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     // Check for duplicate employee ID
     if (employees.some(emp => emp.employee_id === newEmployee.employee_id)) {
       toast({
@@ -136,13 +162,13 @@ const TeamManagement = () => {
           join_date: new Date().toISOString().split('T')[0],
           last_active: new Date().toISOString().split('T')[0]
         }])
-        .select()
+        .select(EMPLOYEE_COLUMNS)
         .single();
 
       if (error) {
         toast({
           title: "Error",
-          description: "Failed to add employee",
+          description: error.message || "Failed to add employee",
           variant: "destructive"
         });
         return;
@@ -454,7 +480,7 @@ const TeamManagement = () => {
         const { data: insertedEmployee, error } = await supabase
           .from('employees')
           .insert([employeeToInsert])
-          .select()
+          .select(EMPLOYEE_COLUMNS)
           .single();
 
         if (error) {
@@ -492,21 +518,18 @@ const TeamManagement = () => {
     };
   };
 
-  const handleExportData = () => {
-    const csvContent = [
-      ["Employee ID", "Name", "Role", "Team", "Status", "Join Date", "Last Active"],
-      ...employees.map(emp => [
+  const handleExportData = async (format: ExportFormat) => {
+    await exportSheets([{
+      name: "Team Members",
+      columns: [
+        { header: "Employee ID" }, { header: "Name" }, { header: "Role" }, { header: "Team" }, { header: "Status" },
+        { header: "Join Date", type: "date" }, { header: "Last Active", type: "date" }
+      ],
+      rows: employees.map(emp => [
         emp.employee_id, emp.full_name, emp.role, emp.team, emp.is_active ? "active" : "inactive", emp.join_date, emp.last_active
       ])
-    ].map(row => row.join(",")).join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'team_members.csv';
-    a.click();
-    
+    }], "team_members", format);
+
     toast({
       title: "Export Complete",
       description: "Team data exported successfully"
@@ -522,34 +545,36 @@ const TeamManagement = () => {
     return variants[role as keyof typeof variants] || "default";
   };
 
-  const getRoleDisplayName = (role: string) => {
-    const roleMap = {
-      "team-member": "Team Member",
-      "sme": "SME", 
-      "admin": "Admin"
-    };
-    return roleMap[role as keyof typeof roleMap] || role;
-  };
+  const getRoleDisplayName = (role: string) => getRoleLabel(roles, role);
+
+  // Super-users are not assigned from this page. Without roles.manage only roles within
+  // the editor's own permissions can be given, and existing employees keep their role.
+  const canManageRoles = can("roles.manage");
+  const assignableRoles = roles.filter(role =>
+    role.name !== SUPER_USER_ROLE && (canManageRoles || role.permissions.every(permission => can(permission)))
+  );
 
-  const handlePasswordReset = async (employeeId: string, newPassword: string) => {
+  // The server hashes the password, unlocks the account and asks for a new password at next login
+  const handlePasswordReset = async (employeeId: string, newPassword: string): Promise<boolean> => {
     try {
-      const { error } = await supabase
-        .from('employees')
-        .update({ password_hash: newPassword })
-        .eq('id', employeeId);
+      const { error } = await supabase.rpc('reset_employee_password', {
+        p_actor: localStorage.getItem("employeeId") || localStorage.getItem("userEmail") || "",
+        p_employee: employeeId,
+        p_new_password: newPassword
+      });
 
       if (error) {
         toast({
           title: "Error",
-          description: "Failed to update password",
+          description: error.message || "Failed to update password",
           variant: "destructive"
         });
-        return;
+        return false;
       }
 
       setEmployees(prev => prev.map(emp => 
         emp.id === employeeId 
-          ? { ...emp, password_hash: newPassword }
+          ? { ...emp, must_change_password: true, locked_until: null }
           : emp
       ));
 
@@ -557,6 +582,7 @@ const TeamManagement = () => {
         title: "Success",
         description: "Password updated successfully"
       });
+      return true;
     } catch (error) {
       console.error('Error updating password:', error);
       toast({
@@ -564,6 +590,7 @@ const TeamManagement = () => {
         description: "Failed to update password",
         variant: "destructive"
       });
+      return false;
     }
   };
 
@@ -575,8 +602,10 @@ const TeamManagement = () => {
   const bulkUploadValidation = {
     "Employee ID": (value: string) => 
       employees.some(emp => emp.employee_id === value) ? "Employee ID already exists" : null,
-    "Role": (value: string) => !["team-member", "sme", "admin"].includes(value) ? "Role must be team-member, sme, or admin" : null,
-    "Team": (value: string) => !teams.includes(value) ? `Team must be one of: ${teams.join(", ")}` : null,
+    "Role": (value: string) => !assignableRoles.some(role => role.name === value)
+      ? `Role must be one of: ${assignableRoles.map(role => role.name).join(", ")}`
+      : null,
+    "Team": (value: string) => !teamNames.includes(value) ? `Team must be one of: ${teamNames.join(", ")}` : null,
     "Password": (value: string) => {
       if (value.length < 8) {
         return "Password must be at least 8 characters long";
@@ -616,8 +645,8 @@ const TeamManagement = () => {
               "Password must contain uppercase, lowercase, number, and special character"
             ],
             validValues: {
-              'Role': ['team-member', 'sme', 'admin'],
-              'Team': teams
+              'Role': assignableRoles.map(role => role.name),
+              'Team': teamNames
             },
             example: {
               'Employee ID': 'EMP006',
@@ -654,16 +683,13 @@ const TeamManagement = () => {
               <Plus className="w-4 h-4 mr-2" />
               Add Employee
             </Button>
-            {userRole === "super-user" && (
+            {can("employees.bulk") && (
               <>
                 <Button variant="outline" onClick={() => setShowBulkUpload(true)}>
                   <Upload className="w-4 h-4 mr-2" />
                   Bulk Upload
                 </Button>
-                <Button variant="outline" onClick={handleExportData}>
-                  <Download className="w-4 h-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu onExport={handleExportData} />
                 {selectedEmployees.length > 0 && (
                   <Button variant="destructive" onClick={handleBulkDelete}>
                     <Trash2 className="w-4 h-4 mr-2" />
@@ -691,7 +717,7 @@ const TeamManagement = () => {
           </Card>
           <Card className="shadow-soft border-border">
             <CardContent className="p-6">
-              <div className="text-2xl font-bold text-warning">{teams.length}</div>
+              <div className="text-2xl font-bold text-warning">{teamNames.length}</div>
               <div className="text-sm text-foreground-muted">Teams</div>
             </CardContent>
           </Card>
@@ -722,9 +748,9 @@ const TeamManagement = () => {
             </SelectTrigger>
             <SelectContent className="bg-surface border-border z-50">
               <SelectItem value="all">All Roles</SelectItem>
-              <SelectItem value="team-member">Team Member</SelectItem>
-              <SelectItem value="sme">SME</SelectItem>
-              <SelectItem value="admin">Admin</SelectItem>
+              {roles.map(role => (
+                <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           <Select value={filterTeam} onValueChange={setFilterTeam}>
@@ -733,7 +759,7 @@ const TeamManagement = () => {
             </SelectTrigger>
             <SelectContent className="bg-surface border-border z-50">
               <SelectItem value="all">All Teams</SelectItem>
-              {teams.map(team => (
+              {teamNames.map(team => (
                 <SelectItem key={team} value={team}>{team}</SelectItem>
               ))}
             </SelectContent>
@@ -790,15 +816,15 @@ const TeamManagement = () => {
                   <Label htmlFor="role">Role *</Label>
                   <Select 
                     value={newEmployee.role} 
-                    onValueChange={(value: "team-member" | "sme" | "admin") => setNewEmployee(prev => ({ ...prev, role: value }))}
+                    onValueChange={(value) => setNewEmployee(prev => ({ ...prev, role: value }))}
                   >
                     <SelectTrigger className="bg-surface border-border">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent className="bg-surface border-border z-50">
-                      <SelectItem value="team-member">Team Member</SelectItem>
-                      <SelectItem value="sme">SME</SelectItem>
-                      <SelectItem value="admin">Admin</SelectItem>
+                      {assignableRoles.map(role => (
+                        <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -812,7 +838,7 @@ const TeamManagement = () => {
                       <SelectValue placeholder="Select team" />
                     </SelectTrigger>
                     <SelectContent className="bg-surface border-border z-50">
-                      {teams.map(team => (
+                      {teamNames.map(team => (
                         <SelectItem key={team} value={team}>{team}</SelectItem>
                       ))}
                     </SelectContent>
@@ -881,18 +907,18 @@ const TeamManagement = () => {
                      )}
                    </TableCell>
                   <TableCell>
-                    {editingEmployee === employee.id ? (
+                    {editingEmployee === employee.id && canManageRoles ? (
                       <Select 
                         value={editingData.role || employee.role} 
-                        onValueChange={(value: "team-member" | "sme" | "admin") => setEditingData(prev => ({ ...prev, role: value }))}
+                        onValueChange={(value) => setEditingData(prev => ({ ...prev, role: value }))}
                       >
                         <SelectTrigger className="w-32">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent className="bg-surface border-border z-50">
-                          <SelectItem value="team-member">Team Member</SelectItem>
-                          <SelectItem value="sme">SME</SelectItem>
-                          <SelectItem value="admin">Admin</SelectItem>
+                          {assignableRoles.map(role => (
+                            <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     ) : (
@@ -911,7 +937,7 @@ const TeamManagement = () => {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent className="bg-surface border-border z-50">
-                          {teams.map(team => (
+                          {teamNames.map(team => (
                             <SelectItem key={team} value={team}>{team}</SelectItem>
                           ))}
                         </SelectContent>
@@ -924,6 +950,9 @@ const TeamManagement = () => {
                     <Badge variant={employee.is_active ? "default" : "secondary"}>
                       {employee.is_active ? "active" : "inactive"}
                     </Badge>
+                    {employee.locked_until && new Date(employee.locked_until) > new Date() && (
+                      <Badge variant="destructive" className="ml-1">locked</Badge>
+                    )}
                   </TableCell>
                   <TableCell>{employee.join_date}</TableCell>
                   <TableCell>{employee.last_active}</TableCell>
@@ -959,15 +988,17 @@ const TeamManagement = () => {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => openPasswordModal(employee)}
-                            className="w-8 h-8"
-                            title="Reset Password"
-                          >
-                            <Key className="w-4 h-4" />
-                          </Button>
+                          {can("employees.reset_password") && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openPasswordModal(employee)}
+                              className="w-8 h-8"
+                              title="Reset Password"
+                            >
+                              <Key className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -1013,6 +1044,20 @@ const TeamManagement = () => {
           </Card>
         )}
 
+        {can("policies.edit") && <TimesheetPolicySettings roles={roles} />}
+
+        {can("policies.edit") && <BreakPolicySettings />}
+
+        {can("policies.edit") && <SlaSettings />}
+
+        {can("teams.manage") && (
+          <TeamSettings teams={teams} employees={employees} onTeamsChanged={() => { loadTeams(); loadEmployees(); }} />
+        )}
+
+        {can("schedules.manage") && <ScheduleSettings teams={teams} employees={employees} />}
+
+        {can("roles.manage") && <RolePermissionsSettings roles={roles} onRolesChanged={() => getRoles().then(setRoles)} />}
+
         <PasswordResetModal
           open={showPasswordModal}
           onClose={() => setShowPasswordModal(false)}
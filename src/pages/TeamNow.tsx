@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Radio, RefreshCw } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AHT_OVERRUN_FACTOR,
+  buildTeamNow,
+  getPresenceData,
+  PresenceData,
+  PresenceStatus,
+  subscribeToPresence
+} from "@/services/PresenceService";
+import { formatAHT } from "@/services/UserStatsService";
+
+const STATUS_LABELS: Record<PresenceStatus, string> = {
+  working: "Working",
+  break: "On Break",
+  "no-timer": "No Timer",
+  offline: "Offline"
+};
+
+const statusVariant = (status: PresenceStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "working": return "default";
+    case "break": return "secondary";
+    default: return "outline";
+  }
+};
+
+// Realtime events often come in bursts (a timer switch closes one span and opens another)
+const RELOAD_DELAY_MS = 1000;
+
+const TeamNow = () => {
+  const navigate = useNavigate();
+  const [data, setData] = useState<PresenceData | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    let failing = false;
+    let reloadTimeout: number | null = null;
+
+    const load = () => {
+      getPresenceData().then(result => {
+        if (cancelled) return;
+        failing = false;
+        setData(result);
+        setLoadError(null);
+        setUpdatedAt(Date.now());
+        setNow(Date.now());
+      }).catch(error => {
+        if (cancelled) return;
+        console.error('Error loading team presence:', error);
+        setLoadError(error instanceof Error ? error.message : "Failed to load the team");
+        // Realtime reloads keep failing while the server is unreachable; tell once
+        if (failing) return;
+        failing = true;
+        toast({
+          title: "Error",
+          description: "Failed to load the team",
+          variant: "destructive"
+        });
+      });
+    };
+
+    load();
+    const unsubscribe = subscribeToPresence(() => {
+      if (reloadTimeout !== null) clearTimeout(reloadTimeout);
+      reloadTimeout = window.setTimeout(load, RELOAD_DELAY_MS);
+    });
+    // Running timers and last activity age without any change on the server
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clearInterval(interval);
+      if (reloadTimeout !== null) clearTimeout(reloadTimeout);
+    };
+  }, [reloadKey, toast]);
+
+  const rows = data ? buildTeamNow(data, now) : [];
+  const working = rows.filter(row => row.status === "working").length;
+  const onBreak = rows.filter(row => row.status === "break").length;
+  const overruns = rows.filter(row => row.overrun).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate("/dashboard")}
+            className="bg-surface border-border hover:bg-surface-elevated"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-foreground">Team Now</h1>
+            <p className="text-foreground-muted">Who is working on what right now</p>
+          </div>
+          {loadError && data && (
+            <Badge variant="destructive" className="flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              Not updating
+            </Badge>
+          )}
+          {updatedAt && (
+            <Badge variant="outline" className="flex items-center gap-1">
+              <Radio className="w-3 h-3" />
+              Live • updated {new Date(updatedAt).toLocaleTimeString()}
+            </Badge>
+          )}
+        </div>
+
+        <Card className="shadow-soft border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Radio className="w-5 h-5" />
+              {working} working • {onBreak} on break
+              {overruns > 0 && (
+                <Badge variant="destructive" className="ml-2">{overruns} over {AHT_OVERRUN_FACTOR}× AHT</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Time on task counts every unsubmitted span of the running task. Tasks running beyond {AHT_OVERRUN_FACTOR}× their AHT are flagged.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!data && loadError ? (
+              <div className="py-8 text-center space-y-3">
+                <p className="text-destructive">Could not load the team: {loadError}</p>
+                <Button variant="outline" onClick={() => setReloadKey(key => key + 1)}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Try Again
+                </Button>
+              </div>
+            ) : !data ? (
+              <div className="py-8 text-center text-foreground-muted animate-pulse">Loading team...</div>
+            ) : rows.length === 0 ? (
+              <div className="py-8 text-center text-foreground-muted">Nobody in your teams has used the timesheet yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Ticket</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Time on Task / AHT</TableHead>
+                    <TableHead>Break</TableHead>
+                    <TableHead>Last Activity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.employeeKey} className={row.overrun ? "bg-destructive/5" : undefined}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(row.status)}>{STATUS_LABELS[row.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{row.ticketNumber ? `#${row.ticketNumber}` : "—"}</TableCell>
+                      <TableCell>{row.taskLabel || "—"}</TableCell>
+                      <TableCell>
+                        {row.status === "working" ? (
+                          <span className={`flex items-center gap-1 ${row.overrun ? "text-destructive font-medium" : ""}`}>
+                            {row.overrun && <AlertTriangle className="w-4 h-4" />}
+                            {formatAHT(row.elapsedSeconds)}
+                            <span className="text-foreground-muted font-normal">
+                              {" / "}{row.ahtMinutes ? formatAHT(Math.round(row.ahtMinutes * 60)) : "no AHT"}
+                            </span>
+                          </span>
+                        ) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {row.breakLabel && row.breakStartedAt
+                          ? `${row.breakLabel} for ${formatDistance(row.breakStartedAt, now)}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-foreground-muted">
+                        {row.lastActivityAt ? formatDistance(row.lastActivityAt, now, { addSuffix: true }) : "Never"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TeamNow;
@@ -1,19 +1,47 @@
 import { useState, useEffect } from "react";
-import { getSimpleDropdownData } from "@/utils/dropdownStorage";
+import { getDropdownData, getSimpleDropdownData } from "@/utils/dropdownStorage";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Clock, Plus, Coffee, Send } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ArrowLeft, Clock, Plus, Coffee, Send, ChevronLeft, ChevronRight, CalendarDays, Lock } from "lucide-react";
 import TimerRow from "@/components/TimerRow";
 import { AvailabilityTracker } from "@/components/AvailabilityTracker";
 import { useToast } from "@/hooks/use-toast";
-import { useTimerSummary } from "@/hooks/useTimer";
+import { useTimerSummary, useTimerSync } from "@/hooks/useTimer";
+import { usePresenceHeartbeat } from "@/hooks/usePresenceHeartbeat";
 import * as TimerStore from "@/services/PerformanceTimerService";
-import { saveSubmittedTimesheet, saveSessionEntry, getSessionEntries, clearSessionEntries } from "@/utils/timesheetStorage";
-import { supabase } from '@/integrations/supabase/client';
+import {
+  saveSubmittedTimesheet,
+  saveSessionEntry,
+  getSessionEntries,
+  clearSessionEntries,
+  loadTimesheetDraft,
+  saveTimesheetDraft,
+  clearTimesheetDraft
+} from "@/utils/timesheetStorage";
+import { markSessionsSubmitted, setTaskDetails } from "@/services/TimesheetSessionSync";
+import { getTimesheetPolicy, getAllowedWorkDates, getSubmitBlocker, TimesheetPolicy } from "@/services/TimesheetPolicyService";
+import { getDayApprovalStatuses, isLocked, ApprovalStatus } from "@/services/ApprovalService";
+import { getTaskCatalog } from "@/services/TaskService";
+import { getPublishedDropdownData } from "@/services/DropdownService";
+import { EMPTY_CALENDAR, getDaySchedule, getScheduleCalendar, ScheduleCalendar } from "@/services/ScheduleService";
+import { BreakEntry, BreakType, endBreak, getBreaks, getBreakSeconds, getBreakTypes, getBreakWarnings, startBreak } from "@/services/BreakService";
+import type { DropdownData, TaskWithAHT } from "@/types/dropdown";
+import { addDaysToWorkDate, fromWorkDate, toDateTimeInput, toWorkDate } from "@/utils/dateHelpers";
+import { submitTimesheet, toSubmissionRow, getSubmissionKey, clearSubmissionKey, queueTimesheetSubmission, isNetworkError, SubmissionPayload, SubmissionResult } from "@/services/TimesheetSubmissionService";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TicketHistory } from '@/components/TicketHistory';
+import { SessionEditorDialog } from '@/components/SessionEditorDialog';
+import { IdleTimerPrompt } from '@/components/IdleTimerPrompt';
+import { WeeklyTimesheetGrid } from '@/components/WeeklyTimesheetGrid';
+import { CarryOverTickets } from '@/components/CarryOverTickets';
+import { getUnfinishedTickets, UnfinishedTicket } from '@/services/TicketLifecycleService';
 import { FileText } from 'lucide-react';
 
 interface TimesheetRow {
@@ -25,118 +53,239 @@ interface TimesheetRow {
   taskName: string;
   university: string;
   domain: string;
+  clientType: string;
   status: string;
-  receivedDate: string;
+  receivedDate: string; // datetime-local value; older drafts hold a bare date
   ticketCount: number;
   comments: string;
+  continuedFrom?: string; // ticket_history row of an unfinished ticket this row carries on
+  priorSeconds?: number;  // time logged on that ticket before
 }
 
+const createEmptyRow = (id: string = Date.now().toString()): TimesheetRow => ({
+  id,
+  ticketNumber: "",
+  category: "",
+  subCategory: "",
+  activityType: "",
+  taskName: "",
+  university: "",
+  domain: "",
+  clientType: "",
+  status: "WIP",
+  receivedDate: toDateTimeInput(),
+  ticketCount: 1,
+  comments: ""
+});
+
+const statusVariant = (status: ApprovalStatus): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case "approved": return "default";
+    case "rejected": return "destructive";
+    case "reopened": return "outline";
+    default: return "secondary";
+  }
+};
+
 const Timesheet = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [userRole, setUserRole] = useState<string>("");
-  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const { employee } = useAuth();
+  const userRole = employee?.role ?? "";
+  // Rows are keyed by the employee id of the session; names are not unique
+  const employeeKey = employee?.employeeId ?? null;
+  const [workDate, setWorkDate] = useState<string>(() => toWorkDate());
+  const [rows, setRows] = useState<TimesheetRow[]>(() => loadTimesheetDraft(toWorkDate()) || [createEmptyRow()]);
   const [savedEntries, setSavedEntries] = useState<(TimesheetRow & { savedAt: string; totalTime?: number })[]>([]);
-  const [globalBreakTime, setGlobalBreakTime] = useState<number>(0);
-  const [isOnGlobalBreak, setIsOnGlobalBreak] = useState<boolean>(false);
-  const [globalBreakStartTime, setGlobalBreakStartTime] = useState<number | null>(null);
+  // Today's breaks from the break button, kept in the database so they survive reloads
+  const [breaks, setBreaks] = useState<BreakEntry[]>([]);
+  const [breakTypes, setBreakTypes] = useState<BreakType[]>([]);
+  const [breakClock, setBreakClock] = useState(() => Date.now());
+  const [editingTimeRowId, setEditingTimeRowId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("timesheet");
+  const [policy, setPolicy] = useState<TimesheetPolicy>({ role: "", backdateDays: 3, forwardDays: 7 });
+  const [dayStatus, setDayStatus] = useState<ApprovalStatus | null>(null);
+  const [scheduleCalendar, setScheduleCalendar] = useState<ScheduleCalendar>(EMPTY_CALENDAR);
+  const [unfinishedTickets, setUnfinishedTickets] = useState<UnfinishedTicket[]>([]);
+  // Last catalog seen on this device until the shared one loads
+  const [taskCatalog, setTaskCatalog] = useState<TaskWithAHT[]>(() => getDropdownData().tasks);
+  // Last published lists seen on this device until the current version loads
+  const [dropdownLists, setDropdownLists] = useState<DropdownData>(() => getDropdownData());
   
   // Timer summary hook for real-time totals
   const timerSummary = useTimerSummary();
 
+  const today = toWorkDate();
+  const isToday = workDate === today;
+  const isPlannedDay = workDate > today;
+  const allowedDates = getAllowedWorkDates(policy, today);
+  const daySchedule = getDaySchedule(scheduleCalendar, employeeKey || '', workDate);
+
+  // Persist timer spans and restore timers started earlier (possibly on another device).
+  // Tasks of other dates go into those dates' drafts.
+  useTimerSync(employeeKey, (tasks) => {
+    const missingByDate = new Map<string, string[]>();
+    tasks.forEach(task => missingByDate.set(task.workDate, [...(missingByDate.get(task.workDate) || []), task.taskId]));
+
+    missingByDate.forEach((taskIds, date) => {
+      if (date === workDate) return;
+      const draft = loadTimesheetDraft(date) || [];
+      const missing = taskIds.filter(taskId => !draft.some(row => row.id === taskId));
+      if (missing.length > 0) saveTimesheetDraft(date, [...draft, ...missing.map(taskId => createEmptyRow(taskId))]);
+    });
+
+    setRows(prev => {
+      const missing = (missingByDate.get(workDate) || []).filter(taskId => !prev.some(row => row.id === taskId));
+      return missing.length > 0 ? [...prev, ...missing.map(taskId => createEmptyRow(taskId))] : prev;
+    });
+  });
+
+  usePresenceHeartbeat(employeeKey);
+
+  // Working rows are saved as the draft of the date they belong to
   useEffect(() => {
-    const role = localStorage.getItem("userRole");
-    if (!role) {
-      navigate("/");
-      return;
-    }
-    setUserRole(role);
+    saveTimesheetDraft(workDate, rows);
+  }, [rows, workDate]);
 
+  // Timer spans carry what they are for, so supervisors can see it on the presence board
+  useEffect(() => {
+    rows.forEach(row => {
+      const task = taskCatalog.find(t => t.category === row.category && t.subCategory === row.subCategory);
+      setTaskDetails(row.id, {
+        ticketNumber: row.ticketNumber,
+        taskLabel: row.taskName || [row.category, row.subCategory].filter(Boolean).join(' - '),
+        ahtMinutes: task && task.aht > 0 ? task.aht * (row.ticketCount || 1) : null
+      });
+    });
+  }, [rows, taskCatalog]);
+
+  useEffect(() => {
     // Load saved entries from session storage
     const sessionEntries = getSessionEntries();
     setSavedEntries(sessionEntries);
 
-    // Load current working timesheet data
-    const savedData = localStorage.getItem(`timesheet-${new Date().toDateString()}`);
-    if (savedData) {
-      const parsed = JSON.parse(savedData);
-      const rows = parsed.rows || [];
-      setRows(rows);
-    } else {
-      // Initialize with one empty row
-      addNewRow();
-    }
-  }, [navigate]);
+    getTimesheetPolicy(userRole).then(setPolicy);
+    getTaskCatalog().then(setTaskCatalog);
+    getPublishedDropdownData().then(setDropdownLists);
+    getScheduleCalendar().then(setScheduleCalendar);
+    getBreakTypes().then(setBreakTypes);
+  }, [userRole]);
+
+  const refreshDayStatus = (userId: string, date: string) => {
+    getDayApprovalStatuses(userId, date, date).then(statuses => setDayStatus(statuses[date] || null));
+  };
+
+  useEffect(() => {
+    if (employeeKey) refreshDayStatus(employeeKey, workDate);
+  }, [employeeKey, workDate]);
+
+  const refreshUnfinishedTickets = (userId: string, date: string) => {
+    getUnfinishedTickets(userId, date).then(setUnfinishedTickets);
+  };
+
+  useEffect(() => {
+    setUnfinishedTickets([]);
+    if (employeeKey) refreshUnfinishedTickets(employeeKey, workDate);
+  }, [employeeKey, workDate]);
+
+  useEffect(() => {
+    if (employeeKey) getBreaks(employeeKey, today, today).then(setBreaks);
+  }, [employeeKey, today]);
+
+  const activeBreak = breaks.find(entry => !entry.endAt) || null;
+  const isOnGlobalBreak = activeBreak !== null;
+
+  // Re-check break allowances while a break runs
+  useEffect(() => {
+    if (!activeBreak) return;
+    const interval = setInterval(() => setBreakClock(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [activeBreak]);
+
+  const breakTime = breaks.reduce((total, entry) => total + getBreakSeconds(entry, breakClock), 0);
+  const breakWarnings = getBreakWarnings(breaks, breakTypes, breakClock);
+
+  // Switch the working rows to another date's draft (the current rows are already saved)
+  const changeWorkDate = (date: string) => {
+    if (!date || date === workDate) return;
+    setEditingTimeRowId(null);
+    setDayStatus(null);
+    setRows(loadTimesheetDraft(date) || [createEmptyRow()]);
+    setWorkDate(date);
+  };
 
   const addNewRow = () => {
-    const newRow: TimesheetRow = {
-      id: Date.now().toString(),
-      ticketNumber: "",
-      category: "",
-      subCategory: "",
-      activityType: "",
-      taskName: "",
-      university: "",
-      domain: "",
-      
-      status: "In Progress",
-      receivedDate: new Date().toISOString().split('T')[0],
-      ticketCount: 1,
-      comments: ""
-    };
-    setRows(prev => [...prev, newRow]);
+    setRows(prev => [...prev, createEmptyRow()]);
   };
 
-  const updateRow = (id: string, updates: Partial<TimesheetRow>) => {
-    setRows(prev => prev.map(row => 
-      row.id === id ? { ...row, ...updates } : row
-    ));
-    saveToLocalStorage();
+  // Carried-over rows start from the ticket as it was left and link back to its latest row
+  const continueTickets = (tickets: UnfinishedTicket[]) => {
+    const now = Date.now();
+    const carried: TimesheetRow[] = tickets.map((ticket, index) => ({
+      ...createEmptyRow(`${now}-${index}`),
+      ticketNumber: ticket.ticketNumber,
+      university: ticket.university,
+      domain: ticket.domain,
+      clientType: ticket.clientType,
+      category: ticket.category,
+      subCategory: ticket.subCategory,
+      activityType: ticket.activityType,
+      taskName: ticket.taskName,
+      status: ticket.status,
+      receivedDate: ticket.receivedAt ? toDateTimeInput(new Date(ticket.receivedAt)) : toDateTimeInput(),
+      continuedFrom: ticket.ticketHistoryId,
+      priorSeconds: ticket.totalSeconds
+    }));
+    setRows(prev => {
+      // An untouched blank row gives way to the carried-over ones
+      const kept = prev.filter(row => row.ticketNumber || row.category || TimerStore.getCurrentTime(row.id) > 0);
+      return [...kept, ...carried];
+    });
   };
 
-  const saveToLocalStorage = () => {
-    const dataToSave = {
-      rows,
-      lastSaved: new Date().toISOString()
-    };
-    localStorage.setItem(`timesheet-${new Date().toDateString()}`, JSON.stringify(dataToSave));
+  const updateRow = (id: string, updates: Partial<TimesheetRow>) => {
+    setRows(prev => prev.map(row => {
+      if (row.id !== id) return row;
+      // Another ticket number no longer continues the carried-over ticket
+      const unlink = row.continuedFrom && updates.ticketNumber !== undefined && updates.ticketNumber.trim() !== row.ticketNumber.trim();
+      return unlink ? { ...row, ...updates, continuedFrom: undefined, priorSeconds: undefined } : { ...row, ...updates };
+    }));
   };
 
   const deleteRow = (id: string) => {
     setRows(prev => prev.filter(row => row.id !== id));
-    // Stop timer if it's running for this task
-    if (TimerStore.isRunning(id)) {
-      TimerStore.pause(id);
-    }
-    saveToLocalStorage();
+    // Drop the row's timer and its persisted sessions
+    TimerStore.remove(id);
+  };
+
+  const getRowLabel = (id: string | null) => {
+    const row = rows.find(r => r.id === id);
+    if (!row) return 'Entry';
+    const task = row.taskName || [row.category, row.subCategory].filter(Boolean).join(' - ');
+    return [row.ticketNumber && `#${row.ticketNumber}`, task].filter(Boolean).join(' • ') || 'Entry';
   };
 
   const handleSubmit = async () => {
-    try {
-      // Stop all running timers before submitting
-      const allTimers = TimerStore.getAllTimers();
-      allTimers.forEach(timer => {
-        if (TimerStore.isRunning(timer.taskId)) {
-          TimerStore.pause(timer.taskId);
-        }
+    const blocker = !employeeKey
+      ? "You are not signed in"
+      : isLocked(dayStatus)
+        ? "This day has been approved and is locked"
+        : getSubmitBlocker(workDate, policy, today);
+    if (blocker || !employeeKey) {
+      toast({
+        title: "Cannot Submit",
+        description: blocker,
+        variant: "destructive"
       });
+      return;
+    }
 
-      // Combine current working rows with saved session entries
-      const allSessionEntries = [...savedEntries];
-      
-      // Add any current working rows that have content
-      const finalRows = rows.map((row) => {
-        const totalTime = TimerStore.getCurrentTime(row.id);
-        return {
-          ...row,
-          status: "Completed",
-          totalTime
-        };
-      }).filter(row => row.ticketNumber || row.category); // Only include rows with some content
-      
-      const allRowsToSubmit = [...allSessionEntries, ...finalRows];
+    try {
+      // Combine current working rows with saved session entries (which are always today's)
+      const allSessionEntries = isToday ? [...savedEntries] : [];
+      const contentRows = rows.filter(row => row.ticketNumber || row.category); // Only include rows with some content
       
-      if (allRowsToSubmit.length === 0) {
+      if (allSessionEntries.length + contentRows.length === 0) {
         toast({
           title: "No Data",
           description: "Please add some timesheet entries before submitting.",
@@ -145,65 +294,87 @@ const Timesheet = () => {
         return;
       }
 
-      // Save to local storage (existing functionality)
-      saveSubmittedTimesheet(allRowsToSubmit);
-
-      // Save to Supabase ticket history
-      const currentUser = localStorage.getItem('currentUser');
-      const userRole = localStorage.getItem('userRole');
-      const userEmail = localStorage.getItem('userEmail');
-      const employeeId = localStorage.getItem('employeeId');
+      // Stop the day's timers before taking totals so no time is added afterwards
+      rows.forEach(row => TimerStore.stop(row.id));
       
-      const userId = currentUser || employeeId || userEmail || 'unknown';
-      const submissionDate = new Date().toISOString().split('T')[0];
-
-      // Insert each ticket into the history table
-      for (const row of allRowsToSubmit) {
-        if (row.ticketNumber) {
-          const historyEntry = {
-            user_id: userId,
-            submission_date: submissionDate,
-            ticket_number: row.ticketNumber,
-            university: row.university || '',
-            domain: row.domain || '',
-            category: row.category,
-            subcategory: row.subCategory || '',
-            activity_type: row.activityType || '',
-            task_name: row.taskName || '',
-            
-            status: row.status || 'Completed',
-            received_date: row.receivedDate || '',
-            ticket_count: row.ticketCount || 1,
-            time_logged_seconds: row.totalTime || 0,
-            comments: row.comments || ''
-          };
-
-          const { error } = await supabase
-            .from('ticket_history')
-            .insert(historyEntry);
-
-          if (error) {
-            console.error('Error saving ticket to history:', error);
-          }
+      // Add any current working rows that have content
+      const finalRows = contentRows.map((row) => ({
+        ...row,
+        totalTime: TimerStore.getCurrentTime(row.id)
+      }));
+      
+      const allRowsToSubmit = [...allSessionEntries, ...finalRows];
+      const submittedTaskIds = [...rows.map(row => row.id), ...allSessionEntries.map(entry => entry.id)];
+
+      const userId = employeeKey;
+      const submissionDate = workDate;
+
+      const payload: SubmissionPayload = {
+        user_id: userId,
+        submission_date: submissionDate,
+        rows: allRowsToSubmit.map(toSubmissionRow)
+      };
+      const idempotencyKey = getSubmissionKey(submissionDate);
+
+      // Send the whole day in one transaction; the draft is only cleared once the server confirms
+      // or the submission is safely queued in the outbox
+      let result: SubmissionResult | null = null;
+      try {
+        result = await submitTimesheet(payload, idempotencyKey);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          submittedTaskIds.forEach(taskId => TimerStore.reopen(taskId));
+          throw error;
         }
+        await queueTimesheetSubmission(payload, idempotencyKey);
+      }
+
+      if (result && !result.success) {
+        submittedTaskIds.forEach(taskId => TimerStore.reopen(taskId));
+        const problems = result.results
+          .filter(rowResult => rowResult.error)
+          .map(rowResult => `Row ${rowResult.index + 1}${rowResult.ticket_number ? ` (${rowResult.ticket_number})` : ''}: ${rowResult.error}`);
+        toast({
+          title: "Submission Rejected",
+          description: problems.join('; ') || "The server rejected this timesheet. Please review your entries.",
+          variant: "destructive"
+        });
+        return;
       }
+
+      // Save to local storage (existing functionality)
+      saveSubmittedTimesheet(allRowsToSubmit, undefined, submissionDate);
+
+      // Submitted sessions must not be restored into the next timesheet
+      await markSessionsSubmitted(userId, submittedTaskIds);
+      submittedTaskIds.forEach(taskId => TimerStore.remove(taskId, false));
       
       // Clear session storage and current working data on submit
-      clearSessionEntries();
-      localStorage.removeItem(`timesheet-${new Date().toDateString()}`);
+      if (isToday) clearSessionEntries();
+      clearSubmissionKey(submissionDate);
+      clearTimesheetDraft(submissionDate);
       
-      toast({
+      toast(result ? {
         title: "Timesheet Submitted",
-        description: `Successfully submitted ${allRowsToSubmit.length} time entries for the day.`,
+        description: `Successfully submitted ${allRowsToSubmit.length} time entries for ${isToday ? 'the day' : fromWorkDate(submissionDate).toLocaleDateString()}.`,
+      } : {
+        title: "Timesheet Queued",
+        description: `You appear to be offline. ${allRowsToSubmit.length} time entries will be submitted automatically once you reconnect.`,
       });
       
-      console.log("Submitting timesheet data:", allRowsToSubmit);
-      navigate("/dashboard");
+      if (isToday) {
+        navigate("/dashboard");
+      } else {
+        // Stay on the timesheet to keep catching up on other days
+        setRows([createEmptyRow()]);
+        refreshDayStatus(userId, submissionDate);
+        refreshUnfinishedTickets(userId, submissionDate);
+      }
     } catch (error) {
       console.error("Error submitting timesheet:", error);
       toast({
         title: "Submission Failed",
-        description: "There was an error submitting your timesheet. Please try again.",
+        description: "Your timesheet could not be saved and has been kept as a draft. Please try again.",
         variant: "destructive"
       });
     }
@@ -251,40 +422,35 @@ const Timesheet = () => {
   };
 
 
-  const toggleGlobalBreak = () => {
-    if (isOnGlobalBreak) {
-      // End break
-      if (globalBreakStartTime) {
-        const breakDuration = Math.floor((Date.now() - globalBreakStartTime) / 1000);
-        setGlobalBreakTime(prev => prev + breakDuration);
-      }
-      setIsOnGlobalBreak(false);
-      setGlobalBreakStartTime(null);
-    } else {
-      // Start break - pause all active timers
-      if (timerSummary.hasActiveTask) {
-        const allTimers = TimerStore.getAllTimers();
-        allTimers.forEach(timer => {
-          if (TimerStore.isRunning(timer.taskId)) {
-            TimerStore.pause(timer.taskId);
-          }
-        });
-      }
-      setIsOnGlobalBreak(true);
-      setGlobalBreakStartTime(Date.now());
+  const endGlobalBreak = () => {
+    if (!activeBreak) return;
+    const ended = endBreak(activeBreak);
+    setBreaks(prev => prev.map(entry => entry.id === ended.id ? ended : entry));
+    setBreakClock(Date.now());
+  };
+
+  const startGlobalBreak = (breakType: string) => {
+    if (!employeeKey || activeBreak) return;
+    // Pause all active timers
+    if (timerSummary.hasActiveTask) {
+      const allTimers = TimerStore.getAllTimers();
+      allTimers.forEach(timer => {
+        if (TimerStore.isRunning(timer.taskId)) {
+          TimerStore.pause(timer.taskId);
+        }
+      });
     }
+    setBreaks(prev => [...prev, startBreak(employeeKey, breakType)]);
+    setBreakClock(Date.now());
   };
 
   // No need for manual re-render interval - hooks handle this
 
-  // Get dropdown data from uploaded lists
-  const dropdownData = getSimpleDropdownData();
+  // Get dropdown data from the published lists
+  const dropdownData = getSimpleDropdownData(dropdownLists);
   
-  // Get current user ID for history
-  const currentUser = localStorage.getItem('currentUser');
-  const userEmail = localStorage.getItem('userEmail');
-  const employeeId = localStorage.getItem('employeeId');
-  const userId = currentUser || employeeId || userEmail || 'unknown';
+  // Current user ID for history
+  const userId = employeeKey || '';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-surface to-surface-elevated">
@@ -309,23 +475,41 @@ const Timesheet = () => {
             </div>
             
             <div className="flex items-center space-x-4">
+              {/* Offline sync status */}
+              <SyncStatusIndicator />
+
               {/* Break Button */}
-              <Button
-                onClick={toggleGlobalBreak}
-                variant={isOnGlobalBreak ? "destructive" : "outline"}
-                className="flex items-center gap-2"
-              >
-                <Coffee className="w-4 h-4" />
-                {isOnGlobalBreak ? "End Break" : "Start Break"}
-              </Button>
+              {activeBreak ? (
+                <Button onClick={endGlobalBreak} variant="destructive" className="flex items-center gap-2">
+                  <Coffee className="w-4 h-4" />
+                  End {breakTypes.find(type => type.key === activeBreak.breakType)?.label || "Break"}
+                </Button>
+              ) : (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="flex items-center gap-2" disabled={breakTypes.length === 0}>
+                      <Coffee className="w-4 h-4" />
+                      Start Break
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {breakTypes.filter(type => type.isActive).map(type => (
+                      <DropdownMenuItem key={type.key} onClick={() => startGlobalBreak(type.key)}>
+                        {type.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               
               {/* Submit Button */}
               <Button
                 onClick={handleSubmit}
                 className="bg-primary hover:bg-primary/90 flex items-center gap-2"
+                disabled={isLocked(dayStatus) || isPlannedDay}
               >
                 <Send className="w-4 h-4" />
-                Submit Timesheet
+                {isToday ? "Submit Timesheet" : `Submit ${format(fromWorkDate(workDate), "MMM d")}`}
               </Button>
             </div>
           </div>
@@ -334,24 +518,78 @@ const Timesheet = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="timesheet" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="timesheet">Daily Timesheet</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
             <TabsTrigger value="history">My Ticket History</TabsTrigger>
           </TabsList>
 
           <TabsContent value="timesheet" className="space-y-6">
+            {/* Date Selector */}
+            <Card>
+              <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => changeWorkDate(addDaysToWorkDate(workDate, -1))}
+                    disabled={workDate <= allowedDates.min}
+                    title="Previous day"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Input
+                    type="date"
+                    value={workDate}
+                    min={allowedDates.min}
+                    max={allowedDates.max}
+                    onChange={(e) => {
+                      const date = e.target.value;
+                      if (date >= allowedDates.min && date <= allowedDates.max) changeWorkDate(date);
+                    }}
+                    className="w-44"
+                    aria-label="Timesheet date"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => changeWorkDate(addDaysToWorkDate(workDate, 1))}
+                    disabled={workDate >= allowedDates.max}
+                    title="Next day"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => changeWorkDate(today)} disabled={isToday}>
+                    Today
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-foreground-muted">
+                  <CalendarDays className="w-4 h-4" />
+                  <span>{format(fromWorkDate(workDate), "EEEE, MMMM d, yyyy")}</span>
+                  {isPlannedDay && <Badge variant="outline">Planned</Badge>}
+                  {dayStatus && (
+                    <Badge variant={statusVariant(dayStatus)} className="capitalize flex items-center gap-1">
+                      {isLocked(dayStatus) && <Lock className="w-3 h-3" />}
+                      {dayStatus}
+                    </Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Availability Tracker */}
             <AvailabilityTracker
-              totalLoggedTime={timerSummary.totalLoggedTime}
-              breakTime={globalBreakTime + (isOnGlobalBreak && globalBreakStartTime ? Math.floor((Date.now() - globalBreakStartTime) / 1000) : 0)}
+              totalLoggedTime={rows.reduce((total, row) => total + TimerStore.getCurrentTime(row.id), 0)}
+              breakTime={breakTime}
               isOnBreak={isOnGlobalBreak}
-              targetHours={8}
-              workTargetHours={8}
+              breakWarnings={breakWarnings}
+              targetHours={Number((daySchedule.workSeconds / 3600).toFixed(2))}
+              dayOff={daySchedule.holiday || daySchedule.leave}
             />
 
             {/* Saved Entries List */}
-            {savedEntries.length > 0 && (
+            {isToday && savedEntries.length > 0 && (
               <Card className="mb-6">
                 <CardHeader>
                   <CardTitle className="text-lg font-semibold text-foreground flex items-center gap-2">
@@ -386,6 +624,15 @@ const Timesheet = () => {
               </Card>
             )}
 
+            {!isLocked(dayStatus) && !isPlannedDay && (
+              <CarryOverTickets
+                tickets={unfinishedTickets.filter(ticket =>
+                  !rows.some(row => row.continuedFrom === ticket.ticketHistoryId || row.ticketNumber.trim() === ticket.ticketNumber))}
+                workDate={workDate}
+                onContinue={continueTickets}
+              />
+            )}
+
             {/* Current Working Entries */}
             <div className="space-y-4">
               <CardTitle className="text-lg font-semibold text-foreground">
@@ -397,13 +644,14 @@ const Timesheet = () => {
                 <div className="col-span-1">Ticket #</div>
                 <div className="col-span-1 lg:col-span-2">University</div>
                 <div className="col-span-1">Domain</div>
+                <div className="col-span-1">Client Type</div>
                 <div className="col-span-1 lg:col-span-2">Main Category</div>
                 <div className="col-span-1 lg:col-span-2">Sub Category</div>
                 <div className="col-span-1">Activity Type</div>
                 <div className="col-span-1">Status</div>
                 <div className="col-span-1">Data Count</div>
                 <div className="col-span-1">AHT / Unit</div>
-                <div className="col-span-1">Received Date</div>
+                <div className="col-span-1">Received</div>
               </div>
               
               {rows.map((row) => (
@@ -411,12 +659,16 @@ const Timesheet = () => {
                   key={row.id}
                   row={row}
                   dropdownData={dropdownData}
+                  taskCatalog={taskCatalog}
                   onUpdate={updateRow}
                   onDelete={deleteRow}
                   onStartTimer={handleStartTimer}
                   onPauseTimer={handlePauseTimer}
                   onResumeTimer={handleResumeTimer}
+                  onEditTime={setEditingTimeRowId}
                   isOnGlobalBreak={isOnGlobalBreak}
+                  canUseTimer={isToday}
+                  canEditTime={!isPlannedDay}
                 />
               ))}
               
@@ -441,10 +693,40 @@ const Timesheet = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="week">
+            <WeeklyTimesheetGrid
+              userId={userId}
+              workDate={workDate}
+              minDate={allowedDates.min}
+              maxDate={allowedDates.max}
+              calendar={scheduleCalendar}
+              onSelectDate={(date) => {
+                changeWorkDate(date);
+                setActiveTab("timesheet");
+              }}
+            />
+          </TabsContent>
+
           <TabsContent value="history">
             <TicketHistory userId={userId} />
           </TabsContent>
         </Tabs>
+
+        <SessionEditorDialog
+          taskId={editingTimeRowId}
+          taskLabel={getRowLabel(editingTimeRowId)}
+          employeeId={employeeKey || ''}
+          workDate={workDate}
+          onClose={() => setEditingTimeRowId(null)}
+        />
+
+        <IdleTimerPrompt
+          employeeKey={employeeKey}
+          taskLabel={getRowLabel}
+          onBreakRecorded={(entry) => {
+            if (entry.workDate === today) setBreaks(prev => [...prev, entry]);
+          }}
+        />
       </div>
     </div>
   );
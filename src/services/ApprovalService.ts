@@ -0,0 +1,126 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ApprovalStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'reopened';
+
+export type ReviewAction = 'approve' | 'reject' | 'reopen' | 'resubmit';
+
+export interface ReviewQueueEntry {
+  submission_id: string;
+  user_id: string;
+  employee_name: string;
+  team: string | null;
+  submission_date: string;
+  status: ApprovalStatus;
+  entry_count: number;
+  total_seconds: number;
+  submitted_at: string;
+  reviewed_by: string | null;
+  review_comment: string | null;
+}
+
+// Actions available to a reviewer for a submission in a given state
+const REVIEW_ACTIONS: Record<ApprovalStatus, ReviewAction[]> = {
+  draft: [],
+  submitted: ['approve', 'reject'],
+  approved: ['reopen'],
+  rejected: ['reopen'],
+  reopened: []
+};
+
+export const getReviewActions = (status: ApprovalStatus): ReviewAction[] => REVIEW_ACTIONS[status] || [];
+
+/**
+ * Approved days cannot be edited or resubmitted
+ */
+export const isLocked = (status: ApprovalStatus | null | undefined): boolean => status === 'approved';
+
+/**
+ * Submissions the reviewer may act on: those of the teams they manage or belong to (with sub-teams),
+ * or every team with timesheets.review.all. Each submission is routed by the team the submitter was in
+ * on the submitted day. reviewer is the reviewer's employee id or email.
+ */
+export const getReviewQueue = async (
+  reviewer: string,
+  status: ApprovalStatus | 'all' = 'submitted'
+): Promise<ReviewQueueEntry[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_review_queue', {
+      p_reviewer: reviewer,
+      p_status: status
+    });
+
+    if (error) {
+      console.error('Error loading review queue:', error);
+      return [];
+    }
+
+    return (data || []) as ReviewQueueEntry[];
+  } catch (error) {
+    console.error('Error in getReviewQueue:', error);
+    return [];
+  }
+};
+
+/**
+ * Move a submission through the approval workflow. Rejections require a comment.
+ * Throws with the server's message when the transition is not allowed.
+ */
+export const reviewSubmission = async (
+  submissionId: string,
+  action: ReviewAction,
+  actor: string,
+  comment?: string
+): Promise<ApprovalStatus> => {
+  if (action === 'reject' && !comment?.trim()) {
+    throw new Error('A comment is required when rejecting a timesheet');
+  }
+
+  const { data, error } = await supabase.rpc('review_timesheet_submission', {
+    p_submission_id: submissionId,
+    p_action: action,
+    p_actor: actor,
+    p_comment: comment?.trim() || undefined
+  });
+
+  if (error) {
+    console.error('Error reviewing timesheet submission:', error);
+    throw new Error(error.message);
+  }
+
+  return data.status as ApprovalStatus;
+};
+
+/**
+ * Approval state of each of a user's work dates in a range. An approved submission
+ * wins over later ones, since it locks the whole day; drafts are ignored.
+ */
+export const getDayApprovalStatuses = async (
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<Record<string, ApprovalStatus>> => {
+  const statuses: Record<string, ApprovalStatus> = {};
+  try {
+    const { data, error } = await supabase
+      .from('timesheet_submissions')
+      .select('submission_date, status, created_at')
+      .eq('user_id', userId)
+      .neq('status', 'draft')
+      .gte('submission_date', startDate)
+      .lte('submission_date', endDate)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching day approval statuses:', error);
+      return statuses;
+    }
+
+    (data || []).forEach(row => {
+      if (statuses[row.submission_date] === 'approved') return;
+      statuses[row.submission_date] = row.status as ApprovalStatus;
+    });
+  } catch (error) {
+    console.error('Error in getDayApprovalStatuses:', error);
+  }
+  return statuses;
+};
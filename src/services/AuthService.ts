@@ -0,0 +1,115 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * The signed-in employee, as carried by the session JWT
+ */
+export interface SessionEmployee {
+  authUserId: string;
+  employeeId: string;
+  email: string | null;
+  fullName: string | null;
+  // Name of the role bundle; what it allows comes from RoleService.getRolePermissions
+  role: string;
+}
+
+// Same address as employee_auth_email() in the database
+export const getAuthEmail = (employeeId: string): string =>
+  `${employeeId.trim().toLowerCase()}@employees.timesheet.local`;
+
+/**
+ * Claims of the session's access token. Auth adds must_change_password when it issues the token
+ * (custom_access_token_hook); it is not part of the user record.
+ */
+const getAccessTokenClaims = (session: Session | null): Record<string, unknown> => {
+  const payload = session?.access_token?.split('.')[1];
+  if (!payload) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return {};
+  }
+};
+
+// Tokens without the claim are treated like the database treats them: as needing a change
+const passwordChangeRequired = (session: Session): boolean =>
+  getAccessTokenClaims(session).must_change_password !== false;
+
+export const getSessionEmployee = (session: Session | null): SessionEmployee | null => {
+  const claims = session?.user.app_metadata;
+  const role: string | undefined = claims?.role;
+  if (!session || !claims?.employee_id || !role || passwordChangeRequired(session)) {
+    return null;
+  }
+
+  return {
+    authUserId: session.user.id,
+    employeeId: claims.employee_id,
+    email: claims.email || null,
+    fullName: session.user.user_metadata?.full_name || null,
+    role
+  };
+};
+
+/**
+ * Identity keys the pages read from localStorage. They mirror the session claims and are
+ * only used to label rows; the database checks them against the session.
+ */
+export const storeSessionEmployee = (employee: SessionEmployee): void => {
+  localStorage.setItem('userRole', employee.role);
+  if (employee.role === 'super-user' && employee.email) {
+    localStorage.setItem('userEmail', employee.email);
+    localStorage.removeItem('employeeId');
+    localStorage.setItem('currentUser', employee.fullName || employee.email);
+  } else {
+    localStorage.setItem('employeeId', employee.employeeId);
+    localStorage.removeItem('userEmail');
+    localStorage.setItem('currentUser', employee.fullName || employee.employeeId);
+  }
+};
+
+export const clearSessionEmployee = (): void => {
+  localStorage.removeItem('userRole');
+  localStorage.removeItem('userEmail');
+  localStorage.removeItem('employeeId');
+  localStorage.removeItem('currentUser');
+};
+
+/**
+ * Start a Supabase Auth session for an employee. Auth itself refuses locked accounts and counts
+ * failed attempts; a session whose password must still be changed is signed out again, as the
+ * database would refuse it anyway.
+ */
+export const signInEmployee = async (employeeId: string, password: string): Promise<SessionEmployee> => {
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email: getAuthEmail(employeeId),
+    password
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (data.session && passwordChangeRequired(data.session)) {
+    await supabase.auth.signOut();
+    throw new Error('You must change your password before signing in');
+  }
+
+  const employee = getSessionEmployee(data.session);
+  if (!employee) {
+    throw new Error('Your account has no role assigned');
+  }
+
+  return employee;
+};
+
+export const signOutEmployee = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Error signing out:', error);
+  }
+  clearSessionEmployee();
+};
@@ -0,0 +1,295 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { enqueue, getOperations, registerOutboxHandler } from './SyncOutbox';
+import type { OutboxOperation } from './SyncOutbox';
+import { toWorkDate } from '@/utils/dateHelpers';
+import { toHandlerResult } from './TimesheetSubmissionService';
+
+// Breaks taken from the timesheet's break button, by category. Starting and ending a break go
+// through the outbox like timer spans, so a break survives reloads and going offline.
+
+/**
+ * A category of break with its allowances; null means no limit
+ */
+export interface BreakType {
+  key: string;
+  label: string;
+  dailyAllowanceMinutes: number | null;
+  maxMinutesPerBreak: number | null;
+  isActive: boolean;
+}
+
+/**
+ * One break; endAt is null while it is running
+ */
+export interface BreakEntry {
+  id: string;
+  employeeId: string; // user key, as on timesheet sessions
+  breakType: string;
+  workDate: string;
+  startAt: string;
+  endAt: string | null;
+}
+
+/**
+ * A break allowance that was exceeded: the day's total for the type, or a single break
+ */
+export interface BreakWarning {
+  breakType: string;
+  label: string;
+  kind: 'daily' | 'single';
+  usedSeconds: number;
+  limitSeconds: number;
+}
+
+/**
+ * Break time of one employee over a range, with the allowances they went over
+ */
+export interface BreakComplianceRow {
+  employeeId: string;
+  days: number;
+  totalSeconds: number;
+  secondsByType: Record<string, number>;
+  warnings: BreakWarning[];
+}
+
+registerOutboxHandler('break.start', async (payload) => {
+  // Upsert so a replay after a lost response does not fail on the primary key
+  const { error } = await supabase
+    .from('employee_breaks')
+    .upsert(payload, { onConflict: 'id', ignoreDuplicates: true });
+  return toHandlerResult(error);
+});
+
+registerOutboxHandler('break.end', async ({ id, end_at, duration_seconds }) => {
+  const { error } = await supabase
+    .from('employee_breaks')
+    .update({ end_at, duration_seconds })
+    .eq('id', id);
+  return toHandlerResult(error);
+});
+
+const toBreakType = (row: Tables<'break_types'>): BreakType => ({
+  key: row.key,
+  label: row.label,
+  dailyAllowanceMinutes: row.daily_allowance_minutes,
+  maxMinutesPerBreak: row.max_minutes_per_break,
+  isActive: row.is_active
+});
+
+export const getBreakTypes = async (): Promise<BreakType[]> => {
+  const { data, error } = await supabase
+    .from('break_types')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching break types:', error);
+    return [];
+  }
+
+  return (data || []).map(toBreakType);
+};
+
+export const saveBreakType = async (breakType: BreakType): Promise<boolean> => {
+  const { error } = await supabase
+    .from('break_types')
+    .update({
+      label: breakType.label.trim(),
+      daily_allowance_minutes: breakType.dailyAllowanceMinutes,
+      max_minutes_per_break: breakType.maxMinutesPerBreak,
+      is_active: breakType.isActive
+    })
+    .eq('key', breakType.key);
+
+  if (error) {
+    console.error('Error saving break type:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Overlay break writes still waiting in the outbox on the rows fetched from the server
+ */
+export const applyPendingBreakOps = (entries: BreakEntry[], ops: OutboxOperation[], employeeId: string): BreakEntry[] => {
+  let result = [...entries];
+
+  for (const op of ops) {
+    if (op.kind === 'break.start') {
+      const payload = op.payload as OutboxOperation<'break.start'>['payload'];
+      if (payload.employee_id !== employeeId || result.some(entry => entry.id === payload.id)) continue;
+      result.push({
+        id: payload.id,
+        employeeId: payload.employee_id,
+        breakType: payload.break_type,
+        workDate: payload.work_date,
+        startAt: payload.start_at,
+        endAt: payload.end_at ?? null
+      });
+    } else if (op.kind === 'break.end') {
+      const payload = op.payload as OutboxOperation<'break.end'>['payload'];
+      result = result.map(entry => entry.id === payload.id ? { ...entry, endAt: payload.end_at } : entry);
+    }
+  }
+
+  return result.sort((a, b) => a.startAt.localeCompare(b.startAt));
+};
+
+/**
+ * Breaks between two work dates (inclusive). With an employee, only theirs, including breaks
+ * recorded offline; without one, everyone the signed-in user may see.
+ */
+export const getBreaks = async (employeeId: string | null, startDate: string, endDate: string): Promise<BreakEntry[]> => {
+  let query = supabase
+    .from('employee_breaks')
+    .select('id, employee_id, break_type, work_date, start_at, end_at')
+    .gte('work_date', startDate)
+    .lte('work_date', endDate)
+    .order('start_at', { ascending: true });
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching breaks:', error);
+  }
+
+  const entries: BreakEntry[] = (data || []).map(row => ({
+    id: row.id,
+    employeeId: row.employee_id,
+    breakType: row.break_type,
+    workDate: row.work_date,
+    startAt: row.start_at,
+    endAt: row.end_at
+  }));
+
+  if (!employeeId) return entries;
+
+  const pending = await getOperations().catch(() => []);
+  return applyPendingBreakOps(entries, pending, employeeId)
+    .filter(entry => entry.workDate >= startDate && entry.workDate <= endDate);
+};
+
+export const startBreak = (employeeId: string, breakType: string, now: number = Date.now()): BreakEntry => {
+  const entry: BreakEntry = {
+    id: crypto.randomUUID(),
+    employeeId,
+    breakType,
+    workDate: toWorkDate(new Date(now)),
+    startAt: new Date(now).toISOString(),
+    endAt: null
+  };
+
+  enqueue('break.start', {
+    id: entry.id,
+    employee_id: employeeId,
+    break_type: breakType,
+    work_date: entry.workDate,
+    start_at: entry.startAt
+  });
+
+  return entry;
+};
+
+export const endBreak = (entry: BreakEntry, now: number = Date.now()): BreakEntry => {
+  const ended = { ...entry, endAt: new Date(now).toISOString() };
+
+  enqueue('break.end', {
+    id: entry.id,
+    end_at: ended.endAt,
+    duration_seconds: getBreakSeconds(ended, now)
+  });
+
+  return ended;
+};
+
+/**
+ * Record a break that has already ended, e.g. idle time the employee says was a break
+ */
+export const recordBreak = (employeeId: string, breakType: string, startAt: number, endAt: number): BreakEntry => {
+  const entry: BreakEntry = {
+    id: crypto.randomUUID(),
+    employeeId,
+    breakType,
+    workDate: toWorkDate(new Date(startAt)),
+    startAt: new Date(startAt).toISOString(),
+    endAt: new Date(endAt).toISOString()
+  };
+
+  enqueue('break.start', {
+    id: entry.id,
+    employee_id: employeeId,
+    break_type: breakType,
+    work_date: entry.workDate,
+    start_at: entry.startAt,
+    end_at: new Date(endAt).toISOString(),
+    duration_seconds: getBreakSeconds(entry)
+  });
+
+  return entry;
+};
+
+/**
+ * Length of a break in seconds; running breaks count up to now
+ */
+export const getBreakSeconds = (entry: BreakEntry, now: number = Date.now()): number => {
+  const end = entry.endAt ? new Date(entry.endAt).getTime() : now;
+  return Math.max(0, Math.floor((end - new Date(entry.startAt).getTime()) / 1000));
+};
+
+/**
+ * Allowances exceeded by one employee's breaks on one day
+ */
+export const getBreakWarnings = (entries: BreakEntry[], types: BreakType[], now: number = Date.now()): BreakWarning[] => {
+  const warnings: BreakWarning[] = [];
+
+  types.forEach(type => {
+    const breaks = entries.filter(entry => entry.breakType === type.key);
+    if (breaks.length === 0) return;
+
+    const used = breaks.reduce((total, entry) => total + getBreakSeconds(entry, now), 0);
+    if (type.dailyAllowanceMinutes !== null && used > type.dailyAllowanceMinutes * 60) {
+      warnings.push({ breakType: type.key, label: type.label, kind: 'daily', usedSeconds: used, limitSeconds: type.dailyAllowanceMinutes * 60 });
+    }
+
+    const longest = Math.max(...breaks.map(entry => getBreakSeconds(entry, now)));
+    if (type.maxMinutesPerBreak !== null && longest > type.maxMinutesPerBreak * 60) {
+      warnings.push({ breakType: type.key, label: type.label, kind: 'single', usedSeconds: longest, limitSeconds: type.maxMinutesPerBreak * 60 });
+    }
+  });
+
+  return warnings;
+};
+
+/**
+ * Break totals per employee, with every allowance they exceeded on any day
+ */
+export const getBreakCompliance = (entries: BreakEntry[], types: BreakType[], now: number = Date.now()): BreakComplianceRow[] => {
+  const byEmployee = new Map<string, BreakEntry[]>();
+  entries.forEach(entry => byEmployee.set(entry.employeeId, [...(byEmployee.get(entry.employeeId) || []), entry]));
+
+  return [...byEmployee.entries()]
+    .map(([employeeId, employeeBreaks]) => {
+      const secondsByType: Record<string, number> = {};
+      employeeBreaks.forEach(entry => {
+        secondsByType[entry.breakType] = (secondsByType[entry.breakType] || 0) + getBreakSeconds(entry, now);
+      });
+
+      const dates = [...new Set(employeeBreaks.map(entry => entry.workDate))];
+      const warnings = dates.flatMap(date =>
+        getBreakWarnings(employeeBreaks.filter(entry => entry.workDate === date), types, now));
+
+      return {
+        employeeId,
+        days: dates.length,
+        totalSeconds: Object.values(secondsByType).reduce((total, seconds) => total + seconds, 0),
+        secondsByType,
+        warnings
+      };
+    })
+    .sort((a, b) => b.warnings.length - a.warnings.length || a.employeeId.localeCompare(b.employeeId));
+};
@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export interface Client {
+  id: string;
+  university: string;
+  domain: string;
+  clientType: "New" | "BAU";
+  contactName: string;
+  contactEmail: string;
+  phone: string;
+  status: "active" | "inactive";
+  createdBy: string;
+  createdAt: string;
+}
+
+// Clients without an id are created (or replace the client with the same university)
+export type ClientDraft = Omit<Client, 'id' | 'createdBy' | 'createdAt'> & { id?: string };
+
+/**
+ * Work logged against a client, from its ticket history
+ */
+export interface ClientActivity {
+  totalSeconds: number;
+  ticketCount: number;
+  entryCount: number;
+  lastActivity: string | null;
+}
+
+const toClient = (row: Tables<'clients'>): Client => ({
+  id: row.id,
+  university: row.university,
+  domain: row.domain || '',
+  clientType: row.client_type === 'BAU' ? 'BAU' : 'New',
+  contactName: row.contact_name || '',
+  contactEmail: row.contact_email || '',
+  phone: row.phone || '',
+  status: row.status === 'inactive' ? 'inactive' : 'active',
+  createdBy: row.created_by || '',
+  createdAt: row.created_at.split('T')[0]
+});
+
+export const getClients = async (): Promise<Client[]> => {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('*')
+    .order('university', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching clients:', error);
+    return [];
+  }
+
+  return (data || []).map(toClient);
+};
+
+/**
+ * Activity per client id; clients without logged tickets are absent
+ */
+export const getClientActivity = async (): Promise<Record<string, ClientActivity>> => {
+  const { data, error } = await supabase.rpc('get_client_activity');
+
+  if (error) {
+    console.error('Error fetching client activity:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data || []).map(row => [row.client_id, {
+    totalSeconds: row.total_seconds,
+    ticketCount: row.ticket_count,
+    entryCount: row.entry_count,
+    lastActivity: row.last_activity
+  }]));
+};
+
+export const saveClients = async (clients: ClientDraft[], actor: string): Promise<Client[]> => {
+  const { data, error } = await supabase.rpc('save_clients', {
+    p_actor: actor,
+    p_clients: clients.map(client => ({
+      id: client.id,
+      university: client.university,
+      domain: client.domain,
+      client_type: client.clientType,
+      contact_name: client.contactName,
+      contact_email: client.contactEmail,
+      phone: client.phone,
+      status: client.status
+    })) as unknown as Json
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(toClient);
+};
+
+/**
+ * Delete clients. Refused for clients with logged tickets, which should be deactivated instead.
+ */
+export const deleteClients = async (ids: string[], actor: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('delete_clients', {
+    p_actor: actor,
+    p_ids: ids
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ?? 0;
+};
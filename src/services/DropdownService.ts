@@ -0,0 +1,115 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { ClientType, DropdownData, DropdownListVersion, DropdownLists, Domain, StubName, University } from '@/types/dropdown';
+import { getDropdownData, setDropdownData } from '@/utils/dropdownStorage';
+import { toWorkDate } from '@/utils/dateHelpers';
+
+const toVersion = (row: Tables<'dropdown_list_versions'>): DropdownListVersion => ({
+  version: row.version,
+  status: row.status === 'published' ? 'published' : 'draft',
+  effectiveFrom: row.effective_from,
+  effectiveTo: row.effective_to,
+  publishedBy: row.published_by,
+  publishedAt: row.published_at,
+  lists: {
+    universities: (row.universities || []) as unknown as University[],
+    domains: (row.domains || []) as unknown as Domain[],
+    clientTypes: (row.client_types || []) as unknown as ClientType[],
+    stubs: (row.stubs || []) as unknown as StubName[]
+  }
+});
+
+/**
+ * The published version in effect today; a later version published for the same date wins
+ */
+export const getPublishedDropdownVersion = async (): Promise<DropdownListVersion | null> => {
+  const { data, error } = await supabase
+    .from('dropdown_list_versions')
+    .select('*')
+    .eq('status', 'published')
+    .lte('effective_from', toWorkDate())
+    .order('effective_from', { ascending: false })
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toVersion(data) : null;
+};
+
+/**
+ * Lists for the timesheet pickers from the current published version.
+ * They are kept locally so the last version seen is still available offline.
+ */
+export const getPublishedDropdownData = async (): Promise<DropdownData> => {
+  try {
+    const published = await getPublishedDropdownVersion();
+    if (!published) return getDropdownData();
+
+    const data: DropdownData = { ...getDropdownData(), ...published.lists, version: published.version };
+    setDropdownData(data);
+    return data;
+  } catch (error) {
+    console.error('Error loading dropdown lists:', error);
+    return getDropdownData();
+  }
+};
+
+/**
+ * All versions, newest first; the draft (if any) comes first
+ */
+export const getDropdownVersions = async (): Promise<DropdownListVersion[]> => {
+  const { data, error } = await supabase
+    .from('dropdown_list_versions')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching dropdown list versions:', error);
+    return [];
+  }
+
+  return (data || []).map(toVersion);
+};
+
+/**
+ * Replace the given lists in the draft, starting one from the latest published version if needed
+ */
+export const saveDropdownDraft = async (lists: Partial<DropdownLists>, actor: string): Promise<DropdownListVersion> => {
+  const { data, error } = await supabase.rpc('save_dropdown_draft', {
+    p_actor: actor,
+    p_lists: {
+      universities: lists.universities,
+      domains: lists.domains,
+      client_types: lists.clientTypes,
+      stubs: lists.stubs
+    } as unknown as Json
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toVersion(data);
+};
+
+export const publishDropdownVersion = async (actor: string, effectiveFrom: string): Promise<DropdownListVersion> => {
+  const { data, error } = await supabase.rpc('publish_dropdown_version', {
+    p_actor: actor,
+    p_effective_from: effectiveFrom
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toVersion(data);
+};
+
+export const discardDropdownDraft = async (actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('discard_dropdown_draft', { p_actor: actor });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Idle detection for running timers. Activity is input on the page or the page becoming
+// visible again; once there has been none for the team's threshold, the running timer is
+// paused as of the last activity and the employee decides on return what the time was.
+
+// Used for employees without a team, and when the team cannot be loaded
+export const DEFAULT_IDLE_THRESHOLD_MINUTES = 15;
+
+// Input on the page that counts as the employee being there
+export const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+// How often the detector looks at the clock
+export const IDLE_TICK_MS = 5000;
+
+// A tick this much later than scheduled means the machine slept or the tab was frozen.
+// Generous enough for the once-a-minute timers browsers allow hidden tabs.
+export const CLOCK_JUMP_MS = 90000;
+
+export type IdleResolution = 'keep' | 'discard' | 'break';
+
+export interface IdleClock {
+  lastActivityAt: number; // wall-clock epoch milliseconds
+  lastTickAt: number;
+}
+
+/**
+ * Time a timer ran without the employee; endedAt is null until they are back
+ */
+export interface IdlePeriod {
+  taskId: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+/**
+ * Minutes without activity before the employee's running timer is paused; 0 when idle detection is off
+ */
+export const getIdleThresholdMinutes = async (employeeCode: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('teams!employees_team_id_fkey(idle_threshold_minutes)')
+    .eq('employee_id', employeeCode)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching idle threshold:', error);
+    return DEFAULT_IDLE_THRESHOLD_MINUTES;
+  }
+
+  return data?.teams?.idle_threshold_minutes ?? DEFAULT_IDLE_THRESHOLD_MINUTES;
+};
+
+export const hasClockJumped = (clock: IdleClock, now: number): boolean =>
+  now - clock.lastTickAt > IDLE_TICK_MS + CLOCK_JUMP_MS;
+
+/**
+ * When the employee went idle, or null while they count as active.
+ * Waking the machine produces input before the next tick runs, so after a clock jump
+ * the employee was gone from the last tick at the latest.
+ */
+export const getIdleSince = (clock: IdleClock, now: number, thresholdMs: number): number | null => {
+  // A clock set back cannot tell how long anyone was away
+  if (thresholdMs <= 0 || now < clock.lastTickAt) return null;
+
+  const since = hasClockJumped(clock, now)
+    ? Math.min(clock.lastActivityAt, clock.lastTickAt)
+    : clock.lastActivityAt;
+
+  return now - since >= thresholdMs ? since : null;
+};
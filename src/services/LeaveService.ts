@@ -0,0 +1,204 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type LeaveAction = 'approve' | 'reject';
+
+export interface LeaveType {
+  key: string;
+  label: string;
+}
+
+/**
+ * One leave request; endDate is inclusive and halfDay only applies to single days
+ */
+export interface LeaveRequest {
+  id: string;
+  employeeId: string;   // employees.id
+  employeeName: string;
+  employeeCode: string; // employees.employee_id, e.g. EMP001
+  teamId: string | null;
+  leaveType: string;
+  leaveLabel: string;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewedBy: string | null;
+  reviewComment: string | null;
+  createdAt: string;
+}
+
+export interface LeaveDraft {
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  reason: string;
+}
+
+const LEAVE_SELECT =
+  'id, employee_id, leave_type, start_date, end_date, half_day, reason, status, reviewed_by, review_comment, created_at, leave_types(label), employees(full_name, employee_id, team_id)';
+
+interface LeaveRow {
+  id: string;
+  employee_id: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+  half_day: boolean;
+  reason: string | null;
+  status: string;
+  reviewed_by: string | null;
+  review_comment: string | null;
+  created_at: string;
+  leave_types: { label: string } | null;
+  employees: { full_name: string; employee_id: string; team_id: string | null } | null;
+}
+
+const toLeaveRequest = (row: LeaveRow): LeaveRequest => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  employeeName: row.employees?.full_name || row.employees?.employee_id || row.employee_id,
+  employeeCode: row.employees?.employee_id || '',
+  teamId: row.employees?.team_id ?? null,
+  leaveType: row.leave_type,
+  leaveLabel: row.leave_types?.label || row.leave_type,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  halfDay: row.half_day,
+  reason: row.reason,
+  status: row.status as LeaveStatus,
+  reviewedBy: row.reviewed_by,
+  reviewComment: row.review_comment,
+  createdAt: row.created_at
+});
+
+export const getLeaveTypes = async (): Promise<LeaveType[]> => {
+  const { data, error } = await supabase
+    .from('leave_types')
+    .select('key, label')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching leave types:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Leave overlapping a range of work dates, earliest first. Which requests come back is up to the
+ * database: your own, your team's approved leave, and everything for the teams you review.
+ */
+export const getLeaveRequests = async (
+  startDate: string,
+  endDate: string,
+  statuses?: LeaveStatus[]
+): Promise<LeaveRequest[]> => {
+  let query = supabase
+    .from('leave_requests')
+    .select(LEAVE_SELECT)
+    .lte('start_date', endDate)
+    .gte('end_date', startDate)
+    .order('start_date', { ascending: true });
+
+  if (statuses) {
+    query = query.in('status', statuses);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching leave requests:', error);
+    return [];
+  }
+
+  return (data || []).map(toLeaveRequest);
+};
+
+/**
+ * Every leave request of one employee (by employee id, e.g. EMP001), newest first
+ */
+export const getEmployeeLeave = async (employeeId: string): Promise<LeaveRequest[]> => {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('id, employee_id, leave_type, start_date, end_date, half_day, reason, status, reviewed_by, review_comment, created_at, leave_types(label), employees!inner(full_name, employee_id, team_id)')
+    .eq('employees.employee_id', employeeId)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching employee leave:', error);
+    return [];
+  }
+
+  return (data || []).map(toLeaveRequest);
+};
+
+export const requestLeave = async (leave: LeaveDraft, actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('request_leave', {
+    p_actor: actor,
+    p_leave: {
+      leave_type: leave.leaveType,
+      start_date: leave.startDate,
+      end_date: leave.endDate,
+      half_day: leave.halfDay,
+      reason: leave.reason
+    }
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const reviewLeaveRequest = async (
+  requestId: string,
+  action: LeaveAction,
+  actor: string,
+  comment?: string
+): Promise<LeaveStatus> => {
+  const { data, error } = await supabase.rpc('review_leave_request', {
+    p_actor: actor,
+    p_request_id: requestId,
+    p_action: action,
+    p_comment: comment
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data.status as LeaveStatus;
+};
+
+export const cancelLeaveRequest = async (requestId: string, actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_leave_request', {
+    p_actor: actor,
+    p_request_id: requestId
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Employees can withdraw pending leave, and approved leave that has not started yet
+ */
+export const canCancelLeave = (request: LeaveRequest, today: string): boolean =>
+  request.status === 'pending' || (request.status === 'approved' && request.startDate > today);
+
+/**
+ * Requests on each work date of a range, for the team calendar
+ */
+export const getLeaveByDate = (requests: LeaveRequest[], workDates: string[]): Record<string, LeaveRequest[]> => {
+  const byDate: Record<string, LeaveRequest[]> = {};
+  workDates.forEach(date => {
+    byDate[date] = requests.filter(request => request.startDate <= date && request.endDate >= date);
+  });
+  return byDate;
+};
@@ -1,8 +1,28 @@
-// Minimal evented store for task timers powered by performance.now()
-// Supports: start, pause, resume, breakStart, breakEnd, reset.
+// The single timer engine for task timers, powered by performance.now()
+// State machine: paused -> running <-> break, and any state -> stopped.
+// Supports: start, pause, resume, breakStart, breakEnd, stop, reset.
 // One global ticker updates subscribers at 1 Hz for stable UI.
+// Every span transition is reported to an optional sink so it can be persisted,
+// and the store can be rebuilt from persisted spans with hydrate().
 
-type TimerStatus = 'running' | 'paused' | 'break';
+export type TimerStatus = 'running' | 'paused' | 'break' | 'stopped';
+
+export type SpanKind = 'work' | 'break';
+
+export type SpanEvent =
+  | { type: 'open'; taskId: string; kind: SpanKind; startedAt: number }
+  | { type: 'close'; taskId: string; kind: SpanKind; endedAt: number; durationMs: number }
+  | { type: 'discard'; taskId: string };
+
+// A span as stored server-side, with wall-clock epoch milliseconds
+export type PersistedSpan = {
+  taskId: string;
+  kind: SpanKind;
+  startAt: number;
+  endAt: number | null;
+};
+
+type SpanSink = (event: SpanEvent) => void;
 
 export type TaskTimerState = {
   taskId: string;
@@ -19,6 +39,29 @@ const listeners = new Set<Listener>();
 
 let intervalId: number | null = null;
 let nowMs = performance.now(); // monotonic "now" for rendering
+let spanSink: SpanSink | null = null;
+
+// Register the persistence sink; returns a function that detaches it
+export function setSpanSink(sink: SpanSink | null) {
+  spanSink = sink;
+  return () => {
+    if (spanSink === sink) spanSink = null;
+  };
+}
+
+function emit(event: SpanEvent) {
+  if (!spanSink) return;
+  try {
+    spanSink(event);
+  } catch (error) {
+    console.error('Error persisting timer span:', error);
+  }
+}
+
+function openSpan(s: TaskTimerState, kind: SpanKind) {
+  s.spanStartMs = performance.now();
+  emit({ type: 'open', taskId: s.taskId, kind, startedAt: Date.now() });
+}
 
 function startTicker() {
   if (intervalId != null) return;
@@ -61,20 +104,28 @@ function ensure(taskId: string): TaskTimerState {
   return s;
 }
 
-// Helpers to fold open span into totals
+// Helpers to fold open span into totals; at may lie in the past (see pauseIdle)
 function closeOpenSpan(s: TaskTimerState, at: number) {
   if (s.spanStartMs == null) return;
+  const monoNow = performance.now();
   const delta = at - s.spanStartMs;
   if (s.status === 'running') s.elapsedActiveMs += delta;
   if (s.status === 'break') s.elapsedBreakMs += delta;
   s.spanStartMs = null;
+  emit({
+    type: 'close',
+    taskId: s.taskId,
+    kind: s.status === 'break' ? 'break' : 'work',
+    endedAt: Date.now() - (monoNow - at),
+    durationMs: delta,
+  });
 }
 
 export function start(taskId: string) {
   const s = ensure(taskId);
   
-  // If this timer is already running, no action needed
-  if (s.status === 'running') return;
+  // If this timer is already running or has been stopped, no action needed
+  if (s.status === 'running' || s.status === 'stopped') return;
   
   // Stop any other running timers first (single-task constraint)
   const currentlyRunning = getRunningTimerId();
@@ -85,7 +136,7 @@ export function start(taskId: string) {
   // Start this timer
   closeOpenSpan(s, performance.now());
   s.status = 'running';
-  s.spanStartMs = performance.now();
+  openSpan(s, 'work');
   listeners.forEach((l) => l());
 }
 
@@ -98,6 +149,16 @@ export function pause(taskId: string) {
   }
 }
 
+// Pause a running timer as of idleMs ago, so time nobody was at the keyboard is not
+// counted; the span never ends before it started.
+export function pauseIdle(taskId: string, idleMs: number) {
+  const s = ensure(taskId);
+  if (s.status !== 'running' || s.spanStartMs == null) return;
+  closeOpenSpan(s, Math.max(s.spanStartMs, performance.now() - Math.max(0, idleMs)));
+  s.status = 'paused';
+  listeners.forEach((l) => l());
+}
+
 export function resume(taskId: string) {
   const s = ensure(taskId);
   if (s.status === 'paused') {
@@ -108,18 +169,19 @@ export function resume(taskId: string) {
     }
     
     s.status = 'running';
-    s.spanStartMs = performance.now();
+    openSpan(s, 'work');
     listeners.forEach((l) => l());
   }
 }
 
 export function breakStart(taskId: string) {
   const s = ensure(taskId);
+  if (s.status === 'stopped') return;
   const t = performance.now();
   if (s.status === 'running') closeOpenSpan(s, t);
   if (s.status !== 'break') {
     s.status = 'break';
-    s.spanStartMs = performance.now();
+    openSpan(s, 'break');
     listeners.forEach((l) => l());
   }
 }
@@ -129,13 +191,35 @@ export function breakEnd(taskId: string, goTo: 'paused' | 'running' = 'paused')
   if (s.status === 'break') {
     closeOpenSpan(s, performance.now());
     s.status = goTo;
-    s.spanStartMs = goTo === 'running' ? performance.now() : null;
+    if (goTo === 'running') openSpan(s, 'work');
     listeners.forEach((l) => l());
   }
 }
 
+// Finalise a timer (e.g. on submission); a stopped timer cannot be restarted until reset
+export function stop(taskId: string) {
+  const s = ensure(taskId);
+  if (s.status === 'stopped') return;
+  closeOpenSpan(s, performance.now());
+  s.status = 'stopped';
+  listeners.forEach((l) => l());
+}
+
+export function stopAll() {
+  timers.forEach((s) => stop(s.taskId));
+}
+
+// Undo a stop (e.g. when a submission is rejected), keeping the accumulated time
+export function reopen(taskId: string) {
+  const s = ensure(taskId);
+  if (s.status !== 'stopped') return;
+  s.status = 'paused';
+  listeners.forEach((l) => l());
+}
+
 export function reset(taskId: string) {
   const s = ensure(taskId);
+  closeOpenSpan(s, performance.now());
   s.status = 'paused';
   s.elapsedActiveMs = 0;
   s.elapsedBreakMs = 0;
@@ -143,6 +227,62 @@ export function reset(taskId: string) {
   listeners.forEach((l) => l());
 }
 
+// Drop a timer from the engine. With discard, its persisted spans are deleted too;
+// without it (e.g. after submission) the spans are kept as the record of the work.
+export function remove(taskId: string, discard: boolean = true) {
+  const s = timers.get(taskId);
+  if (!s) return;
+  s.spanStartMs = null;
+  timers.delete(taskId);
+  if (discard) emit({ type: 'discard', taskId });
+  listeners.forEach((l) => l());
+}
+
+// Apply a change made to closed spans outside the engine (manual entry or a span
+// edited after the fact). Does not emit span events; the caller persists the change.
+export function adjustElapsed(taskId: string, kind: SpanKind, deltaMs: number) {
+  const s = ensure(taskId);
+  if (kind === 'work') s.elapsedActiveMs = Math.max(0, s.elapsedActiveMs + deltaMs);
+  else s.elapsedBreakMs = Math.max(0, s.elapsedBreakMs + deltaMs);
+  listeners.forEach((l) => l());
+}
+
+// Only one work span may be open at a time. Any earlier open work span (e.g. left
+// behind by another device) is treated as closed when the next one started.
+export function settleOpenSpans(spans: PersistedSpan[]): PersistedSpan[] {
+  const ordered = [...spans].sort((a, b) => a.startAt - b.startAt);
+  const openWork = ordered.filter((span) => span.endAt == null && span.kind === 'work');
+  return ordered.map((span) => {
+    const index = openWork.indexOf(span);
+    if (index === -1 || index === openWork.length - 1) return span;
+    return { ...span, endAt: openWork[index + 1].startAt };
+  });
+}
+
+// Rebuild the store from persisted spans (e.g. after a reload or on another device).
+// Closed spans fold into totals; an open span resumes with its wall-clock age
+// mapped onto the performance.now() timeline. Does not emit span events.
+export function hydrate(spans: PersistedSpan[], wallNow: number = Date.now()) {
+  timers.clear();
+  const monoNow = performance.now();
+
+  for (const span of settleOpenSpans(spans)) {
+    const s = ensure(span.taskId);
+    if (span.endAt != null) {
+      const duration = Math.max(0, span.endAt - span.startAt);
+      if (span.kind === 'work') s.elapsedActiveMs += duration;
+      else s.elapsedBreakMs += duration;
+      continue;
+    }
+
+    s.status = span.kind === 'work' ? 'running' : 'break';
+    s.spanStartMs = monoNow - Math.max(0, wallNow - span.startAt);
+  }
+
+  nowMs = monoNow;
+  listeners.forEach((l) => l());
+}
+
 // Get current elapsed time (including open span)
 export function getCurrentTime(taskId: string): number {
   const s = ensure(taskId);
@@ -183,6 +323,52 @@ export function isOnBreak(taskId: string): boolean {
   return getStatus(taskId) === 'break';
 }
 
+export function isStopped(taskId: string): boolean {
+  return getStatus(taskId) === 'stopped';
+}
+
+export type TimerSnapshot = {
+  currentTime: number;
+  breakTime: number;
+  status: TimerStatus;
+  isRunning: boolean;
+  isPaused: boolean;
+  isOnBreak: boolean;
+  isStopped: boolean;
+};
+
+export type TimerSummary = {
+  totalLoggedTime: number;
+  totalBreakTime: number;
+  hasActiveTask: boolean;
+  runningTaskId: string | null;
+};
+
+// Point-in-time view of one timer, in seconds
+export function getSnapshot(taskId: string): TimerSnapshot {
+  const status = getStatus(taskId);
+  return {
+    currentTime: getCurrentTime(taskId),
+    breakTime: getBreakTime(taskId),
+    status,
+    isRunning: status === 'running',
+    isPaused: status === 'paused',
+    isOnBreak: status === 'break',
+    isStopped: status === 'stopped',
+  };
+}
+
+// Totals across all timers, in seconds; every screen derives its totals from here
+export function getSummary(): TimerSummary {
+  const all = getAllTimers();
+  return {
+    totalLoggedTime: all.reduce((total, t) => total + getCurrentTime(t.taskId), 0),
+    totalBreakTime: all.reduce((total, t) => total + getBreakTime(t.taskId), 0),
+    hasActiveTask: all.some((t) => t.status === 'running'),
+    runningTaskId: getRunningTimerId(),
+  };
+}
+
 // Get all active timers
 export function getAllTimers(): TaskTimerState[] {
   return Array.from(timers.values());
@@ -211,4 +397,5 @@ export function destroy() {
   }
   listeners.clear();
   timers.clear();
+  spanSink = null;
 }
\ No newline at end of file
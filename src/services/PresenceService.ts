@@ -0,0 +1,215 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDaysToWorkDate, toWorkDate } from '@/utils/dateHelpers';
+
+// Who is working on what right now, for supervisors. Built from open timer spans, open
+// breaks and each employee's last activity; changes arrive through Supabase Realtime and
+// row-level security limits everything to the teams the viewer may see.
+
+// A running task is flagged once it has taken this many times its AHT
+export const AHT_OVERRUN_FACTOR = 2;
+
+// Activity is written at most this often while the employee uses the app
+export const HEARTBEAT_MS = 60000;
+
+// Without activity for this long an employee without a running timer counts as offline
+const ONLINE_WINDOW_MS = 10 * 60000;
+
+export type PresenceStatus = 'working' | 'break' | 'no-timer' | 'offline';
+
+export interface PresenceEmployee {
+  key: string; // employee id, e.g. EMP001
+  name: string;
+  email: string | null;
+}
+
+/**
+ * One unsubmitted timer span, with what the timer was started for
+ */
+export interface PresenceSpan {
+  employeeKey: string; // user key, as on timesheet sessions
+  taskId: string;
+  kind: 'work' | 'break';
+  ticketNumber: string | null;
+  taskLabel: string | null;
+  ahtMinutes: number | null;
+  startAt: number;
+  endAt: number | null;
+}
+
+export interface PresenceBreak {
+  employeeKey: string;
+  label: string;
+  startAt: number;
+}
+
+export interface PresenceData {
+  employees: PresenceEmployee[];
+  spans: PresenceSpan[];
+  openBreaks: PresenceBreak[];
+  lastActivity: Record<string, number>; // user key -> epoch milliseconds
+}
+
+/**
+ * One employee on the board. Time on task covers every unsubmitted span of the running task.
+ */
+export interface TeamNowRow {
+  employeeKey: string;
+  name: string;
+  status: PresenceStatus;
+  ticketNumber: string | null;
+  taskLabel: string | null;
+  elapsedSeconds: number;
+  ahtMinutes: number | null;
+  overrun: boolean;
+  breakLabel: string | null;
+  breakStartedAt: number | null;
+  lastActivityAt: number | null;
+}
+
+const PRESENCE_TABLES = ['timesheet_sessions', 'employee_breaks', 'employee_presence'] as const;
+
+const STATUS_ORDER: PresenceStatus[] = ['working', 'break', 'no-timer', 'offline'];
+
+/**
+ * Refresh the employee's last activity
+ */
+export const recordActivity = async (employeeKey: string, at: number = Date.now()): Promise<void> => {
+  const { error } = await supabase
+    .from('employee_presence')
+    .upsert({ employee_id: employeeKey, last_activity_at: new Date(at).toISOString() });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Everything the board needs: employees of the visible teams, open and today's timer spans,
+ * open breaks and last activity
+ */
+export const getPresenceData = async (): Promise<PresenceData> => {
+  // Yesterday too, so a timer left running past midnight still shows
+  const since = addDaysToWorkDate(toWorkDate(), -1);
+
+  const [employeesResult, teamIdsResult, spansResult, breaksResult, presenceResult] = await Promise.all([
+    supabase.from('employees').select('employee_id, full_name, email, team_id').eq('is_active', true),
+    supabase.rpc('visible_team_ids'),
+    supabase
+      .from('timesheet_sessions')
+      .select('employee_id, task_id, span_type, ticket_number, task_label, aht_minutes, start_at, end_at')
+      .is('submitted_at', null)
+      .gte('work_date', since),
+    supabase
+      .from('employee_breaks')
+      .select('employee_id, start_at, break_types(label)')
+      .is('end_at', null),
+    supabase.from('employee_presence').select('employee_id, last_activity_at')
+  ]);
+
+  const failed = [employeesResult, teamIdsResult, spansResult, breaksResult, presenceResult].find(result => result.error);
+  if (failed?.error) {
+    throw new Error(failed.error.message);
+  }
+
+  const teamIds = teamIdsResult.data || [];
+
+  return {
+    employees: (employeesResult.data || [])
+      .filter(row => row.team_id && teamIds.includes(row.team_id))
+      .map(row => ({ key: row.employee_id, name: row.full_name || row.employee_id, email: row.email })),
+    spans: (spansResult.data || [])
+      .filter(row => row.employee_id)
+      .map(row => ({
+        employeeKey: row.employee_id!,
+        taskId: row.task_id,
+        kind: row.span_type === 'break' ? 'break' : 'work',
+        ticketNumber: row.ticket_number,
+        taskLabel: row.task_label,
+        ahtMinutes: row.aht_minutes,
+        startAt: new Date(row.start_at).getTime(),
+        endAt: row.end_at ? new Date(row.end_at).getTime() : null
+      })),
+    openBreaks: (breaksResult.data || []).map(row => ({
+      employeeKey: row.employee_id,
+      label: row.break_types?.label || 'Break',
+      startAt: new Date(row.start_at).getTime()
+    })),
+    lastActivity: Object.fromEntries((presenceResult.data || []).map(row => [row.employee_id, new Date(row.last_activity_at).getTime()]))
+  };
+};
+
+/**
+ * Call onChange whenever a timer span, break or activity the viewer may see changes.
+ * Returns a function that unsubscribes.
+ */
+export const subscribeToPresence = (onChange: () => void): (() => void) => {
+  const channel = supabase.channel('team-now');
+  PRESENCE_TABLES.forEach(table => {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table }, onChange);
+  });
+  channel.subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * One row per employee of the visible teams, plus anyone else with visible activity, busiest first
+ */
+export const buildTeamNow = (data: PresenceData, now: number = Date.now()): TeamNowRow[] => {
+  // Spans and breaks are stored under a user key: employee id, email or full name
+  const findEmployee = (userKey: string) =>
+    data.employees.find(employee => [employee.key, employee.email, employee.name].includes(userKey));
+
+  const keys = new Map<string, string>(); // user key -> board key
+  data.employees.forEach(employee => keys.set(employee.key, employee.key));
+  [...data.spans.map(span => span.employeeKey), ...data.openBreaks.map(entry => entry.employeeKey), ...Object.keys(data.lastActivity)]
+    .forEach(userKey => {
+      if (!keys.has(userKey)) keys.set(userKey, findEmployee(userKey)?.key || userKey);
+    });
+
+  const rows = new Map<string, TeamNowRow>();
+  keys.forEach(boardKey => {
+    if (rows.has(boardKey)) return;
+    const userKeys = [...keys].filter(([, key]) => key === boardKey).map(([userKey]) => userKey);
+    const spans = data.spans.filter(span => userKeys.includes(span.employeeKey));
+    const openBreak = data.openBreaks.find(entry => userKeys.includes(entry.employeeKey)) || null;
+    const activity = userKeys.map(userKey => data.lastActivity[userKey]).filter(at => at !== undefined);
+    const lastActivityAt = activity.length > 0 ? Math.max(...activity) : null;
+
+    const current = spans
+      .filter(span => span.kind === 'work' && span.endAt === null)
+      .sort((a, b) => b.startAt - a.startAt)[0] || null;
+    const elapsedSeconds = current
+      ? Math.floor(spans
+          .filter(span => span.kind === 'work' && span.taskId === current.taskId)
+          .reduce((total, span) => total + Math.max(0, (span.endAt ?? now) - span.startAt), 0) / 1000)
+      : 0;
+
+    const status: PresenceStatus = openBreak
+      ? 'break'
+      : current
+        ? 'working'
+        : lastActivityAt !== null && now - lastActivityAt <= ONLINE_WINDOW_MS ? 'no-timer' : 'offline';
+
+    rows.set(boardKey, {
+      employeeKey: boardKey,
+      name: findEmployee(boardKey)?.name || boardKey,
+      status,
+      ticketNumber: current?.ticketNumber || null,
+      taskLabel: current?.taskLabel || null,
+      elapsedSeconds,
+      ahtMinutes: current?.ahtMinutes ?? null,
+      overrun: !!current?.ahtMinutes && elapsedSeconds > current.ahtMinutes * 60 * AHT_OVERRUN_FACTOR,
+      breakLabel: openBreak?.label || null,
+      breakStartedAt: openBreak?.startAt ?? null,
+      lastActivityAt
+    });
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+    Number(b.overrun) - Number(a.overrun) ||
+    a.name.localeCompare(b.name));
+};
@@ -0,0 +1,136 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Every permission the app checks; the database keeps the same keys (with labels) in the permissions table
+export const PERMISSIONS = [
+  'timesheet.submit',
+  'timesheets.review',
+  'timesheets.review.all',
+  'tickets.correct.any',
+  'tickets.audit.view',
+  'leave.request',
+  'leave.approve',
+  'reports.view.team',
+  'presence.view',
+  'teams.view.all',
+  'catalog.view',
+  'catalog.edit',
+  'clients.view',
+  'clients.edit',
+  'dropdowns.edit',
+  'employees.manage',
+  'employees.bulk',
+  'employees.reset_password',
+  'policies.edit',
+  'teams.manage',
+  'schedules.manage',
+  'roles.manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export interface PermissionInfo {
+  key: Permission;
+  category: string;
+  label: string;
+}
+
+/**
+ * A named bundle of permissions. Built-in roles cannot be deleted, and the super-user bundle cannot be changed.
+ */
+export interface Role {
+  name: string;
+  label: string;
+  description: string;
+  isSystem: boolean;
+  permissions: Permission[];
+}
+
+export const SUPER_USER_ROLE = 'super-user';
+
+const isPermission = (key: string): key is Permission => (PERMISSIONS as readonly string[]).includes(key);
+
+export const getPermissionCatalog = async (): Promise<PermissionInfo[]> => {
+  const { data, error } = await supabase
+    .from('permissions')
+    .select('key, category, label')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching permissions:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter(row => isPermission(row.key))
+    .map(row => ({ key: row.key as Permission, category: row.category, label: row.label }));
+};
+
+export const getRoles = async (): Promise<Role[]> => {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('name, label, description, is_system, role_permissions(permission)')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching roles:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    name: row.name,
+    label: row.label,
+    description: row.description || '',
+    isSystem: row.is_system,
+    permissions: (row.role_permissions || []).map(rp => rp.permission).filter(isPermission)
+  }));
+};
+
+export const getRolePermissions = async (role: string): Promise<Permission[]> => {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', role);
+
+  if (error) {
+    console.error('Error fetching role permissions:', error);
+    return [];
+  }
+
+  return (data || []).map(row => row.permission).filter(isPermission);
+};
+
+/**
+ * Create or update a role and replace its permissions
+ */
+export const saveRole = async (role: Omit<Role, 'isSystem'>, actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('save_role', {
+    p_actor: actor,
+    p_role: {
+      name: role.name,
+      label: role.label,
+      description: role.description,
+      permissions: role.permissions
+    }
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Delete a custom role. Refused while employees hold it.
+ */
+export const deleteRole = async (name: string, actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('delete_role', {
+    p_actor: actor,
+    p_name: name
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const getRoleLabel = (roles: Role[], name: string): string =>
+  roles.find(role => role.name === name)?.label || name;
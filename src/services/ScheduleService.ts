@@ -0,0 +1,338 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { addDaysToWorkDate, fromWorkDate } from '@/utils/dateHelpers';
+
+export interface ShiftSchedule {
+  id: string;
+  name: string;
+  startTime: string;      // "HH:MM"
+  endTime: string;        // "HH:MM"; earlier than startTime for overnight shifts
+  workingDays: number[];  // ISO weekdays, 1 = Monday
+  breakMinutes: number;
+  isActive: boolean;
+}
+
+// Schedules without an id are created
+export type ShiftScheduleDraft = Omit<ShiftSchedule, 'id'> & { id?: string };
+
+/**
+ * A schedule for one employee or a whole team. validTo is exclusive and null while it applies.
+ */
+export interface ScheduleAssignment {
+  id: string;
+  scheduleId: string;
+  employeeId: string | null; // employees.id
+  teamId: string | null;
+  fteRatio: number;          // 1 for full time, 0.5 for half time
+  validFrom: string;
+  validTo: string | null;
+}
+
+export type ScheduleAssignmentDraft = Omit<ScheduleAssignment, 'id'> & { id?: string };
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+/**
+ * Approved leave of one employee; endDate is inclusive
+ */
+export interface ApprovedLeave {
+  employeeId: string; // employees.id
+  label: string;      // name of the leave type
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+}
+
+// Who a user key (employee id, email or full name) belongs to
+interface ScheduledEmployee {
+  id: string;
+  employeeId: string;
+  email: string | null;
+  fullName: string | null;
+  teamId: string | null;
+}
+
+/**
+ * Everything needed to work out anyone's expected hours on any day
+ */
+export interface ScheduleCalendar {
+  schedules: ShiftSchedule[];
+  assignments: ScheduleAssignment[];
+  holidays: Holiday[];
+  leave: ApprovedLeave[];
+  employees: ScheduledEmployee[];
+}
+
+/**
+ * Hours expected of one person on one day: shiftSeconds is the time at work including the break,
+ * workSeconds the time they are expected to log. leave names the approved leave that shortens the day.
+ */
+export interface DaySchedule {
+  shiftSeconds: number;
+  workSeconds: number;
+  holiday: string | null;
+  leave: string | null;
+}
+
+// For people without an assignment; what the app assumed before schedules existed
+export const DEFAULT_SCHEDULE: ShiftSchedule = {
+  id: 'default',
+  name: 'Standard',
+  startTime: '09:00',
+  endTime: '18:00',
+  workingDays: [1, 2, 3, 4, 5],
+  breakMinutes: 60,
+  isActive: true
+};
+
+export const EMPTY_CALENDAR: ScheduleCalendar = { schedules: [], assignments: [], holidays: [], leave: [], employees: [] };
+
+const toSchedule = (row: Tables<'shift_schedules'>): ShiftSchedule => ({
+  id: row.id,
+  name: row.name,
+  startTime: row.start_time.slice(0, 5),
+  endTime: row.end_time.slice(0, 5),
+  workingDays: row.working_days,
+  breakMinutes: row.break_minutes,
+  isActive: row.is_active
+});
+
+const toAssignment = (row: Tables<'schedule_assignments'>): ScheduleAssignment => ({
+  id: row.id,
+  scheduleId: row.schedule_id,
+  employeeId: row.employee_id,
+  teamId: row.team_id,
+  fteRatio: Number(row.fte_ratio),
+  validFrom: row.valid_from,
+  validTo: row.valid_to
+});
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Length of a shift in seconds, break included
+ */
+export const getShiftSeconds = (schedule: Pick<ShiftSchedule, 'startTime' | 'endTime'>): number => {
+  const minutes = toMinutes(schedule.endTime) - toMinutes(schedule.startTime);
+  return (minutes > 0 ? minutes : minutes + 24 * 60) * 60;
+};
+
+// ISO weekday of a work date, 1 = Monday
+const getIsoWeekday = (workDate: string): number => fromWorkDate(workDate).getDay() || 7;
+
+const appliesOn = (assignment: ScheduleAssignment, workDate: string): boolean =>
+  assignment.validFrom <= workDate && (assignment.validTo === null || assignment.validTo > workDate);
+
+// Latest assignment that applies on the date
+const findAssignment = (assignments: ScheduleAssignment[], workDate: string): ScheduleAssignment | undefined =>
+  assignments
+    .filter(assignment => appliesOn(assignment, workDate))
+    .sort((a, b) => b.validFrom.localeCompare(a.validFrom))[0];
+
+const findEmployee = (calendar: ScheduleCalendar, userKey: string): ScheduledEmployee | undefined =>
+  calendar.employees.find(employee =>
+    [employee.employeeId, employee.email, employee.fullName].includes(userKey));
+
+/**
+ * The schedule that applies to a user on a date: their own assignment, else their team's, else the default.
+ * Approved leave takes out the whole day, or half of it.
+ */
+export const getDaySchedule = (calendar: ScheduleCalendar, userKey: string, workDate: string): DaySchedule => {
+  const holiday = calendar.holidays.find(day => day.date === workDate);
+  if (holiday) {
+    return { shiftSeconds: 0, workSeconds: 0, holiday: holiday.name, leave: null };
+  }
+
+  const employee = findEmployee(calendar, userKey);
+  const assignment = employee && (
+    findAssignment(calendar.assignments.filter(a => a.employeeId === employee.id), workDate) ||
+    findAssignment(calendar.assignments.filter(a => a.teamId !== null && a.teamId === employee.teamId), workDate)
+  );
+  const schedule = (assignment && calendar.schedules.find(s => s.id === assignment.scheduleId)) || DEFAULT_SCHEDULE;
+
+  if (!schedule.workingDays.includes(getIsoWeekday(workDate))) {
+    return { shiftSeconds: 0, workSeconds: 0, holiday: null, leave: null };
+  }
+
+  const leave = employee && calendar.leave.find(l =>
+    l.employeeId === employee.id && l.startDate <= workDate && l.endDate >= workDate);
+  if (leave && !leave.halfDay) {
+    return { shiftSeconds: 0, workSeconds: 0, holiday: null, leave: leave.label };
+  }
+
+  const ratio = (assignment?.fteRatio ?? 1) * (leave ? 0.5 : 1);
+  const shiftSeconds = getShiftSeconds(schedule);
+  return {
+    shiftSeconds: Math.round(shiftSeconds * ratio),
+    workSeconds: Math.round(Math.max(0, shiftSeconds - schedule.breakMinutes * 60) * ratio),
+    holiday: null,
+    leave: leave ? leave.label : null
+  };
+};
+
+/**
+ * Seconds a user is expected to work between two work dates (inclusive), and on how many days
+ */
+export const getExpectedWork = (
+  calendar: ScheduleCalendar,
+  userKey: string,
+  startDate: string,
+  endDate: string
+): { seconds: number; days: number } => {
+  let seconds = 0;
+  let days = 0;
+  for (let date = startDate; date <= endDate; date = addDaysToWorkDate(date, 1)) {
+    const { workSeconds } = getDaySchedule(calendar, userKey, date);
+    seconds += workSeconds;
+    if (workSeconds > 0) days++;
+  }
+  return { seconds, days };
+};
+
+/**
+ * Past work dates on which a user was expected to work but has not submitted a timesheet.
+ * Holidays, days off and full days of approved leave are excused.
+ */
+export const getMissingTimesheetDates = (
+  calendar: ScheduleCalendar,
+  userKey: string,
+  workDates: string[],
+  submittedDates: string[],
+  today: string
+): string[] =>
+  workDates.filter(date =>
+    date < today &&
+    !submittedDates.includes(date) &&
+    getDaySchedule(calendar, userKey, date).workSeconds > 0);
+
+/**
+ * Schedules, assignments, holidays, approved leave and employees in one go. Missing parts fall back to the default schedule.
+ */
+export const getScheduleCalendar = async (): Promise<ScheduleCalendar> => {
+  try {
+    const [schedules, assignments, holidays, leave, employees] = await Promise.all([
+      supabase.from('shift_schedules').select('*').order('name', { ascending: true }),
+      supabase.from('schedule_assignments').select('*').order('valid_from', { ascending: false }),
+      supabase.from('holidays').select('id, holiday_date, name').order('holiday_date', { ascending: true }),
+      supabase
+        .from('leave_requests')
+        .select('employee_id, start_date, end_date, half_day, leave_type, leave_types(label)')
+        .eq('status', 'approved'),
+      supabase.from('employees').select('id, employee_id, email, full_name, team_id')
+    ]);
+
+    [schedules, assignments, holidays, leave, employees]
+      .filter(result => result.error)
+      .forEach(result => console.error('Error fetching schedule calendar:', result.error));
+
+    return {
+      schedules: (schedules.data || []).map(toSchedule),
+      assignments: (assignments.data || []).map(toAssignment),
+      holidays: (holidays.data || []).map(row => ({ id: row.id, date: row.holiday_date, name: row.name })),
+      leave: (leave.data || []).map(row => ({
+        employeeId: row.employee_id,
+        label: row.leave_types?.label || row.leave_type,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        halfDay: row.half_day
+      })),
+      employees: (employees.data || []).map(row => ({
+        id: row.id,
+        employeeId: row.employee_id,
+        email: row.email,
+        fullName: row.full_name,
+        teamId: row.team_id
+      }))
+    };
+  } catch (error) {
+    console.error('Error in getScheduleCalendar:', error);
+    return EMPTY_CALENDAR;
+  }
+};
+
+export const saveSchedule = async (schedule: ShiftScheduleDraft): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('shift_schedules')
+      .upsert({
+        id: schedule.id,
+        name: schedule.name.trim(),
+        start_time: schedule.startTime,
+        end_time: schedule.endTime,
+        working_days: schedule.workingDays,
+        break_minutes: schedule.breakMinutes,
+        is_active: schedule.isActive
+      });
+
+    if (error) {
+      console.error('Error saving shift schedule:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in saveSchedule:', error);
+    return false;
+  }
+};
+
+export const saveAssignment = async (assignment: ScheduleAssignmentDraft): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('schedule_assignments')
+      .upsert({
+        id: assignment.id,
+        schedule_id: assignment.scheduleId,
+        employee_id: assignment.employeeId,
+        team_id: assignment.teamId,
+        fte_ratio: assignment.fteRatio,
+        valid_from: assignment.validFrom,
+        valid_to: assignment.validTo
+      });
+
+    if (error) {
+      console.error('Error saving schedule assignment:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in saveAssignment:', error);
+    return false;
+  }
+};
+
+export const deleteAssignment = async (id: string): Promise<boolean> => {
+  const { error } = await supabase.from('schedule_assignments').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting schedule assignment:', error);
+    return false;
+  }
+  return true;
+};
+
+export const saveHoliday = async (holiday: Omit<Holiday, 'id'>): Promise<boolean> => {
+  const { error } = await supabase
+    .from('holidays')
+    .upsert({ holiday_date: holiday.date, name: holiday.name.trim() }, { onConflict: 'holiday_date' });
+
+  if (error) {
+    console.error('Error saving holiday:', error);
+    return false;
+  }
+  return true;
+};
+
+export const deleteHoliday = async (id: string): Promise<boolean> => {
+  const { error } = await supabase.from('holidays').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting holiday:', error);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,240 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ClientType } from '@/types/dropdown';
+import { addDaysToWorkDate, fromWorkDate } from '@/utils/dateHelpers';
+
+// SLA tracking per ticket, from the time it was received to the time it was first logged as
+// completed. The target comes from the ticket's task, or else from its client type's priority.
+
+// An open ticket is at risk once this share of its target has passed
+export const AT_RISK_SHARE = 0.8;
+
+export const COMPLETED_STATUS = 'Completed';
+
+export type SlaStatus = 'met' | 'breached' | 'at-risk' | 'on-track';
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  met: 'Met',
+  breached: 'Breached',
+  'at-risk': 'At Risk',
+  'on-track': 'On Track'
+};
+
+/**
+ * Hours allowed for a client type priority, or for a task. A task target without a
+ * subcategory covers the whole category. New targets have no id yet.
+ */
+export interface SlaTarget {
+  id?: string;
+  priority: string | null;
+  category: string | null;
+  subCategory: string | null;
+  targetHours: number;
+}
+
+/**
+ * One ticket_history row, as far as SLA tracking needs it
+ */
+export interface SlaTicketRow {
+  ticketNumber: string;
+  userId: string;
+  university: string | null;
+  category: string;
+  subCategory: string | null;
+  clientType: string | null;
+  status: string | null;
+  receivedAt: string | null;
+  submissionDate: string;
+  createdAt: string;
+}
+
+/**
+ * A ticket measured against its target; completedAt is null while it is open
+ */
+export interface TicketSla {
+  ticketNumber: string;
+  userIds: string[];
+  university: string | null;
+  category: string;
+  subCategory: string | null;
+  clientType: string | null;
+  priority: string | null;
+  receivedAt: number;
+  dueAt: number;
+  completedAt: number | null;
+  targetHours: number;
+  elapsedHours: number;
+  status: SlaStatus;
+}
+
+const toSlaTarget = (row: Tables<'sla_targets'>): SlaTarget => ({
+  id: row.id,
+  priority: row.priority,
+  category: row.category,
+  subCategory: row.subcategory,
+  targetHours: Number(row.target_hours)
+});
+
+export const getSlaTargets = async (): Promise<SlaTarget[]> => {
+  const { data, error } = await supabase
+    .from('sla_targets')
+    .select('*')
+    .order('priority', { ascending: true, nullsFirst: false })
+    .order('category', { ascending: true })
+    .order('subcategory', { ascending: true, nullsFirst: true });
+
+  if (error) {
+    console.error('Error fetching SLA targets:', error);
+    return [];
+  }
+
+  return (data || []).map(toSlaTarget);
+};
+
+/**
+ * Create or update a target; returns the saved target, or null when it could not be saved
+ */
+export const saveSlaTarget = async (target: SlaTarget): Promise<SlaTarget | null> => {
+  const values = {
+    priority: target.priority?.trim() || null,
+    category: target.category?.trim() || null,
+    subcategory: target.category ? target.subCategory?.trim() || null : null,
+    target_hours: target.targetHours
+  };
+
+  const { data, error } = target.id
+    ? await supabase.from('sla_targets').update(values).eq('id', target.id).select().single()
+    : await supabase.from('sla_targets').insert(values).select().single();
+
+  if (error) {
+    console.error('Error saving SLA target:', error);
+    return null;
+  }
+  return toSlaTarget(data);
+};
+
+export const deleteSlaTarget = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('sla_targets')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting SLA target:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Ticket history rows with a received date, submitted on or after a work date.
+ * Row-level security limits them to the tickets the signed-in user may see.
+ */
+export const getSlaTicketRows = async (sinceDate: string): Promise<SlaTicketRow[]> => {
+  const { data, error } = await supabase
+    .from('ticket_history')
+    .select('ticket_number, user_id, university, category, subcategory, client_type, status, received_date, submission_date, created_at')
+    .not('received_date', 'is', null)
+    .gte('submission_date', sinceDate);
+
+  if (error) {
+    console.error('Error fetching SLA tickets:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    ticketNumber: row.ticket_number,
+    userId: row.user_id,
+    university: row.university,
+    category: row.category,
+    subCategory: row.subcategory,
+    clientType: row.client_type,
+    status: row.status,
+    receivedAt: row.received_date,
+    submissionDate: row.submission_date,
+    createdAt: row.created_at
+  }));
+};
+
+/**
+ * The target for a task and client type priority: the task's subcategory, then its category,
+ * then the priority. Null when none applies.
+ */
+export const findSlaTarget = (
+  targets: SlaTarget[],
+  category: string,
+  subCategory: string | null,
+  priority: string | null
+): SlaTarget | null =>
+  targets.find(target => target.category === category && !!subCategory && target.subCategory === subCategory) ||
+  targets.find(target => target.category === category && !target.subCategory) ||
+  (priority ? targets.find(target => !target.category && target.priority === priority) : undefined) ||
+  null;
+
+/**
+ * When a ticket history row's status was reached: when it was submitted, but no later than
+ * the end of its work date, as rows are often submitted days after the work
+ */
+export const getLoggedAt = (submissionDate: string, createdAt: string): number =>
+  Math.min(new Date(createdAt).getTime(), fromWorkDate(addDaysToWorkDate(submissionDate, 1)).getTime());
+
+/**
+ * SLA of every ticket in the rows that has a target. The ticket was received at its earliest
+ * received date and completed when it was first logged as completed; its task and client type
+ * are taken from its latest row that has them.
+ */
+export const getTicketSla = (
+  rows: SlaTicketRow[],
+  targets: SlaTarget[],
+  clientTypes: ClientType[],
+  now: number = Date.now()
+): TicketSla[] => {
+  const byTicket = new Map<string, SlaTicketRow[]>();
+  rows.forEach(row => byTicket.set(row.ticketNumber, [...(byTicket.get(row.ticketNumber) || []), row]));
+
+  const result: TicketSla[] = [];
+  byTicket.forEach((ticketRows, ticketNumber) => {
+    const received = ticketRows
+      .map(row => row.receivedAt ? new Date(row.receivedAt).getTime() : NaN)
+      .filter(at => !isNaN(at));
+    if (received.length === 0) return;
+
+    const latestFirst = [...ticketRows].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const latest = latestFirst[0];
+    const clientType = latestFirst.find(row => row.clientType)?.clientType || null;
+    const priority = clientTypes.find(type => type.name === clientType)?.priority || null;
+    const target = findSlaTarget(targets, latest.category, latest.subCategory, priority);
+    if (!target) return;
+
+    const receivedAt = Math.min(...received);
+    const completed = ticketRows.filter(row => row.status === COMPLETED_STATUS)
+      .map(row => getLoggedAt(row.submissionDate, row.createdAt));
+    const completedAt = completed.length > 0 ? Math.min(...completed) : null;
+    const targetMs = target.targetHours * 3600000;
+    const elapsedMs = Math.max(0, (completedAt ?? now) - receivedAt);
+
+    const status: SlaStatus = elapsedMs > targetMs
+      ? 'breached'
+      : completedAt !== null
+        ? 'met'
+        : elapsedMs >= targetMs * AT_RISK_SHARE ? 'at-risk' : 'on-track';
+
+    result.push({
+      ticketNumber,
+      userIds: [...new Set(ticketRows.map(row => row.userId))],
+      university: latest.university,
+      category: latest.category,
+      subCategory: latest.subCategory,
+      clientType,
+      priority,
+      receivedAt,
+      dueAt: receivedAt + targetMs,
+      completedAt,
+      targetHours: target.targetHours,
+      elapsedHours: elapsedMs / 3600000,
+      status
+    });
+  });
+
+  return result.sort((a, b) => a.dueAt - b.dueAt);
+};
@@ -0,0 +1,339 @@
+// Durable outbox for writes that must reach Supabase eventually.
+// Operations are stored in IndexedDB (in memory when it is unavailable) and replayed
+// in order whenever connectivity returns. A handler either completes an operation,
+// reports a permanent failure, or throws to signal a retryable (network) problem.
+
+import type { SubmissionPayload } from './TimesheetSubmissionService';
+
+export type SessionOpenPayload = {
+  id: string;
+  task_id: string;
+  employee_id: string;
+  span_type: 'work' | 'break';
+  start_at: string;
+  work_date: string;
+  // What the timer was started for, for the team presence board
+  ticket_number?: string | null;
+  task_label?: string | null;
+  aht_minutes?: number | null;
+};
+
+export type SessionClosePayload = {
+  id: string;
+  end_at: string;
+  duration_seconds: number;
+};
+
+// A span entered or edited by hand; always closed
+export type SessionWritePayload = {
+  id: string;
+  task_id: string;
+  employee_id: string;
+  span_type: 'work' | 'break';
+  source: 'timer' | 'manual';
+  start_at: string;
+  end_at: string;
+  duration_seconds: number;
+  work_date: string;
+};
+
+export type SessionDeletePayload = {
+  id: string;
+};
+
+export type SessionDiscardPayload = {
+  employee_id: string;
+  task_id: string;
+};
+
+export type SessionsSubmittedPayload = {
+  employee_id: string;
+  task_ids: string[];
+  submitted_at: string;
+};
+
+export type BreakStartPayload = {
+  id: string;
+  employee_id: string;
+  break_type: string;
+  work_date: string;
+  start_at: string;
+  // Set when the break is recorded after the fact, e.g. idle time logged as a break
+  end_at?: string;
+  duration_seconds?: number;
+};
+
+export type BreakEndPayload = {
+  id: string;
+  end_at: string;
+  duration_seconds: number;
+};
+
+export type TimesheetSubmitPayload = {
+  idempotency_key: string;
+  payload: SubmissionPayload;
+};
+
+export type OutboxPayloads = {
+  'session.open': SessionOpenPayload;
+  'session.close': SessionClosePayload;
+  'session.discard': SessionDiscardPayload;
+  'session.insert': SessionWritePayload;
+  'session.update': SessionWritePayload;
+  'session.delete': SessionDeletePayload;
+  'sessions.submitted': SessionsSubmittedPayload;
+  'break.start': BreakStartPayload;
+  'break.end': BreakEndPayload;
+  'timesheet.submit': TimesheetSubmitPayload;
+};
+
+export type OutboxKind = keyof OutboxPayloads;
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export type OutboxOperation<K extends OutboxKind = OutboxKind> = {
+  seq?: number;
+  kind: K;
+  payload: OutboxPayloads[K];
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+};
+
+export type OutboxCounts = {
+  pending: number;
+  failed: number;
+};
+
+// 'done' removes the operation; { failed } parks it until retried by the user
+export type OutboxHandlerResult = 'done' | { failed: string };
+
+type OutboxHandler<K extends OutboxKind> = (payload: OutboxPayloads[K]) => Promise<OutboxHandlerResult>;
+
+type Listener = () => void;
+
+const DB_NAME = 'timekeeper';
+const STORE_NAME = 'outbox';
+const RETRY_INTERVAL_MS = 30000;
+
+const handlers: { [K in OutboxKind]?: OutboxHandler<K> } = {};
+const listeners = new Set<Listener>();
+
+let counts: OutboxCounts = { pending: 0, failed: 0 };
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+
+// In-memory fallback when IndexedDB is not available
+const memoryStore = new Map<number, OutboxOperation>();
+let memorySeq = 0;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = fn(tx.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const putOperation = async (op: OutboxOperation): Promise<OutboxOperation> => {
+  if (!hasIndexedDB()) {
+    const seq = op.seq ?? ++memorySeq;
+    const stored = { ...op, seq };
+    memoryStore.set(seq, stored);
+    return stored;
+  }
+  const seq = await runRequest('readwrite', store => store.put(op));
+  return { ...op, seq: seq as number };
+};
+
+const deleteOperation = async (seq: number): Promise<void> => {
+  if (!hasIndexedDB()) {
+    memoryStore.delete(seq);
+    return;
+  }
+  await runRequest('readwrite', store => store.delete(seq));
+};
+
+/**
+ * All queued operations, oldest first
+ */
+export const getOperations = async (): Promise<OutboxOperation[]> => {
+  if (!hasIndexedDB()) {
+    return [...memoryStore.values()].sort((a, b) => a.seq! - b.seq!);
+  }
+  const all = await runRequest<OutboxOperation[]>('readonly', store => store.getAll());
+  return all.sort((a, b) => a.seq! - b.seq!);
+};
+
+const refreshCounts = async () => {
+  try {
+    const ops = await getOperations();
+    counts = {
+      pending: ops.filter(op => op.status === 'pending').length,
+      failed: ops.filter(op => op.status === 'failed').length
+    };
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+  }
+  listeners.forEach(l => l());
+};
+
+export const subscribeOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOutboxCounts = (): OutboxCounts => counts;
+
+export const registerOutboxHandler = <K extends OutboxKind>(kind: K, handler: OutboxHandler<K>) => {
+  (handlers as Record<K, OutboxHandler<K>>)[kind] = handler;
+};
+
+/**
+ * Queue an operation and try to deliver it straight away
+ */
+export const enqueue = async <K extends OutboxKind>(kind: K, payload: OutboxPayloads[K]): Promise<void> => {
+  try {
+    await putOperation({
+      kind,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      createdAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error queueing outbox operation:', error);
+  }
+  await refreshCounts();
+  flushOutbox();
+};
+
+// Returns false when delivery stopped on a retryable error
+const deliverOnce = async (): Promise<boolean> => {
+  const ops = await getOperations();
+
+  for (const op of ops) {
+    if (op.status !== 'pending') continue;
+
+    const handler = handlers[op.kind] as OutboxHandler<typeof op.kind> | undefined;
+    if (!handler) continue;
+
+    try {
+      const result = await handler(op.payload);
+      if (result === 'done') {
+        await deleteOperation(op.seq!);
+      } else {
+        await putOperation({ ...op, status: 'failed', attempts: op.attempts + 1, lastError: result.failed });
+      }
+    } catch (error) {
+      // Retryable: keep the order intact and stop until the next flush
+      await putOperation({
+        ...op,
+        attempts: op.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+  return true;
+};
+
+const deliverPending = async () => {
+  try {
+    // Keep going while operations are queued during delivery
+    do {
+      flushRequested = false;
+      let delivered = false;
+      try {
+        delivered = await deliverOnce();
+      } catch (error) {
+        console.error('Error flushing outbox:', error);
+      }
+      await refreshCounts();
+      if (!delivered) return;
+    } while (flushRequested);
+  } finally {
+    // Cleared in the same tick as the last check so no request slips in between
+    flushing = null;
+  }
+};
+
+/**
+ * Replay pending operations in order. Concurrent calls share one run.
+ */
+export const flushOutbox = (): Promise<void> => {
+  flushRequested = true;
+  if (flushing) return flushing;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return Promise.resolve();
+
+  flushing = deliverPending();
+  return flushing;
+};
+
+/**
+ * Move failed operations back to pending and replay them
+ */
+export const retryFailed = async (): Promise<void> => {
+  const ops = await getOperations();
+  for (const op of ops) {
+    if (op.status === 'failed') {
+      await putOperation({ ...op, status: 'pending', lastError: null });
+    }
+  }
+  await refreshCounts();
+  await flushOutbox();
+};
+
+/**
+ * Replay automatically when the browser comes back online, and periodically as a fallback.
+ * Returns a function that stops the automatic replay.
+ */
+export const startOutboxSync = () => {
+  const handleOnline = () => {
+    flushOutbox();
+  };
+
+  window.addEventListener('online', handleOnline);
+  const intervalId = window.setInterval(handleOnline, RETRY_INTERVAL_MS);
+  refreshCounts().then(() => flushOutbox());
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    clearInterval(intervalId);
+  };
+};
+
+// Test helper: drop every queued operation and handler
+export const resetOutbox = async () => {
+  if (hasIndexedDB()) {
+    await runRequest('readwrite', store => store.clear());
+  } else {
+    memoryStore.clear();
+  }
+  (Object.keys(handlers) as OutboxKind[]).forEach(kind => delete handlers[kind]);
+  counts = { pending: 0, failed: 0 };
+};
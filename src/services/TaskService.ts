@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { TaskWithAHT } from '@/types/dropdown';
+import { getDropdownData, updateTasks } from '@/utils/dropdownStorage';
+
+export interface Task {
+  id: string;
+  category: string;
+  subCategory: string;
+  aht: number; // Average Handle Time in minutes
+  team: string;
+  status: "active" | "inactive";
+  type: "direct" | "indirect";
+  // Backend-only fields (not displayed in UI)
+  description?: string;
+  priority?: "low" | "medium" | "high";
+  createdBy: string;
+  createdAt: string;
+}
+
+// Tasks without an id are created (or replace the task with the same category and sub category)
+export type TaskDraft = Omit<Task, 'id' | 'createdBy' | 'createdAt'> & { id?: string };
+
+const toTask = (row: Tables<'tasks'>): Task => ({
+  id: row.id,
+  category: row.category,
+  subCategory: row.subcategory,
+  aht: row.aht,
+  team: row.team,
+  status: row.status === 'inactive' ? 'inactive' : 'active',
+  type: row.type === 'indirect' ? 'indirect' : 'direct',
+  description: row.description || undefined,
+  priority: row.priority as Task['priority'],
+  createdBy: row.created_by || '',
+  createdAt: row.created_at.split('T')[0]
+});
+
+const fetchTasks = async (): Promise<Task[]> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .order('category', { ascending: true })
+    .order('subcategory', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toTask);
+};
+
+/**
+ * The whole task catalog, active and inactive
+ */
+export const getTasks = async (): Promise<Task[]> => {
+  try {
+    return await fetchTasks();
+  } catch (error) {
+    console.error('Error fetching tasks:', error);
+    return [];
+  }
+};
+
+/**
+ * Tasks with their AHT target, for the timesheet pickers and reports.
+ * The last catalog loaded is kept locally so it is still available offline.
+ */
+export const getTaskCatalog = async (): Promise<TaskWithAHT[]> => {
+  try {
+    const catalog = (await fetchTasks()).map(task => ({
+      category: task.category,
+      subCategory: task.subCategory,
+      aht: task.aht,
+      type: task.type,
+      status: task.status
+    }));
+    updateTasks(catalog);
+    return catalog;
+  } catch (error) {
+    console.error('Error loading task catalog:', error);
+    return getDropdownData().tasks;
+  }
+};
+
+/**
+ * Tasks that can be picked for new time entries
+ */
+export const getActiveTasks = (catalog: TaskWithAHT[]): TaskWithAHT[] =>
+  catalog.filter(task => task.status !== 'inactive');
+
+export const saveTasks = async (tasks: TaskDraft[], actor: string): Promise<Task[]> => {
+  const { data, error } = await supabase.rpc('save_tasks', {
+    p_actor: actor,
+    p_tasks: tasks.map(task => ({
+      id: task.id,
+      category: task.category,
+      subcategory: task.subCategory,
+      aht: task.aht,
+      team: task.team,
+      status: task.status,
+      type: task.type,
+      description: task.description,
+      priority: task.priority
+    })) as unknown as Json
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(toTask);
+};
+
+export const deleteTasks = async (ids: string[], actor: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('delete_tasks', {
+    p_actor: actor,
+    p_ids: ids
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ?? 0;
+};
@@ -0,0 +1,150 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// What tasks use for "every team"; never the name of a real team
+export const ALL_TEAMS = 'All Teams';
+
+export interface Team {
+  id: string;
+  name: string;
+  parentId: string | null;
+  managerId: string | null; // employees.id of the manager
+  isActive: boolean;
+  idleThresholdMinutes: number; // 0 turns idle detection off
+}
+
+// Teams without an id are created
+export type TeamDraft = Omit<Team, 'id'> & { id?: string };
+
+/**
+ * One stretch of an employee's time in a team. validTo is exclusive and null for the current team.
+ */
+export interface TeamMembership {
+  employeeId: string; // employees.id
+  employeeName: string;
+  teamId: string;
+  validFrom: string;
+  validTo: string | null;
+}
+
+const toTeam = (row: Tables<'teams'>): Team => ({
+  id: row.id,
+  name: row.name,
+  parentId: row.parent_id,
+  managerId: row.manager_id,
+  isActive: row.is_active,
+  idleThresholdMinutes: row.idle_threshold_minutes
+});
+
+export const getTeams = async (): Promise<Team[]> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching teams:', error);
+    return [];
+  }
+
+  return (data || []).map(toTeam);
+};
+
+/**
+ * Ids of the teams whose timesheets the signed-in user may see: the teams they manage and,
+ * for reviewers, their own team, each with its sub-teams. Every team for roles with teams.view.all.
+ */
+export const getVisibleTeamIds = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('visible_team_ids');
+
+  if (error) {
+    console.error('Error fetching visible teams:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Membership history of a team, current members first
+ */
+export const getTeamMemberships = async (teamId: string): Promise<TeamMembership[]> => {
+  const { data, error } = await supabase
+    .from('team_memberships')
+    .select('employee_id, team_id, valid_from, valid_to, employees(full_name, employee_id)')
+    .eq('team_id', teamId)
+    .order('valid_from', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching team memberships:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map(row => ({
+      employeeId: row.employee_id,
+      employeeName: row.employees?.full_name || row.employees?.employee_id || row.employee_id,
+      teamId: row.team_id,
+      validFrom: row.valid_from,
+      validTo: row.valid_to
+    }))
+    .sort((a, b) => Number(a.validTo !== null) - Number(b.validTo !== null));
+};
+
+/**
+ * A team and all teams below it
+ */
+export const getSubtreeIds = (teams: Team[], rootId: string): string[] => {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    teams.filter(team => team.parentId === ids[i] && !ids.includes(team.id)).forEach(team => ids.push(team.id));
+  }
+  return ids;
+};
+
+/**
+ * Team name with its parents, e.g. "Support / Tier 2"
+ */
+export const getTeamPath = (teams: Team[], teamId: string): string => {
+  const names: string[] = [];
+  let team = teams.find(t => t.id === teamId);
+  while (team && !names.includes(team.name)) {
+    names.unshift(team.name);
+    team = teams.find(t => t.id === team!.parentId);
+  }
+  return names.join(' / ');
+};
+
+export const saveTeam = async (team: TeamDraft, actor: string): Promise<Team> => {
+  const { data, error } = await supabase.rpc('save_team', {
+    p_actor: actor,
+    p_team: {
+      id: team.id,
+      name: team.name,
+      parent_id: team.parentId,
+      manager_id: team.managerId,
+      is_active: team.isActive,
+      idle_threshold_minutes: team.idleThresholdMinutes
+    }
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return toTeam(data);
+};
+
+/**
+ * Delete a team that never had members, sub-teams or tasks
+ */
+export const deleteTeam = async (id: string, actor: string): Promise<void> => {
+  const { error } = await supabase.rpc('delete_team', {
+    p_actor: actor,
+    p_id: id
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { TicketHistoryEntry } from './UserStatsService';
+
+export interface TicketCorrection {
+  ticket_number?: string;
+  category?: string;
+  subcategory?: string;
+  status?: string;
+  time_logged_seconds?: number;
+  comments?: string;
+}
+
+export interface TicketAuditEntry {
+  id: string;
+  changed_by: string;
+  reason: string | null;
+  changed_fields: string[];
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  created_at: string;
+}
+
+const CORRECTABLE_FIELDS: (keyof TicketCorrection)[] = [
+  'ticket_number',
+  'category',
+  'subcategory',
+  'status',
+  'time_logged_seconds',
+  'comments'
+];
+
+/**
+ * Only the fields of the draft that differ from the stored ticket
+ */
+export const getTicketChanges = (entry: TicketHistoryEntry, draft: Required<TicketCorrection>): TicketCorrection => {
+  const changes: TicketCorrection = {};
+  CORRECTABLE_FIELDS.forEach(field => {
+    const next = typeof draft[field] === 'string' ? (draft[field] as string).trim() : draft[field];
+    if (next !== entry[field]) {
+      (changes as Record<string, unknown>)[field] = next;
+    }
+  });
+  return changes;
+};
+
+/**
+ * Apply a correction to a submitted ticket. The server records the before/after state.
+ * Throws with the server's message when the ticket is locked or the change is invalid.
+ */
+export const correctTicket = async (
+  ticketId: string,
+  changes: TicketCorrection,
+  changedBy: string,
+  reason?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('correct_ticket_history', {
+    p_ticket_id: ticketId,
+    p_changes: changes as Json,
+    p_changed_by: changedBy,
+    p_reason: reason?.trim() || undefined
+  });
+
+  if (error) {
+    console.error('Error correcting ticket:', error);
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Change log of a ticket, newest first
+ */
+export const getTicketAudit = async (ticketId: string): Promise<TicketAuditEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('ticket_history_audit')
+      .select('*')
+      .eq('ticket_history_id', ticketId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching ticket audit:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      changed_by: row.changed_by,
+      reason: row.reason,
+      changed_fields: row.changed_fields,
+      before: (row.before || {}) as Record<string, unknown>,
+      after: (row.after || {}) as Record<string, unknown>,
+      created_at: row.created_at
+    }));
+  } catch (error) {
+    console.error('Error in getTicketAudit:', error);
+    return [];
+  }
+};
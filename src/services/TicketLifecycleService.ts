@@ -0,0 +1,320 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { COMPLETED_STATUS, getLoggedAt } from './SlaService';
+
+// One ticket across every day and session it was worked on. Each submission stores its own
+// ticket_history row for the ticket; the lifecycle stitches those rows, and the timer spans
+// recorded against the ticket number, into a single timeline.
+
+// Statuses starting with this count as time on hold
+const ON_HOLD_PREFIX = 'On Hold';
+
+const WIP_STATUS = 'WIP';
+
+/**
+ * One ticket_history row of the ticket
+ */
+export interface LifecycleEntry {
+  id: string;
+  userId: string;
+  submissionDate: string;
+  createdAt: string;
+  status: string;
+  category: string;
+  subCategory: string | null;
+  timeLoggedSeconds: number;
+  comments: string | null;
+  receivedAt: string | null;
+}
+
+/**
+ * One timer span recorded against the ticket number; endAt is null while it runs
+ */
+export interface LifecycleSpan {
+  userId: string;
+  workDate: string;
+  startAt: number;
+  endAt: number | null;
+}
+
+export interface TicketLifecycleData {
+  entries: LifecycleEntry[];
+  spans: LifecycleSpan[];
+  names: Record<string, string>; // user key -> employee name
+}
+
+/**
+ * A change of status, as of when the row that reported it was logged
+ */
+export interface StatusTransition {
+  status: string;
+  from: string | null;
+  at: number;
+  userId: string;
+  durationSeconds: number; // until the next transition, or until now for the current status
+}
+
+export interface TicketContributor {
+  userId: string;
+  name: string;
+  seconds: number;
+  days: number;
+  lastWorkedOn: string;
+}
+
+/**
+ * Everything logged for the ticket on one work date
+ */
+export interface LifecycleDay {
+  date: string;
+  entries: LifecycleEntry[];
+  seconds: number;
+  sessionCount: number;
+  firstStartAt: number | null;
+  lastEndAt: number | null;
+}
+
+export interface TicketLifecycle {
+  ticketNumber: string;
+  currentStatus: string | null;
+  receivedAt: number | null;
+  completedAt: number | null; // null unless the latest status is completed
+  totalSeconds: number;
+  holdSeconds: Record<string, number>; // hold status -> seconds spent in it
+  totalHoldSeconds: number;
+  transitions: StatusTransition[];
+  contributors: TicketContributor[];
+  days: LifecycleDay[];
+}
+
+type LifecycleRow = Pick<Tables<'ticket_history'>,
+  'id' | 'user_id' | 'submission_date' | 'created_at' | 'status' | 'category' | 'subcategory' |
+  'time_logged_seconds' | 'comments' | 'received_date'>;
+
+type CarryOverRow = Pick<Tables<'ticket_history'>,
+  'id' | 'ticket_number' | 'university' | 'domain' | 'client_type' | 'category' | 'subcategory' |
+  'activity_type' | 'task_name' | 'status' | 'received_date' | 'submission_date' | 'created_at' | 'time_logged_seconds'> & {
+  ticket_seconds: number; // time logged on the ticket in all its rows
+};
+
+/**
+ * A ticket last logged as WIP or on hold, as its latest row left it, with the time logged on it so far
+ */
+export interface UnfinishedTicket {
+  ticketHistoryId: string; // latest row, which the continuing row links to
+  ticketNumber: string;
+  university: string;
+  domain: string;
+  clientType: string;
+  category: string;
+  subCategory: string;
+  activityType: string;
+  taskName: string;
+  status: string;
+  receivedAt: string | null;
+  lastWorkedOn: string;
+  totalSeconds: number;
+}
+
+export const isOnHoldStatus = (status: string | null): boolean => !!status?.startsWith(ON_HOLD_PREFIX);
+
+/**
+ * A ticket_history row as a lifecycle entry; the status is the one submitted for the row
+ */
+export const toLifecycleEntry = (row: LifecycleRow): LifecycleEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  submissionDate: row.submission_date,
+  createdAt: row.created_at,
+  status: row.status,
+  category: row.category,
+  subCategory: row.subcategory,
+  timeLoggedSeconds: row.time_logged_seconds,
+  comments: row.comments,
+  receivedAt: row.received_date
+});
+
+/**
+ * Every row and timer span of a ticket number the signed-in user may see, with contributor names
+ */
+export const getTicketLifecycleData = async (ticketNumber: string): Promise<TicketLifecycleData> => {
+  const [entriesResult, spansResult, employeesResult] = await Promise.all([
+    supabase
+      .from('ticket_history')
+      .select('id, user_id, submission_date, created_at, status, category, subcategory, time_logged_seconds, comments, received_date')
+      .eq('ticket_number', ticketNumber),
+    supabase
+      .from('timesheet_sessions')
+      .select('employee_id, user_id, work_date, start_at, end_at')
+      .eq('ticket_number', ticketNumber)
+      .eq('span_type', 'work'),
+    supabase.from('employees').select('employee_id, full_name, email')
+  ]);
+
+  [entriesResult, spansResult, employeesResult].forEach(result => {
+    if (result.error) console.error('Error fetching ticket lifecycle:', result.error);
+  });
+
+  const entries: LifecycleEntry[] = (entriesResult.data || []).map(toLifecycleEntry);
+
+  const spans: LifecycleSpan[] = (spansResult.data || [])
+    .filter(row => row.employee_id || row.user_id)
+    .map(row => ({
+      userId: (row.employee_id || row.user_id)!,
+      workDate: row.work_date,
+      startAt: new Date(row.start_at).getTime(),
+      endAt: row.end_at ? new Date(row.end_at).getTime() : null
+    }));
+
+  // Rows and spans are stored under a user key: employee id, email or full name
+  const employees = employeesResult.data || [];
+  const names: Record<string, string> = {};
+  [...entries.map(entry => entry.userId), ...spans.map(span => span.userId)].forEach(userKey => {
+    const employee = employees.find(row => [row.employee_id, row.email, row.full_name].includes(userKey));
+    names[userKey] = employee?.full_name || userKey;
+  });
+
+  return { entries, spans, names };
+};
+
+/**
+ * Stitch a ticket's rows and spans into one timeline: status transitions in the order they were
+ * logged, effort and days per contributor, and the time spent in each on-hold status
+ */
+export const buildTicketLifecycle = (
+  ticketNumber: string,
+  data: TicketLifecycleData,
+  now: number = Date.now()
+): TicketLifecycle => {
+  const entries = [...data.entries].sort((a, b) =>
+    a.submissionDate.localeCompare(b.submissionDate) || a.createdAt.localeCompare(b.createdAt));
+
+  const transitions: StatusTransition[] = [];
+  entries.forEach(entry => {
+    const previous = transitions[transitions.length - 1];
+    if (previous?.status === entry.status) return;
+    transitions.push({
+      status: entry.status,
+      from: previous?.status ?? null,
+      at: getLoggedAt(entry.submissionDate, entry.createdAt),
+      userId: entry.userId,
+      durationSeconds: 0
+    });
+  });
+
+  transitions.forEach((transition, index) => {
+    const next = transitions[index + 1];
+    // A completed ticket stops the clock
+    const endAt = next ? next.at : transition.status === COMPLETED_STATUS ? transition.at : now;
+    transition.durationSeconds = Math.max(0, Math.floor((endAt - transition.at) / 1000));
+  });
+
+  const holdSeconds: Record<string, number> = {};
+  transitions.filter(transition => isOnHoldStatus(transition.status)).forEach(transition => {
+    holdSeconds[transition.status] = (holdSeconds[transition.status] || 0) + transition.durationSeconds;
+  });
+
+  const contributors = new Map<string, TicketContributor>();
+  const contributorDates = new Map<string, Set<string>>();
+  entries.forEach(entry => {
+    const dates = contributorDates.get(entry.userId) || new Set<string>();
+    dates.add(entry.submissionDate);
+    contributorDates.set(entry.userId, dates);
+
+    const contributor = contributors.get(entry.userId);
+    contributors.set(entry.userId, {
+      userId: entry.userId,
+      name: data.names[entry.userId] || entry.userId,
+      seconds: (contributor?.seconds || 0) + entry.timeLoggedSeconds,
+      days: dates.size,
+      lastWorkedOn: entry.submissionDate
+    });
+  });
+
+  const dates = [...new Set([...entries.map(entry => entry.submissionDate), ...data.spans.map(span => span.workDate)])].sort();
+  const days: LifecycleDay[] = dates.map(date => {
+    const dayEntries = entries.filter(entry => entry.submissionDate === date);
+    const daySpans = data.spans.filter(span => span.workDate === date);
+    return {
+      date,
+      entries: dayEntries,
+      seconds: dayEntries.reduce((total, entry) => total + entry.timeLoggedSeconds, 0),
+      sessionCount: daySpans.length,
+      firstStartAt: daySpans.length > 0 ? Math.min(...daySpans.map(span => span.startAt)) : null,
+      lastEndAt: daySpans.length > 0 ? Math.max(...daySpans.map(span => span.endAt ?? now)) : null
+    };
+  });
+
+  const received = entries
+    .map(entry => entry.receivedAt ? new Date(entry.receivedAt).getTime() : NaN)
+    .filter(at => !isNaN(at));
+  const current = transitions[transitions.length - 1] || null;
+
+  return {
+    ticketNumber,
+    currentStatus: current?.status ?? null,
+    receivedAt: received.length > 0 ? Math.min(...received) : null,
+    completedAt: current?.status === COMPLETED_STATUS ? current.at : null,
+    totalSeconds: entries.reduce((total, entry) => total + entry.timeLoggedSeconds, 0),
+    holdSeconds,
+    totalHoldSeconds: Object.values(holdSeconds).reduce((total, seconds) => total + seconds, 0),
+    transitions,
+    contributors: [...contributors.values()].sort((a, b) => b.seconds - a.seconds || a.name.localeCompare(b.name)),
+    days
+  };
+};
+
+/**
+ * Tickets whose latest row before a work date is WIP or on hold, latest first. Tickets that
+ * already have a row on the work date have been continued.
+ */
+export const findUnfinishedTickets = (rows: CarryOverRow[], workDate: string): UnfinishedTicket[] => {
+  const byTicket = new Map<string, CarryOverRow[]>();
+  rows
+    .filter(row => row.submission_date <= workDate)
+    .forEach(row => byTicket.set(row.ticket_number, [...(byTicket.get(row.ticket_number) || []), row]));
+
+  const result: UnfinishedTicket[] = [];
+  byTicket.forEach((ticketRows, ticketNumber) => {
+    if (ticketRows.some(row => row.submission_date === workDate)) return;
+
+    const latest = [...ticketRows].sort((a, b) =>
+      b.submission_date.localeCompare(a.submission_date) || b.created_at.localeCompare(a.created_at))[0];
+    if (latest.status !== WIP_STATUS && !isOnHoldStatus(latest.status)) return;
+
+    result.push({
+      ticketHistoryId: latest.id,
+      ticketNumber,
+      university: latest.university || '',
+      domain: latest.domain || '',
+      clientType: latest.client_type || '',
+      category: latest.category,
+      subCategory: latest.subcategory || '',
+      activityType: latest.activity_type || '',
+      taskName: latest.task_name || '',
+      status: latest.status,
+      receivedAt: latest.received_date,
+      lastWorkedOn: latest.submission_date,
+      totalSeconds: latest.ticket_seconds
+    });
+  });
+
+  return result.sort((a, b) => b.lastWorkedOn.localeCompare(a.lastWorkedOn) || a.ticketNumber.localeCompare(b.ticketNumber));
+};
+
+/**
+ * The user's tickets left unfinished on or before a work date, however long ago
+ */
+export const getUnfinishedTickets = async (userId: string, workDate: string): Promise<UnfinishedTicket[]> => {
+  const { data, error } = await supabase.rpc('get_carry_over_tickets', {
+    p_user_key: userId,
+    p_work_date: workDate
+  });
+
+  if (error) {
+    console.error('Error fetching unfinished tickets:', error);
+    return [];
+  }
+
+  return findUnfinishedTickets(data || [], workDate);
+};
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDaysToWorkDate, toWorkDate } from '@/utils/dateHelpers';
+
+export interface TimesheetPolicy {
+  role: string;
+  backdateDays: number;  // how many days back time may be logged
+  forwardDays: number;   // how many days ahead planned work may be drafted
+}
+
+// Built-in roles; custom roles are passed in by name
+export const TIMESHEET_ROLES = ['team-member', 'sme', 'admin', 'super-user'];
+
+// Used until the policies load, and when they cannot be loaded
+const DEFAULT_POLICY: Omit<TimesheetPolicy, 'role'> = { backdateDays: 3, forwardDays: 7 };
+
+/**
+ * Backdating windows for the given roles
+ */
+export const getTimesheetPolicies = async (roles: string[] = TIMESHEET_ROLES): Promise<TimesheetPolicy[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('timesheet_policies')
+      .select('role, backdate_days, forward_days');
+
+    if (error) {
+      console.error('Error fetching timesheet policies:', error);
+      return roles.map(role => ({ role, ...DEFAULT_POLICY }));
+    }
+
+    return roles.map(role => {
+      const row = (data || []).find(policy => policy.role === role);
+      return row
+        ? { role, backdateDays: row.backdate_days, forwardDays: row.forward_days }
+        : { role, ...DEFAULT_POLICY };
+    });
+  } catch (error) {
+    console.error('Error in getTimesheetPolicies:', error);
+    return roles.map(role => ({ role, ...DEFAULT_POLICY }));
+  }
+};
+
+export const getTimesheetPolicy = async (role: string): Promise<TimesheetPolicy> => {
+  const policies = await getTimesheetPolicies([role]);
+  return policies.find(policy => policy.role === role) || { role, ...DEFAULT_POLICY };
+};
+
+export const updateTimesheetPolicy = async (policy: TimesheetPolicy): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('timesheet_policies')
+      .upsert({
+        role: policy.role,
+        backdate_days: policy.backdateDays,
+        forward_days: policy.forwardDays
+      });
+
+    if (error) {
+      console.error('Error updating timesheet policy:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in updateTimesheetPolicy:', error);
+    return false;
+  }
+};
+
+/**
+ * First and last work date the policy allows drafting time for
+ */
+export const getAllowedWorkDates = (
+  policy: Pick<TimesheetPolicy, 'backdateDays' | 'forwardDays'>,
+  today: string = toWorkDate()
+): { min: string; max: string } => ({
+  min: addDaysToWorkDate(today, -policy.backdateDays),
+  max: addDaysToWorkDate(today, policy.forwardDays)
+});
+
+/**
+ * Why a work date cannot be submitted, or null when it can.
+ * Planned (future) days can be drafted but only submitted once they have happened.
+ */
+export const getSubmitBlocker = (
+  workDate: string,
+  policy: Pick<TimesheetPolicy, 'backdateDays' | 'forwardDays'>,
+  today: string = toWorkDate()
+): string | null => {
+  if (workDate > today) return 'Planned days can be submitted once they have happened';
+  if (workDate < getAllowedWorkDates(policy, today).min) {
+    return `Time can only be submitted for the last ${policy.backdateDays} day(s)`;
+  }
+  return null;
+};
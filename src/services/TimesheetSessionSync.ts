@@ -0,0 +1,412 @@
+import { supabase } from '@/integrations/supabase/client';
+import * as TimerStore from './PerformanceTimerService';
+import type { PersistedSpan, SpanEvent, SpanKind } from './PerformanceTimerService';
+import { enqueue, flushOutbox, getOperations, registerOutboxHandler } from './SyncOutbox';
+import type { OutboxHandlerResult, OutboxOperation, SessionWritePayload } from './SyncOutbox';
+import { toHandlerResult } from './TimesheetSubmissionService';
+import { diffSpans, getSpanDurationMs } from '@/utils/sessionSpans';
+import { addDaysToWorkDate, fromWorkDate, toWorkDate } from '@/utils/dateHelpers';
+import type { EditableSpan } from '@/utils/sessionSpans';
+
+// Bridges the in-memory timer store and the timesheet_sessions table.
+// Each open span is one row with end_at = NULL; closing a span fills in end_at.
+// Writes go through the outbox so spans recorded offline reach the server later.
+
+let employeeId: string | null = null;
+
+// task id -> id of its open timesheet_sessions row (ids are generated client-side)
+const openSessions = new Map<string, string>();
+
+// task id -> work date its time is logged against
+const taskWorkDates = new Map<string, string>();
+
+// How far back unsubmitted sessions are restored; wider than any backdating window
+const LOOKBACK_DAYS = 31;
+
+export const getTaskWorkDate = (taskId: string): string | undefined => taskWorkDates.get(taskId);
+
+/**
+ * What a timer is for: the ticket, a label for the task and the handling time expected for the row
+ */
+export interface TaskDetails {
+  ticketNumber: string;
+  taskLabel: string;
+  ahtMinutes: number | null;
+}
+
+// task id -> what the task is, recorded on every span its timer opens
+const taskDetails = new Map<string, TaskDetails>();
+
+export const setTaskDetails = (taskId: string, details: TaskDetails) => {
+  taskDetails.set(taskId, details);
+};
+
+registerOutboxHandler('session.open', async (payload) => {
+  // Upsert so a replay after a lost response does not fail on the primary key
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .upsert(payload, { onConflict: 'id', ignoreDuplicates: true });
+  return toHandlerResult(error);
+});
+
+registerOutboxHandler('session.close', async ({ id, end_at, duration_seconds }) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .update({ end_at, duration_seconds })
+    .eq('id', id);
+  return toHandlerResult(error);
+});
+
+registerOutboxHandler('session.discard', async ({ employee_id, task_id }) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .delete()
+    .eq('employee_id', employee_id)
+    .eq('task_id', task_id)
+    .is('submitted_at', null);
+  return toHandlerResult(error);
+});
+
+type TimerAdjustment = { taskId: string; kind: SpanKind; deltaMs: number };
+
+// span id -> timer changes made for hand edits still on their way to the server, oldest first
+const pendingAdjustments = new Map<string, TimerAdjustment[]>();
+
+const adjustTimer = (span: EditableSpan, deltaMs: number) => {
+  TimerStore.adjustElapsed(span.taskId, span.kind, deltaMs);
+  pendingAdjustments.set(span.id, [...(pendingAdjustments.get(span.id) || []), { taskId: span.taskId, kind: span.kind, deltaMs }]);
+};
+
+// Keep the timer change of an edit the server accepted and undo it for one it refused
+const settleAdjustment = (spanId: string, result: OutboxHandlerResult): OutboxHandlerResult => {
+  const [adjustment, ...rest] = pendingAdjustments.get(spanId) || [];
+  if (rest.length > 0) pendingAdjustments.set(spanId, rest);
+  else pendingAdjustments.delete(spanId);
+  if (adjustment && result !== 'done') {
+    TimerStore.adjustElapsed(adjustment.taskId, adjustment.kind, -adjustment.deltaMs);
+  }
+  return result;
+};
+
+// Hand-made spans are validated by the server; a refused edit is parked instead of retried
+registerOutboxHandler('session.insert', async (payload) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .upsert(payload, { onConflict: 'id' });
+  return settleAdjustment(payload.id, toHandlerResult(error));
+});
+
+registerOutboxHandler('session.update', async ({ id, start_at, end_at, duration_seconds }) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .update({ start_at, end_at, duration_seconds, edited_at: new Date().toISOString() })
+    .eq('id', id);
+  return settleAdjustment(id, toHandlerResult(error));
+});
+
+registerOutboxHandler('session.delete', async ({ id }) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .delete()
+    .eq('id', id);
+  return settleAdjustment(id, toHandlerResult(error));
+});
+
+registerOutboxHandler('sessions.submitted', async ({ employee_id, task_ids, submitted_at }) => {
+  const { error } = await supabase
+    .from('timesheet_sessions')
+    .update({ submitted_at })
+    .eq('employee_id', employee_id)
+    .in('task_id', task_ids)
+    .is('submitted_at', null);
+  return toHandlerResult(error);
+});
+
+type SessionRow = {
+  id: string;
+  task_id: string;
+  work_date: string;
+  span_type: string;
+  source: string;
+  start_at: string;
+  end_at: string | null;
+};
+
+/**
+ * Overlay session writes that are still waiting in the outbox on top of the rows
+ * fetched from the server, so the timers reflect everything recorded locally.
+ */
+export const applyPendingSessionOps = (rows: SessionRow[], ops: OutboxOperation[], currentEmployeeId: string): SessionRow[] => {
+  let result = [...rows];
+
+  for (const op of ops) {
+    // Parked operations were refused by the server and never happened there
+    if (op.status === 'failed') continue;
+
+    switch (op.kind) {
+      case 'session.open': {
+        const payload = op.payload as OutboxOperation<'session.open'>['payload'];
+        if (payload.employee_id !== currentEmployeeId) break;
+        if (!result.some(row => row.id === payload.id)) {
+          result.push({ id: payload.id, task_id: payload.task_id, work_date: payload.work_date, span_type: payload.span_type, source: 'timer', start_at: payload.start_at, end_at: null });
+        }
+        break;
+      }
+      case 'session.close': {
+        const payload = op.payload as OutboxOperation<'session.close'>['payload'];
+        result = result.map(row => row.id === payload.id ? { ...row, end_at: payload.end_at } : row);
+        break;
+      }
+      case 'session.insert': {
+        const payload = op.payload as OutboxOperation<'session.insert'>['payload'];
+        if (payload.employee_id !== currentEmployeeId) break;
+        if (!result.some(row => row.id === payload.id)) {
+          result.push({ id: payload.id, task_id: payload.task_id, work_date: payload.work_date, span_type: payload.span_type, source: payload.source, start_at: payload.start_at, end_at: payload.end_at });
+        }
+        break;
+      }
+      case 'session.update': {
+        const payload = op.payload as OutboxOperation<'session.update'>['payload'];
+        result = result.map(row => row.id === payload.id ? { ...row, start_at: payload.start_at, end_at: payload.end_at } : row);
+        break;
+      }
+      case 'session.delete': {
+        const payload = op.payload as OutboxOperation<'session.delete'>['payload'];
+        result = result.filter(row => row.id !== payload.id);
+        break;
+      }
+      case 'session.discard': {
+        const payload = op.payload as OutboxOperation<'session.discard'>['payload'];
+        if (payload.employee_id !== currentEmployeeId) break;
+        result = result.filter(row => row.task_id !== payload.task_id);
+        break;
+      }
+      case 'sessions.submitted': {
+        const payload = op.payload as OutboxOperation<'sessions.submitted'>['payload'];
+        if (payload.employee_id !== currentEmployeeId) break;
+        result = result.filter(row => !payload.task_ids.includes(row.task_id));
+        break;
+      }
+    }
+  }
+
+  return result.sort((a, b) => new Date(a.start_at).getTime() - new Date(b.start_at).getTime());
+};
+
+const closeSession = (sessionId: string, endedAt: number, durationMs: number) => {
+  enqueue('session.close', {
+    id: sessionId,
+    end_at: new Date(endedAt).toISOString(),
+    duration_seconds: Math.floor(durationMs / 1000)
+  });
+};
+
+const handleSpanEvent = (event: SpanEvent) => {
+  if (!employeeId) return;
+
+  switch (event.type) {
+    case 'open': {
+      // Timers only run for today; older days are filled in by hand
+      const sessionId = crypto.randomUUID();
+      const details = taskDetails.get(event.taskId);
+      openSessions.set(event.taskId, sessionId);
+      taskWorkDates.set(event.taskId, toWorkDate(new Date(event.startedAt)));
+      enqueue('session.open', {
+        id: sessionId,
+        task_id: event.taskId,
+        employee_id: employeeId,
+        span_type: event.kind,
+        start_at: new Date(event.startedAt).toISOString(),
+        work_date: toWorkDate(new Date(event.startedAt)),
+        ticket_number: details?.ticketNumber || null,
+        task_label: details?.taskLabel || null,
+        aht_minutes: details?.ahtMinutes ?? null
+      });
+      break;
+    }
+    case 'close': {
+      const sessionId = openSessions.get(event.taskId);
+      openSessions.delete(event.taskId);
+      if (sessionId) closeSession(sessionId, event.endedAt, event.durationMs);
+      break;
+    }
+    case 'discard':
+      openSessions.delete(event.taskId);
+      taskWorkDates.delete(event.taskId);
+      taskDetails.delete(event.taskId);
+      enqueue('session.discard', { employee_id: employeeId, task_id: event.taskId });
+      break;
+  }
+};
+
+/**
+ * Start writing timer transitions for an employee to timesheet_sessions.
+ * Returns a function that stops syncing.
+ */
+export const startSessionSync = (currentEmployeeId: string) => {
+  employeeId = currentEmployeeId;
+  const detach = TimerStore.setSpanSink(handleSpanEvent);
+  return () => {
+    detach();
+    employeeId = null;
+  };
+};
+
+const fetchSessionRows = async (currentEmployeeId: string): Promise<SessionRow[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('timesheet_sessions')
+      .select('id, task_id, work_date, span_type, source, start_at, end_at')
+      .eq('employee_id', currentEmployeeId)
+      .gte('work_date', addDaysToWorkDate(toWorkDate(), -LOOKBACK_DAYS))
+      .is('submitted_at', null)
+      .order('start_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error loading timesheet sessions:', error);
+    return [];
+  }
+};
+
+/**
+ * Rebuild the timer store from the employee's unsubmitted sessions of recent days,
+ * including spans recorded offline that have not reached the server yet.
+ * Returns the tasks that have timer data, with the work date each belongs to.
+ */
+export const loadTimers = async (currentEmployeeId: string): Promise<{ taskId: string; workDate: string }[]> => {
+  // Deliver what we can first so the server copy is as fresh as possible
+  await flushOutbox();
+
+  const serverRows = await fetchSessionRows(currentEmployeeId);
+
+  try {
+    const rows = applyPendingSessionOps(serverRows, await getOperations(), currentEmployeeId);
+    const spans: PersistedSpan[] = rows.map(row => ({
+      taskId: row.task_id,
+      kind: row.span_type === 'break' ? 'break' : 'work',
+      startAt: new Date(row.start_at).getTime(),
+      endAt: row.end_at ? new Date(row.end_at).getTime() : null
+    }));
+
+    // Close open spans superseded by a later one (e.g. abandoned on another device),
+    // and spans left running on a past day at the end of that day
+    const today = toWorkDate();
+    const settled = TimerStore.settleOpenSpans(spans).map((span, index) => {
+      const workDate = rows[index].work_date;
+      if (span.endAt != null || workDate >= today) return span;
+      return { ...span, endAt: Math.max(span.startAt, fromWorkDate(addDaysToWorkDate(workDate, 1)).getTime()) };
+    });
+    settled.forEach((span, index) => {
+      if (rows[index].end_at == null && span.endAt != null) {
+        closeSession(rows[index].id, span.endAt, span.endAt - span.startAt);
+      }
+    });
+
+    openSessions.clear();
+    settled.forEach((span, index) => {
+      if (span.endAt == null) openSessions.set(span.taskId, rows[index].id);
+    });
+
+    taskWorkDates.clear();
+    rows.forEach(row => taskWorkDates.set(row.task_id, row.work_date));
+
+    TimerStore.hydrate(settled);
+    return [...taskWorkDates].map(([taskId, workDate]) => ({ taskId, workDate }));
+  } catch (error) {
+    console.error('Error restoring timers:', error);
+    return [];
+  }
+};
+
+/**
+ * Time on the timers that has not been submitted yet, in seconds per work date
+ */
+export const getLoggedSecondsByWorkDate = (): Record<string, number> => {
+  const today = toWorkDate();
+  const totals: Record<string, number> = {};
+  TimerStore.getAllTimers().forEach(timer => {
+    const workDate = taskWorkDates.get(timer.taskId) || today;
+    totals[workDate] = (totals[workDate] || 0) + TimerStore.getCurrentTime(timer.taskId);
+  });
+  return totals;
+};
+
+/**
+ * Mark sessions as submitted so they are not restored into the next timesheet.
+ */
+export const markSessionsSubmitted = async (currentEmployeeId: string, taskIds: string[]): Promise<void> => {
+  if (taskIds.length === 0) return;
+  await enqueue('sessions.submitted', {
+    employee_id: currentEmployeeId,
+    task_ids: taskIds,
+    submitted_at: new Date().toISOString()
+  });
+};
+
+const toEditableSpan = (row: SessionRow): EditableSpan => ({
+  id: row.id,
+  taskId: row.task_id,
+  workDate: row.work_date,
+  kind: row.span_type === 'break' ? 'break' : 'work',
+  startAt: new Date(row.start_at).getTime(),
+  endAt: row.end_at ? new Date(row.end_at).getTime() : null,
+  source: row.source === 'manual' ? 'manual' : 'timer'
+});
+
+/**
+ * All unsubmitted spans of one work date for the employee, across tasks, for editing
+ */
+export const loadSessions = async (currentEmployeeId: string, workDate: string = toWorkDate()): Promise<EditableSpan[]> => {
+  const serverRows = await fetchSessionRows(currentEmployeeId);
+  try {
+    const rows = applyPendingSessionOps(serverRows, await getOperations(), currentEmployeeId);
+    return rows.filter(row => row.work_date === workDate).map(toEditableSpan);
+  } catch (error) {
+    console.error('Error loading sessions for editing:', error);
+    return serverRows.filter(row => row.work_date === workDate).map(toEditableSpan);
+  }
+};
+
+const toWritePayload = (span: EditableSpan, currentEmployeeId: string): SessionWritePayload => ({
+  id: span.id,
+  task_id: span.taskId,
+  employee_id: currentEmployeeId,
+  span_type: span.kind,
+  source: span.source,
+  start_at: new Date(span.startAt).toISOString(),
+  end_at: new Date(span.endAt!).toISOString(),
+  duration_seconds: Math.floor(getSpanDurationMs(span) / 1000),
+  work_date: span.workDate
+});
+
+/**
+ * Persist hand edits of closed spans (manual entries, split, merge, trim, delete)
+ * and apply the resulting time change to the running timers. The change is undone
+ * for any edit the server refuses.
+ */
+export const saveSessionEdits = async (
+  currentEmployeeId: string,
+  before: EditableSpan[],
+  after: EditableSpan[]
+): Promise<void> => {
+  const { inserted, updated, deleted } = diffSpans(before, after);
+  const original = new Map(before.map(span => [span.id, span]));
+
+  for (const span of deleted) {
+    adjustTimer(span, -getSpanDurationMs(span));
+    await enqueue('session.delete', { id: span.id });
+  }
+
+  for (const span of updated) {
+    adjustTimer(span, getSpanDurationMs(span) - getSpanDurationMs(original.get(span.id)!));
+    await enqueue('session.update', toWritePayload(span, currentEmployeeId));
+  }
+
+  for (const span of inserted) {
+    taskWorkDates.set(span.taskId, span.workDate);
+    adjustTimer(span, getSpanDurationMs(span));
+    await enqueue('session.insert', toWritePayload(span, currentEmployeeId));
+  }
+};
@@ -0,0 +1,220 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { enqueue, registerOutboxHandler } from './SyncOutbox';
+import type { OutboxHandlerResult } from './SyncOutbox';
+import { fromDateTimeInput } from '@/utils/dateHelpers';
+
+export interface SubmissionRow {
+  ticket_number: string;
+  university: string;
+  domain: string;
+  category: string;
+  subcategory: string;
+  activity_type: string;
+  task_name: string;
+  client_type: string;
+  status: string;
+  received_date: string; // ISO timestamp, or empty when not known
+  ticket_count: number;
+  time_logged_seconds: number;
+  comments: string;
+  continued_from?: string | null; // ticket_history row this row carries on
+}
+
+export interface SubmissionPayload {
+  user_id: string;
+  submission_date: string;
+  rows: SubmissionRow[];
+}
+
+export interface SubmissionRowResult {
+  index: number;
+  ticket_number: string | null;
+  status: 'inserted' | 'valid' | 'invalid';
+  ticket_history_id: string | null;
+  error: string | null;
+}
+
+export interface SubmissionResult {
+  submission_id: string | null;
+  success: boolean;
+  replayed: boolean;
+  results: SubmissionRowResult[];
+}
+
+/**
+ * A timesheet row as the page holds it, with the time its timer logged
+ */
+export interface TimesheetEntry {
+  ticketNumber: string;
+  category: string;
+  subCategory?: string;
+  activityType?: string;
+  taskName?: string;
+  university?: string;
+  domain?: string;
+  clientType?: string;
+  status?: string;
+  receivedDate?: string; // datetime-local value
+  ticketCount?: number;
+  comments?: string;
+  continuedFrom?: string;
+  totalTime?: number;
+}
+
+// Rows without a status are taken as finished
+const DEFAULT_STATUS = 'Completed';
+
+const SUBMISSION_KEY_PREFIX = 'timesheet-submission-key-';
+
+/**
+ * Idempotency key for the draft of a given work date.
+ * It survives reloads so a retried submit of the same draft is recognised by the server.
+ */
+export const getSubmissionKey = (submissionDate: string): string => {
+  const storageKey = `${SUBMISSION_KEY_PREFIX}${submissionDate}`;
+  const existing = localStorage.getItem(storageKey);
+  if (existing) return existing;
+
+  const key = crypto.randomUUID();
+  localStorage.setItem(storageKey, key);
+  return key;
+};
+
+/**
+ * Forget the key once the server has confirmed the submission
+ */
+export const clearSubmissionKey = (submissionDate: string) => {
+  localStorage.removeItem(`${SUBMISSION_KEY_PREFIX}${submissionDate}`);
+};
+
+/**
+ * Submit all rows of a timesheet in one server-side transaction.
+ * Throws when the server cannot be reached; validation problems come back as per-row results.
+ */
+export const submitTimesheet = async (
+  payload: SubmissionPayload,
+  idempotencyKey: string
+): Promise<SubmissionResult> => {
+  const { data, error } = await supabase.rpc('submit_timesheet', {
+    payload: payload as unknown as Json,
+    idempotency_key: idempotencyKey
+  });
+
+  if (error) {
+    console.error('Error submitting timesheet:', error);
+    throw error;
+  }
+
+  return data as unknown as SubmissionResult;
+};
+
+/**
+ * The submission row of a timesheet row, keeping the status the user picked
+ */
+export const toSubmissionRow = (entry: TimesheetEntry): SubmissionRow => ({
+  ticket_number: entry.ticketNumber,
+  university: entry.university || '',
+  domain: entry.domain || '',
+  category: entry.category,
+  subcategory: entry.subCategory || '',
+  activity_type: entry.activityType || '',
+  task_name: entry.taskName || '',
+  status: entry.status || DEFAULT_STATUS,
+  client_type: entry.clientType || '',
+  received_date: fromDateTimeInput(entry.receivedDate || '')?.toISOString() || '',
+  ticket_count: entry.ticketCount || 1,
+  time_logged_seconds: entry.totalTime || 0,
+  comments: entry.comments || '',
+  continued_from: entry.continuedFrom || null
+});
+
+type ExistingTicket = {
+  ticket_number: string;
+  category: string;
+  subcategory: string | null;
+  time_logged_seconds: number;
+};
+
+/**
+ * Drop rows that already exist in ticket_history for the same day
+ * (e.g. the same work was submitted from another device while this one was offline).
+ */
+export const removeAlreadySubmitted = (rows: SubmissionRow[], existing: ExistingTicket[]): SubmissionRow[] => {
+  const remaining = [...existing];
+  return rows.filter(row => {
+    const index = remaining.findIndex(ticket =>
+      ticket.ticket_number === row.ticket_number.trim() &&
+      ticket.category === row.category.trim() &&
+      (ticket.subcategory || '') === row.subcategory &&
+      ticket.time_logged_seconds === row.time_logged_seconds
+    );
+    if (index === -1) return true;
+    // Each stored ticket can only account for one queued row
+    remaining.splice(index, 1);
+    return false;
+  });
+};
+
+// Postgres and PostgREST errors carry a code; fetch failures do not
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const code = (error as { code?: string } | null)?.code;
+  return !code;
+};
+
+// Outbox result of a write: network errors are thrown so the operation is retried, anything the
+// server refused is parked as failed instead of blocking the operations queued behind it
+export const toHandlerResult = (error: { message: string } | null): OutboxHandlerResult => {
+  if (!error) return 'done';
+  if (isNetworkError(error)) throw error;
+  return { failed: error.message };
+};
+
+registerOutboxHandler('timesheet.submit', async ({ idempotency_key, payload }) => {
+  const ticketNumbers = [...new Set(payload.rows.map(row => row.ticket_number.trim()).filter(Boolean))];
+  let rows = payload.rows;
+
+  if (ticketNumbers.length > 0) {
+    const { data, error } = await supabase
+      .from('ticket_history')
+      .select('ticket_number, category, subcategory, time_logged_seconds, submission_id')
+      .eq('user_id', payload.user_id)
+      .eq('submission_date', payload.submission_date)
+      .in('ticket_number', ticketNumbers);
+    if (error) return toHandlerResult(error);
+
+    // Rows from an earlier attempt of this same submission are handled by the idempotency key
+    const { data: ownSubmission, error: ownSubmissionError } = await supabase
+      .from('timesheet_submissions')
+      .select('id')
+      .eq('idempotency_key', idempotency_key)
+      .maybeSingle();
+    if (ownSubmissionError) return toHandlerResult(ownSubmissionError);
+    const others = (data || []).filter(ticket => !ownSubmission || ticket.submission_id !== ownSubmission.id);
+    rows = removeAlreadySubmitted(payload.rows, others);
+  }
+
+  if (rows.length === 0) return 'done';
+
+  try {
+    const result = await submitTimesheet({ ...payload, rows }, idempotency_key);
+    if (result.success) return 'done';
+    return {
+      failed: result.results
+        .filter(rowResult => rowResult.error)
+        .map(rowResult => `Row ${rowResult.index + 1}: ${rowResult.error}`)
+        .join('; ')
+    };
+  } catch (error) {
+    if (isNetworkError(error)) throw error;
+    return { failed: (error as Error).message || 'Submission rejected by the server' };
+  }
+});
+
+/**
+ * Hand a submission to the outbox so it is delivered once the server is reachable
+ */
+export const queueTimesheetSubmission = (payload: SubmissionPayload, idempotencyKey: string): Promise<void> =>
+  enqueue('timesheet.submit', { idempotency_key: idempotencyKey, payload });
+
@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ApprovalStatus } from './ApprovalService';
+import { toWorkDate } from '@/utils/dateHelpers';
 
 export interface UserDayStats {
   todayHours: number;
@@ -22,8 +25,37 @@ export interface TicketHistoryEntry {
   time_logged_seconds: number;
   comments: string;
   created_at: string;
+  submission_id: string | null;
+  approval_status: ApprovalStatus | null;
+  review_comment: string | null;
 }
 
+// Tickets are read together with the approval state of the submission that created them
+const TICKET_HISTORY_SELECT = '*, timesheet_submissions(status, review_comment)';
+
+type TicketHistoryRow = Tables<'ticket_history'> & {
+  timesheet_submissions: { status: string; review_comment: string | null } | null;
+};
+
+const toTicketHistoryEntry = (ticket: TicketHistoryRow): TicketHistoryEntry => ({
+  id: ticket.id,
+  submission_date: ticket.submission_date,
+  ticket_number: ticket.ticket_number,
+  university: ticket.university || '',
+  domain: ticket.domain || '',
+  category: ticket.category,
+  subcategory: ticket.subcategory || '',
+  activity_type: ticket.activity_type || '',
+  task_name: ticket.task_name || '',
+  status: ticket.status,
+  time_logged_seconds: ticket.time_logged_seconds,
+  comments: ticket.comments || '',
+  created_at: ticket.created_at,
+  submission_id: ticket.submission_id,
+  approval_status: (ticket.timesheet_submissions?.status as ApprovalStatus) || null,
+  review_comment: ticket.timesheet_submissions?.review_comment || null
+});
+
 /**
  * Get timezone-aware start of day
  */
@@ -72,14 +104,14 @@ export const getUserStats = async (
     const startOfNextWeek = getStartOfNextDay(new Date(startOfWeek.getTime() + 6 * 24 * 60 * 60 * 1000));
 
     // Format dates for SQL query (YYYY-MM-DD format)
-    const dayString = day.toISOString().split('T')[0];
-    const weekStartString = startOfWeek.toISOString().split('T')[0];
-    const weekEndString = startOfNextWeek.toISOString().split('T')[0];
+    const dayString = toWorkDate(day);
+    const weekStartString = toWorkDate(startOfWeek);
+    const weekEndString = toWorkDate(startOfNextWeek);
 
     // Fetch ticket history for the specific day
     const { data: dayTickets, error: dayError } = await supabase
       .from('ticket_history')
-      .select('*')
+      .select(TICKET_HISTORY_SELECT)
       .eq('user_id', userId)
       .eq('submission_date', dayString)
       .order('created_at', { ascending: false });
@@ -138,21 +170,7 @@ export const getUserStats = async (
       completedTasks,
       avgAHT: Math.round(avgAHT), // Round to nearest second
       weekHours: Math.round(weekHours * 100) / 100, // Round to 2 decimal places
-      ticketHistory: dayData.map(ticket => ({
-        id: ticket.id,
-        submission_date: ticket.submission_date,
-        ticket_number: ticket.ticket_number,
-        university: ticket.university || '',
-        domain: ticket.domain || '',
-        category: ticket.category,
-        subcategory: ticket.subcategory || '',
-        activity_type: ticket.activity_type || '',
-        task_name: ticket.task_name || '',
-        status: ticket.status,
-        time_logged_seconds: ticket.time_logged_seconds,
-        comments: ticket.comments || '',
-        created_at: ticket.created_at
-      }))
+      ticketHistory: dayData.map(toTicketHistoryEntry)
     };
 
   } catch (error) {
@@ -172,7 +190,7 @@ export const getTicketHistory = async (
   try {
     let query = supabase
       .from('ticket_history')
-      .select('*')
+      .select(TICKET_HISTORY_SELECT)
       .eq('user_id', userId)
       .order('submission_date', { ascending: false })
       .order('created_at', { ascending: false });
@@ -192,21 +210,7 @@ export const getTicketHistory = async (
       return [];
     }
 
-    return (data || []).map(ticket => ({
-      id: ticket.id,
-      submission_date: ticket.submission_date,
-      ticket_number: ticket.ticket_number,
-      university: ticket.university || '',
-      domain: ticket.domain || '',
-      category: ticket.category,
-      subcategory: ticket.subcategory || '',
-      activity_type: ticket.activity_type || '',
-      task_name: ticket.task_name || '',
-      status: ticket.status,
-      time_logged_seconds: ticket.time_logged_seconds,
-      comments: ticket.comments || '',
-      created_at: ticket.created_at
-    }));
+    return (data || []).map(toTicketHistoryEntry);
 
   } catch (error) {
     console.error('Error in getTicketHistory:', error);
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getReviewActions, getReviewQueue, isLocked, reviewSubmission } from '../ApprovalService';
+
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+describe('ApprovalService', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  describe('getReviewActions', () => {
+    it('should allow approve and reject only for submitted days', () => {
+      expect(getReviewActions('submitted')).toEqual(['approve', 'reject']);
+      expect(getReviewActions('draft')).toEqual([]);
+      expect(getReviewActions('reopened')).toEqual([]);
+    });
+
+    it('should allow reopening reviewed days', () => {
+      expect(getReviewActions('approved')).toEqual(['reopen']);
+      expect(getReviewActions('rejected')).toEqual(['reopen']);
+    });
+  });
+
+  it('should lock only approved days', () => {
+    expect(isLocked('approved')).toBe(true);
+    expect(isLocked('submitted')).toBe(false);
+    expect(isLocked(null)).toBe(false);
+  });
+
+  describe('reviewSubmission', () => {
+    it('should require a comment when rejecting', async () => {
+      await expect(reviewSubmission('sub-1', 'reject', 'Lead', '  ')).rejects.toThrow('comment is required');
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it('should return the new status', async () => {
+      rpc.mockResolvedValue({ data: { status: 'rejected' }, error: null });
+
+      await expect(reviewSubmission('sub-1', 'reject', 'Lead', ' Wrong ticket ')).resolves.toBe('rejected');
+      expect(rpc).toHaveBeenCalledWith('review_timesheet_submission', {
+        p_submission_id: 'sub-1',
+        p_action: 'reject',
+        p_actor: 'Lead',
+        p_comment: 'Wrong ticket'
+      });
+    });
+
+    it('should surface transition errors from the server', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'Cannot approve a timesheet that is approved', code: 'P0001' } });
+
+      await expect(reviewSubmission('sub-1', 'approve', 'Lead')).rejects.toThrow('Cannot approve');
+    });
+  });
+
+  it('should return an empty queue when loading fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+    await expect(getReviewQueue('EMP001')).resolves.toEqual([]);
+  });
+});
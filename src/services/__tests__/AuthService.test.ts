@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Session } from '@supabase/supabase-js';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { auth: { signInWithPassword: vi.fn(), signOut: vi.fn() } }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAuthEmail, getSessionEmployee, signInEmployee } from '../AuthService';
+
+const signInWithPassword = supabase.auth.signInWithPassword as unknown as ReturnType<typeof vi.fn>;
+const signOut = supabase.auth.signOut as unknown as ReturnType<typeof vi.fn>;
+
+const accessToken = (claims: Record<string, unknown>) =>
+  ['header', btoa(JSON.stringify(claims)).replace(/=+$/, ''), 'signature'].join('.');
+
+const session = (appMetadata: Record<string, unknown>, claims: Record<string, unknown> = { must_change_password: false }) => ({
+  access_token: accessToken(claims),
+  user: {
+    id: 'auth-1',
+    app_metadata: appMetadata,
+    user_metadata: { full_name: 'Jane Doe' }
+  }
+}) as unknown as Session;
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    signInWithPassword.mockReset();
+    signOut.mockReset();
+    signOut.mockResolvedValue({ error: null });
+  });
+
+  it('should derive the sign-in email from the employee id', () => {
+    expect(getAuthEmail(' EMP001234 ')).toBe('emp001234@employees.timesheet.local');
+  });
+
+  it('should read the employee from the session claims', () => {
+    expect(getSessionEmployee(session({ role: 'sme', employee_id: 'EMP001234', email: 'jane@company.com' }))).toEqual({
+      authUserId: 'auth-1',
+      employeeId: 'EMP001234',
+      email: 'jane@company.com',
+      fullName: 'Jane Doe',
+      role: 'sme'
+    });
+  });
+
+  it('should ignore sessions without a role claim', () => {
+    expect(getSessionEmployee(null)).toBeNull();
+    expect(getSessionEmployee(session({ employee_id: 'EMP001234' }))).toBeNull();
+    expect(getSessionEmployee(session({ role: 'sme', employee_id: 'EMP001234' }, { must_change_password: true }))).toBeNull();
+  });
+
+  it('should accept custom roles', () => {
+    expect(getSessionEmployee(session({ role: 'team-lead', employee_id: 'EMP001234' }))?.role).toBe('team-lead');
+  });
+
+  it('should sign in with the derived email', async () => {
+    signInWithPassword.mockResolvedValue({
+      data: { session: session({ role: 'team-member', employee_id: 'EMP001234' }) },
+      error: null
+    });
+
+    const employee = await signInEmployee('EMP001234', 'Summer2026!');
+
+    expect(signInWithPassword).toHaveBeenCalledWith({
+      email: 'emp001234@employees.timesheet.local',
+      password: 'Summer2026!'
+    });
+    expect(employee.role).toBe('team-member');
+  });
+
+  it('should surface sign-in errors', async () => {
+    signInWithPassword.mockResolvedValue({ data: { session: null }, error: { message: 'Email logins are disabled' } });
+
+    await expect(signInEmployee('EMP001234', 'Summer2026!')).rejects.toThrow('Email logins are disabled');
+  });
+
+  it('should sign out again when the token says the password must be changed', async () => {
+    signInWithPassword.mockResolvedValue({
+      data: { session: session({ role: 'team-member', employee_id: 'EMP001234' }, { must_change_password: true }) },
+      error: null
+    });
+
+    await expect(signInEmployee('EMP001234', 'Summer2026!')).rejects.toThrow('You must change your password before signing in');
+    expect(signOut).toHaveBeenCalled();
+  });
+
+  it('should treat tokens without the password claim as needing a change', async () => {
+    signInWithPassword.mockResolvedValue({
+      data: { session: session({ role: 'team-member', employee_id: 'EMP001234' }, {}) },
+      error: null
+    });
+
+    await expect(signInEmployee('EMP001234', 'Summer2026!')).rejects.toThrow('You must change your password before signing in');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+vi.mock('../SyncOutbox', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../SyncOutbox')>(),
+  registerOutboxHandler: vi.fn()
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { applyPendingBreakOps, BreakEntry, BreakType, getBreakCompliance, getBreakWarnings } from '../BreakService';
+import { registerOutboxHandler } from '../SyncOutbox';
+import type { BreakEndPayload, BreakStartPayload, OutboxHandlerResult, OutboxOperation } from '../SyncOutbox';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const handlerFor = <P>(kind: string) => vi.mocked(registerOutboxHandler).mock.calls
+  .find(([registered]) => registered === kind)![1] as (payload: P) => Promise<OutboxHandlerResult>;
+
+const types: BreakType[] = [
+  { key: 'lunch', label: 'Lunch', dailyAllowanceMinutes: 60, maxMinutesPerBreak: 60, isActive: true },
+  { key: 'short', label: 'Short Break', dailyAllowanceMinutes: 30, maxMinutesPerBreak: 15, isActive: true },
+  { key: 'system-down', label: 'System Down', dailyAllowanceMinutes: null, maxMinutesPerBreak: null, isActive: true }
+];
+
+const entry = (id: string, breakType: string, start: string, end: string | null, employeeId = 'EMP001'): BreakEntry => ({
+  id,
+  employeeId,
+  breakType,
+  workDate: start.slice(0, 10),
+  startAt: `${start}:00.000Z`,
+  endAt: end ? `${end}:00.000Z` : null
+});
+
+describe('BreakService', () => {
+  it('should park a break start the server refused instead of blocking the outbox', async () => {
+    from.mockReturnValue({ upsert: () => Promise.resolve({ error: { message: 'Unknown break type', code: '23503' } }) });
+
+    expect(await handlerFor<BreakStartPayload>('break.start')({} as BreakStartPayload))
+      .toEqual({ failed: 'Unknown break type' });
+  });
+
+  it('should retry a break end that failed on the network', async () => {
+    const eq = () => Promise.resolve({ error: { message: 'Failed to fetch' } });
+    from.mockReturnValue({ update: () => ({ eq }) });
+
+    await expect(handlerFor<BreakEndPayload>('break.end')({ id: 'b1', end_at: '2026-10-19T10:15:00.000Z', duration_seconds: 900 }))
+      .rejects.toEqual({ message: 'Failed to fetch' });
+  });
+
+  it('should flag a break type over its daily allowance', () => {
+    const breaks = [
+      entry('b1', 'short', '2026-10-19T10:00', '2026-10-19T10:15'),
+      entry('b2', 'short', '2026-10-19T15:00', '2026-10-19T15:10'),
+      entry('b3', 'short', '2026-10-19T16:00', '2026-10-19T16:10')
+    ];
+
+    expect(getBreakWarnings(breaks, types)).toEqual([
+      { breakType: 'short', label: 'Short Break', kind: 'daily', usedSeconds: 35 * 60, limitSeconds: 30 * 60 }
+    ]);
+  });
+
+  it('should flag a running break that has gone on too long', () => {
+    const now = new Date('2026-10-19T10:20:00.000Z').getTime();
+
+    expect(getBreakWarnings([entry('b1', 'short', '2026-10-19T10:00', null)], types, now)).toEqual([
+      { breakType: 'short', label: 'Short Break', kind: 'single', usedSeconds: 20 * 60, limitSeconds: 15 * 60 }
+    ]);
+  });
+
+  it('should never flag break types without limits', () => {
+    expect(getBreakWarnings([entry('b1', 'system-down', '2026-10-19T09:00', '2026-10-19T13:00')], types)).toEqual([]);
+  });
+
+  it('should check allowances per day when summarizing a period', () => {
+    const rows = getBreakCompliance([
+      entry('b1', 'lunch', '2026-10-19T12:00', '2026-10-19T12:45'),
+      entry('b2', 'lunch', '2026-10-20T12:00', '2026-10-20T12:45'),
+      entry('b3', 'lunch', '2026-10-20T12:00', '2026-10-20T13:10', 'EMP002')
+    ], types);
+
+    expect(rows.map(row => [row.employeeId, row.days, row.totalSeconds, row.warnings.length])).toEqual([
+      ['EMP002', 1, 70 * 60, 2],
+      ['EMP001', 2, 90 * 60, 0]
+    ]);
+  });
+
+  it('should show breaks still waiting in the outbox', () => {
+    const ops = [
+      { kind: 'break.start', payload: { id: 'b2', employee_id: 'EMP001', break_type: 'lunch', work_date: '2026-10-19', start_at: '2026-10-19T12:00:00.000Z' } },
+      { kind: 'break.start', payload: { id: 'b3', employee_id: 'EMP002', break_type: 'lunch', work_date: '2026-10-19', start_at: '2026-10-19T12:00:00.000Z' } },
+      { kind: 'break.end', payload: { id: 'b1', end_at: '2026-10-19T10:10:00.000Z', duration_seconds: 600 } }
+    ] as OutboxOperation[];
+
+    const result = applyPendingBreakOps([entry('b1', 'short', '2026-10-19T10:00', null)], ops, 'EMP001');
+
+    expect(result.map(b => [b.id, b.endAt])).toEqual([
+      ['b1', '2026-10-19T10:10:00.000Z'],
+      ['b2', null]
+    ]);
+  });
+});
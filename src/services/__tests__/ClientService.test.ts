@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { deleteClients, getClientActivity, saveClients } from '../ClientService';
+
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+const row = {
+  id: 'client-1',
+  university: 'MIT',
+  domain: 'Technology',
+  client_type: 'BAU',
+  contact_name: 'Prof. John Smith',
+  contact_email: 'j.smith@mit.edu',
+  phone: null,
+  status: 'active',
+  created_by: 'sme@company.com',
+  created_at: '2026-10-19T10:00:00Z',
+  updated_at: '2026-10-19T10:00:00Z'
+};
+
+describe('ClientService', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('should send drafts with database column names', async () => {
+    rpc.mockResolvedValue({ data: [row], error: null });
+
+    const saved = await saveClients([{
+      id: 'client-1',
+      university: 'MIT',
+      domain: 'Technology',
+      clientType: 'BAU',
+      contactName: 'Prof. John Smith',
+      contactEmail: 'j.smith@mit.edu',
+      phone: '',
+      status: 'active'
+    }], 'SME01');
+
+    expect(rpc).toHaveBeenCalledWith('save_clients', {
+      p_actor: 'SME01',
+      p_clients: [expect.objectContaining({ id: 'client-1', university: 'MIT', client_type: 'BAU', contact_name: 'Prof. John Smith' })]
+    });
+    expect(saved[0]).toMatchObject({ id: 'client-1', clientType: 'BAU', phone: '', createdAt: '2026-10-19' });
+  });
+
+  it('should throw when a client with history is deleted', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'MIT has logged tickets; deactivate it instead' } });
+
+    await expect(deleteClients(['client-1'], 'SME01')).rejects.toThrow('deactivate it instead');
+  });
+
+  it('should key activity by client id', async () => {
+    rpc.mockResolvedValue({
+      data: [{ client_id: 'client-1', total_seconds: 5400, ticket_count: 4, entry_count: 3, last_activity: '2026-10-18' }],
+      error: null
+    });
+
+    expect(await getClientActivity()).toEqual({
+      'client-1': { totalSeconds: 5400, ticketCount: 4, entryCount: 3, lastActivity: '2026-10-18' }
+    });
+  });
+
+  it('should show no activity when it cannot be loaded', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Failed to fetch' } });
+
+    expect(await getClientActivity()).toEqual({});
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+vi.mock('@/utils/dropdownStorage', () => ({
+  getDropdownData: vi.fn(() => ({
+    universities: [{ name: 'Cached University' }],
+    domains: [],
+    clientTypes: [],
+    stubs: [],
+    tasks: [{ category: 'Cached', subCategory: 'Task', aht: 10 }]
+  })),
+  setDropdownData: vi.fn()
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { setDropdownData } from '@/utils/dropdownStorage';
+import { getPublishedDropdownData, saveDropdownDraft } from '../DropdownService';
+
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const row = {
+  version: 3,
+  universities: [{ name: 'MIT' }],
+  domains: [{ name: 'Engineering' }],
+  client_types: [{ name: 'Premium', description: 'High priority premium client', priority: 'High' }],
+  stubs: [{ name: 'Administrative' }],
+  status: 'published',
+  effective_from: '2026-10-01',
+  effective_to: null,
+  created_by: 'ADMIN01',
+  published_by: 'ADMIN01',
+  published_at: '2026-09-30T10:00:00Z',
+  created_at: '2026-09-30T09:00:00Z',
+  updated_at: '2026-09-30T10:00:00Z'
+};
+
+const mockPublished = (result: { data: unknown; error: unknown }) => {
+  const query = { select: vi.fn(), eq: vi.fn(), lte: vi.fn(), order: vi.fn(), limit: vi.fn(), maybeSingle: vi.fn() };
+  query.select.mockReturnValue(query);
+  query.eq.mockReturnValue(query);
+  query.lte.mockReturnValue(query);
+  query.order.mockReturnValue(query);
+  query.limit.mockReturnValue(query);
+  query.maybeSingle.mockResolvedValue(result);
+  from.mockReturnValue(query);
+};
+
+describe('DropdownService', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    from.mockReset();
+    vi.mocked(setDropdownData).mockClear();
+  });
+
+  it('should load the published lists and keep the local task catalog', async () => {
+    mockPublished({ data: row, error: null });
+
+    const data = await getPublishedDropdownData();
+
+    expect(data).toMatchObject({
+      version: 3,
+      universities: [{ name: 'MIT' }],
+      tasks: [{ category: 'Cached', subCategory: 'Task', aht: 10 }]
+    });
+    expect(setDropdownData).toHaveBeenCalledWith(data);
+  });
+
+  it('should fall back to the last lists seen when offline', async () => {
+    mockPublished({ data: null, error: { message: 'Failed to fetch' } });
+
+    const data = await getPublishedDropdownData();
+
+    expect(data.universities).toEqual([{ name: 'Cached University' }]);
+    expect(setDropdownData).not.toHaveBeenCalled();
+  });
+
+  it('should save draft lists with database column names', async () => {
+    rpc.mockResolvedValue({ data: { ...row, version: 4, status: 'draft', effective_from: null }, error: null });
+
+    const draft = await saveDropdownDraft({ clientTypes: row.client_types }, 'ADMIN01');
+
+    expect(rpc).toHaveBeenCalledWith('save_dropdown_draft', {
+      p_actor: 'ADMIN01',
+      p_lists: expect.objectContaining({ client_types: row.client_types, universities: undefined })
+    });
+    expect(draft).toMatchObject({ version: 4, status: 'draft', lists: { clientTypes: row.client_types } });
+  });
+
+  it('should throw when the server refuses the change', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Only admins can change dropdown lists' } });
+
+    await expect(saveDropdownDraft({ stubs: [] }, 'EMP01')).rejects.toThrow('Only admins');
+  });
+});
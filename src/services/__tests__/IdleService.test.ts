@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_IDLE_THRESHOLD_MINUTES, getIdleSince, getIdleThresholdMinutes } from '../IdleService';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const MINUTE = 60_000;
+
+describe('IdleService', () => {
+  const now = 1_700_000_000_000;
+
+  it('should count idle time from the last activity once the threshold is reached', () => {
+    expect(getIdleSince({ lastActivityAt: now - 15 * MINUTE, lastTickAt: now - 5000 }, now, 15 * MINUTE)).toBe(now - 15 * MINUTE);
+    expect(getIdleSince({ lastActivityAt: now - 14 * MINUTE, lastTickAt: now - 5000 }, now, 15 * MINUTE)).toBeNull();
+  });
+
+  it('should treat a sleep as idle even when waking the machine produced input', () => {
+    const clock = { lastActivityAt: now - 1000, lastTickAt: now - 40 * MINUTE };
+
+    expect(getIdleSince(clock, now, 15 * MINUTE)).toBe(now - 40 * MINUTE);
+    expect(getIdleSince(clock, now, 60 * MINUTE)).toBeNull();
+  });
+
+  it('should never flag idle time when detection is off or the clock went back', () => {
+    expect(getIdleSince({ lastActivityAt: now - 60 * MINUTE, lastTickAt: now - 5000 }, now, 0)).toBeNull();
+    expect(getIdleSince({ lastActivityAt: now - 60 * MINUTE, lastTickAt: now + 60 * MINUTE }, now, 15 * MINUTE)).toBeNull();
+  });
+
+  it("should use the team's threshold and fall back to the default", async () => {
+    const maybeSingle = vi.fn()
+      .mockResolvedValueOnce({ data: { teams: { idle_threshold_minutes: 0 } }, error: null })
+      .mockResolvedValueOnce({ data: { teams: null }, error: null });
+    from.mockReturnValue({
+      select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ maybeSingle }) })
+    });
+
+    expect(await getIdleThresholdMinutes('EMP001')).toBe(0);
+    expect(await getIdleThresholdMinutes('EMP002')).toBe(DEFAULT_IDLE_THRESHOLD_MINUTES);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { canCancelLeave, getLeaveByDate, LeaveRequest, requestLeave } from '../LeaveService';
+
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+const leave = (id: string, startDate: string, endDate: string, status: LeaveRequest['status'] = 'approved'): LeaveRequest => ({
+  id,
+  employeeId: 'e1',
+  employeeName: 'Jane Doe',
+  employeeCode: 'EMP001',
+  teamId: 'support',
+  leaveType: 'vacation',
+  leaveLabel: 'Vacation',
+  startDate,
+  endDate,
+  halfDay: false,
+  reason: null,
+  status,
+  reviewedBy: null,
+  reviewComment: null,
+  createdAt: '2026-10-01T09:00:00Z'
+});
+
+describe('LeaveService', () => {
+  it('should only let employees cancel pending or upcoming leave', () => {
+    expect(canCancelLeave(leave('l1', '2026-10-10', '2026-10-12', 'pending'), '2026-10-19')).toBe(true);
+    expect(canCancelLeave(leave('l2', '2026-10-20', '2026-10-21'), '2026-10-19')).toBe(true);
+    expect(canCancelLeave(leave('l3', '2026-10-19', '2026-10-21'), '2026-10-19')).toBe(false);
+    expect(canCancelLeave(leave('l4', '2026-10-20', '2026-10-21', 'rejected'), '2026-10-19')).toBe(false);
+  });
+
+  it('should place leave on every day it covers', () => {
+    const byDate = getLeaveByDate(
+      [leave('l1', '2026-10-19', '2026-10-20'), leave('l2', '2026-10-20', '2026-10-20')],
+      ['2026-10-19', '2026-10-20', '2026-10-21']
+    );
+
+    expect(byDate['2026-10-19'].map(request => request.id)).toEqual(['l1']);
+    expect(byDate['2026-10-20'].map(request => request.id)).toEqual(['l1', 'l2']);
+    expect(byDate['2026-10-21']).toEqual([]);
+  });
+
+  it('should send the request and surface errors', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'You already have leave requested for some of these days' } });
+
+    await expect(requestLeave(
+      { leaveType: 'sick', startDate: '2026-10-22', endDate: '2026-10-22', halfDay: true, reason: 'Dentist' },
+      'EMP001'
+    )).rejects.toThrow('You already have leave requested');
+
+    expect(rpc).toHaveBeenCalledWith('request_leave', {
+      p_actor: 'EMP001',
+      p_leave: { leave_type: 'sick', start_date: '2026-10-22', end_date: '2026-10-22', half_day: true, reason: 'Dentist' }
+    });
+  });
+});
@@ -97,4 +97,169 @@ describe('PerformanceTimerService - Single Timer Logic', () => {
     expect(TimerStore.isRunning('task-2')).toBe(true);
     expect(TimerStore.isOnBreak('task-1')).toBe(true); // break should continue
   });
-});
\ No newline at end of file
+});
+
+describe('PerformanceTimerService - Stopped state', () => {
+  beforeEach(() => {
+    TimerStore.destroy();
+  });
+
+  it('should close the open span and refuse to restart a stopped timer', () => {
+    TimerStore.start('task-1');
+    TimerStore.stop('task-1');
+
+    expect(TimerStore.isStopped('task-1')).toBe(true);
+    expect(TimerStore.hasRunningTimer()).toBe(false);
+
+    TimerStore.start('task-1');
+    TimerStore.breakStart('task-1');
+    expect(TimerStore.isStopped('task-1')).toBe(true);
+  });
+
+  it('should stop every timer with stopAll and allow reset to reopen it', () => {
+    TimerStore.start('task-1');
+    TimerStore.start('task-2');
+    TimerStore.stopAll();
+
+    expect(TimerStore.getAllTimers().every((t) => t.status === 'stopped')).toBe(true);
+
+    TimerStore.reset('task-1');
+    TimerStore.start('task-1');
+    expect(TimerStore.isRunning('task-1')).toBe(true);
+  });
+
+  it('should reopen a stopped timer as paused without losing time', () => {
+    const wallNow = 1_700_000_000_000;
+    TimerStore.hydrate([
+      { taskId: 'task-1', kind: 'work', startAt: wallNow - 90_000, endAt: wallNow },
+    ], wallNow);
+    TimerStore.stop('task-1');
+    TimerStore.reopen('task-1');
+
+    expect(TimerStore.isPaused('task-1')).toBe(true);
+    expect(TimerStore.getCurrentTime('task-1')).toBe(90);
+  });
+
+  it('should summarise totals across all timers', () => {
+    const wallNow = 1_700_000_000_000;
+    TimerStore.hydrate([
+      { taskId: 'task-1', kind: 'work', startAt: wallNow - 600_000, endAt: wallNow - 300_000 },
+      { taskId: 'task-2', kind: 'work', startAt: wallNow - 60_000, endAt: null },
+    ], wallNow);
+
+    expect(TimerStore.getSummary()).toEqual({
+      totalLoggedTime: 360,
+      totalBreakTime: 0,
+      hasActiveTask: true,
+      runningTaskId: 'task-2',
+    });
+  });
+});
+
+describe('PerformanceTimerService - Span persistence', () => {
+  beforeEach(() => {
+    TimerStore.destroy();
+  });
+
+  it('should emit open and close events for each span transition', () => {
+    const events: TimerStore.SpanEvent[] = [];
+    TimerStore.setSpanSink((event) => events.push(event));
+
+    TimerStore.start('task-1');
+    TimerStore.breakStart('task-1');
+    TimerStore.breakEnd('task-1', 'running');
+    TimerStore.pause('task-1');
+
+    expect(events.map((e) => e.type === 'discard' ? e.type : `${e.type}:${e.kind}`)).toEqual([
+      'open:work',
+      'close:work',
+      'open:break',
+      'close:break',
+      'open:work',
+      'close:work',
+    ]);
+  });
+
+  it('should emit a discard event when a timer is removed', () => {
+    const events: TimerStore.SpanEvent[] = [];
+    TimerStore.setSpanSink((event) => events.push(event));
+
+    TimerStore.start('task-1');
+    TimerStore.remove('task-1');
+
+    expect(events[events.length - 1]).toEqual({ type: 'discard', taskId: 'task-1' });
+    expect(TimerStore.getAllTimers()).toHaveLength(0);
+  });
+
+  it('should rebuild closed and open spans from persisted data', () => {
+    const wallNow = 1_700_000_000_000;
+    TimerStore.hydrate([
+      { taskId: 'task-1', kind: 'work', startAt: wallNow - 600_000, endAt: wallNow - 300_000 },
+      { taskId: 'task-1', kind: 'break', startAt: wallNow - 300_000, endAt: wallNow - 240_000 },
+      { taskId: 'task-2', kind: 'work', startAt: wallNow - 120_000, endAt: null },
+    ], wallNow);
+
+    expect(TimerStore.isPaused('task-1')).toBe(true);
+    expect(TimerStore.getCurrentTime('task-1')).toBe(300);
+    expect(TimerStore.getBreakTime('task-1')).toBe(60);
+    expect(TimerStore.getRunningTimerId()).toBe('task-2');
+    expect(TimerStore.getCurrentTime('task-2')).toBe(120);
+  });
+
+  it('should not emit span events while hydrating', () => {
+    const events: TimerStore.SpanEvent[] = [];
+    TimerStore.setSpanSink((event) => events.push(event));
+
+    TimerStore.hydrate([{ taskId: 'task-1', kind: 'work', startAt: Date.now() - 1000, endAt: null }]);
+
+    expect(events).toHaveLength(0);
+    expect(TimerStore.isRunning('task-1')).toBe(true);
+  });
+
+  it('should close superseded open work spans at the next span start', () => {
+    const settled = TimerStore.settleOpenSpans([
+      { taskId: 'task-2', kind: 'work', startAt: 2000, endAt: null },
+      { taskId: 'task-1', kind: 'work', startAt: 1000, endAt: null },
+    ]);
+
+    expect(settled).toEqual([
+      { taskId: 'task-1', kind: 'work', startAt: 1000, endAt: 2000 },
+      { taskId: 'task-2', kind: 'work', startAt: 2000, endAt: null },
+    ]);
+  });
+
+  it('should apply edits of closed spans without emitting events', () => {
+    const events: TimerStore.SpanEvent[] = [];
+    TimerStore.hydrate([{ taskId: 'task-1', kind: 'work', startAt: 0, endAt: 600000 }]);
+    TimerStore.setSpanSink((event) => events.push(event));
+
+    TimerStore.adjustElapsed('task-1', 'work', 300000);
+    expect(TimerStore.getCurrentTime('task-1')).toBe(900);
+
+    TimerStore.adjustElapsed('task-1', 'work', -1200000);
+    expect(TimerStore.getCurrentTime('task-1')).toBe(0);
+    expect(events).toHaveLength(0);
+  });
+
+  it('should leave idle time out when pausing after inactivity', () => {
+    const events: TimerStore.SpanEvent[] = [];
+    TimerStore.hydrate([{ taskId: 'task-1', kind: 'work', startAt: Date.now() - 600_000, endAt: null }]);
+    TimerStore.setSpanSink((event) => events.push(event));
+
+    TimerStore.pauseIdle('task-1', 240_000);
+
+    expect(TimerStore.isPaused('task-1')).toBe(true);
+    expect(TimerStore.getCurrentTime('task-1')).toBe(360);
+    expect(events).toHaveLength(1);
+    expect(events[0].type === 'close' && Date.now() - events[0].endedAt).toBeGreaterThanOrEqual(239_000);
+  });
+
+  it('should not end an idle pause before the span started', () => {
+    TimerStore.hydrate([{ taskId: 'task-1', kind: 'work', startAt: Date.now() - 60_000, endAt: null }]);
+
+    TimerStore.pauseIdle('task-1', 600_000);
+
+    expect(TimerStore.getCurrentTime('task-1')).toBe(0);
+    expect(TimerStore.isPaused('task-1')).toBe(true);
+  });
+});
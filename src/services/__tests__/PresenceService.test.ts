@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), channel: vi.fn(), removeChannel: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { buildTeamNow, getPresenceData, PresenceData, PresenceSpan, recordActivity } from '../PresenceService';
+
+// A query builder whose every step chains and which resolves to the given result
+const query = (result: { data: unknown; error: unknown }) => {
+  const builder: Record<string, unknown> = {};
+  ['select', 'eq', 'is', 'gte', 'upsert'].forEach(method => {
+    builder[method] = () => builder;
+  });
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+};
+
+const MINUTE = 60_000;
+const now = 1_700_000_000_000;
+
+const span = (employeeKey: string, taskId: string, startMinutesAgo: number, endMinutesAgo: number | null, ahtMinutes: number | null = 10): PresenceSpan => ({
+  employeeKey,
+  taskId,
+  kind: 'work',
+  ticketNumber: `T-${taskId}`,
+  taskLabel: `Task ${taskId}`,
+  ahtMinutes,
+  startAt: now - startMinutesAgo * MINUTE,
+  endAt: endMinutesAgo === null ? null : now - endMinutesAgo * MINUTE
+});
+
+const data = (overrides: Partial<PresenceData> = {}): PresenceData => ({
+  employees: [
+    { key: 'EMP001', name: 'Jane Doe', email: 'jane@example.com' },
+    { key: 'EMP002', name: 'John Roe', email: 'john@example.com' },
+    { key: 'EMP003', name: 'Ann Poe', email: null }
+  ],
+  spans: [],
+  openBreaks: [],
+  lastActivity: {},
+  ...overrides
+});
+
+describe('PresenceService', () => {
+  it('should show the running task with all of its time today', () => {
+    const [row] = buildTeamNow(data({
+      spans: [span('EMP001', 'a', 30, 25), span('EMP001', 'b', 25, 20), span('EMP001', 'a', 5, null)]
+    }), now);
+
+    expect(row).toMatchObject({
+      employeeKey: 'EMP001',
+      status: 'working',
+      ticketNumber: 'T-a',
+      taskLabel: 'Task a',
+      elapsedSeconds: 600,
+      ahtMinutes: 10,
+      overrun: false
+    });
+  });
+
+  it('should flag tasks running beyond twice their AHT', () => {
+    const rows = buildTeamNow(data({
+      spans: [span('EMP002', 'a', 21, null), span('EMP001', 'b', 19, null), span('EMP003', 'c', 60, null, null)]
+    }), now);
+
+    expect(rows.map(row => [row.employeeKey, row.overrun])).toEqual([
+      ['EMP002', true],
+      ['EMP003', false],
+      ['EMP001', false]
+    ]);
+  });
+
+  it('should match spans stored under an email or name to the employee', () => {
+    const rows = buildTeamNow(data({
+      openBreaks: [{ employeeKey: 'john@example.com', label: 'Lunch', startAt: now - 10 * MINUTE }],
+      lastActivity: { 'Jane Doe': now - 2 * MINUTE, 'Jane Doe ': now - 30 * MINUTE }
+    }), now);
+
+    expect(rows.map(row => [row.employeeKey, row.status, row.breakLabel])).toEqual([
+      ['EMP002', 'break', 'Lunch'],
+      ['EMP001', 'no-timer', null],
+      ['EMP003', 'offline', null],
+      ['Jane Doe ', 'offline', null]
+    ]);
+    expect(rows[1].lastActivityAt).toBe(now - 2 * MINUTE);
+  });
+
+  it('should fail to load the board when any of its queries fails', async () => {
+    vi.mocked(supabase.from).mockImplementation(((table: string) => query(table === 'employee_breaks'
+      ? { data: null, error: { message: 'permission denied for table employee_breaks' } }
+      : { data: [], error: null })) as unknown as typeof supabase.from);
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: [], error: null } as never);
+
+    await expect(getPresenceData()).rejects.toThrow('permission denied for table employee_breaks');
+  });
+
+  it('should report activity that could not be recorded', async () => {
+    vi.mocked(supabase.from).mockReturnValue(query({ data: null, error: { message: 'Failed to fetch' } }) as never);
+
+    await expect(recordActivity('EMP001', now)).rejects.toThrow('Failed to fetch');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getRoleLabel, getRoles, saveRole } from '../RoleService';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+describe('RoleService', () => {
+  beforeEach(() => {
+    from.mockReset();
+    rpc.mockReset();
+  });
+
+  it('should map roles with their permissions and drop unknown keys', async () => {
+    from.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        order: vi.fn().mockResolvedValue({
+          data: [{
+            name: 'team-lead',
+            label: 'Team Lead',
+            description: null,
+            is_system: false,
+            role_permissions: [{ permission: 'timesheets.review' }, { permission: 'legacy.flag' }]
+          }],
+          error: null
+        })
+      })
+    });
+
+    expect(await getRoles()).toEqual([{
+      name: 'team-lead',
+      label: 'Team Lead',
+      description: '',
+      isSystem: false,
+      permissions: ['timesheets.review']
+    }]);
+  });
+
+  it('should send the role and actor to save_role', async () => {
+    rpc.mockResolvedValue({ error: null });
+
+    await saveRole({ name: 'team-lead', label: 'Team Lead', description: '', permissions: ['timesheet.submit'] }, 'EMP001234');
+
+    expect(rpc).toHaveBeenCalledWith('save_role', {
+      p_actor: 'EMP001234',
+      p_role: { name: 'team-lead', label: 'Team Lead', description: '', permissions: ['timesheet.submit'] }
+    });
+  });
+
+  it('should surface save errors', async () => {
+    rpc.mockResolvedValue({ error: { message: 'The super-user role cannot be changed' } });
+
+    await expect(saveRole({ name: 'super-user', label: 'Super User', description: '', permissions: [] }, 'EMP001234'))
+      .rejects.toThrow('The super-user role cannot be changed');
+  });
+
+  it('should fall back to the role name for unknown roles', () => {
+    expect(getRoleLabel([], 'team-lead')).toBe('team-lead');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+import { getDaySchedule, getExpectedWork, getMissingTimesheetDates, getShiftSeconds, ScheduleCalendar } from '../ScheduleService';
+
+const calendar: ScheduleCalendar = {
+  schedules: [
+    { id: 'early', name: 'Early', startTime: '06:00', endTime: '14:30', workingDays: [1, 2, 3, 4, 5], breakMinutes: 30, isActive: true },
+    { id: 'night', name: 'Night', startTime: '22:00', endTime: '06:00', workingDays: [6, 7], breakMinutes: 0, isActive: true }
+  ],
+  assignments: [
+    { id: 'a1', scheduleId: 'early', employeeId: null, teamId: 'support', fteRatio: 1, validFrom: '2026-01-01', validTo: null },
+    { id: 'a2', scheduleId: 'early', employeeId: 'e2', teamId: null, fteRatio: 0.5, validFrom: '2026-10-01', validTo: null },
+    { id: 'a3', scheduleId: 'night', employeeId: 'e3', teamId: null, fteRatio: 1, validFrom: '2026-01-01', validTo: null }
+  ],
+  holidays: [{ id: 'h1', date: '2026-10-21', name: 'Founders Day' }],
+  leave: [
+    { employeeId: 'e2', label: 'Vacation', startDate: '2026-10-22', endDate: '2026-10-23', halfDay: false },
+    { employeeId: 'e3', label: 'Comp-off', startDate: '2026-10-31', endDate: '2026-10-31', halfDay: true }
+  ],
+  employees: [
+    { id: 'e1', employeeId: 'EMP001', email: null, fullName: 'Jane Doe', teamId: 'support' },
+    { id: 'e2', employeeId: 'EMP002', email: null, fullName: 'John Roe', teamId: 'support' },
+    { id: 'e3', employeeId: 'EMP003', email: 'sam@company.com', fullName: null, teamId: null }
+  ]
+};
+
+describe('ScheduleService', () => {
+  it('should measure overnight shifts across midnight', () => {
+    expect(getShiftSeconds({ startTime: '22:00', endTime: '06:00' })).toBe(8 * 3600);
+  });
+
+  it('should use the team schedule, matching the user by name or id', () => {
+    // Monday
+    expect(getDaySchedule(calendar, 'Jane Doe', '2026-10-19')).toEqual({ shiftSeconds: 8.5 * 3600, workSeconds: 8 * 3600, holiday: null, leave: null });
+    expect(getDaySchedule(calendar, 'EMP001', '2026-10-19').workSeconds).toBe(8 * 3600);
+  });
+
+  it('should prefer the employee assignment and scale it for part-timers', () => {
+    expect(getDaySchedule(calendar, 'EMP002', '2026-10-19').workSeconds).toBe(4 * 3600);
+    // Before the part-time assignment started the team schedule applied
+    expect(getDaySchedule(calendar, 'EMP002', '2026-09-28').workSeconds).toBe(8 * 3600);
+  });
+
+  it('should expect nothing on holidays and days off', () => {
+    expect(getDaySchedule(calendar, 'EMP001', '2026-10-21')).toEqual({ shiftSeconds: 0, workSeconds: 0, holiday: 'Founders Day', leave: null });
+    expect(getDaySchedule(calendar, 'EMP001', '2026-10-24').workSeconds).toBe(0);
+    expect(getDaySchedule(calendar, 'sam@company.com', '2026-10-24').workSeconds).toBe(8 * 3600);
+  });
+
+  it('should take approved leave out of the day, or half of it', () => {
+    expect(getDaySchedule(calendar, 'John Roe', '2026-10-22')).toEqual({ shiftSeconds: 0, workSeconds: 0, holiday: null, leave: 'Vacation' });
+    expect(getDaySchedule(calendar, 'sam@company.com', '2026-10-31')).toEqual({ shiftSeconds: 4 * 3600, workSeconds: 4 * 3600, holiday: null, leave: 'Comp-off' });
+    // Someone else's leave does not count
+    expect(getDaySchedule(calendar, 'EMP001', '2026-10-22').workSeconds).toBe(8 * 3600);
+  });
+
+  it('should report missing timesheets only for past scheduled days', () => {
+    const week = ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25'];
+    expect(getMissingTimesheetDates(calendar, 'EMP002', week, ['2026-10-19'], '2026-10-26')).toEqual(['2026-10-20']);
+    expect(getMissingTimesheetDates(calendar, 'EMP001', week, [], '2026-10-21')).toEqual(['2026-10-19', '2026-10-20']);
+  });
+
+  it('should fall back to the standard schedule for unknown users', () => {
+    expect(getDaySchedule(calendar, 'someone', '2026-10-19').workSeconds).toBe(8 * 3600);
+    expect(getDaySchedule(calendar, 'someone', '2026-10-25').workSeconds).toBe(0);
+  });
+
+  it('should add up a week without weekends or holidays', () => {
+    expect(getExpectedWork(calendar, 'EMP001', '2026-10-19', '2026-10-25')).toEqual({ seconds: 4 * 8 * 3600, days: 4 });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { findSlaTarget, getTicketSla, SlaTarget, SlaTicketRow } from '../SlaService';
+import type { ClientType } from '@/types/dropdown';
+
+const HOUR = 3_600_000;
+const receivedAt = new Date(2025, 0, 15, 9, 0).getTime();
+
+const targets: SlaTarget[] = [
+  { id: 'p-high', priority: 'High', category: null, subCategory: null, targetHours: 8 },
+  { id: 'p-low', priority: 'Low', category: null, subCategory: null, targetHours: 72 },
+  { id: 't-cat', priority: null, category: 'Technical', subCategory: null, targetHours: 24 },
+  { id: 't-sub', priority: null, category: 'Technical', subCategory: 'Bug Fixing', targetHours: 4 }
+];
+
+const clientTypes: ClientType[] = [
+  { name: 'Premium', description: '', priority: 'High' },
+  { name: 'Basic', description: '', priority: 'Low' }
+];
+
+const row = (overrides: Partial<SlaTicketRow> = {}): SlaTicketRow => ({
+  ticketNumber: 'T-1',
+  userId: 'EMP001',
+  university: 'MIT',
+  category: 'Customer Support',
+  subCategory: 'Email Support',
+  clientType: 'Premium',
+  status: 'WIP',
+  receivedAt: new Date(receivedAt).toISOString(),
+  submissionDate: '2025-01-15',
+  createdAt: new Date(receivedAt + HOUR).toISOString(),
+  ...overrides
+});
+
+describe('SlaService', () => {
+  describe('findSlaTarget', () => {
+    it('should prefer the subcategory, then the category, then the priority', () => {
+      expect(findSlaTarget(targets, 'Technical', 'Bug Fixing', 'High')?.id).toBe('t-sub');
+      expect(findSlaTarget(targets, 'Technical', 'Code Review', 'High')?.id).toBe('t-cat');
+      expect(findSlaTarget(targets, 'Content', 'Documentation', 'High')?.id).toBe('p-high');
+      expect(findSlaTarget(targets, 'Content', 'Documentation', null)).toBeNull();
+    });
+  });
+
+  describe('getTicketSla', () => {
+    it('should mark a ticket completed within its target as met', () => {
+      const [ticket] = getTicketSla([
+        row(),
+        row({ status: 'Completed', createdAt: new Date(receivedAt + 6 * HOUR).toISOString() })
+      ], targets, clientTypes, receivedAt + 48 * HOUR);
+
+      expect(ticket.status).toBe('met');
+      expect(ticket.priority).toBe('High');
+      expect(ticket.completedAt).toBe(receivedAt + 6 * HOUR);
+      expect(ticket.elapsedHours).toBe(6);
+    });
+
+    it('should mark a ticket completed after its target as breached', () => {
+      const [ticket] = getTicketSla([
+        row({ status: 'Completed', createdAt: new Date(receivedAt + 10 * HOUR).toISOString() })
+      ], targets, clientTypes);
+
+      expect(ticket.status).toBe('breached');
+    });
+
+    it('should count completion no later than the end of the work date it was logged on', () => {
+      const [ticket] = getTicketSla([
+        row({ status: 'Completed', createdAt: new Date(receivedAt + 72 * HOUR).toISOString() })
+      ], targets, [{ name: 'Premium', description: '', priority: 'Low' }]);
+
+      expect(ticket.completedAt).toBe(new Date(2025, 0, 16).getTime());
+      expect(ticket.status).toBe('met');
+    });
+
+    it('should flag open tickets past the at-risk share of their target', () => {
+      expect(getTicketSla([row()], targets, clientTypes, receivedAt + 5 * HOUR)[0].status).toBe('on-track');
+      expect(getTicketSla([row()], targets, clientTypes, receivedAt + 7 * HOUR)[0].status).toBe('at-risk');
+      expect(getTicketSla([row()], targets, clientTypes, receivedAt + 9 * HOUR)[0].status).toBe('breached');
+    });
+
+    it('should measure from the earliest received date and use the latest task', () => {
+      const [ticket] = getTicketSla([
+        row({ receivedAt: new Date(receivedAt - 2 * HOUR).toISOString() }),
+        row({ category: 'Technical', subCategory: 'Bug Fixing', createdAt: new Date(receivedAt + 2 * HOUR).toISOString() })
+      ], targets, clientTypes, receivedAt);
+
+      expect(ticket.receivedAt).toBe(receivedAt - 2 * HOUR);
+      expect(ticket.targetHours).toBe(4);
+      expect(ticket.dueAt).toBe(receivedAt + 2 * HOUR);
+      expect(ticket.status).toBe('on-track');
+    });
+
+    it('should leave out tickets without a received date or a target', () => {
+      expect(getTicketSla([
+        row({ ticketNumber: 'T-2', receivedAt: null }),
+        row({ ticketNumber: 'T-3', clientType: 'Unknown' })
+      ], targets, clientTypes)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as Outbox from '../SyncOutbox';
+
+const sessionClose = (id: string) => ({ id, end_at: '2025-01-01T10:00:00.000Z', duration_seconds: 60 });
+
+describe('SyncOutbox', () => {
+  beforeEach(async () => {
+    await Outbox.resetOutbox();
+  });
+
+  it('should deliver queued operations in order and remove them', async () => {
+    const delivered: string[] = [];
+    Outbox.registerOutboxHandler('session.close', async (payload) => {
+      delivered.push(payload.id);
+      return 'done';
+    });
+
+    await Outbox.enqueue('session.close', sessionClose('a'));
+    await Outbox.enqueue('session.close', sessionClose('b'));
+    await Outbox.flushOutbox();
+
+    expect(delivered).toEqual(['a', 'b']);
+    expect(await Outbox.getOperations()).toHaveLength(0);
+    expect(Outbox.getOutboxCounts()).toEqual({ pending: 0, failed: 0 });
+  });
+
+  it('should keep operations pending and stop on a retryable error', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('Failed to fetch'));
+    Outbox.registerOutboxHandler('session.close', handler);
+
+    await Outbox.enqueue('session.close', sessionClose('a'));
+    await Outbox.enqueue('session.close', sessionClose('b'));
+    await Outbox.flushOutbox();
+
+    const ops = await Outbox.getOperations();
+    expect(ops.map((op) => op.status)).toEqual(['pending', 'pending']);
+    expect(ops[0].lastError).toBe('Failed to fetch');
+    // The second operation must wait for the first one
+    expect(handler.mock.calls.every(([payload]) => payload.id === 'a')).toBe(true);
+  });
+
+  it('should park permanently failing operations and continue with the rest', async () => {
+    const delivered: string[] = [];
+    Outbox.registerOutboxHandler('session.close', async (payload) => {
+      if (payload.id === 'a') return { failed: 'Rejected' };
+      delivered.push(payload.id);
+      return 'done';
+    });
+
+    await Outbox.enqueue('session.close', sessionClose('a'));
+    await Outbox.enqueue('session.close', sessionClose('b'));
+    await Outbox.flushOutbox();
+
+    expect(delivered).toEqual(['b']);
+    expect(Outbox.getOutboxCounts()).toEqual({ pending: 0, failed: 1 });
+  });
+
+  it('should replay failed operations on retry', async () => {
+    let reject = true;
+    Outbox.registerOutboxHandler('session.close', async () => (reject ? { failed: 'Rejected' } : 'done'));
+
+    await Outbox.enqueue('session.close', sessionClose('a'));
+    await Outbox.flushOutbox();
+    expect(Outbox.getOutboxCounts().failed).toBe(1);
+
+    reject = false;
+    await Outbox.retryFailed();
+    expect(await Outbox.getOperations()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+vi.mock('@/utils/dropdownStorage', () => ({
+  getDropdownData: vi.fn(() => ({ tasks: [{ category: 'Cached', subCategory: 'Task', aht: 10 }] })),
+  updateTasks: vi.fn()
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { updateTasks } from '@/utils/dropdownStorage';
+import { getActiveTasks, getTaskCatalog, saveTasks } from '../TaskService';
+
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const row = {
+  id: 'task-1',
+  category: 'Technical',
+  subcategory: 'Bug Fixing',
+  aht: 90,
+  team: 'All Teams',
+  status: 'active',
+  type: 'indirect',
+  description: null,
+  priority: 'high',
+  created_by: 'admin@company.com',
+  created_at: '2026-10-19T10:00:00Z',
+  updated_at: '2026-10-19T10:00:00Z'
+};
+
+const mockSelect = (result: { data: unknown; error: unknown }) => {
+  const query = { select: vi.fn(), order: vi.fn() };
+  query.select.mockReturnValue(query);
+  query.order.mockReturnValueOnce(query).mockResolvedValueOnce(result);
+  from.mockReturnValue(query);
+};
+
+describe('TaskService', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    from.mockReset();
+  });
+
+  it('should send drafts with database column names', async () => {
+    rpc.mockResolvedValue({ data: [row], error: null });
+
+    const saved = await saveTasks([{
+      category: 'Technical',
+      subCategory: 'Bug Fixing',
+      aht: 90,
+      team: 'All Teams',
+      status: 'active',
+      type: 'indirect'
+    }], 'ADMIN01');
+
+    expect(rpc).toHaveBeenCalledWith('save_tasks', {
+      p_actor: 'ADMIN01',
+      p_tasks: [expect.objectContaining({ category: 'Technical', subcategory: 'Bug Fixing', aht: 90 })]
+    });
+    expect(saved[0]).toMatchObject({ id: 'task-1', subCategory: 'Bug Fixing', type: 'indirect', createdAt: '2026-10-19' });
+  });
+
+  it('should throw when the server refuses the change', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Only admins can change the task catalog' } });
+
+    await expect(saveTasks([], 'EMP01')).rejects.toThrow('Only admins');
+  });
+
+  it('should keep the loaded catalog for offline use', async () => {
+    const catalog = [{ category: 'Technical', subCategory: 'Bug Fixing', aht: 90, type: 'indirect', status: 'active' }];
+    mockSelect({ data: [row], error: null });
+
+    expect(await getTaskCatalog()).toEqual(catalog);
+    expect(updateTasks).toHaveBeenCalledWith(catalog);
+  });
+
+  it('should fall back to the last catalog seen when offline', async () => {
+    mockSelect({ data: null, error: { message: 'Failed to fetch' } });
+
+    expect(await getTaskCatalog()).toEqual([{ category: 'Cached', subCategory: 'Task', aht: 10 }]);
+  });
+
+  it('should offer only active tasks for new entries', () => {
+    expect(getActiveTasks([
+      { category: 'A', subCategory: 'One', aht: 5, status: 'inactive' },
+      { category: 'A', subCategory: 'Two', aht: 5 }
+    ]).map(task => task.subCategory)).toEqual(['Two']);
+  });
+});
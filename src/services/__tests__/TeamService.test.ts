@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getSubtreeIds, getTeamMemberships, getTeamPath, saveTeam, Team } from '../TeamService';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+const rpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+const team = (id: string, name: string, parentId: string | null = null): Team => ({
+  id, name, parentId, managerId: null, isActive: true, idleThresholdMinutes: 15
+});
+
+describe('TeamService', () => {
+  const teams = [
+    team('support', 'Support'),
+    team('tier-1', 'Tier 1', 'support'),
+    team('tier-2', 'Tier 2', 'support'),
+    team('escalations', 'Escalations', 'tier-2'),
+    team('ci', 'CI')
+  ];
+
+  it('should include every team below the root', () => {
+    expect(getSubtreeIds(teams, 'support')).toEqual(['support', 'tier-1', 'tier-2', 'escalations']);
+    expect(getSubtreeIds(teams, 'ci')).toEqual(['ci']);
+  });
+
+  it('should name a team with its parents', () => {
+    expect(getTeamPath(teams, 'escalations')).toBe('Support / Tier 2 / Escalations');
+    expect(getTeamPath(teams, 'unknown')).toBe('');
+  });
+
+  it('should list current members before past ones', async () => {
+    from.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          order: vi.fn().mockResolvedValue({
+            data: [
+              { employee_id: 'e1', team_id: 'support', valid_from: '2026-10-01', valid_to: '2026-10-15', employees: { full_name: 'Jane Doe', employee_id: 'EMP001' } },
+              { employee_id: 'e2', team_id: 'support', valid_from: '2026-01-01', valid_to: null, employees: { full_name: null, employee_id: 'EMP002' } }
+            ],
+            error: null
+          })
+        })
+      })
+    });
+
+    expect(await getTeamMemberships('support')).toEqual([
+      { employeeId: 'e2', employeeName: 'EMP002', teamId: 'support', validFrom: '2026-01-01', validTo: null },
+      { employeeId: 'e1', employeeName: 'Jane Doe', teamId: 'support', validFrom: '2026-10-01', validTo: '2026-10-15' }
+    ]);
+  });
+
+  it('should surface save errors', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'A team cannot be placed under itself or one of its sub-teams' } });
+
+    await expect(saveTeam({ ...team('support', 'Support'), parentId: 'tier-1' }, 'EMP001'))
+      .rejects.toThrow('A team cannot be placed under itself');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { getTicketChanges } from '../TicketCorrectionService';
+import type { TicketHistoryEntry } from '../UserStatsService';
+
+const entry: TicketHistoryEntry = {
+  id: 'ticket-1',
+  submission_date: '2026-10-19',
+  ticket_number: 'T-1',
+  university: '',
+  domain: '',
+  category: 'Technical',
+  subcategory: 'Bug Fixing',
+  activity_type: 'BAU',
+  task_name: 'Technical - Bug Fixing',
+  status: 'Completed',
+  time_logged_seconds: 600,
+  comments: '',
+  created_at: '2026-10-19T10:00:00Z',
+  submission_id: 'sub-1',
+  approval_status: 'submitted',
+  review_comment: null
+};
+
+const draft = {
+  ticket_number: 'T-1',
+  category: 'Technical',
+  subcategory: 'Bug Fixing',
+  status: 'Completed',
+  time_logged_seconds: 600,
+  comments: ''
+};
+
+describe('TicketCorrectionService', () => {
+  describe('getTicketChanges', () => {
+    it('should return nothing when the draft matches the ticket', () => {
+      expect(getTicketChanges(entry, draft)).toEqual({});
+    });
+
+    it('should return only the changed fields', () => {
+      expect(getTicketChanges(entry, { ...draft, ticket_number: 'T-11', time_logged_seconds: 900 })).toEqual({
+        ticket_number: 'T-11',
+        time_logged_seconds: 900
+      });
+    });
+
+    it('should ignore surrounding whitespace', () => {
+      expect(getTicketChanges(entry, { ...draft, ticket_number: ' T-1 ', comments: '  ' })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { buildTicketLifecycle, findUnfinishedTickets, getUnfinishedTickets, toLifecycleEntry, LifecycleEntry, TicketLifecycleData } from '../TicketLifecycleService';
+import { toSubmissionRow } from '../TimesheetSubmissionService';
+
+const HOUR = 3_600_000;
+
+// Submitted at 17:00 local time on the work date
+const entry = (submissionDate: string, status: string, overrides: Partial<LifecycleEntry> = {}): LifecycleEntry => {
+  const [year, month, day] = submissionDate.split('-').map(Number);
+  return {
+    id: `${submissionDate}-${status}`,
+    userId: 'EMP001',
+    submissionDate,
+    createdAt: new Date(year, month - 1, day, 17).toISOString(),
+    status,
+    category: 'Technical',
+    subCategory: 'Bug Fixing',
+    timeLoggedSeconds: 1800,
+    comments: null,
+    receivedAt: null,
+    ...overrides
+  };
+};
+
+const data = (entries: LifecycleEntry[], overrides: Partial<TicketLifecycleData> = {}): TicketLifecycleData => ({
+  entries,
+  spans: [],
+  names: { EMP001: 'Jane Doe', EMP002: 'Ann Poe' },
+  ...overrides
+});
+
+type CarryOverRow = Parameters<typeof findUnfinishedTickets>[0][number];
+
+const historyRow = (ticketNumber: string, submissionDate: string, status: string, overrides: Partial<CarryOverRow> = {}): CarryOverRow => ({
+  id: `${ticketNumber}-${submissionDate}`,
+  ticket_number: ticketNumber,
+  university: 'MIT',
+  domain: 'mit.edu',
+  client_type: 'Premium',
+  category: 'Technical',
+  subcategory: 'Bug Fixing',
+  activity_type: 'Development',
+  task_name: 'Fix login',
+  status,
+  received_date: null,
+  submission_date: submissionDate,
+  created_at: `${submissionDate}T17:00:00.000Z`,
+  time_logged_seconds: 1800,
+  ticket_seconds: 1800,
+  ...overrides
+});
+
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour).getTime();
+
+describe('TicketLifecycleService', () => {
+  describe('buildTicketLifecycle', () => {
+    it('should record status changes in the order they were logged', () => {
+      const lifecycle = buildTicketLifecycle('T-1', data([
+        entry('2025-01-15', 'On Hold - Client'),
+        entry('2025-01-13', 'WIP'),
+        entry('2025-01-14', 'WIP'),
+        entry('2025-01-16', 'Completed')
+      ]), at(20, 9));
+
+      expect(lifecycle.transitions.map(transition => [transition.from, transition.status])).toEqual([
+        [null, 'WIP'],
+        ['WIP', 'On Hold - Client'],
+        ['On Hold - Client', 'Completed']
+      ]);
+      expect(lifecycle.currentStatus).toBe('Completed');
+      expect(lifecycle.completedAt).toBe(at(16, 17));
+    });
+
+    it('should add up time on hold per hold status until the next change', () => {
+      const lifecycle = buildTicketLifecycle('T-1', data([
+        entry('2025-01-13', 'On Hold - Client'),
+        entry('2025-01-14', 'WIP'),
+        entry('2025-01-15', 'On Hold - Dev')
+      ]), at(16, 5));
+
+      expect(lifecycle.holdSeconds).toEqual({
+        'On Hold - Client': 24 * 3600,
+        'On Hold - Dev': 12 * 3600
+      });
+      expect(lifecycle.totalHoldSeconds).toBe(36 * 3600);
+      expect(lifecycle.completedAt).toBeNull();
+    });
+
+    it('should total effort per contributor across days', () => {
+      const lifecycle = buildTicketLifecycle('T-1', data([
+        entry('2025-01-13', 'WIP'),
+        entry('2025-01-14', 'WIP', { id: 'b', userId: 'EMP002', timeLoggedSeconds: 3600 }),
+        entry('2025-01-15', 'WIP', { id: 'c', timeLoggedSeconds: 600 })
+      ]), at(16, 9));
+
+      expect(lifecycle.totalSeconds).toBe(6000);
+      expect(lifecycle.contributors).toEqual([
+        { userId: 'EMP002', name: 'Ann Poe', seconds: 3600, days: 1, lastWorkedOn: '2025-01-14' },
+        { userId: 'EMP001', name: 'Jane Doe', seconds: 2400, days: 2, lastWorkedOn: '2025-01-15' }
+      ]);
+    });
+
+    it('should put timer sessions on their day, including days not submitted yet', () => {
+      const lifecycle = buildTicketLifecycle('T-1', data([entry('2025-01-13', 'WIP')], {
+        spans: [
+          { userId: 'EMP001', workDate: '2025-01-13', startAt: at(13, 9), endAt: at(13, 10) },
+          { userId: 'EMP001', workDate: '2025-01-13', startAt: at(13, 14), endAt: at(13, 15) },
+          { userId: 'EMP001', workDate: '2025-01-14', startAt: at(14, 9), endAt: null }
+        ]
+      }), at(14, 11));
+
+      expect(lifecycle.days.map(day => [day.date, day.entries.length, day.sessionCount])).toEqual([
+        ['2025-01-13', 1, 2],
+        ['2025-01-14', 0, 1]
+      ]);
+      expect(lifecycle.days[0].firstStartAt).toBe(at(13, 9));
+      expect(lifecycle.days[0].lastEndAt).toBe(at(13, 15));
+      expect(lifecycle.days[1].lastEndAt).toBe(at(14, 11));
+    });
+
+    it('should take the earliest received date', () => {
+      const lifecycle = buildTicketLifecycle('T-1', data([
+        entry('2025-01-13', 'WIP', { receivedAt: new Date(at(12, 8)).toISOString() }),
+        entry('2025-01-14', 'WIP', { id: 'b', receivedAt: new Date(at(13, 8)).toISOString() })
+      ]));
+
+      expect(lifecycle.receivedAt).toBe(at(12, 8));
+    });
+
+    it('should follow the statuses submitted from the timesheet', () => {
+      // ticket_history rows as submit_timesheet stores the submitted rows
+      const submitted = [['2025-01-13', 'WIP'], ['2025-01-14', 'On Hold - Client'], ['2025-01-15', 'Completed']]
+        .map(([date, status]) => {
+          const row = toSubmissionRow({ ticketNumber: 'T-1', category: 'Technical', status, totalTime: 1800 });
+          return toLifecycleEntry({
+            id: date,
+            user_id: 'EMP001',
+            submission_date: date,
+            created_at: new Date(at(Number(date.slice(-2)), 17)).toISOString(),
+            status: row.status,
+            category: row.category,
+            subcategory: row.subcategory,
+            time_logged_seconds: row.time_logged_seconds,
+            comments: row.comments,
+            received_date: null
+          });
+        });
+
+      const lifecycle = buildTicketLifecycle('T-1', data(submitted), at(20, 9));
+
+      expect(lifecycle.transitions.map(transition => transition.status)).toEqual(['WIP', 'On Hold - Client', 'Completed']);
+      expect(lifecycle.holdSeconds).toEqual({ 'On Hold - Client': 24 * 3600 });
+      expect(lifecycle.completedAt).toBe(at(15, 17));
+    });
+  });
+
+  describe('findUnfinishedTickets', () => {
+    it('should offer tickets last left in progress or on hold', () => {
+      const tickets = findUnfinishedTickets([
+        historyRow('T-1', '2025-01-14', 'WIP'),
+        historyRow('T-2', '2025-01-13', 'On Hold - Client'),
+        historyRow('T-3', '2025-01-14', 'Completed'),
+        historyRow('T-4', '2025-01-13', 'WIP'),
+        historyRow('T-4', '2025-01-14', 'Completed')
+      ], '2025-01-15');
+
+      expect(tickets.map(ticket => [ticket.ticketNumber, ticket.status, ticket.lastWorkedOn])).toEqual([
+        ['T-1', 'WIP', '2025-01-14'],
+        ['T-2', 'On Hold - Client', '2025-01-13']
+      ]);
+    });
+
+    it('should skip tickets that already have a row on the work date', () => {
+      expect(findUnfinishedTickets([
+        historyRow('T-1', '2025-01-14', 'WIP'),
+        historyRow('T-1', '2025-01-15', 'WIP')
+      ], '2025-01-15')).toEqual([]);
+    });
+
+    it('should link to the latest row and carry the time logged on the ticket', () => {
+      const [ticket] = findUnfinishedTickets([
+        historyRow('T-1', '2025-01-13', 'WIP', { time_logged_seconds: 600, ticket_seconds: 600 }),
+        historyRow('T-1', '2025-01-14', 'On Hold - Dev', { task_name: 'Fix logout', time_logged_seconds: 1200, ticket_seconds: 9000 })
+      ], '2025-01-15');
+
+      expect(ticket.ticketHistoryId).toBe('T-1-2025-01-14');
+      expect(ticket.status).toBe('On Hold - Dev');
+      expect(ticket.taskName).toBe('Fix logout');
+      expect(ticket.totalSeconds).toBe(9000);
+    });
+  });
+
+  describe('getUnfinishedTickets', () => {
+    it('should offer tickets however long ago they were last worked on', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: [historyRow('T-1', '2024-06-03', 'WIP', { ticket_seconds: 7200 })],
+        error: null
+      } as never);
+
+      const tickets = await getUnfinishedTickets('EMP001', '2025-01-15');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_carry_over_tickets', { p_user_key: 'EMP001', p_work_date: '2025-01-15' });
+      expect(tickets.map(ticket => [ticket.ticketNumber, ticket.lastWorkedOn, ticket.totalSeconds])).toEqual([
+        ['T-1', '2024-06-03', 7200]
+      ]);
+    });
+  });
+});
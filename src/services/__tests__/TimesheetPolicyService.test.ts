@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAllowedWorkDates, getSubmitBlocker, getTimesheetPolicy } from '../TimesheetPolicyService';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+describe('TimesheetPolicyService', () => {
+  const policy = { backdateDays: 3, forwardDays: 7 };
+
+  it('should allow dates from the backdating window up to the planning window', () => {
+    expect(getAllowedWorkDates(policy, '2026-10-01')).toEqual({ min: '2026-09-28', max: '2026-10-08' });
+  });
+
+  it('should allow submitting today and days within the backdating window', () => {
+    expect(getSubmitBlocker('2026-10-19', policy, '2026-10-19')).toBeNull();
+    expect(getSubmitBlocker('2026-10-16', policy, '2026-10-19')).toBeNull();
+  });
+
+  it('should block submitting planned days and days outside the window', () => {
+    expect(getSubmitBlocker('2026-10-20', policy, '2026-10-19')).toMatch(/Planned days/);
+    expect(getSubmitBlocker('2026-10-15', policy, '2026-10-19')).toMatch(/last 3 day/);
+  });
+
+  it('should fall back to the default policy when a role has none', async () => {
+    from.mockReturnValue({
+      select: vi.fn().mockResolvedValue({ data: [{ role: 'admin', backdate_days: 30, forward_days: 14 }], error: null })
+    });
+
+    expect(await getTimesheetPolicy('admin')).toEqual({ role: 'admin', backdateDays: 30, forwardDays: 14 });
+    expect(await getTimesheetPolicy('team-member')).toEqual({ role: 'team-member', backdateDays: 3, forwardDays: 7 });
+  });
+});
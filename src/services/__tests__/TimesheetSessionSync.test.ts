@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+vi.mock('../SyncOutbox', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../SyncOutbox')>(),
+  enqueue: vi.fn(),
+  registerOutboxHandler: vi.fn()
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { registerOutboxHandler } from '../SyncOutbox';
+import type { OutboxHandlerResult, OutboxOperation, SessionWritePayload } from '../SyncOutbox';
+import * as TimerStore from '../PerformanceTimerService';
+import { applyPendingSessionOps, saveSessionEdits } from '../TimesheetSessionSync';
+import type { EditableSpan } from '@/utils/sessionSpans';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const insertHandler = vi.mocked(registerOutboxHandler).mock.calls
+  .find(([kind]) => kind === 'session.insert')![1] as (payload: SessionWritePayload) => Promise<OutboxHandlerResult>;
+
+// Upsert that resolves to the given error
+const upsertResult = (error: unknown) => ({ upsert: () => Promise.resolve({ error }) });
+
+const span: EditableSpan = {
+  id: 'span-1',
+  taskId: 'task-1',
+  workDate: '2026-10-19',
+  kind: 'work',
+  startAt: Date.UTC(2026, 9, 19, 9, 0),
+  endAt: Date.UTC(2026, 9, 19, 9, 30),
+  source: 'manual'
+};
+
+const payload = { id: 'span-1' } as SessionWritePayload;
+
+describe('TimesheetSessionSync', () => {
+  beforeEach(() => {
+    TimerStore.destroy();
+    from.mockReset();
+  });
+
+  describe('saveSessionEdits', () => {
+    it('should keep the time of an edit the server accepted', async () => {
+      await saveSessionEdits('EMP001234', [], [span]);
+      from.mockReturnValue(upsertResult(null));
+
+      expect(await insertHandler(payload)).toBe('done');
+      expect(TimerStore.getCurrentTime('task-1')).toBe(30 * 60);
+    });
+
+    it('should take the time back off the timer when the server refuses the edit', async () => {
+      await saveSessionEdits('EMP001234', [], [span]);
+      expect(TimerStore.getCurrentTime('task-1')).toBe(30 * 60);
+      from.mockReturnValue(upsertResult({ message: 'Time span overlaps another recorded span', code: 'P0001' }));
+
+      expect(await insertHandler(payload)).toEqual({ failed: 'Time span overlaps another recorded span' });
+      expect(TimerStore.getCurrentTime('task-1')).toBe(0);
+    });
+  });
+
+  describe('applyPendingSessionOps', () => {
+    it('should leave out operations the server refused', () => {
+      const op = (id: string, status: OutboxOperation['status']): OutboxOperation => ({
+        kind: 'session.insert',
+        payload: { id, task_id: 'task-1', employee_id: 'EMP001234', span_type: 'work', source: 'manual', start_at: '2026-10-19T09:00:00.000Z', end_at: '2026-10-19T09:30:00.000Z', duration_seconds: 1800, work_date: '2026-10-19' },
+        status,
+        attempts: 0,
+        lastError: null,
+        createdAt: '2026-10-19T09:31:00.000Z'
+      });
+
+      const rows = applyPendingSessionOps([], [op('a', 'pending'), op('b', 'failed')], 'EMP001234');
+
+      expect(rows.map(row => row.id)).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+vi.mock('../SyncOutbox', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../SyncOutbox')>(),
+  registerOutboxHandler: vi.fn()
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { registerOutboxHandler } from '../SyncOutbox';
+import type { OutboxHandlerResult, TimesheetSubmitPayload } from '../SyncOutbox';
+import {
+  removeAlreadySubmitted,
+  isNetworkError,
+  toHandlerResult,
+  toSubmissionRow,
+  SubmissionRow,
+  TimesheetEntry
+} from '../TimesheetSubmissionService';
+
+const from = supabase.from as unknown as ReturnType<typeof vi.fn>;
+
+const submitHandler = vi.mocked(registerOutboxHandler).mock.calls
+  .find(([kind]) => kind === 'timesheet.submit')![1] as (payload: TimesheetSubmitPayload) => Promise<OutboxHandlerResult>;
+
+// A query builder whose every step chains and which resolves to the given result
+const query = (result: { data: unknown; error: unknown }) => {
+  const builder: Record<string, unknown> = {};
+  ['select', 'eq', 'in', 'maybeSingle'].forEach(method => {
+    builder[method] = () => builder;
+  });
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+};
+
+const row = (overrides: Partial<SubmissionRow> = {}): SubmissionRow => ({
+  ticket_number: 'T-1',
+  university: '',
+  domain: '',
+  category: 'Technical',
+  subcategory: 'Bug Fixing',
+  activity_type: 'BAU',
+  task_name: 'Technical - Bug Fixing',
+  client_type: 'Standard',
+  status: 'Completed',
+  received_date: '2025-01-01T09:00:00.000Z',
+  ticket_count: 1,
+  time_logged_seconds: 600,
+  comments: '',
+  ...overrides
+});
+
+describe('TimesheetSubmissionService', () => {
+  describe('toSubmissionRow', () => {
+    const entry = (overrides: Partial<TimesheetEntry> = {}): TimesheetEntry => ({
+      ticketNumber: 'T-1',
+      category: 'Technical',
+      subCategory: 'Bug Fixing',
+      status: 'WIP',
+      receivedDate: '2025-01-15T09:30',
+      totalTime: 900,
+      ...overrides
+    });
+
+    it('should keep the status picked for the row', () => {
+      expect(toSubmissionRow(entry()).status).toBe('WIP');
+      expect(toSubmissionRow(entry({ status: 'On Hold - Client' })).status).toBe('On Hold - Client');
+    });
+
+    it('should fall back to Completed only when the row has no status', () => {
+      expect(toSubmissionRow(entry({ status: '' })).status).toBe('Completed');
+    });
+
+    it('should link a carried-over row to the ticket it continues', () => {
+      const submitted = toSubmissionRow(entry({ continuedFrom: 'history-1' }));
+
+      expect(submitted.continued_from).toBe('history-1');
+      expect(submitted.time_logged_seconds).toBe(900);
+      expect(submitted.received_date).toBe(new Date(2025, 0, 15, 9, 30).toISOString());
+      expect(toSubmissionRow(entry()).continued_from).toBeNull();
+    });
+  });
+
+  describe('removeAlreadySubmitted', () => {
+    it('should drop rows that already exist in ticket_history', () => {
+      const rows = [row(), row({ ticket_number: 'T-2' })];
+      const existing = [{ ticket_number: 'T-1', category: 'Technical', subcategory: 'Bug Fixing', time_logged_seconds: 600 }];
+
+      expect(removeAlreadySubmitted(rows, existing).map((r) => r.ticket_number)).toEqual(['T-2']);
+    });
+
+    it('should keep rows for the same ticket with different logged time', () => {
+      const existing = [{ ticket_number: 'T-1', category: 'Technical', subcategory: 'Bug Fixing', time_logged_seconds: 300 }];
+
+      expect(removeAlreadySubmitted([row()], existing)).toHaveLength(1);
+    });
+
+    it('should match each stored ticket to at most one queued row', () => {
+      const existing = [{ ticket_number: 'T-1', category: 'Technical', subcategory: 'Bug Fixing', time_logged_seconds: 600 }];
+
+      expect(removeAlreadySubmitted([row(), row()], existing)).toHaveLength(1);
+    });
+  });
+
+  describe('isNetworkError', () => {
+    it('should treat errors without a Postgres code as network errors', () => {
+      expect(isNetworkError({ message: 'TypeError: Failed to fetch', code: '' })).toBe(true);
+      expect(isNetworkError({ message: 'payload.rows must be a non-empty array', code: 'P0001' })).toBe(false);
+    });
+  });
+
+  describe('toHandlerResult', () => {
+    it('should retry network errors and park errors the server returned', () => {
+      expect(toHandlerResult(null)).toBe('done');
+      expect(toHandlerResult({ message: 'permission denied', code: '42501' } as { message: string })).toEqual({ failed: 'permission denied' });
+      expect(() => toHandlerResult({ message: 'Failed to fetch' })).toThrow();
+    });
+  });
+
+  describe('timesheet.submit handler', () => {
+    beforeEach(() => {
+      from.mockReset();
+    });
+
+    const submission = {
+      idempotency_key: 'key-1',
+      payload: { user_id: 'EMP001234', submission_date: '2025-01-15', rows: [row()] }
+    } as TimesheetSubmitPayload;
+
+    it('should park the submission when the duplicate lookup is refused', async () => {
+      from.mockReturnValue(query({ data: null, error: { message: 'permission denied', code: '42501' } }));
+
+      expect(await submitHandler(submission)).toEqual({ failed: 'permission denied' });
+    });
+
+    it('should park the submission when its own earlier attempt cannot be looked up', async () => {
+      from
+        .mockReturnValueOnce(query({ data: [], error: null }))
+        .mockReturnValueOnce(query({ data: null, error: { message: 'permission denied', code: '42501' } }));
+
+      expect(await submitHandler(submission)).toEqual({ failed: 'permission denied' });
+    });
+
+    it('should retry when the lookup cannot reach the server', async () => {
+      from.mockReturnValue(query({ data: null, error: { message: 'TypeError: Failed to fetch', code: '' } }));
+
+      await expect(submitHandler(submission)).rejects.toMatchObject({ message: 'TypeError: Failed to fetch' });
+    });
+  });
+});
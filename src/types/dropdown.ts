@@ -3,6 +3,8 @@ export interface TaskWithAHT {
   category: string;
   subCategory: string;
   aht: number; // in minutes
+  type?: "direct" | "indirect"; // direct work is billable
+  status?: "active" | "inactive"; // inactive tasks cannot be picked for new entries
 }
 
 export interface University {
@@ -29,6 +31,20 @@ export interface DropdownData {
   clientTypes: ClientType[];
   stubs: StubName[];
   tasks: TaskWithAHT[];
+  version?: number; // published list version the lists were loaded from
+}
+
+// The lists that are versioned together; tasks have their own catalog
+export type DropdownLists = Pick<DropdownData, 'universities' | 'domains' | 'clientTypes' | 'stubs'>;
+
+export interface DropdownListVersion {
+  version: number;
+  status: 'draft' | 'published';
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  publishedBy: string | null;
+  publishedAt: string | null;
+  lists: DropdownLists;
 }
 
 export interface BulkUploadError {
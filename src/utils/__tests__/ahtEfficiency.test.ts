@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAhtEfficiency, calculateBillableSeconds, getTargetSeconds } from '../ahtEfficiency';
+import type { TaskWithAHT } from '@/types/dropdown';
+
+const catalog: TaskWithAHT[] = [
+  { category: 'Support', subCategory: 'Email', aht: 10, type: 'direct' },
+  { category: 'Support', subCategory: 'Phone', aht: 15 },
+  { category: 'Internal', subCategory: 'Training', aht: 60, type: 'indirect' }
+];
+
+const ticket = (subCategory: string, minutes: number, ticketCount = 1, category = 'Support') => ({
+  category,
+  subCategory,
+  timeLoggedSeconds: minutes * 60,
+  ticketCount
+});
+
+describe('ahtEfficiency', () => {
+  it('should scale the target by the ticket count', () => {
+    expect(getTargetSeconds(ticket('Email', 25, 3), catalog)).toBe(30 * 60);
+    expect(getTargetSeconds(ticket('Chat', 25), catalog)).toBeNull();
+  });
+
+  it('should compare target time with actual time, weighted by ticket count', () => {
+    // Targets: 3 x 10 min + 15 min = 45 min; actual: 30 + 30 = 60 min
+    expect(calculateAhtEfficiency([ticket('Email', 30, 3), ticket('Phone', 30)], catalog)).toBe(75);
+  });
+
+  it('should report faster than target work above 100%', () => {
+    expect(calculateAhtEfficiency([ticket('Email', 5)], catalog)).toBe(200);
+  });
+
+  it('should ignore tickets without a target or without logged time', () => {
+    expect(calculateAhtEfficiency([ticket('Email', 10), ticket('Chat', 90), ticket('Phone', 0)], catalog)).toBe(100);
+    expect(calculateAhtEfficiency([ticket('Chat', 90)], catalog)).toBe(0);
+  });
+
+  it('should count direct and untyped tasks as billable', () => {
+    const tickets = [ticket('Email', 10), ticket('Phone', 20), ticket('Training', 60, 1, 'Internal'), ticket('Chat', 5)];
+    expect(calculateBillableSeconds(tickets, catalog)).toBe(30 * 60);
+  });
+});
@@ -9,7 +9,13 @@ import {
   getDateBoundaries,
   formatFilterMode,
   getFilterCacheKey,
-  toUTCBoundary
+  toUTCBoundary,
+  toWorkDate,
+  fromWorkDate,
+  addDaysToWorkDate,
+  getWeekWorkDates,
+  toDateTimeInput,
+  fromDateTimeInput
 } from '../dateHelpers';
 
 describe('dateHelpers', () => {
@@ -190,4 +196,39 @@ describe('dateHelpers', () => {
       expect(utcBoundary.getTime()).not.toBe(localDate.getTime());
     });
   });
-});
\ No newline at end of file
+
+  describe('work dates', () => {
+    it('should format the local calendar date', () => {
+      expect(toWorkDate(new Date(2025, 0, 5, 23, 59))).toBe('2025-01-05');
+      expect(fromWorkDate('2025-01-05').getTime()).toBe(new Date(2025, 0, 5).getTime());
+    });
+
+    it('should add days across month boundaries', () => {
+      expect(addDaysToWorkDate('2025-01-31', 1)).toBe('2025-02-01');
+      expect(addDaysToWorkDate('2025-03-01', -1)).toBe('2025-02-28');
+    });
+
+    it('should list Monday to Sunday of the week', () => {
+      expect(getWeekWorkDates('2025-01-15')).toEqual([
+        '2025-01-13', '2025-01-14', '2025-01-15', '2025-01-16', '2025-01-17', '2025-01-18', '2025-01-19'
+      ]);
+      expect(getWeekWorkDates('2025-01-19')[0]).toBe('2025-01-13');
+    });
+  });
+
+  describe('date time inputs', () => {
+    it('should round trip local date and time', () => {
+      expect(toDateTimeInput(new Date(2025, 0, 5, 9, 7, 42))).toBe('2025-01-05T09:07');
+      expect(fromDateTimeInput('2025-01-05T09:07')?.getTime()).toBe(new Date(2025, 0, 5, 9, 7).getTime());
+    });
+
+    it('should read a bare work date as local midnight', () => {
+      expect(fromDateTimeInput('2025-01-05')?.getTime()).toBe(new Date(2025, 0, 5).getTime());
+    });
+
+    it('should return null for empty or unreadable values', () => {
+      expect(fromDateTimeInput('')).toBeNull();
+      expect(fromDateTimeInput('yesterday')).toBeNull();
+    });
+  });
+});
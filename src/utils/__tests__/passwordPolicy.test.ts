@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getPasswordStrength, isStrongPassword } from '../passwordPolicy';
+
+describe('passwordPolicy', () => {
+  it('should list every rule a password misses', () => {
+    expect(getPasswordStrength('abc')).toEqual({
+      strength: 20,
+      feedback: ['At least 8 characters', 'Uppercase letter', 'Number', 'Special character (@$!%*?&)']
+    });
+  });
+
+  it('should accept a password that meets all rules', () => {
+    expect(getPasswordStrength('Summer2026!')).toEqual({ strength: 100, feedback: [] });
+    expect(isStrongPassword('Summer2026!')).toBe(true);
+  });
+
+  it('should only count the special characters the server accepts', () => {
+    expect(isStrongPassword('Summer2026#')).toBe(false);
+  });
+});
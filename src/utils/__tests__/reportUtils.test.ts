@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() }
+}));
+
+vi.mock('@/services/TaskService', () => ({
+  getTaskCatalog: vi.fn().mockResolvedValue([])
+}));
+
+vi.mock('@/services/ScheduleService', () => ({
+  getScheduleCalendar: vi.fn().mockResolvedValue({}),
+  getExpectedWork: vi.fn().mockReturnValue({ seconds: 0, days: 0 })
+}));
+
+vi.mock('../userUtils', () => ({
+  getDisplayNames: vi.fn().mockResolvedValue({})
+}));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getSupabaseReportData } from '../reportUtils';
+
+// A query builder over the given rows that applies eq filters and ignores the others
+const query = (rows: Record<string, unknown>[]) => {
+  let result = rows;
+  const builder: Record<string, unknown> = {};
+  ['select', 'gte', 'lte', 'in', 'order'].forEach(method => {
+    builder[method] = () => builder;
+  });
+  builder.eq = (column: string, value: unknown) => {
+    result = result.filter(row => row[column] === value);
+    return builder;
+  };
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve({ data: result, error: null }).then(resolve);
+  return builder;
+};
+
+const session = (id: string, spanType: 'work' | 'break', minutes: number) => ({
+  id,
+  task_id: 'task-1',
+  span_type: spanType,
+  start_at: '2026-10-19T09:00:00.000Z',
+  end_at: '2026-10-19T10:00:00.000Z',
+  duration_seconds: minutes * 60,
+  work_date: '2026-10-19',
+  user_id: null,
+  employee_id: 'EMP001234'
+});
+
+describe('reportUtils', () => {
+  it('should leave break spans out of the logged hours', async () => {
+    const sessions = [session('s1', 'work', 60), session('s2', 'break', 30)];
+    vi.mocked(supabase.from).mockImplementation(((table: string) =>
+      query(table === 'timesheet_sessions' ? sessions : [])) as unknown as typeof supabase.from);
+
+    const report = await getSupabaseReportData({
+      mode: 'custom-range',
+      startDate: new Date('2026-10-19T00:00:00'),
+      endDate: new Date('2026-10-19T23:59:59')
+    });
+
+    expect(report.timeSummary.totalHours).toBe(1);
+    expect(report.employees).toEqual([expect.objectContaining({ totalHours: 1, tasks: 1 })]);
+  });
+});
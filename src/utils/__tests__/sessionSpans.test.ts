@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EditableSpan,
+  diffSpans,
+  findFreeSlot,
+  getSpanError,
+  mergeSpans,
+  splitSpan,
+  validateSpans
+} from '../sessionSpans';
+
+const MIN = 60 * 1000;
+const dayStart = Date.UTC(2026, 9, 19, 0, 0, 0);
+const now = dayStart + 12 * 60 * MIN; // noon
+
+const span = (id: string, start: number, end: number | null, overrides: Partial<EditableSpan> = {}): EditableSpan => ({
+  id,
+  taskId: 'task-1',
+  workDate: '2026-10-19',
+  kind: 'work',
+  startAt: dayStart + start * MIN,
+  endAt: end == null ? null : dayStart + end * MIN,
+  source: 'timer',
+  ...overrides
+});
+
+describe('sessionSpans', () => {
+  describe('getSpanError', () => {
+    it('should accept a span in a free part of the day', () => {
+      expect(getSpanError(span('a', 60, 90), [span('b', 100, 120)], now, dayStart)).toBeNull();
+    });
+
+    it('should reject spans that end before they start', () => {
+      expect(getSpanError(span('a', 90, 60), [], now, dayStart)).toMatch(/after start/);
+    });
+
+    it('should reject spans in the future', () => {
+      expect(getSpanError(span('a', 700, 760), [], now, dayStart)).toMatch(/future/);
+    });
+
+    it('should reject spans outside the work date', () => {
+      expect(getSpanError(span('a', -30, 30), [], now, dayStart)).toMatch(/selected day/);
+      expect(getSpanError(span('a', 60, 90), [], now, dayStart, dayStart + 80 * MIN)).toMatch(/selected day/);
+    });
+
+    it('should reject overlaps, including with a running timer', () => {
+      expect(getSpanError(span('a', 60, 110), [span('b', 100, 120)], now, dayStart)).toMatch(/Overlaps/);
+      expect(getSpanError(span('a', 600, 710), [span('b', 700, null)], now, dayStart)).toMatch(/Overlaps/);
+    });
+
+    it('should allow a break during recorded work but not two overlapping breaks', () => {
+      const work = span('w', 60, 180);
+
+      expect(getSpanError(span('b', 90, 120, { kind: 'break' }), [work], now, dayStart)).toBeNull();
+      expect(getSpanError(span('b', 90, 120, { kind: 'break' }), [work, span('c', 100, 110, { kind: 'break' })], now, dayStart)).toMatch(/Overlaps/);
+    });
+
+    it('should allow spans that touch', () => {
+      expect(validateSpans([span('a', 60, 100), span('b', 100, 120)], now, dayStart)).toEqual({});
+    });
+  });
+
+  describe('splitSpan and mergeSpans', () => {
+    it('should split a span at the given time', () => {
+      const parts = splitSpan(span('a', 60, 120), dayStart + 90 * MIN, 'b');
+
+      expect(parts).toEqual([span('a', 60, 90), span('b', 90, 120)]);
+    });
+
+    it('should not split outside the span or an open span', () => {
+      expect(splitSpan(span('a', 60, 120), dayStart + 130 * MIN, 'b')).toBeNull();
+      expect(splitSpan(span('a', 60, null), dayStart + 90 * MIN, 'b')).toBeNull();
+    });
+
+    it('should merge two spans of the same task into one', () => {
+      expect(mergeSpans(span('a', 60, 90), span('b', 100, 120))).toEqual(span('a', 60, 120));
+    });
+
+    it('should not merge spans of different tasks', () => {
+      expect(mergeSpans(span('a', 60, 90), span('b', 100, 120, { taskId: 'task-2' }))).toBeNull();
+    });
+  });
+
+  describe('findFreeSlot', () => {
+    it('should place time right before now when free', () => {
+      expect(findFreeSlot([span('a', 60, 90)], 30 * MIN, now, dayStart)).toEqual({
+        startAt: now - 30 * MIN,
+        endAt: now
+      });
+    });
+
+    it('should skip past a running timer and busy spans', () => {
+      const spans = [span('a', 700, null), span('b', 650, 700), span('c', 500, 640)];
+
+      expect(findFreeSlot(spans, 20 * MIN, now, dayStart)).toEqual({
+        startAt: dayStart + 480 * MIN,
+        endAt: dayStart + 500 * MIN
+      });
+    });
+
+    it('should return null when the day has no room', () => {
+      expect(findFreeSlot([span('a', 0, 720)], 10 * MIN, now, dayStart)).toBeNull();
+    });
+  });
+
+  describe('diffSpans', () => {
+    it('should report deletions, updates and inserts', () => {
+      const before = [span('a', 60, 90), span('b', 100, 120)];
+      const after = [span('a', 60, 80), span('c', 130, 140, { source: 'manual' })];
+
+      expect(diffSpans(before, after)).toEqual({
+        deleted: [span('b', 100, 120)],
+        updated: [span('a', 60, 80)],
+        inserted: [span('c', 130, 140, { source: 'manual' })]
+      });
+    });
+
+    it('should apply shrinking updates before growing ones', () => {
+      const before = [span('a', 60, 90), span('b', 90, 120)];
+      const after = [span('b', 80, 120), span('a', 60, 80)];
+
+      expect(diffSpans(before, after).updated.map((s) => s.id)).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyHeaderMapping,
+  buildWorkbook,
+  parseCsv,
+  readWorkbook,
+  SheetData,
+  suggestHeaderMapping,
+  toCsv
+} from '../spreadsheetUtils';
+
+const report: SheetData = {
+  name: 'Employees',
+  columns: [
+    { header: 'Name' },
+    { header: 'Work Date', type: 'date' },
+    { header: 'Total Time', type: 'duration' },
+    { header: 'Utilization', type: 'percent' }
+  ],
+  rows: [
+    ['Doe, Jane', '2025-01-15', 5400, 87.5],
+    ['Ann "AP" Poe', null, 0, 0]
+  ]
+};
+
+describe('spreadsheetUtils', () => {
+  describe('parseCsv', () => {
+    it('should keep quoted commas, quotes and line breaks inside a cell', () => {
+      expect(parseCsv('Name,Notes\r\n"Doe, Jane","Said ""hi""\nthen left"\n\n')).toEqual([
+        ['Name', 'Notes'],
+        ['Doe, Jane', 'Said "hi"\nthen left']
+      ]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write typed columns as readable text and quote where needed', () => {
+      expect(toCsv([report])).toBe([
+        'Name,Work Date,Total Time,Utilization',
+        '"Doe, Jane",2025-01-15,1:30:00,87.5%',
+        '"Ann ""AP"" Poe",,0:00:00,0%'
+      ].join('\n'));
+    });
+  });
+
+  describe('header mapping', () => {
+    it('should match headers ignoring case, spaces and punctuation', () => {
+      expect(suggestHeaderMapping(['Sub Category', 'AHT', 'Team'], ['sub_category', 'aht', 'Notes'])).toEqual({
+        'Sub Category': 'sub_category',
+        'AHT': 'aht',
+        'Team': ''
+      });
+    });
+
+    it('should read rows by the mapped headers and leave unmapped columns empty', () => {
+      const rows = applyHeaderMapping(
+        { name: 'Sheet1', rows: [['Cat', 'Minutes'], ['Technical', '15'], ['Content']] },
+        { Category: 'Cat', AHT: 'Minutes', Team: '' }
+      );
+
+      expect(rows).toEqual([
+        { Category: 'Technical', AHT: '15', Team: '' },
+        { Category: 'Content', AHT: '', Team: '' }
+      ]);
+    });
+  });
+
+  describe('workbooks', () => {
+    it('should store dates, durations and percentages as typed Excel values', async () => {
+      const workbook = await buildWorkbook([report]);
+      const worksheet = workbook.getWorksheet('Employees')!;
+      const [date, duration, utilization] = [2, 3, 4].map(column => worksheet.getRow(2).getCell(column));
+
+      expect(date.value).toEqual(new Date(Date.UTC(2025, 0, 15)));
+      expect(date.numFmt).toBe('yyyy-mm-dd');
+      expect(duration.value).toBeCloseTo(5400 / 86400);
+      expect(duration.numFmt).toBe('[h]:mm:ss');
+      expect(utilization.value).toBe(0.875);
+      expect(utilization.numFmt).toBe('0.0%');
+    });
+
+    it('should read every sheet of a workbook back as text', async () => {
+      const workbook = await buildWorkbook([report, { name: 'Teams', columns: [{ header: 'Team' }], rows: [['Support']] }]);
+      const sheets = await readWorkbook(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+
+      expect(sheets.map(sheet => sheet.name)).toEqual(['Employees', 'Teams']);
+      expect(sheets[0].rows[0]).toEqual(['Name', 'Work Date', 'Total Time', 'Utilization']);
+      expect(sheets[0].rows[1].slice(0, 2)).toEqual(['Doe, Jane', '2025-01-15']);
+      expect(sheets[1].rows).toEqual([['Team'], ['Support']]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import type { TaskWithAHT } from "@/types/dropdown";
+
+// AHT efficiency and billable time measured against the task catalog.
+// A ticket's target is the task's AHT (minutes per unit) times its ticket count, so
+// efficiency = total target time / total actual time of the tickets that have a target.
+
+export interface LoggedTicket {
+  category: string;
+  subCategory: string;
+  timeLoggedSeconds: number;
+  ticketCount: number;
+}
+
+const findTask = (catalog: TaskWithAHT[], ticket: LoggedTicket) =>
+  catalog.find(task => task.category === ticket.category && task.subCategory === ticket.subCategory);
+
+/**
+ * Target time in seconds for a ticket, or null when its task has no AHT target
+ */
+export const getTargetSeconds = (ticket: LoggedTicket, catalog: TaskWithAHT[]): number | null => {
+  const task = findTask(catalog, ticket);
+  if (!task || !task.aht) return null;
+  return task.aht * 60 * Math.max(1, ticket.ticketCount || 1);
+};
+
+/**
+ * Target time as a percentage of actual time; above 100 means faster than target.
+ * Returns 0 when no ticket can be measured.
+ */
+export const calculateAhtEfficiency = (tickets: LoggedTicket[], catalog: TaskWithAHT[]): number => {
+  let targetSeconds = 0;
+  let actualSeconds = 0;
+
+  tickets.forEach(ticket => {
+    const target = getTargetSeconds(ticket, catalog);
+    if (target == null || ticket.timeLoggedSeconds <= 0) return;
+    targetSeconds += target;
+    actualSeconds += ticket.timeLoggedSeconds;
+  });
+
+  return actualSeconds > 0 ? Number(((targetSeconds / actualSeconds) * 100).toFixed(1)) : 0;
+};
+
+/**
+ * Seconds logged against direct (client) work. Tasks without a type count as direct,
+ * the default for new tasks; tickets of unknown tasks are not billable.
+ */
+export const calculateBillableSeconds = (tickets: LoggedTicket[], catalog: TaskWithAHT[]): number =>
+  tickets.reduce((total, ticket) => {
+    const task = findTask(catalog, ticket);
+    return task && (task.type ?? "direct") === "direct" ? total + ticket.timeLoggedSeconds : total;
+  }, 0);
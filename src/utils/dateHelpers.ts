@@ -34,6 +34,61 @@ export const endOfToday = (): Date => {
   return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
 };
 
+/**
+ * Work date (YYYY-MM-DD) of a moment in the local timezone.
+ * Timesheets, drafts and timer sessions are all kept per work date.
+ */
+export const toWorkDate = (date: Date = new Date()): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Local midnight at the start of a work date
+ */
+export const fromWorkDate = (workDate: string): Date => {
+  const [year, month, day] = workDate.split('-').map(Number);
+  return new Date(year, month - 1, day, 0, 0, 0, 0);
+};
+
+/**
+ * Local date and time of a moment as a datetime-local input value (YYYY-MM-DDTHH:mm)
+ */
+export const toDateTimeInput = (date: Date = new Date()): string => {
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${toWorkDate(date)}T${hours}:${minutes}`;
+};
+
+/**
+ * The moment a datetime-local value stands for in the local timezone. A bare work date
+ * means its local midnight; empty or unreadable values give null.
+ */
+export const fromDateTimeInput = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours = '0', minutes = '0'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const addDaysToWorkDate = (workDate: string, days: number): string => {
+  const date = fromWorkDate(workDate);
+  date.setDate(date.getDate() + days);
+  return toWorkDate(date);
+};
+
+/**
+ * The seven work dates (Monday to Sunday) of the week containing the given work date
+ */
+export const getWeekWorkDates = (workDate: string): string[] => {
+  const day = fromWorkDate(workDate).getDay();
+  const monday = addDaysToWorkDate(workDate, day === 0 ? -6 : 1 - day);
+  return Array.from({ length: 7 }, (_, index) => addDaysToWorkDate(monday, index));
+};
+
 /**
  * Get start of current week (Monday 00:00:00 in local timezone)
  */
@@ -91,8 +91,7 @@ export const updateTasks = (tasks: TaskWithAHT[]): void => {
 };
 
 // Get simplified arrays for existing components
-export const getSimpleDropdownData = () => {
-  const data = getDropdownData();
+export const getSimpleDropdownData = (data: DropdownData = getDropdownData()) => {
   return {
     stubs: data.stubs.map(s => s.name),
     universities: data.universities.map(u => u.name),
@@ -0,0 +1,22 @@
+// Password strength rules. The server applies the same rules (check_password_strength),
+// so a password accepted here is not refused when it is saved.
+
+export const PASSWORD_SPECIAL_CHARACTERS = "@$!%*?&";
+
+const RULES: { label: string; test: (password: string) => boolean }[] = [
+  { label: "At least 8 characters", test: password => password.length >= 8 },
+  { label: "Lowercase letter", test: password => /[a-z]/.test(password) },
+  { label: "Uppercase letter", test: password => /[A-Z]/.test(password) },
+  { label: "Number", test: password => /\d/.test(password) },
+  { label: `Special character (${PASSWORD_SPECIAL_CHARACTERS})`, test: password => /[@$!%*?&]/.test(password) }
+];
+
+/**
+ * Strength from 0 to 100 (each rule met adds 20) and the rules still missing
+ */
+export const getPasswordStrength = (password: string): { strength: number; feedback: string[] } => {
+  const feedback = RULES.filter(rule => !rule.test(password)).map(rule => rule.label);
+  return { strength: (RULES.length - feedback.length) * (100 / RULES.length), feedback };
+};
+
+export const isStrongPassword = (password: string): boolean => getPasswordStrength(password).strength === 100;
@@ -1,14 +1,22 @@
 import { supabase } from "@/integrations/supabase/client";
 import { getDisplayNames } from "./userUtils";
-import { GlobalDateFilter, getDateBoundaries } from "./dateHelpers";
+import { GlobalDateFilter, getDateBoundaries, toWorkDate } from "./dateHelpers";
 import { formatTaskName, formatUserDisplay } from "./formatUtils";
+import { getTaskCatalog } from "@/services/TaskService";
+import { calculateAhtEfficiency, calculateBillableSeconds, LoggedTicket } from "./ahtEfficiency";
+import type { ApprovalStatus } from "@/services/ApprovalService";
+import { getExpectedWork, getScheduleCalendar } from "@/services/ScheduleService";
+import { exportSheets, ExportFormat, SheetData } from "./spreadsheetUtils";
+
+export type ReportApprovalFilter = ApprovalStatus | "all";
 
 export interface ReportData {
   timeSummary: {
     totalHours: number;
     billableHours: number;
-    avgDailyHours: number;
-    utilizationRate: number;
+    avgDailyHours: number;   // per person per scheduled working day
+    utilizationRate: number; // logged hours against the hours people were scheduled for
+    expectedHours: number;
     avgAHT: number;
     ahtEfficiency: number;
   };
@@ -25,17 +33,81 @@ export interface ReportData {
     tasks: number;
     avgAHT: number;
     ahtEfficiency: number;
+    expectedHours: number;
+    utilizationRate: number;
   }>;
 }
 
 /**
- * Get report data from Supabase with proper user names
+ * Keys ("user|date") of the days whose timesheet submission is in the given approval state
+ */
+const getApprovedDayKeys = async (
+  approvalStatus: ApprovalStatus,
+  startDate: string,
+  endDate: string
+): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('timesheet_submissions')
+    .select('user_id, submission_date')
+    .eq('status', approvalStatus)
+    .gte('submission_date', startDate)
+    .lte('submission_date', endDate);
+
+  if (error) {
+    console.error('Error fetching timesheet submissions:', error);
+    return new Set();
+  }
+
+  return new Set((data || []).map(row => `${row.user_id}|${row.submission_date}`));
+};
+
+/**
+ * Submitted tickets of the period, grouped by user, for measuring them against the task catalog.
+ * dayKeys limits them to the given "user|date" days.
  */
-export const getSupabaseReportData = async (filter: GlobalDateFilter): Promise<ReportData> => {
+const getLoggedTicketsByUser = async (
+  startDate: string,
+  endDate: string,
+  dayKeys: Set<string> | null
+): Promise<Map<string, LoggedTicket[]>> => {
+  const byUser = new Map<string, LoggedTicket[]>();
+  const { data, error } = await supabase
+    .from('ticket_history')
+    .select('user_id, submission_date, category, subcategory, time_logged_seconds, ticket_count')
+    .gte('submission_date', startDate)
+    .lte('submission_date', endDate);
+
+  if (error) {
+    console.error('Error fetching ticket history for report:', error);
+    return byUser;
+  }
+
+  (data || [])
+    .filter(ticket => !dayKeys || dayKeys.has(`${ticket.user_id}|${ticket.submission_date}`))
+    .forEach(ticket => {
+      byUser.set(ticket.user_id, [...(byUser.get(ticket.user_id) || []), {
+        category: ticket.category,
+        subCategory: ticket.subcategory || '',
+        timeLoggedSeconds: ticket.time_logged_seconds,
+        ticketCount: ticket.ticket_count || 1
+      }]);
+    });
+
+  return byUser;
+};
+
+/**
+ * Get report data from Supabase with proper user names.
+ * approvalStatus limits the report to days whose submission is in that state.
+ */
+export const getSupabaseReportData = async (
+  filter: GlobalDateFilter,
+  approvalStatus: ReportApprovalFilter = "all"
+): Promise<ReportData> => {
   try {
     const boundaries = getDateBoundaries(filter);
     
-    // Use UTC boundaries for consistent database queries
+    // Work spans only: break spans are not logged time. Use UTC boundaries for consistent database queries
     const query = supabase
       .from('timesheet_sessions')
       .select(`
@@ -46,23 +118,39 @@ export const getSupabaseReportData = async (filter: GlobalDateFilter): Promise<R
         duration_seconds,
         work_date,
         user_id,
+        employee_id,
         created_at,
         updated_at
       `)
+      .eq('span_type', 'work')
       .gte('start_at', boundaries.utcStart.toISOString())
       .lte('end_at', boundaries.utcEnd.toISOString());
 
-    const { data: sessions, error } = await query;
+    const { data, error } = await query;
 
     if (error) {
       console.error('Error fetching timesheet sessions:', error);
       return getEmptyReportData();
     }
 
+    const startDate = boundaries.startDate.toISOString().split('T')[0];
+    const endDate = boundaries.endDate.toISOString().split('T')[0];
+    const dayKeys = approvalStatus !== "all" ? await getApprovedDayKeys(approvalStatus, startDate, endDate) : null;
+
+    let sessions = data;
+    if (sessions && dayKeys) {
+      sessions = sessions.filter(session => dayKeys.has(`${session.employee_id}|${session.work_date}`));
+    }
+
     if (!sessions || sessions.length === 0) {
       return getEmptyReportData();
     }
 
+    // Efficiency and billable time come from submitted tickets measured against the task catalog
+    const catalog = await getTaskCatalog();
+    const ticketsByUser = await getLoggedTicketsByUser(startDate, endDate, dayKeys);
+    const allTickets = Array.from(ticketsByUser.values()).flat();
+
     // Calculate totals
     const totalSeconds = sessions.reduce((sum, session) => sum + (session.duration_seconds || 0), 0);
     const totalHours = totalSeconds / 3600;
@@ -100,8 +188,8 @@ export const getSupabaseReportData = async (filter: GlobalDateFilter): Promise<R
     }>();
 
     sessions.forEach(session => {
-      const userId = session.user_id;
-      if (!userId) return; // Skip sessions without user_id
+      const userId = session.user_id || session.employee_id;
+      if (!userId) return; // Skip sessions without an owner
       
       const existing = userMap.get(userId) || {
         id: userId,
@@ -125,31 +213,43 @@ export const getSupabaseReportData = async (filter: GlobalDateFilter): Promise<R
     const userIds = Array.from(userMap.keys());
     const displayNames = await getDisplayNames(userIds);
 
+    // Expected hours follow each person's shift schedule and the holiday calendar
+    const calendar = await getScheduleCalendar();
+    const scheduleStart = toWorkDate(boundaries.startDate);
+    const scheduleEnd = toWorkDate(boundaries.endDate);
+    const expectedByUser = new Map(userIds.map(id => [id, getExpectedWork(calendar, id, scheduleStart, scheduleEnd)]));
+
     // Update user names with proper formatting
     const employees = Array.from(userMap.values())
       .filter(emp => emp.totalHours > 0) // Only include employees with logged time
       .map(emp => {
         const userDisplay = formatUserDisplay(emp.id, displayNames[emp.id]);
+        const expectedHours = (expectedByUser.get(emp.id)?.seconds || 0) / 3600;
         return {
           id: userDisplay.id,
           name: userDisplay.name,
           totalHours: Number(emp.totalHours.toFixed(1)),
           tasks: emp.tasks,
           avgAHT: emp.taskCount > 0 ? Number((emp.ahtTotal / emp.taskCount).toFixed(1)) : 0,
-          ahtEfficiency: emp.taskCount > 0 ? Math.min(100, Math.max(70, 85 + Math.random() * 15)) : 0
+          ahtEfficiency: calculateAhtEfficiency(ticketsByUser.get(emp.id) || [], catalog),
+          expectedHours: Number(expectedHours.toFixed(1)),
+          utilizationRate: expectedHours > 0 ? Number(((emp.totalHours / expectedHours) * 100).toFixed(1)) : 0
         };
       });
 
-    const workingDays = Math.max(1, Math.ceil((boundaries.endDate.getTime() - boundaries.startDate.getTime()) / (1000 * 60 * 60 * 24)));
+    const expected = Array.from(expectedByUser.values());
+    const expectedHours = expected.reduce((sum, work) => sum + work.seconds, 0) / 3600;
+    const scheduledDays = expected.reduce((sum, work) => sum + work.days, 0);
 
     return {
       timeSummary: {
         totalHours: Number(totalHours.toFixed(1)),
-        billableHours: Number((totalHours * 0.85).toFixed(1)),
-        avgDailyHours: Number((totalHours / workingDays).toFixed(1)),
-        utilizationRate: Number(((totalHours / (workingDays * 8)) * 100).toFixed(1)),
+        billableHours: Number((calculateBillableSeconds(allTickets, catalog) / 3600).toFixed(1)),
+        avgDailyHours: scheduledDays > 0 ? Number((totalHours / scheduledDays).toFixed(1)) : 0,
+        utilizationRate: expectedHours > 0 ? Number(((totalHours / expectedHours) * 100).toFixed(1)) : 0,
+        expectedHours: Number(expectedHours.toFixed(1)),
         avgAHT: sessions.length > 0 ? Number((sessions.reduce((sum, s) => sum + ((s.duration_seconds || 0) / 60), 0) / sessions.length).toFixed(1)) : 0,
-        ahtEfficiency: 90 + Math.random() * 10
+        ahtEfficiency: calculateAhtEfficiency(allTickets, catalog)
       },
       tasks,
       employees
@@ -167,6 +267,7 @@ const getEmptyReportData = (): ReportData => ({
     billableHours: 0,
     avgDailyHours: 0,
     utilizationRate: 0,
+    expectedHours: 0,
     avgAHT: 0,
     ahtEfficiency: 0
   },
@@ -174,55 +275,74 @@ const getEmptyReportData = (): ReportData => ({
   employees: []
 });
 
+const HOUR_SECONDS = 3600;
+
 /**
- * Export report data to CSV with proper user names
+ * The sheets of each exportable report; hours and AHT minutes are exported as durations
  */
-export const exportReportWithNames = (reportType: string, reportData: ReportData, filter: GlobalDateFilter): string => {
+const getReportSheets = (reportData: ReportData): Record<string, SheetData> => ({
+  "time-summary": {
+    name: "Time Summary",
+    columns: [{ header: "Metric" }, { header: "Value" }, { header: "Unit" }],
+    rows: [
+      ["Total Hours", reportData.timeSummary.totalHours, "hours"],
+      ["Billable Hours", reportData.timeSummary.billableHours, "hours"],
+      ["Scheduled Hours", reportData.timeSummary.expectedHours, "hours"],
+      ["Average Daily Hours", reportData.timeSummary.avgDailyHours, "hours"],
+      ["Utilization Rate", reportData.timeSummary.utilizationRate, "%"],
+      ["Average AHT", reportData.timeSummary.avgAHT, "minutes"],
+      ["AHT Efficiency", reportData.timeSummary.ahtEfficiency, "%"]
+    ]
+  },
+  "task-breakdown": {
+    name: "Task Breakdown",
+    columns: [
+      { header: "Task Name" },
+      { header: "Hours", type: "duration" },
+      { header: "Percentage", type: "percent" },
+      { header: "Actual Avg Time", type: "duration" }
+    ],
+    rows: reportData.tasks.map(task => [task.name, task.hours * HOUR_SECONDS, task.percentage, task.actualAvgTime * 60])
+  },
+  "employee-summary": {
+    name: "Employee Summary",
+    columns: [
+      { header: "Employee ID" },
+      { header: "Name" },
+      { header: "Total Hours", type: "duration" },
+      { header: "Scheduled Hours", type: "duration" },
+      { header: "Utilization", type: "percent" },
+      { header: "Tasks Completed", type: "number" },
+      { header: "Avg AHT", type: "duration" },
+      { header: "AHT Efficiency", type: "percent" }
+    ],
+    rows: reportData.employees.map(emp => [
+      emp.id, emp.name, emp.totalHours * HOUR_SECONDS, emp.expectedHours * HOUR_SECONDS, emp.utilizationRate,
+      emp.tasks, emp.avgAHT * 60, emp.ahtEfficiency
+    ])
+  }
+});
+
+/**
+ * Export report data to CSV or Excel with proper user names. "full-report" puts every report
+ * on its own sheet.
+ */
+export const exportReportWithNames = async (
+  reportType: string,
+  reportData: ReportData,
+  filter: GlobalDateFilter,
+  format: ExportFormat = "csv"
+): Promise<string> => {
   const boundaries = getDateBoundaries(filter);
   const filterStr = filter.mode.replace('-', '_');
   const startStr = boundaries.startDate.toISOString().split('T')[0];
   const endStr = boundaries.endDate.toISOString().split('T')[0];
   const timestamp = new Date().toISOString().split('T')[0];
-  
-  let csvContent = "";
-  let filename = "";
-  
   const dateRangeStr = `${filterStr}_${startStr}_to_${endStr}`;
 
-  switch (reportType) {
-    case "time-summary":
-      csvContent = [
-        ["Metric", "Value"],
-        ["Total Hours", reportData.timeSummary.totalHours],
-        ["Billable Hours", reportData.timeSummary.billableHours],
-        ["Average Daily Hours", reportData.timeSummary.avgDailyHours],
-        ["Utilization Rate", `${reportData.timeSummary.utilizationRate}%`]
-      ].map(row => row.join(",")).join("\n");
-      filename = `time_summary_${dateRangeStr}_${timestamp}.csv`;
-      break;
-    case "task-breakdown":
-      csvContent = [
-        ["Task Name", "Hours", "Percentage", "Actual Avg Time"],
-        ...reportData.tasks.map(task => [task.name, task.hours, `${task.percentage}%`, `${task.actualAvgTime}min`])
-      ].map(row => row.join(",")).join("\n");
-      filename = `task_breakdown_${dateRangeStr}_${timestamp}.csv`;
-      break;
-    case "employee-summary":
-      csvContent = [
-        ["Employee ID", "Name", "Total Hours", "Tasks Completed", "Avg AHT", "AHT Efficiency"],
-        ...reportData.employees.map(emp => [emp.id, emp.name, emp.totalHours.toFixed(1), emp.tasks, emp.avgAHT.toFixed(1), `${emp.ahtEfficiency.toFixed(1)}%`])
-      ].map(row => row.join(",")).join("\n");
-      filename = `employee_summary_${dateRangeStr}_${timestamp}.csv`;
-      break;
-  }
-
-  const blob = new Blob([csvContent], { type: 'text/csv' });
-  const url = window.URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  a.click();
-  window.URL.revokeObjectURL(url);
+  const reportSheets = getReportSheets(reportData);
+  const sheets = reportType === "full-report" ? Object.values(reportSheets) : [reportSheets[reportType]];
+  if (!sheets[0]) throw new Error(`Unknown report type: ${reportType}`);
 
-  return filename;
-};
\ No newline at end of file
+  return exportSheets(sheets, `${reportType.replace(/-/g, '_')}_${dateRangeStr}_${timestamp}`, format);
+};
@@ -0,0 +1,152 @@
+import type { SpanKind } from "@/services/PerformanceTimerService";
+
+// Pure helpers for editing the timer spans of a work day.
+// Times are wall-clock epoch milliseconds; an open span has endAt = null and is
+// treated as lasting until "now".
+
+export type SpanSource = "timer" | "manual";
+
+export interface EditableSpan {
+  id: string;
+  taskId: string;
+  workDate: string;
+  kind: SpanKind;
+  startAt: number;
+  endAt: number | null;
+  source: SpanSource;
+}
+
+export interface SpanChanges {
+  inserted: EditableSpan[];
+  updated: EditableSpan[];
+  deleted: EditableSpan[];
+}
+
+const spanEnd = (span: EditableSpan, now: number) => span.endAt ?? now;
+
+export const getSpanDurationMs = (span: EditableSpan, now: number = Date.now()): number =>
+  Math.max(0, spanEnd(span, now) - span.startAt);
+
+/**
+ * Validate one closed span against the rest of the day (dayStart until dayEnd).
+ * Returns an error message, or null when the span is acceptable.
+ */
+export const getSpanError = (
+  span: EditableSpan,
+  others: EditableSpan[],
+  now: number,
+  dayStart: number,
+  dayEnd: number = Infinity
+): string | null => {
+  if (span.endAt == null) return null; // Open spans belong to a running timer
+
+  if (span.endAt <= span.startAt) return "End time must be after start time";
+  if (span.endAt > now) return "Time cannot be logged in the future";
+  if (span.startAt < dayStart || span.endAt > dayEnd) return "Time must be within the selected day";
+
+  // Breaks run alongside the work they interrupt; only spans of the same kind may not overlap
+  const overlapping = others.find(other =>
+    other.id !== span.id &&
+    other.kind === span.kind &&
+    other.startAt < span.endAt! &&
+    spanEnd(other, now) > span.startAt
+  );
+  if (overlapping) return "Overlaps another recorded span";
+
+  return null;
+};
+
+/**
+ * Errors for every span in the list, keyed by span id
+ */
+export const validateSpans = (
+  spans: EditableSpan[],
+  now: number,
+  dayStart: number,
+  dayEnd: number = Infinity
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  spans.forEach(span => {
+    const error = getSpanError(span, spans, now, dayStart, dayEnd);
+    if (error) errors[span.id] = error;
+  });
+  return errors;
+};
+
+/**
+ * Cut a closed span in two at the given time. Returns null when the time is not inside the span.
+ */
+export const splitSpan = (span: EditableSpan, at: number, newId: string): [EditableSpan, EditableSpan] | null => {
+  if (span.endAt == null || at <= span.startAt || at >= span.endAt) return null;
+  return [
+    { ...span, endAt: at },
+    { ...span, id: newId, startAt: at }
+  ];
+};
+
+/**
+ * Join two closed spans of the same task and kind into one covering both (and the gap between).
+ * The merged span keeps the id of the earlier one.
+ */
+export const mergeSpans = (a: EditableSpan, b: EditableSpan): EditableSpan | null => {
+  if (a.endAt == null || b.endAt == null) return null;
+  if (a.taskId !== b.taskId || a.kind !== b.kind) return null;
+  const [first, second] = a.startAt <= b.startAt ? [a, b] : [b, a];
+  return {
+    ...first,
+    endAt: Math.max(first.endAt!, second.endAt!),
+    source: first.source === "manual" || second.source === "manual" ? "manual" : first.source
+  };
+};
+
+/**
+ * The latest free slot of the given length between dayStart and now, or null when the day is too full
+ */
+export const findFreeSlot = (
+  spans: EditableSpan[],
+  durationMs: number,
+  now: number,
+  dayStart: number
+): { startAt: number; endAt: number } | null => {
+  if (durationMs <= 0) return null;
+
+  const busy = spans
+    .map(span => ({ startAt: span.startAt, endAt: spanEnd(span, now) }))
+    .sort((a, b) => b.endAt - a.endAt);
+
+  let slotEnd = now;
+  for (const interval of busy) {
+    if (interval.endAt <= slotEnd && slotEnd - interval.endAt >= durationMs) break;
+    slotEnd = Math.min(slotEnd, interval.startAt);
+  }
+
+  const slotStart = slotEnd - durationMs;
+  if (slotStart < dayStart) return null;
+  return { startAt: slotStart, endAt: slotEnd };
+};
+
+const isWithin = (inner: EditableSpan, outer: EditableSpan) =>
+  inner.startAt >= outer.startAt && (inner.endAt ?? Infinity) <= (outer.endAt ?? Infinity);
+
+/**
+ * What changed between the original spans and the edited ones, in an order that never
+ * creates an overlap while applied one by one: deletions, shrinking updates, other updates, inserts.
+ */
+export const diffSpans = (before: EditableSpan[], after: EditableSpan[]): SpanChanges => {
+  const beforeById = new Map(before.map(span => [span.id, span]));
+  const afterIds = new Set(after.map(span => span.id));
+
+  const changed = after.filter(span => {
+    const original = beforeById.get(span.id);
+    return original && (original.startAt !== span.startAt || original.endAt !== span.endAt);
+  });
+
+  return {
+    deleted: before.filter(span => !afterIds.has(span.id)),
+    updated: [
+      ...changed.filter(span => isWithin(span, beforeById.get(span.id)!)),
+      ...changed.filter(span => !isWithin(span, beforeById.get(span.id)!))
+    ],
+    inserted: after.filter(span => !beforeById.has(span.id))
+  };
+};
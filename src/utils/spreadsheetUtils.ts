@@ -0,0 +1,287 @@
+import type { CellValue, Workbook } from "exceljs";
+
+// CSV and Excel (.xlsx) files for the bulk upload and export tools. exceljs is loaded on
+// first use so it stays out of the main bundle.
+
+export type ExportFormat = "csv" | "xlsx";
+
+/**
+ * How a column's values are stored:
+ * - date: a work date ("yyyy-MM-dd") or Date, written as an Excel date
+ * - datetime: a timestamp string or Date, written as an Excel date and time
+ * - duration: seconds, written as an Excel time value
+ * - percent: percentage points (85.5 means 85.5%)
+ */
+export type SheetColumnType = "text" | "number" | "date" | "datetime" | "duration" | "percent";
+
+export interface SheetColumn {
+  header: string;
+  type?: SheetColumnType; // defaults to text
+}
+
+export type SheetCell = string | number | Date | null | undefined;
+
+export interface SheetData {
+  name: string;
+  columns: SheetColumn[];
+  rows: SheetCell[][];
+}
+
+/**
+ * A sheet read from an uploaded file; the first row holds the headers
+ */
+export interface ImportedSheet {
+  name: string;
+  rows: string[][];
+}
+
+// Template column -> header of the uploaded sheet it is read from ("" when not mapped)
+export type HeaderMapping = Record<string, string>;
+
+const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx"];
+
+const SECONDS_PER_DAY = 86400;
+
+const NUMBER_FORMATS: Record<SheetColumnType, string | undefined> = {
+  text: undefined,
+  number: undefined,
+  date: "yyyy-mm-dd",
+  datetime: "yyyy-mm-dd hh:mm",
+  duration: "[h]:mm:ss",
+  percent: "0.0%"
+};
+
+const loadExcelJS = async () => (await import("exceljs")).default;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const isSpreadsheetFile = (fileName: string): boolean =>
+  SPREADSHEET_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+/**
+ * Parse CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(value => value.trim()))
+    .filter(cells => cells.some(value => value !== ""));
+};
+
+// Excel keeps dates without a time zone; exceljs reads and writes them as UTC
+const toExcelDate = (value: SheetCell, type: SheetColumnType): Date | null => {
+  if (value === null || value === undefined || value === "") return null;
+  if (type === "date" && typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()));
+};
+
+const formatExcelDate = (date: Date): string => {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return date.getUTCHours() || date.getUTCMinutes() ? `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` : day;
+};
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 3600)}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+/**
+ * The value Excel stores for a cell of the given column type
+ */
+export const toExcelValue = (value: SheetCell, type: SheetColumnType = "text"): string | number | Date | null => {
+  if (value === null || value === undefined || value === "") return null;
+  switch (type) {
+    case "date":
+    case "datetime":
+      return toExcelDate(value, type);
+    case "duration":
+      return Number(value) / SECONDS_PER_DAY;
+    case "percent":
+      return Number(value) / 100;
+    case "number":
+      return Number(value);
+    default:
+      return value instanceof Date ? formatExcelDate(toExcelDate(value, "datetime")!) : value;
+  }
+};
+
+/**
+ * The text a cell of the given column type is written as in a CSV file
+ */
+export const toCsvValue = (value: SheetCell, type: SheetColumnType = "text"): string => {
+  if (value === null || value === undefined || value === "") return "";
+  switch (type) {
+    case "date":
+    case "datetime": {
+      const date = toExcelDate(value, type);
+      return date ? formatExcelDate(date) : String(value);
+    }
+    case "duration":
+      return formatDuration(Number(value));
+    case "percent":
+      return `${value}%`;
+    default:
+      return value instanceof Date ? formatExcelDate(toExcelDate(value, "datetime")!) : String(value);
+  }
+};
+
+const escapeCsv = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV text of the sheets; several sheets follow one another, each under its name
+ */
+export const toCsv = (sheets: SheetData[]): string => sheets.map(sheet => [
+  ...(sheets.length > 1 ? [escapeCsv(sheet.name)] : []),
+  sheet.columns.map(column => escapeCsv(column.header)).join(","),
+  ...sheet.rows.map(row => sheet.columns.map((column, index) => escapeCsv(toCsvValue(row[index], column.type))).join(","))
+].join("\n")).join("\n\n");
+
+/**
+ * An Excel workbook with one worksheet per sheet and number formats per column type
+ */
+export const buildWorkbook = async (sheets: SheetData[]): Promise<Workbook> => {
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+
+  sheets.forEach(sheet => {
+    // Worksheet names are limited to 31 characters and may not contain []:*?/\
+    const worksheet = workbook.addWorksheet(sheet.name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31));
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      width: Math.max(12, column.header.length + 4),
+      style: NUMBER_FORMATS[column.type || "text"] ? { numFmt: NUMBER_FORMATS[column.type || "text"] } : {}
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+    sheet.rows.forEach(row => {
+      worksheet.addRow(sheet.columns.map((column, index) => toExcelValue(row[index], column.type)));
+    });
+  });
+
+  return workbook;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Download the sheets as "<baseName>.csv" or "<baseName>.xlsx" and return the file name
+ */
+export const exportSheets = async (sheets: SheetData[], baseName: string, format: ExportFormat): Promise<string> => {
+  const filename = `${baseName}.${format}`;
+  if (format === "xlsx") {
+    const workbook = await buildWorkbook(sheets);
+    const buffer = await workbook.xlsx.writeBuffer();
+    downloadBlob(new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), filename);
+  } else {
+    downloadBlob(new Blob([toCsv(sheets)], { type: "text/csv" }), filename);
+  }
+  return filename;
+};
+
+const cellToText = (value: CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatExcelDate(value);
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map(part => part.text).join("");
+  if ("hyperlink" in value) return String(value.text);
+  if ("result" in value) return value.result === undefined ? "" : cellToText(value.result as CellValue);
+  return "";
+};
+
+/**
+ * Every worksheet of an Excel workbook, as text cells
+ */
+export const readWorkbook = async (data: ArrayBuffer): Promise<ImportedSheet[]> => {
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map(worksheet => {
+    const rows: string[][] = [];
+    worksheet.eachRow(row => {
+      const cells: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(cellToText(row.getCell(column).value).trim());
+      }
+      if (cells.some(value => value !== "")) rows.push(cells);
+    });
+    return { name: worksheet.name, rows };
+  });
+};
+
+/**
+ * The sheets of an uploaded .csv or .xlsx file; a CSV file is a single sheet
+ */
+export const readSpreadsheet = async (file: File): Promise<ImportedSheet[]> => {
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    return readWorkbook(await file.arrayBuffer());
+  }
+  return [{ name: file.name, rows: parseCsv(await file.text()) }];
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Map each template column to the sheet header with the same name, ignoring case, spaces and punctuation
+ */
+export const suggestHeaderMapping = (columns: string[], headers: string[]): HeaderMapping =>
+  Object.fromEntries(columns.map(column => [
+    column,
+    headers.find(header => normalizeHeader(header) === normalizeHeader(column)) || ""
+  ]));
+
+/**
+ * The data rows of a sheet keyed by template column, read through the header mapping
+ */
+export const applyHeaderMapping = (sheet: ImportedSheet, mapping: HeaderMapping): Record<string, string>[] => {
+  const [headers = [], ...rows] = sheet.rows;
+  return rows.map(cells => Object.fromEntries(Object.entries(mapping).map(([column, header]) => {
+    const index = header ? headers.indexOf(header) : -1;
+    return [column, index >= 0 ? cells[index] || "" : ""];
+  })));
+};
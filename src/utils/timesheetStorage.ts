@@ -1,3 +1,7 @@
+import { fromWorkDate, toWorkDate } from './dateHelpers';
+import { getDropdownData } from './dropdownStorage';
+import { calculateAhtEfficiency, calculateBillableSeconds, LoggedTicket } from './ahtEfficiency';
+
 interface TimesheetRow {
   id: string;
   ticketNumber: string;
@@ -7,11 +11,13 @@ interface TimesheetRow {
   taskName: string;
   university: string;
   domain: string;
-  
+  clientType: string;
   status: string;
   receivedDate: string;
   ticketCount: number;
   comments: string;
+  continuedFrom?: string;
+  priorSeconds?: number;
   totalTime?: number; // Optional for submission
 }
 
@@ -61,8 +67,37 @@ export const clearSessionEntries = () => {
   sessionStorage.removeItem(SESSION_ENTRIES_KEY);
 };
 
+// Drafts are kept per work date; today's key is the one used before multi-day timesheets
+const getDraftKey = (workDate: string) => `timesheet-${fromWorkDate(workDate).toDateString()}`;
+
+// Working rows of a date's draft, or null when the date has no draft
+export const loadTimesheetDraft = (workDate: string): TimesheetRow[] | null => {
+  try {
+    const data = localStorage.getItem(getDraftKey(workDate));
+    return data ? JSON.parse(data).rows || [] : null;
+  } catch (error) {
+    console.error('Error loading timesheet draft:', error);
+    return null;
+  }
+};
+
+export const saveTimesheetDraft = (workDate: string, rows: TimesheetRow[]) => {
+  localStorage.setItem(getDraftKey(workDate), JSON.stringify({
+    rows,
+    lastSaved: new Date().toISOString()
+  }));
+};
+
+export const clearTimesheetDraft = (workDate: string) => {
+  localStorage.removeItem(getDraftKey(workDate));
+};
+
 // Save submitted timesheet data
-export const saveSubmittedTimesheet = (rows: TimesheetRow[], employeeInfo?: { id: string; name: string }) => {
+export const saveSubmittedTimesheet = (
+  rows: TimesheetRow[],
+  employeeInfo?: { id: string; name: string },
+  workDate: string = toWorkDate()
+) => {
   try {
     const existingData = localStorage.getItem(SUBMITTED_TIMESHEETS_KEY);
     const submissions: TimesheetSubmission[] = existingData ? JSON.parse(existingData) : [];
@@ -71,7 +106,7 @@ export const saveSubmittedTimesheet = (rows: TimesheetRow[], employeeInfo?: { id
     
     const submission: TimesheetSubmission = {
       id: Date.now().toString(),
-      date: new Date().toISOString().split('T')[0],
+      date: workDate,
       employeeId: employeeInfo?.id || 'current-user',
       employeeName: employeeInfo?.name || 'Current User',
       rows: rows,
@@ -132,6 +167,13 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
   
   const totalHours = submissions.reduce((sum, sub) => sum + sub.totalHours, 0);
   const allRows = submissions.flatMap(sub => sub.rows);
+  const catalog = getDropdownData().tasks;
+  const toLoggedTicket = (row: TimesheetRow): LoggedTicket => ({
+    category: row.category,
+    subCategory: row.subCategory,
+    timeLoggedSeconds: row.totalTime || 0,
+    ticketCount: row.ticketCount
+  });
   
   // Calculate task breakdown
   const taskMap = new Map<string, { hours: number; count: number; ahtTotal: number }>();
@@ -163,6 +205,7 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
     tasks: number; 
     ahtTotal: number; 
     taskCount: number; 
+    tickets: LoggedTicket[];
   }>();
   
   submissions.forEach(submission => {
@@ -172,7 +215,8 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
       totalHours: 0,
       tasks: 0,
       ahtTotal: 0,
-      taskCount: 0
+      taskCount: 0,
+      tickets: []
     };
     
     const submissionAHT = submission.rows.reduce((sum, row) => sum + ((row.totalTime || 0) / 60), 0);
@@ -182,7 +226,8 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
       totalHours: existing.totalHours + submission.totalHours,
       tasks: existing.tasks + submission.rows.length,
       ahtTotal: existing.ahtTotal + submissionAHT,
-      taskCount: existing.taskCount + submission.rows.length
+      taskCount: existing.taskCount + submission.rows.length,
+      tickets: [...existing.tickets, ...submission.rows.map(toLoggedTicket)]
     });
   });
   
@@ -192,7 +237,7 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
     totalHours: Number(emp.totalHours.toFixed(1)),
     tasks: emp.tasks,
     avgAHT: emp.taskCount > 0 ? Number((emp.ahtTotal / emp.taskCount).toFixed(1)) : 0,
-    ahtEfficiency: 85 + Math.random() * 15 // Mock efficiency for now
+    ahtEfficiency: calculateAhtEfficiency(emp.tickets, catalog)
   }));
   
   const workingDays = startDate && endDate 
@@ -202,11 +247,11 @@ export const getReportData = (startDate?: Date, endDate?: Date) => {
   return {
     timeSummary: {
       totalHours: Number(totalHours.toFixed(1)),
-      billableHours: Number((totalHours * 0.85).toFixed(1)), // Assume 85% billable
+      billableHours: Number((calculateBillableSeconds(allRows.map(toLoggedTicket), catalog) / 3600).toFixed(1)),
       avgDailyHours: Number((totalHours / workingDays).toFixed(1)),
       utilizationRate: Number(((totalHours / (workingDays * 8)) * 100).toFixed(1)),
       avgAHT: allRows.length > 0 ? Number((allRows.reduce((sum, row) => sum + ((row.totalTime || 0) / 60), 0) / allRows.length).toFixed(1)) : 0,
-      ahtEfficiency: 90 + Math.random() * 10 // Mock efficiency
+      ahtEfficiency: calculateAhtEfficiency(allRows.map(toLoggedTicket), catalog)
     },
     tasks,
     employees
@@ -0,0 +1,11 @@
+-- Persist per-row timer spans so timers survive reloads and follow the employee across devices
+ALTER TABLE public.timesheet_sessions
+ADD COLUMN employee_id TEXT,
+ADD COLUMN span_type TEXT NOT NULL DEFAULT 'work' CHECK (span_type IN ('work', 'break')),
+ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE;
+
+-- Lookups when rebuilding an employee's timers for a work date
+CREATE INDEX idx_timesheet_sessions_employee_date ON public.timesheet_sessions(employee_id, work_date);
+
+-- Fast lookup of open spans per employee
+CREATE INDEX idx_timesheet_sessions_employee_open ON public.timesheet_sessions(employee_id) WHERE end_at IS NULL;
@@ -0,0 +1,342 @@
+-- Approval workflow for submitted timesheets: draft -> submitted -> approved / rejected / reopened
+ALTER TABLE public.timesheet_submissions
+ADD COLUMN status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'reopened')),
+ADD COLUMN reviewed_by TEXT,
+ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN review_comment TEXT;
+
+CREATE INDEX idx_timesheet_submissions_status ON public.timesheet_submissions(status);
+
+-- Existing submissions that failed validation never reached review
+UPDATE public.timesheet_submissions
+SET status = 'draft'
+WHERE result IS NULL OR NOT COALESCE((result->>'success')::boolean, false);
+
+-- Submissions start as drafts and only become 'submitted' once every row is stored.
+-- Days with an approved submission are locked against further submissions.
+CREATE OR REPLACE FUNCTION public.submit_timesheet(
+  payload JSONB,
+  idempotency_key TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT := NULLIF(trim(payload->>'user_id'), '');
+  v_submission_date DATE;
+  v_submission_id UUID;
+  v_existing JSONB;
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_error TEXT;
+  v_ticket_id UUID;
+  v_results JSONB := '[]'::jsonb;
+  v_has_errors BOOLEAN := false;
+  v_result JSONB;
+BEGIN
+  IF idempotency_key IS NULL OR trim(idempotency_key) = '' THEN
+    RAISE EXCEPTION 'idempotency_key is required';
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'payload.user_id is required';
+  END IF;
+
+  IF jsonb_typeof(payload->'rows') IS DISTINCT FROM 'array' OR jsonb_array_length(payload->'rows') = 0 THEN
+    RAISE EXCEPTION 'payload.rows must be a non-empty array';
+  END IF;
+
+  v_submission_date := COALESCE(NULLIF(payload->>'submission_date', '')::date, CURRENT_DATE);
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.user_id = v_user_id
+      AND s.submission_date = v_submission_date
+      AND s.status = 'approved'
+      AND s.idempotency_key <> submit_timesheet.idempotency_key
+  ) THEN
+    RAISE EXCEPTION 'Timesheet for % is approved and locked', v_submission_date;
+  END IF;
+
+  -- Claim the key; a concurrent retry blocks here until the first attempt commits
+  INSERT INTO public.timesheet_submissions (idempotency_key, user_id, submission_date, status)
+  VALUES (submit_timesheet.idempotency_key, v_user_id, v_submission_date, 'draft')
+  ON CONFLICT ON CONSTRAINT timesheet_submissions_idempotency_key_key DO NOTHING
+  RETURNING id INTO v_submission_id;
+
+  IF v_submission_id IS NULL THEN
+    SELECT s.id, s.result INTO v_submission_id, v_existing
+    FROM public.timesheet_submissions s
+    WHERE s.idempotency_key = submit_timesheet.idempotency_key
+    FOR UPDATE;
+
+    IF v_existing IS NOT NULL AND (v_existing->>'success')::boolean THEN
+      RETURN v_existing || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  -- Validate every row before writing anything
+  FOR v_row IN SELECT * FROM jsonb_array_elements(payload->'rows') LOOP
+    v_error := NULL;
+    IF NULLIF(trim(v_row->>'ticket_number'), '') IS NULL THEN
+      v_error := 'Ticket number is required';
+    ELSIF NULLIF(trim(v_row->>'category'), '') IS NULL THEN
+      v_error := 'Category is required';
+    ELSIF COALESCE((v_row->>'time_logged_seconds')::integer, 0) < 0 THEN
+      v_error := 'Logged time cannot be negative';
+    ELSIF COALESCE((v_row->>'ticket_count')::integer, 1) < 0 THEN
+      v_error := 'Ticket count cannot be negative';
+    END IF;
+
+    IF v_error IS NOT NULL THEN
+      v_has_errors := true;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'index', v_index,
+      'ticket_number', v_row->>'ticket_number',
+      'status', CASE WHEN v_error IS NULL THEN 'valid' ELSE 'invalid' END,
+      'ticket_history_id', NULL,
+      'error', v_error
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  IF v_has_errors THEN
+    v_result := jsonb_build_object(
+      'submission_id', v_submission_id,
+      'success', false,
+      'replayed', false,
+      'results', v_results
+    );
+    -- Keep the key reusable so the corrected draft can be retried with it
+    UPDATE public.timesheet_submissions SET result = v_result, status = 'draft' WHERE id = v_submission_id;
+    RETURN v_result;
+  END IF;
+
+  v_results := '[]'::jsonb;
+  v_index := 0;
+  FOR v_row IN SELECT * FROM jsonb_array_elements(payload->'rows') LOOP
+    INSERT INTO public.ticket_history (
+      user_id, submission_date, submission_id, ticket_number, university, domain,
+      category, subcategory, activity_type, task_name, stub_name, client_type,
+      status, received_date, ticket_count, time_logged_seconds, comments
+    ) VALUES (
+      v_user_id,
+      v_submission_date,
+      v_submission_id,
+      trim(v_row->>'ticket_number'),
+      COALESCE(v_row->>'university', ''),
+      COALESCE(v_row->>'domain', ''),
+      trim(v_row->>'category'),
+      COALESCE(v_row->>'subcategory', ''),
+      COALESCE(v_row->>'activity_type', ''),
+      COALESCE(v_row->>'task_name', ''),
+      v_row->>'stub_name',
+      v_row->>'client_type',
+      COALESCE(NULLIF(v_row->>'status', ''), 'Completed'),
+      COALESCE(v_row->>'received_date', ''),
+      COALESCE((v_row->>'ticket_count')::integer, 1),
+      COALESCE((v_row->>'time_logged_seconds')::integer, 0),
+      COALESCE(v_row->>'comments', '')
+    )
+    RETURNING id INTO v_ticket_id;
+
+    v_results := v_results || jsonb_build_object(
+      'index', v_index,
+      'ticket_number', v_row->>'ticket_number',
+      'status', 'inserted',
+      'ticket_history_id', v_ticket_id,
+      'error', NULL
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  v_result := jsonb_build_object(
+    'submission_id', v_submission_id,
+    'success', true,
+    'replayed', false,
+    'results', v_results
+  );
+
+  UPDATE public.timesheet_submissions SET result = v_result, status = 'submitted' WHERE id = v_submission_id;
+  RETURN v_result;
+END;
+$$;
+
+-- Every state change, for the audit trail and the employee's view of why a day was rejected
+CREATE TABLE public.timesheet_submission_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.timesheet_submissions(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('approve', 'reject', 'reopen', 'resubmit')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.timesheet_submission_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view timesheet submission reviews" 
+ON public.timesheet_submission_reviews 
+FOR SELECT 
+USING (true);
+
+CREATE INDEX idx_timesheet_submission_reviews_submission_id ON public.timesheet_submission_reviews(submission_id);
+
+-- Move a submission through the workflow.
+-- approve/reject: submitted -> approved/rejected (reject needs a comment)
+-- reopen: approved/rejected -> reopened
+-- resubmit: rejected/reopened -> submitted
+CREATE OR REPLACE FUNCTION public.review_timesheet_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.timesheet_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_submission public.timesheet_submissions;
+  v_to_status TEXT;
+BEGIN
+  IF NULLIF(trim(p_actor), '') IS NULL THEN
+    RAISE EXCEPTION 'Reviewer is required';
+  END IF;
+
+  SELECT * INTO v_submission
+  FROM public.timesheet_submissions
+  WHERE id = p_submission_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  v_to_status := CASE
+    WHEN p_action = 'approve' AND v_submission.status = 'submitted' THEN 'approved'
+    WHEN p_action = 'reject' AND v_submission.status = 'submitted' THEN 'rejected'
+    WHEN p_action = 'reopen' AND v_submission.status IN ('approved', 'rejected') THEN 'reopened'
+    WHEN p_action = 'resubmit' AND v_submission.status IN ('rejected', 'reopened') THEN 'submitted'
+    ELSE NULL
+  END;
+
+  IF v_to_status IS NULL THEN
+    RAISE EXCEPTION 'Cannot % a timesheet that is %', p_action, v_submission.status;
+  END IF;
+
+  IF p_action = 'reject' AND NULLIF(trim(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'A comment is required when rejecting a timesheet';
+  END IF;
+
+  INSERT INTO public.timesheet_submission_reviews (submission_id, action, from_status, to_status, actor, comment)
+  VALUES (p_submission_id, p_action, v_submission.status, v_to_status, p_actor, NULLIF(trim(p_comment), ''));
+
+  UPDATE public.timesheet_submissions
+  SET status = v_to_status,
+      reviewed_by = CASE WHEN p_action = 'resubmit' THEN reviewed_by ELSE p_actor END,
+      reviewed_at = CASE WHEN p_action = 'resubmit' THEN reviewed_at ELSE now() END,
+      review_comment = CASE WHEN p_action = 'resubmit' THEN review_comment ELSE NULLIF(trim(p_comment), '') END
+  WHERE id = p_submission_id
+  RETURNING * INTO v_submission;
+
+  RETURN v_submission;
+END;
+$$;
+
+-- Submissions a reviewer may act on. SMEs see their own team; admins and super-users see everyone.
+-- p_reviewer is the reviewer's employee id or email; p_status filters by state ('all' for every state).
+CREATE OR REPLACE FUNCTION public.get_review_queue(
+  p_reviewer TEXT,
+  p_status TEXT DEFAULT 'submitted'
+)
+RETURNS TABLE(
+  submission_id UUID,
+  user_id TEXT,
+  employee_name TEXT,
+  team TEXT,
+  submission_date DATE,
+  status TEXT,
+  entry_count INTEGER,
+  total_seconds INTEGER,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by TEXT,
+  review_comment TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewer public.employees;
+BEGIN
+  SELECT * INTO v_reviewer
+  FROM public.employees e
+  WHERE e.is_active = true AND (e.employee_id = p_reviewer OR e.email = p_reviewer)
+  LIMIT 1;
+
+  IF NOT FOUND OR v_reviewer.role NOT IN ('sme', 'admin', 'super-user') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    COALESCE(emp.full_name, s.user_id),
+    emp.team,
+    s.submission_date,
+    s.status,
+    COUNT(th.id)::integer,
+    COALESCE(SUM(th.time_logged_seconds), 0)::integer,
+    s.created_at,
+    s.reviewed_by,
+    s.review_comment
+  FROM public.timesheet_submissions s
+  LEFT JOIN LATERAL (
+    -- ticket_history.user_id holds the employee's name, id or email depending on how they signed in
+    SELECT e.full_name, e.team
+    FROM public.employees e
+    WHERE s.user_id IN (e.employee_id, e.email, e.full_name)
+    LIMIT 1
+  ) emp ON true
+  LEFT JOIN public.ticket_history th ON th.submission_id = s.id
+  WHERE s.status <> 'draft'
+    AND (p_status = 'all' OR s.status = p_status)
+    AND (v_reviewer.role IN ('admin', 'super-user') OR emp.team = v_reviewer.team)
+  GROUP BY s.id, emp.full_name, emp.team
+  ORDER BY s.submission_date DESC, s.created_at DESC;
+END;
+$$;
+
+-- Approved days are locked: their tickets cannot be changed or removed
+CREATE OR REPLACE FUNCTION public.prevent_locked_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.submission_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.timesheet_submissions
+    WHERE id = OLD.submission_id AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Timesheet for % is approved and locked', OLD.submission_date;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_ticket_history_changes
+BEFORE UPDATE OR DELETE ON public.ticket_history
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_locked_ticket_changes();
@@ -0,0 +1,110 @@
+-- Before/after record of every correction made to a submitted ticket
+CREATE TABLE public.ticket_history_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ticket_history_id UUID NOT NULL REFERENCES public.ticket_history(id) ON DELETE CASCADE,
+  changed_by TEXT NOT NULL,
+  reason TEXT,
+  changed_fields TEXT[] NOT NULL,
+  before JSONB NOT NULL,
+  after JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_history_audit ENABLE ROW LEVEL SECURITY;
+
+-- Reads only; corrections go through correct_ticket_history
+CREATE POLICY "Users can view ticket history audit" 
+ON public.ticket_history_audit 
+FOR SELECT 
+USING (true);
+
+CREATE INDEX idx_ticket_history_audit_ticket_id ON public.ticket_history_audit(ticket_history_id, created_at);
+
+-- Correct a submitted ticket and record the change.
+-- p_changes may contain ticket_number, category, subcategory, status, time_logged_seconds and comments.
+-- Owners may correct their own tickets; SMEs, admins and super-users may correct anyone's.
+-- Tickets of approved days are rejected by prevent_locked_ticket_history_changes.
+CREATE OR REPLACE FUNCTION public.correct_ticket_history(
+  p_ticket_id UUID,
+  p_changes JSONB,
+  p_changed_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.ticket_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before public.ticket_history;
+  v_after public.ticket_history;
+  v_changed TEXT[];
+BEGIN
+  IF NULLIF(trim(p_changed_by), '') IS NULL THEN
+    RAISE EXCEPTION 'changed_by is required';
+  END IF;
+
+  SELECT * INTO v_before
+  FROM public.ticket_history
+  WHERE id = p_ticket_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket % not found', p_ticket_id;
+  END IF;
+
+  IF v_before.user_id <> p_changed_by AND NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND p_changed_by IN (e.employee_id, e.email, e.full_name)
+      AND e.role IN ('sme', 'admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to correct this ticket';
+  END IF;
+
+  IF p_changes ? 'ticket_number' AND NULLIF(trim(p_changes->>'ticket_number'), '') IS NULL THEN
+    RAISE EXCEPTION 'Ticket number is required';
+  END IF;
+
+  IF p_changes ? 'category' AND NULLIF(trim(p_changes->>'category'), '') IS NULL THEN
+    RAISE EXCEPTION 'Category is required';
+  END IF;
+
+  IF p_changes ? 'time_logged_seconds' AND (p_changes->>'time_logged_seconds')::integer < 0 THEN
+    RAISE EXCEPTION 'Logged time cannot be negative';
+  END IF;
+
+  UPDATE public.ticket_history
+  SET ticket_number = CASE WHEN p_changes ? 'ticket_number' THEN trim(p_changes->>'ticket_number') ELSE ticket_number END,
+      category = CASE WHEN p_changes ? 'category' THEN trim(p_changes->>'category') ELSE category END,
+      subcategory = CASE WHEN p_changes ? 'subcategory' THEN COALESCE(p_changes->>'subcategory', '') ELSE subcategory END,
+      task_name = CASE
+        WHEN p_changes ? 'category' OR p_changes ? 'subcategory'
+        THEN concat_ws(' - ',
+          CASE WHEN p_changes ? 'category' THEN trim(p_changes->>'category') ELSE category END,
+          NULLIF(CASE WHEN p_changes ? 'subcategory' THEN p_changes->>'subcategory' ELSE subcategory END, ''))
+        ELSE task_name
+      END,
+      status = CASE WHEN p_changes ? 'status' THEN COALESCE(NULLIF(p_changes->>'status', ''), status) ELSE status END,
+      time_logged_seconds = CASE WHEN p_changes ? 'time_logged_seconds' THEN (p_changes->>'time_logged_seconds')::integer ELSE time_logged_seconds END,
+      comments = CASE WHEN p_changes ? 'comments' THEN COALESCE(p_changes->>'comments', '') ELSE comments END
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_after;
+
+  SELECT COALESCE(array_agg(b.key ORDER BY b.key), '{}')
+  INTO v_changed
+  FROM jsonb_each(to_jsonb(v_before)) b
+  JOIN jsonb_each(to_jsonb(v_after)) a ON a.key = b.key
+  WHERE a.value IS DISTINCT FROM b.value
+    AND b.key NOT IN ('updated_at');
+
+  IF array_length(v_changed, 1) IS NULL THEN
+    RETURN v_after;
+  END IF;
+
+  INSERT INTO public.ticket_history_audit (ticket_history_id, changed_by, reason, changed_fields, before, after)
+  VALUES (p_ticket_id, p_changed_by, NULLIF(trim(p_reason), ''), v_changed, to_jsonb(v_before), to_jsonb(v_after));
+
+  RETURN v_after;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Manual time entries and retroactive span edits on the timesheet
+ALTER TABLE public.timesheet_sessions
+ADD COLUMN source TEXT NOT NULL DEFAULT 'timer' CHECK (source IN ('timer', 'manual')),
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Spans entered or edited by hand must be well-formed, must not lie in the future
+-- and must not overlap the employee's other spans. Timer spans are recorded as they
+-- happen and are not re-checked, so a clock skew cannot block their delivery.
+CREATE OR REPLACE FUNCTION public.validate_timesheet_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.source <> 'manual' AND NEW.edited_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only re-check when the span itself moves (not e.g. when it is marked submitted)
+  IF TG_OP = 'UPDATE' AND NEW.start_at = OLD.start_at AND NEW.end_at IS NOT DISTINCT FROM OLD.end_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.end_at IS NULL THEN
+    RAISE EXCEPTION 'Edited time spans must have an end';
+  END IF;
+
+  IF NEW.end_at <= NEW.start_at THEN
+    RAISE EXCEPTION 'A time span must end after it starts';
+  END IF;
+
+  -- Allow a little clock skew between the browser and the database
+  IF NEW.end_at > now() + interval '2 minutes' THEN
+    RAISE EXCEPTION 'Time spans cannot be in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheet_sessions s
+    WHERE s.employee_id = NEW.employee_id
+      AND s.id <> NEW.id
+      AND s.submitted_at IS NULL
+      AND s.start_at < NEW.end_at
+      AND COALESCE(s.end_at, now()) > NEW.start_at
+  ) THEN
+    RAISE EXCEPTION 'Time span overlaps another recorded span';
+  END IF;
+
+  NEW.duration_seconds := EXTRACT(EPOCH FROM (NEW.end_at - NEW.start_at))::integer;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_timesheet_sessions
+BEFORE INSERT OR UPDATE ON public.timesheet_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_timesheet_session();
@@ -0,0 +1,200 @@
+-- How far back (and ahead, for planned work) each role may log time
+CREATE TABLE public.timesheet_policies (
+  role TEXT NOT NULL PRIMARY KEY CHECK (role IN ('team-member', 'sme', 'admin', 'super-user')),
+  backdate_days INTEGER NOT NULL DEFAULT 3 CHECK (backdate_days >= 0),
+  forward_days INTEGER NOT NULL DEFAULT 7 CHECK (forward_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.timesheet_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on timesheet_policies" 
+ON public.timesheet_policies 
+FOR ALL 
+USING (true) 
+WITH CHECK (true);
+
+CREATE TRIGGER update_timesheet_policies_updated_at
+BEFORE UPDATE ON public.timesheet_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.timesheet_policies (role, backdate_days, forward_days) VALUES
+  ('team-member', 3, 7),
+  ('sme', 7, 7),
+  ('admin', 30, 14),
+  ('super-user', 30, 14);
+
+-- Submissions are per work date: refuse future dates and dates outside the
+-- submitter's backdating window (the team-member window when the role is unknown)
+CREATE OR REPLACE FUNCTION public.submit_timesheet(
+  payload JSONB,
+  idempotency_key TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id TEXT := NULLIF(trim(payload->>'user_id'), '');
+  v_submission_date DATE;
+  v_submission_id UUID;
+  v_existing JSONB;
+  v_row JSONB;
+  v_index INTEGER := 0;
+  v_error TEXT;
+  v_ticket_id UUID;
+  v_results JSONB := '[]'::jsonb;
+  v_has_errors BOOLEAN := false;
+  v_result JSONB;
+  v_backdate_days INTEGER;
+BEGIN
+  IF idempotency_key IS NULL OR trim(idempotency_key) = '' THEN
+    RAISE EXCEPTION 'idempotency_key is required';
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'payload.user_id is required';
+  END IF;
+
+  IF jsonb_typeof(payload->'rows') IS DISTINCT FROM 'array' OR jsonb_array_length(payload->'rows') = 0 THEN
+    RAISE EXCEPTION 'payload.rows must be a non-empty array';
+  END IF;
+
+  v_submission_date := COALESCE(NULLIF(payload->>'submission_date', '')::date, CURRENT_DATE);
+
+  IF EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.user_id = v_user_id
+      AND s.submission_date = v_submission_date
+      AND s.status = 'approved'
+      AND s.idempotency_key <> submit_timesheet.idempotency_key
+  ) THEN
+    RAISE EXCEPTION 'Timesheet for % is approved and locked', v_submission_date;
+  END IF;
+
+  -- Claim the key; a concurrent retry blocks here until the first attempt commits
+  INSERT INTO public.timesheet_submissions (idempotency_key, user_id, submission_date, status)
+  VALUES (submit_timesheet.idempotency_key, v_user_id, v_submission_date, 'draft')
+  ON CONFLICT ON CONSTRAINT timesheet_submissions_idempotency_key_key DO NOTHING
+  RETURNING id INTO v_submission_id;
+
+  IF v_submission_id IS NULL THEN
+    SELECT s.id, s.result INTO v_submission_id, v_existing
+    FROM public.timesheet_submissions s
+    WHERE s.idempotency_key = submit_timesheet.idempotency_key
+    FOR UPDATE;
+
+    IF v_existing IS NOT NULL AND (v_existing->>'success')::boolean THEN
+      RETURN v_existing || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  -- Checked after the replay so a retried submission that already succeeded still returns its result
+  IF v_submission_date > CURRENT_DATE + 1 THEN
+    -- One day of slack for employees ahead of UTC
+    RAISE EXCEPTION 'Cannot submit a timesheet for a future date';
+  END IF;
+
+  SELECT COALESCE(p.backdate_days, fallback.backdate_days, 0) INTO v_backdate_days
+  FROM public.timesheet_policies fallback
+  LEFT JOIN public.employees e ON v_user_id IN (e.employee_id, e.email, e.full_name)
+  LEFT JOIN public.timesheet_policies p ON p.role = e.role
+  WHERE fallback.role = 'team-member'
+  ORDER BY p.backdate_days DESC NULLS LAST
+  LIMIT 1;
+
+  IF v_submission_date < CURRENT_DATE - COALESCE(v_backdate_days, 0) - 1 THEN
+    RAISE EXCEPTION 'Timesheet for % is outside the % day backdating window', v_submission_date, COALESCE(v_backdate_days, 0);
+  END IF;
+
+  -- Validate every row before writing anything
+  FOR v_row IN SELECT * FROM jsonb_array_elements(payload->'rows') LOOP
+    v_error := NULL;
+    IF NULLIF(trim(v_row->>'ticket_number'), '') IS NULL THEN
+      v_error := 'Ticket number is required';
+    ELSIF NULLIF(trim(v_row->>'category'), '') IS NULL THEN
+      v_error := 'Category is required';
+    ELSIF COALESCE((v_row->>'time_logged_seconds')::integer, 0) < 0 THEN
+      v_error := 'Logged time cannot be negative';
+    ELSIF COALESCE((v_row->>'ticket_count')::integer, 1) < 0 THEN
+      v_error := 'Ticket count cannot be negative';
+    END IF;
+
+    IF v_error IS NOT NULL THEN
+      v_has_errors := true;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'index', v_index,
+      'ticket_number', v_row->>'ticket_number',
+      'status', CASE WHEN v_error IS NULL THEN 'valid' ELSE 'invalid' END,
+      'ticket_history_id', NULL,
+      'error', v_error
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  IF v_has_errors THEN
+    v_result := jsonb_build_object(
+      'submission_id', v_submission_id,
+      'success', false,
+      'replayed', false,
+      'results', v_results
+    );
+    -- Keep the key reusable so the corrected draft can be retried with it
+    UPDATE public.timesheet_submissions SET result = v_result, status = 'draft' WHERE id = v_submission_id;
+    RETURN v_result;
+  END IF;
+
+  v_results := '[]'::jsonb;
+  v_index := 0;
+  FOR v_row IN SELECT * FROM jsonb_array_elements(payload->'rows') LOOP
+    INSERT INTO public.ticket_history (
+      user_id, submission_date, submission_id, ticket_number, university, domain,
+      category, subcategory, activity_type, task_name, stub_name, client_type,
+      status, received_date, ticket_count, time_logged_seconds, comments
+    ) VALUES (
+      v_user_id,
+      v_submission_date,
+      v_submission_id,
+      trim(v_row->>'ticket_number'),
+      COALESCE(v_row->>'university', ''),
+      COALESCE(v_row->>'domain', ''),
+      trim(v_row->>'category'),
+      COALESCE(v_row->>'subcategory', ''),
+      COALESCE(v_row->>'activity_type', ''),
+      COALESCE(v_row->>'task_name', ''),
+      v_row->>'stub_name',
+      v_row->>'client_type',
+      COALESCE(NULLIF(v_row->>'status', ''), 'Completed'),
+      COALESCE(v_row->>'received_date', ''),
+      COALESCE((v_row->>'ticket_count')::integer, 1),
+      COALESCE((v_row->>'time_logged_seconds')::integer, 0),
+      COALESCE(v_row->>'comments', '')
+    )
+    RETURNING id INTO v_ticket_id;
+
+    v_results := v_results || jsonb_build_object(
+      'index', v_index,
+      'ticket_number', v_row->>'ticket_number',
+      'status', 'inserted',
+      'ticket_history_id', v_ticket_id,
+      'error', NULL
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  v_result := jsonb_build_object(
+    'submission_id', v_submission_id,
+    'success', true,
+    'replayed', false,
+    'results', v_results
+  );
+
+  UPDATE public.timesheet_submissions SET result = v_result, status = 'submitted' WHERE id = v_submission_id;
+  RETURN v_result;
+END;
+$$;
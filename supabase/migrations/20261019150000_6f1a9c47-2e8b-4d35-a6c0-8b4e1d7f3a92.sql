@@ -0,0 +1,133 @@
+-- Shared task catalog (category / sub category with AHT target), previously kept in each browser
+CREATE TABLE public.tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT NOT NULL,
+  subcategory TEXT NOT NULL,
+  aht INTEGER NOT NULL DEFAULT 0 CHECK (aht >= 0), -- minutes per unit
+  team TEXT NOT NULL DEFAULT 'All Teams',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  type TEXT NOT NULL DEFAULT 'direct' CHECK (type IN ('direct', 'indirect')),
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (category, subcategory)
+);
+
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reads; changes go through save_tasks and delete_tasks, which check the actor is an admin
+CREATE POLICY "Users can view tasks"
+ON public.tasks
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_tasks_updated_at
+BEFORE UPDATE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.tasks (category, subcategory, aht, team, type, description, priority, created_by) VALUES
+  ('Customer Support', 'Phone Support', 15, 'Support', 'direct', 'Handle customer inquiries and provide support', 'medium', 'admin@company.com'),
+  ('Customer Support', 'Email Support', 10, 'All Teams', 'direct', 'Handle email inquiries and provide support', 'medium', 'sme@company.com'),
+  ('Technical', 'Code Review', 30, 'Migration', 'direct', 'Review code and provide feedback', 'high', 'admin@company.com'),
+  ('Technical', 'Bug Fixing', 90, 'All Teams', 'indirect', 'Fix bugs and issues in the system', 'high', 'sme@company.com'),
+  ('Content', 'Documentation', 45, 'Exxat One', 'direct', 'Create and maintain documentation', 'medium', 'admin@company.com');
+
+CREATE OR REPLACE FUNCTION public.assert_task_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the task catalog';
+  END IF;
+END;
+$$;
+
+-- Create or update tasks. Elements with an id update that task; elements without one are
+-- inserted, or update the existing task with the same category and sub category.
+CREATE OR REPLACE FUNCTION public.save_tasks(p_actor TEXT, p_tasks JSONB)
+RETURNS SETOF public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task JSONB;
+  v_row public.tasks;
+BEGIN
+  PERFORM public.assert_task_manager(p_actor);
+
+  FOR v_task IN SELECT value FROM jsonb_array_elements(p_tasks) LOOP
+    IF NULLIF(trim(v_task->>'category'), '') IS NULL OR NULLIF(trim(v_task->>'subcategory'), '') IS NULL THEN
+      RAISE EXCEPTION 'Category and sub category are required';
+    END IF;
+
+    IF v_task->>'id' IS NOT NULL THEN
+      UPDATE public.tasks SET
+        category = trim(v_task->>'category'),
+        subcategory = trim(v_task->>'subcategory'),
+        aht = COALESCE((v_task->>'aht')::integer, aht),
+        team = COALESCE(v_task->>'team', team),
+        status = COALESCE(v_task->>'status', status),
+        type = COALESCE(v_task->>'type', type),
+        description = COALESCE(v_task->>'description', description),
+        priority = COALESCE(v_task->>'priority', priority)
+      WHERE id = (v_task->>'id')::uuid
+      RETURNING * INTO v_row;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task % not found', v_task->>'id';
+      END IF;
+    ELSE
+      INSERT INTO public.tasks (category, subcategory, aht, team, status, type, description, priority, created_by)
+      VALUES (
+        trim(v_task->>'category'),
+        trim(v_task->>'subcategory'),
+        COALESCE((v_task->>'aht')::integer, 0),
+        COALESCE(v_task->>'team', 'All Teams'),
+        COALESCE(v_task->>'status', 'active'),
+        COALESCE(v_task->>'type', 'direct'),
+        v_task->>'description',
+        COALESCE(v_task->>'priority', 'medium'),
+        p_actor
+      )
+      ON CONFLICT (category, subcategory) DO UPDATE SET
+        aht = EXCLUDED.aht,
+        team = EXCLUDED.team,
+        status = EXCLUDED.status,
+        type = EXCLUDED.type
+      RETURNING * INTO v_row;
+    END IF;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$;
+
+-- Remove tasks from the catalog. Submitted tickets keep their category and sub category text.
+CREATE OR REPLACE FUNCTION public.delete_tasks(p_actor TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  PERFORM public.assert_task_manager(p_actor);
+
+  DELETE FROM public.tasks WHERE id = ANY(p_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
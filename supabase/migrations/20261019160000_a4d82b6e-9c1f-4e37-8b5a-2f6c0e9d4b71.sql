@@ -0,0 +1,203 @@
+-- Shared client registry; tickets reference their client by id so a rename keeps the history attached
+CREATE TABLE public.clients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  university TEXT NOT NULL UNIQUE,
+  domain TEXT,
+  client_type TEXT NOT NULL DEFAULT 'New' CHECK (client_type IN ('New', 'BAU')),
+  contact_name TEXT,
+  contact_email TEXT,
+  phone TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reads; changes go through save_clients and delete_clients
+CREATE POLICY "Users can view clients"
+ON public.clients
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_clients_updated_at
+BEFORE UPDATE ON public.clients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every university already logged against becomes a client
+INSERT INTO public.clients (university, client_type)
+SELECT DISTINCT trim(university), CASE WHEN bool_or(client_type = 'BAU') THEN 'BAU' ELSE 'New' END
+FROM public.ticket_history
+WHERE NULLIF(trim(university), '') IS NOT NULL
+GROUP BY trim(university)
+ON CONFLICT (university) DO NOTHING;
+
+ALTER TABLE public.ticket_history
+ADD COLUMN client_id UUID REFERENCES public.clients(id);
+
+CREATE INDEX idx_ticket_history_client_id ON public.ticket_history(client_id, submission_date);
+
+-- Linking is bookkeeping, not a correction, so it is allowed on approved days too
+ALTER TABLE public.ticket_history DISABLE TRIGGER prevent_locked_ticket_history_changes;
+
+UPDATE public.ticket_history th
+SET client_id = c.id
+FROM public.clients c
+WHERE c.university = trim(th.university);
+
+ALTER TABLE public.ticket_history ENABLE TRIGGER prevent_locked_ticket_history_changes;
+
+-- New and corrected tickets are linked to the client with the same university name
+CREATE OR REPLACE FUNCTION public.link_ticket_history_client()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.university IS DISTINCT FROM OLD.university THEN
+    SELECT id INTO NEW.client_id
+    FROM public.clients
+    WHERE university = trim(NEW.university);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_ticket_history_client
+BEFORE INSERT OR UPDATE OF university ON public.ticket_history
+FOR EACH ROW
+EXECUTE FUNCTION public.link_ticket_history_client();
+
+CREATE OR REPLACE FUNCTION public.assert_client_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('sme', 'admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only SMEs and admins can change clients';
+  END IF;
+END;
+$$;
+
+-- Create or update clients. Elements with an id update that client (a rename keeps its tickets);
+-- elements without one are inserted, or update the client with the same university.
+CREATE OR REPLACE FUNCTION public.save_clients(p_actor TEXT, p_clients JSONB)
+RETURNS SETOF public.clients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client JSONB;
+  v_row public.clients;
+BEGIN
+  PERFORM public.assert_client_manager(p_actor);
+
+  FOR v_client IN SELECT value FROM jsonb_array_elements(p_clients) LOOP
+    IF NULLIF(trim(v_client->>'university'), '') IS NULL THEN
+      RAISE EXCEPTION 'University is required';
+    END IF;
+
+    IF v_client->>'id' IS NOT NULL THEN
+      UPDATE public.clients SET
+        university = trim(v_client->>'university'),
+        domain = COALESCE(v_client->>'domain', domain),
+        client_type = COALESCE(v_client->>'client_type', client_type),
+        contact_name = COALESCE(v_client->>'contact_name', contact_name),
+        contact_email = COALESCE(v_client->>'contact_email', contact_email),
+        phone = COALESCE(v_client->>'phone', phone),
+        status = COALESCE(v_client->>'status', status)
+      WHERE id = (v_client->>'id')::uuid
+      RETURNING * INTO v_row;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Client % not found', v_client->>'id';
+      END IF;
+    ELSE
+      INSERT INTO public.clients (university, domain, client_type, contact_name, contact_email, phone, status, created_by)
+      VALUES (
+        trim(v_client->>'university'),
+        v_client->>'domain',
+        COALESCE(v_client->>'client_type', 'New'),
+        v_client->>'contact_name',
+        v_client->>'contact_email',
+        v_client->>'phone',
+        COALESCE(v_client->>'status', 'active'),
+        p_actor
+      )
+      ON CONFLICT (university) DO UPDATE SET
+        domain = EXCLUDED.domain,
+        client_type = EXCLUDED.client_type,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        phone = EXCLUDED.phone,
+        status = EXCLUDED.status
+      RETURNING * INTO v_row;
+    END IF;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$;
+
+-- Clients with logged tickets cannot be deleted, only deactivated, so no history loses its client
+CREATE OR REPLACE FUNCTION public.delete_clients(p_actor TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_in_use TEXT;
+  v_deleted INTEGER;
+BEGIN
+  PERFORM public.assert_client_manager(p_actor);
+
+  SELECT c.university INTO v_in_use
+  FROM public.clients c
+  WHERE c.id = ANY(p_ids)
+    AND EXISTS (SELECT 1 FROM public.ticket_history th WHERE th.client_id = c.id)
+  LIMIT 1;
+
+  IF v_in_use IS NOT NULL THEN
+    RAISE EXCEPTION '% has logged tickets; deactivate it instead', v_in_use;
+  END IF;
+
+  DELETE FROM public.clients WHERE id = ANY(p_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Hours, ticket volume and last activity per client
+CREATE OR REPLACE FUNCTION public.get_client_activity()
+RETURNS TABLE (
+  client_id UUID,
+  total_seconds INTEGER,
+  ticket_count INTEGER,
+  entry_count INTEGER,
+  last_activity DATE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    th.client_id,
+    COALESCE(SUM(th.time_logged_seconds), 0)::integer,
+    COALESCE(SUM(COALESCE(th.ticket_count, 1)), 0)::integer,
+    COUNT(*)::integer,
+    MAX(th.submission_date)
+  FROM public.ticket_history th
+  WHERE th.client_id IS NOT NULL
+  GROUP BY th.client_id;
+$$;
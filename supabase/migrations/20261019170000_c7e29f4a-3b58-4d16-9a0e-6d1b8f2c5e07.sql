@@ -0,0 +1,202 @@
+-- Versioned dropdown lists (universities, domains, client types, stubs) shared by everyone.
+-- Admins edit a single draft and publish it with an effective date; published versions are never changed.
+-- Tasks are not part of a version, they live in the tasks table.
+CREATE TABLE public.dropdown_list_versions (
+  version INTEGER NOT NULL PRIMARY KEY,
+  universities JSONB NOT NULL DEFAULT '[]'::jsonb,
+  domains JSONB NOT NULL DEFAULT '[]'::jsonb,
+  client_types JSONB NOT NULL DEFAULT '[]'::jsonb,
+  stubs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  effective_from DATE,
+  effective_to DATE,
+  created_by TEXT,
+  published_by TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status = 'draft' OR effective_from IS NOT NULL)
+);
+
+-- At most one draft at a time
+CREATE UNIQUE INDEX idx_dropdown_list_versions_draft ON public.dropdown_list_versions(status) WHERE status = 'draft';
+
+ALTER TABLE public.dropdown_list_versions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reads; changes go through save_dropdown_draft and publish_dropdown_version
+CREATE POLICY "Users can view dropdown list versions"
+ON public.dropdown_list_versions
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_dropdown_list_versions_updated_at
+BEFORE UPDATE ON public.dropdown_list_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The defaults every browser started with
+INSERT INTO public.dropdown_list_versions (version, universities, domains, client_types, stubs, status, effective_from, created_by, published_by, published_at) VALUES (
+  1,
+  '[{"name": "Harvard University"}, {"name": "MIT"}, {"name": "Stanford University"}, {"name": "University of California"}]',
+  '[{"name": "Computer Science"}, {"name": "Business Administration"}, {"name": "Engineering"}, {"name": "Customer Service"}]',
+  '[{"name": "Premium", "description": "High priority premium client", "priority": "High"}, {"name": "Standard", "description": "Regular client with standard support", "priority": "Medium"}, {"name": "Basic", "description": "Basic support client", "priority": "Low"}, {"name": "Enterprise", "description": "Large enterprise client", "priority": "Critical"}]',
+  '[{"name": "Student Support"}, {"name": "Academic Services"}, {"name": "Technical Support"}, {"name": "Administrative"}]',
+  'published',
+  '2025-01-01',
+  'admin@company.com',
+  'admin@company.com',
+  now()
+);
+
+-- The published version in effect on a date; a later version published for the same date wins
+CREATE OR REPLACE FUNCTION public.dropdown_version_on(p_date DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT version
+  FROM public.dropdown_list_versions
+  WHERE status = 'published'
+    AND effective_from <= p_date
+  ORDER BY effective_from DESC, version DESC
+  LIMIT 1;
+$$;
+
+-- Tickets record the list version the pickers offered when they were logged.
+-- Tickets logged before lists were versioned keep a null version.
+ALTER TABLE public.ticket_history
+ADD COLUMN dropdown_version INTEGER REFERENCES public.dropdown_list_versions(version);
+
+CREATE OR REPLACE FUNCTION public.stamp_ticket_dropdown_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.dropdown_version IS NULL THEN
+    NEW.dropdown_version := public.dropdown_version_on(CURRENT_DATE);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_ticket_dropdown_version
+BEFORE INSERT ON public.ticket_history
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_ticket_dropdown_version();
+
+CREATE OR REPLACE FUNCTION public.assert_dropdown_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change dropdown lists';
+  END IF;
+END;
+$$;
+
+-- Replace the lists given in p_lists (keys universities, domains, client_types, stubs) in the draft.
+-- The draft is created from the latest published version when there is none.
+CREATE OR REPLACE FUNCTION public.save_dropdown_draft(p_actor TEXT, p_lists JSONB)
+RETURNS public.dropdown_list_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.dropdown_list_versions;
+BEGIN
+  PERFORM public.assert_dropdown_manager(p_actor);
+
+  IF NOT EXISTS (SELECT 1 FROM public.dropdown_list_versions WHERE status = 'draft') THEN
+    INSERT INTO public.dropdown_list_versions (version, universities, domains, client_types, stubs, created_by)
+    SELECT COALESCE(MAX(v.version), 0) + 1,
+      COALESCE((SELECT p.universities FROM public.dropdown_list_versions p WHERE p.status = 'published' ORDER BY p.version DESC LIMIT 1), '[]'::jsonb),
+      COALESCE((SELECT p.domains FROM public.dropdown_list_versions p WHERE p.status = 'published' ORDER BY p.version DESC LIMIT 1), '[]'::jsonb),
+      COALESCE((SELECT p.client_types FROM public.dropdown_list_versions p WHERE p.status = 'published' ORDER BY p.version DESC LIMIT 1), '[]'::jsonb),
+      COALESCE((SELECT p.stubs FROM public.dropdown_list_versions p WHERE p.status = 'published' ORDER BY p.version DESC LIMIT 1), '[]'::jsonb),
+      p_actor
+    FROM public.dropdown_list_versions v;
+  END IF;
+
+  UPDATE public.dropdown_list_versions SET
+    universities = COALESCE(p_lists->'universities', universities),
+    domains = COALESCE(p_lists->'domains', domains),
+    client_types = COALESCE(p_lists->'client_types', client_types),
+    stubs = COALESCE(p_lists->'stubs', stubs)
+  WHERE status = 'draft'
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Publish the draft. It takes effect on p_effective_from, which cannot be before the latest published version's,
+-- and the versions it supersedes end the day before.
+CREATE OR REPLACE FUNCTION public.publish_dropdown_version(p_actor TEXT, p_effective_from DATE DEFAULT CURRENT_DATE)
+RETURNS public.dropdown_list_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest DATE;
+  v_row public.dropdown_list_versions;
+BEGIN
+  PERFORM public.assert_dropdown_manager(p_actor);
+
+  IF NOT EXISTS (SELECT 1 FROM public.dropdown_list_versions WHERE status = 'draft') THEN
+    RAISE EXCEPTION 'There are no unpublished changes';
+  END IF;
+
+  SELECT MAX(effective_from) INTO v_latest
+  FROM public.dropdown_list_versions
+  WHERE status = 'published';
+
+  IF v_latest IS NOT NULL AND p_effective_from < v_latest THEN
+    RAISE EXCEPTION 'Effective date cannot be before %', v_latest;
+  END IF;
+
+  UPDATE public.dropdown_list_versions
+  SET effective_to = p_effective_from - 1
+  WHERE status = 'published'
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  UPDATE public.dropdown_list_versions SET
+    status = 'published',
+    effective_from = p_effective_from,
+    published_by = p_actor,
+    published_at = now()
+  WHERE status = 'draft'
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Throw away unpublished changes
+CREATE OR REPLACE FUNCTION public.discard_dropdown_draft(p_actor TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  PERFORM public.assert_dropdown_manager(p_actor);
+
+  DELETE FROM public.dropdown_list_versions WHERE status = 'draft';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
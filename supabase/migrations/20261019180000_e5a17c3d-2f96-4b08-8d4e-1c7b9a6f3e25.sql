@@ -0,0 +1,297 @@
+-- Hashed employee passwords (bcrypt via pgcrypto), forced change on first login and after an admin reset,
+-- expiry, reuse history and lockout after repeated failed logins
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Single row of password rules; 0 turns a rule off
+CREATE TABLE public.password_policy (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  max_age_days INTEGER NOT NULL DEFAULT 90 CHECK (max_age_days >= 0),
+  history_count INTEGER NOT NULL DEFAULT 5 CHECK (history_count >= 0),
+  max_failed_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_failed_attempts >= 0),
+  lockout_minutes INTEGER NOT NULL DEFAULT 15 CHECK (lockout_minutes >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.password_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the password policy"
+ON public.password_policy
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_password_policy_updated_at
+BEFORE UPDATE ON public.password_policy
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.password_policy (id) VALUES (true);
+
+ALTER TABLE public.employees
+ADD COLUMN must_change_password BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN password_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Previous hashes, to refuse reusing a recent password. Only read by the functions below.
+CREATE TABLE public.employee_password_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_employee_password_history_employee ON public.employee_password_history(employee_id, created_at DESC);
+
+ALTER TABLE public.employee_password_history ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_password_hash(p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_value ~ '^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$';
+$$;
+
+CREATE OR REPLACE FUNCTION public.hash_password(p_password TEXT)
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT extensions.crypt(p_password, extensions.gen_salt('bf', 10));
+$$;
+
+-- The rules PasswordResetModal shows: 8+ characters with lower and upper case letters, a number and one of @$!%*?&
+CREATE OR REPLACE FUNCTION public.check_password_strength(p_password TEXT)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_missing TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF length(COALESCE(p_password, '')) < 8 THEN v_missing := v_missing || 'at least 8 characters'; END IF;
+  IF COALESCE(p_password, '') !~ '[a-z]' THEN v_missing := v_missing || 'a lowercase letter'; END IF;
+  IF COALESCE(p_password, '') !~ '[A-Z]' THEN v_missing := v_missing || 'an uppercase letter'; END IF;
+  IF COALESCE(p_password, '') !~ '\d' THEN v_missing := v_missing || 'a number'; END IF;
+  IF COALESCE(p_password, '') !~ '[@$!%*?&]' THEN v_missing := v_missing || 'a special character (@$!%*?&)'; END IF;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RAISE EXCEPTION 'Password needs %', array_to_string(v_missing, ', ');
+  END IF;
+END;
+$$;
+
+-- Existing plain text passwords are hashed as they are; everyone picks a new one at their next login
+UPDATE public.employees
+SET password_hash = public.hash_password(password_hash),
+    must_change_password = true
+WHERE NOT public.is_password_hash(password_hash);
+
+-- Passwords written in plain text (new employees, bulk uploads) are checked and hashed on the way in,
+-- and must be changed at first login
+CREATE OR REPLACE FUNCTION public.hash_employee_password()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.password_hash IS NOT DISTINCT FROM OLD.password_hash THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_password_hash(NEW.password_hash) THEN
+    PERFORM public.check_password_strength(NEW.password_hash);
+    NEW.password_hash := public.hash_password(NEW.password_hash);
+    NEW.must_change_password := true;
+  END IF;
+
+  NEW.password_changed_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hash_employee_password
+BEFORE INSERT OR UPDATE OF password_hash ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.hash_employee_password();
+
+-- Store a new password for an employee, refusing weak and recently used ones
+CREATE OR REPLACE FUNCTION public.set_employee_password(p_employee UUID, p_new_password TEXT, p_must_change BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current TEXT;
+  v_history_count INTEGER;
+BEGIN
+  PERFORM public.check_password_strength(p_new_password);
+
+  SELECT e.password_hash INTO v_current FROM public.employees e WHERE e.id = p_employee;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  SELECT p.history_count INTO v_history_count FROM public.password_policy p;
+
+  IF COALESCE(v_history_count, 0) > 0 AND (
+    extensions.crypt(p_new_password, v_current) = v_current
+    OR EXISTS (
+      SELECT 1 FROM (
+        SELECT h.password_hash FROM public.employee_password_history h
+        WHERE h.employee_id = p_employee
+        ORDER BY h.created_at DESC
+        LIMIT v_history_count - 1
+      ) recent
+      WHERE extensions.crypt(p_new_password, recent.password_hash) = recent.password_hash
+    )
+  ) THEN
+    RAISE EXCEPTION 'Password was used recently; choose a different one';
+  END IF;
+
+  INSERT INTO public.employee_password_history (employee_id, password_hash) VALUES (p_employee, v_current);
+
+  UPDATE public.employees SET
+    password_hash = public.hash_password(p_new_password),
+    must_change_password = p_must_change,
+    failed_login_attempts = 0,
+    locked_until = NULL
+  WHERE id = p_employee;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_employee_password(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Admin reset: also unlocks the account, and the employee must change the password at next login
+CREATE OR REPLACE FUNCTION public.reset_employee_password(p_actor TEXT, p_employee UUID, p_new_password TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reset passwords';
+  END IF;
+
+  PERFORM public.set_employee_password(p_employee, p_new_password, true);
+END;
+$$;
+
+-- Employees change their own password, e.g. when it was reset or has expired
+CREATE OR REPLACE FUNCTION public.change_employee_password(p_login TEXT, p_current_password TEXT, p_new_password TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee public.employees;
+BEGIN
+  SELECT * INTO v_employee
+  FROM public.employees e
+  WHERE e.is_active = true
+    AND p_login IN (e.employee_id, e.email);
+
+  IF NOT FOUND
+    OR (v_employee.locked_until IS NOT NULL AND v_employee.locked_until > now())
+    OR extensions.crypt(p_current_password, v_employee.password_hash) <> v_employee.password_hash THEN
+    RAISE EXCEPTION 'Current password is incorrect';
+  END IF;
+
+  IF p_new_password = p_current_password THEN
+    RAISE EXCEPTION 'New password must be different from the current one';
+  END IF;
+
+  PERFORM public.set_employee_password(v_employee.id, p_new_password, false);
+END;
+$$;
+
+-- Now returns whether the password must be changed (first login, reset or expired) and when a locked account opens again.
+-- Every failed attempt is counted; reaching the limit locks the account for the lockout period.
+DROP FUNCTION IF EXISTS public.authenticate_employee(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.authenticate_employee(
+  input_employee_id TEXT,
+  input_email TEXT,
+  input_password TEXT
+)
+RETURNS TABLE(
+  employee_id TEXT,
+  email TEXT,
+  role TEXT,
+  full_name TEXT,
+  auth_success BOOLEAN,
+  must_change_password BOOLEAN,
+  locked_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_employee public.employees;
+  v_policy public.password_policy;
+  v_success BOOLEAN;
+  v_expired BOOLEAN;
+BEGIN
+  SELECT * INTO v_employee
+  FROM public.employees e
+  WHERE e.is_active = true
+    AND (
+      (input_employee_id IS NOT NULL AND input_employee_id != '' AND e.employee_id = input_employee_id)
+      OR (input_email IS NOT NULL AND input_email != '' AND e.email = input_email)
+    );
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_policy FROM public.password_policy;
+
+  IF v_employee.locked_until IS NOT NULL AND v_employee.locked_until > now() THEN
+    RETURN QUERY SELECT v_employee.employee_id, v_employee.email, v_employee.role, v_employee.full_name,
+      false, v_employee.must_change_password, v_employee.locked_until;
+    RETURN;
+  END IF;
+
+  v_success := extensions.crypt(COALESCE(input_password, ''), v_employee.password_hash) = v_employee.password_hash;
+
+  IF v_success THEN
+    UPDATE public.employees e SET failed_login_attempts = 0, locked_until = NULL
+    WHERE e.id = v_employee.id;
+
+    v_expired := COALESCE(v_policy.max_age_days, 0) > 0
+      AND v_employee.password_changed_at < now() - make_interval(days => v_policy.max_age_days);
+
+    RETURN QUERY SELECT v_employee.employee_id, v_employee.email, v_employee.role, v_employee.full_name,
+      true, v_employee.must_change_password OR v_expired, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  IF COALESCE(v_policy.max_failed_attempts, 0) > 0
+    AND v_employee.failed_login_attempts + 1 >= v_policy.max_failed_attempts THEN
+    UPDATE public.employees e SET
+      failed_login_attempts = 0,
+      locked_until = now() + make_interval(mins => v_policy.lockout_minutes)
+    WHERE e.id = v_employee.id
+    RETURNING e.locked_until INTO v_employee.locked_until;
+  ELSE
+    UPDATE public.employees e SET failed_login_attempts = e.failed_login_attempts + 1
+    WHERE e.id = v_employee.id;
+  END IF;
+
+  RETURN QUERY SELECT v_employee.employee_id, v_employee.email, v_employee.role, v_employee.full_name,
+    false, false, v_employee.locked_until;
+END;
+$$;
@@ -0,0 +1,509 @@
+-- Employees sign in as Supabase Auth users. Each employee is mirrored to an auth user whose
+-- app_metadata carries the role, employee id and email, so they reach the session JWT, and row level
+-- security is keyed on auth.uid() and that role instead of being open to everyone.
+ALTER TABLE public.employees
+ADD COLUMN auth_user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Auth users need an email; employees sign in with their employee id, so it is derived from that.
+-- Login.tsx builds the same address (getAuthEmail in AuthService).
+CREATE OR REPLACE FUNCTION public.employee_auth_email(p_employee_id TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(trim(p_employee_id)) || '@employees.timesheet.local';
+$$;
+
+-- Keep the auth user in step with the employee: sign-in email, password hash (both bcrypt),
+-- role claims, and a ban while the account is locked or inactive.
+-- Role changes reach the JWT when the session next refreshes.
+CREATE OR REPLACE FUNCTION public.sync_employee_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := public.employee_auth_email(NEW.employee_id);
+  v_app_metadata JSONB := jsonb_build_object(
+    'provider', 'email',
+    'providers', jsonb_build_array('email'),
+    'role', NEW.role,
+    'employee_id', NEW.employee_id,
+    'email', NEW.email
+  );
+  v_banned_until TIMESTAMP WITH TIME ZONE := CASE
+    WHEN NOT NEW.is_active THEN 'infinity'::timestamptz
+    ELSE NEW.locked_until
+  END;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.auth_user_id IS NOT NULL
+    AND NEW.employee_id IS NOT DISTINCT FROM OLD.employee_id
+    AND NEW.email IS NOT DISTINCT FROM OLD.email
+    AND NEW.full_name IS NOT DISTINCT FROM OLD.full_name
+    AND NEW.role IS NOT DISTINCT FROM OLD.role
+    AND NEW.password_hash IS NOT DISTINCT FROM OLD.password_hash
+    AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active
+    AND NEW.locked_until IS NOT DISTINCT FROM OLD.locked_until THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.auth_user_id IS NULL THEN
+    NEW.auth_user_id := gen_random_uuid();
+
+    INSERT INTO auth.users (
+      instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+      raw_app_meta_data, raw_user_meta_data, banned_until, created_at, updated_at,
+      confirmation_token, recovery_token, email_change_token_new, email_change
+    ) VALUES (
+      '00000000-0000-0000-0000-000000000000', NEW.auth_user_id, 'authenticated', 'authenticated',
+      v_email, NEW.password_hash, now(),
+      v_app_metadata, jsonb_build_object('full_name', NEW.full_name), v_banned_until, now(), now(),
+      '', '', '', ''
+    );
+
+    INSERT INTO auth.identities (id, user_id, provider_id, provider, identity_data, created_at, updated_at)
+    VALUES (
+      gen_random_uuid(), NEW.auth_user_id, NEW.auth_user_id::text, 'email',
+      jsonb_build_object('sub', NEW.auth_user_id::text, 'email', v_email, 'email_verified', true),
+      now(), now()
+    );
+  ELSE
+    UPDATE auth.users SET
+      email = v_email,
+      encrypted_password = NEW.password_hash,
+      raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || v_app_metadata,
+      raw_user_meta_data = COALESCE(raw_user_meta_data, '{}'::jsonb) || jsonb_build_object('full_name', NEW.full_name),
+      banned_until = v_banned_until,
+      updated_at = now()
+    WHERE id = NEW.auth_user_id;
+
+    UPDATE auth.identities SET
+      identity_data = identity_data || jsonb_build_object('email', v_email),
+      updated_at = now()
+    WHERE user_id = NEW.auth_user_id AND provider = 'email';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after hash_employee_password (triggers fire in name order), so only hashes are copied
+CREATE TRIGGER sync_employee_auth_user
+BEFORE INSERT OR UPDATE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_employee_auth_user();
+
+CREATE OR REPLACE FUNCTION public.delete_employee_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.users WHERE id = OLD.auth_user_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_employee_auth_user
+AFTER DELETE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_employee_auth_user();
+
+-- Create auth users for existing employees without counting it as activity
+ALTER TABLE public.employees DISABLE TRIGGER update_employee_last_active_trigger;
+UPDATE public.employees SET auth_user_id = NULL WHERE auth_user_id IS NULL;
+ALTER TABLE public.employees ENABLE TRIGGER update_employee_last_active_trigger;
+
+-- Role claim of the signed-in user
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT auth.jwt() -> 'app_metadata' ->> 'role';
+$$;
+
+-- Whether a user key stored on rows (employee id, email or full name) belongs to the signed-in employee
+CREATE OR REPLACE FUNCTION public.is_current_employee(p_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.auth_user_id = auth.uid()
+      AND e.is_active = true
+      AND p_key IN (e.employee_id, e.email, e.full_name)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_reviewer()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.current_app_role() IN ('sme', 'admin', 'super-user'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.current_app_role() IN ('admin', 'super-user'), false);
+$$;
+
+-- Employees: everyone signed in may list colleagues (never the password hash); admins manage them
+DROP POLICY IF EXISTS "Allow all operations on employees" ON public.employees;
+
+CREATE POLICY "Signed in users can view employees"
+ON public.employees
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can add employees"
+ON public.employees
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update employees"
+ON public.employees
+FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can delete employees"
+ON public.employees
+FOR DELETE
+TO authenticated
+USING (public.is_admin());
+
+REVOKE ALL ON public.employees FROM anon;
+REVOKE SELECT ON public.employees FROM authenticated;
+GRANT SELECT (
+  id, employee_id, email, role, full_name, is_active, created_at, updated_at, team, join_date,
+  last_active, must_change_password, password_changed_at, failed_login_attempts, locked_until, auth_user_id
+) ON public.employees TO authenticated;
+
+-- Ticket history: own rows, or every row for reviewers. Rows are written by submit_timesheet.
+DROP POLICY IF EXISTS "Users can view their own ticket history" ON public.ticket_history;
+DROP POLICY IF EXISTS "Users can insert their own ticket history" ON public.ticket_history;
+
+CREATE POLICY "Users can view their own ticket history"
+ON public.ticket_history
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(user_id) OR public.is_reviewer());
+
+-- Timer sessions: owners record their own; reviewers can read everyone's
+DROP POLICY IF EXISTS "Allow all operations on timesheet_sessions" ON public.timesheet_sessions;
+
+CREATE POLICY "Users can view their own timesheet sessions"
+ON public.timesheet_sessions
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(employee_id) OR public.is_reviewer());
+
+CREATE POLICY "Users can add their own timesheet sessions"
+ON public.timesheet_sessions
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_current_employee(employee_id));
+
+CREATE POLICY "Users can update their own timesheet sessions"
+ON public.timesheet_sessions
+FOR UPDATE
+TO authenticated
+USING (public.is_current_employee(employee_id))
+WITH CHECK (public.is_current_employee(employee_id));
+
+CREATE POLICY "Users can delete their own timesheet sessions"
+ON public.timesheet_sessions
+FOR DELETE
+TO authenticated
+USING (public.is_current_employee(employee_id));
+
+-- Submissions, their review trail and ticket corrections follow the same rule as ticket history
+DROP POLICY IF EXISTS "Users can view timesheet submissions" ON public.timesheet_submissions;
+
+CREATE POLICY "Users can view timesheet submissions"
+ON public.timesheet_submissions
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(user_id) OR public.is_reviewer());
+
+DROP POLICY IF EXISTS "Users can view timesheet submission reviews" ON public.timesheet_submission_reviews;
+
+CREATE POLICY "Users can view timesheet submission reviews"
+ON public.timesheet_submission_reviews
+FOR SELECT
+TO authenticated
+USING (
+  public.is_reviewer()
+  OR EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.id = submission_id AND public.is_current_employee(s.user_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view ticket history audit" ON public.ticket_history_audit;
+
+CREATE POLICY "Users can view ticket history audit"
+ON public.ticket_history_audit
+FOR SELECT
+TO authenticated
+USING (
+  public.is_reviewer()
+  OR EXISTS (
+    SELECT 1 FROM public.ticket_history th
+    WHERE th.id = ticket_history_id AND public.is_current_employee(th.user_id)
+  )
+);
+
+-- Backdating windows: read by everyone signed in, changed by admins
+DROP POLICY IF EXISTS "Allow all operations on timesheet_policies" ON public.timesheet_policies;
+
+CREATE POLICY "Users can view timesheet policies"
+ON public.timesheet_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage timesheet policies"
+ON public.timesheet_policies
+FOR ALL
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- The actor passed to the management functions must be the signed-in employee
+CREATE OR REPLACE FUNCTION public.assert_task_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND e.auth_user_id = auth.uid()
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the task catalog';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_client_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND e.auth_user_id = auth.uid()
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('sme', 'admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only SMEs and admins can change clients';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_dropdown_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND e.auth_user_id = auth.uid()
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change dropdown lists';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_employee_password(p_actor TEXT, p_employee UUID, p_new_password TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.is_active = true
+      AND e.auth_user_id = auth.uid()
+      AND p_actor IN (e.employee_id, e.email)
+      AND e.role IN ('admin', 'super-user')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reset passwords';
+  END IF;
+
+  PERFORM public.set_employee_password(p_employee, p_new_password, true);
+END;
+$$;
+
+-- Submitting, reviewing and correcting keep their bodies; the public entry points now check
+-- that the user or actor they are given is the signed-in employee before delegating.
+ALTER FUNCTION public.submit_timesheet(JSONB, TEXT) RENAME TO submit_timesheet_unchecked;
+ALTER FUNCTION public.review_timesheet_submission(UUID, TEXT, TEXT, TEXT) RENAME TO review_timesheet_submission_unchecked;
+ALTER FUNCTION public.get_review_queue(TEXT, TEXT) RENAME TO get_review_queue_unchecked;
+ALTER FUNCTION public.correct_ticket_history(UUID, JSONB, TEXT, TEXT) RENAME TO correct_ticket_history_unchecked;
+
+REVOKE EXECUTE ON FUNCTION public.submit_timesheet_unchecked(JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_timesheet_submission_unchecked(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_review_queue_unchecked(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.correct_ticket_history_unchecked(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_timesheet(
+  payload JSONB,
+  idempotency_key TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(NULLIF(trim(payload->>'user_id'), '')) THEN
+    RAISE EXCEPTION 'Timesheets can only be submitted for the signed-in user';
+  END IF;
+
+  RETURN public.submit_timesheet_unchecked(payload, idempotency_key);
+END;
+$$;
+
+-- Reviewers approve, reject and reopen; owners may also resubmit their own timesheet
+CREATE OR REPLACE FUNCTION public.review_timesheet_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.timesheet_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_actor) THEN
+    RAISE EXCEPTION 'Reviewer must be the signed-in user';
+  END IF;
+
+  IF NOT public.is_reviewer() AND NOT (
+    p_action = 'resubmit' AND EXISTS (
+      SELECT 1 FROM public.timesheet_submissions s
+      WHERE s.id = p_submission_id AND public.is_current_employee(s.user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to % this timesheet', p_action;
+  END IF;
+
+  RETURN public.review_timesheet_submission_unchecked(p_submission_id, p_action, p_actor, p_comment);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_review_queue(
+  p_reviewer TEXT,
+  p_status TEXT DEFAULT 'submitted'
+)
+RETURNS TABLE(
+  submission_id UUID,
+  user_id TEXT,
+  employee_name TEXT,
+  team TEXT,
+  submission_date DATE,
+  status TEXT,
+  entry_count INTEGER,
+  total_seconds INTEGER,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by TEXT,
+  review_comment TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_reviewer) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.get_review_queue_unchecked(p_reviewer, p_status);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.correct_ticket_history(
+  p_ticket_id UUID,
+  p_changes JSONB,
+  p_changed_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.ticket_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_changed_by) THEN
+    RAISE EXCEPTION 'Corrections must be made as the signed-in user';
+  END IF;
+
+  RETURN public.correct_ticket_history_unchecked(p_ticket_id, p_changes, p_changed_by, p_reason);
+END;
+$$;
+
+-- Only signing in and the forced password change are open before a session exists
+REVOKE EXECUTE ON FUNCTION
+  public.submit_timesheet(JSONB, TEXT),
+  public.review_timesheet_submission(UUID, TEXT, TEXT, TEXT),
+  public.get_review_queue(TEXT, TEXT),
+  public.correct_ticket_history(UUID, JSONB, TEXT, TEXT),
+  public.save_tasks(TEXT, JSONB),
+  public.delete_tasks(TEXT, UUID[]),
+  public.save_clients(TEXT, JSONB),
+  public.delete_clients(TEXT, UUID[]),
+  public.save_dropdown_draft(TEXT, JSONB),
+  public.publish_dropdown_version(TEXT, DATE),
+  public.discard_dropdown_draft(TEXT),
+  public.reset_employee_password(TEXT, UUID, TEXT)
+FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION
+  public.submit_timesheet(JSONB, TEXT),
+  public.review_timesheet_submission(UUID, TEXT, TEXT, TEXT),
+  public.get_review_queue(TEXT, TEXT),
+  public.correct_ticket_history(UUID, JSONB, TEXT, TEXT),
+  public.save_tasks(TEXT, JSONB),
+  public.delete_tasks(TEXT, UUID[]),
+  public.save_clients(TEXT, JSONB),
+  public.delete_clients(TEXT, UUID[]),
+  public.save_dropdown_draft(TEXT, JSONB),
+  public.publish_dropdown_version(TEXT, DATE),
+  public.discard_dropdown_draft(TEXT),
+  public.reset_employee_password(TEXT, UUID, TEXT)
+TO authenticated;
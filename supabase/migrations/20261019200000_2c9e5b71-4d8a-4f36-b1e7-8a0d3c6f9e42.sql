@@ -0,0 +1,551 @@
+-- Permissions instead of hard-coded roles. A role is a named bundle of permissions that super-users can edit;
+-- pages, RPCs and row level security check permissions rather than role names.
+CREATE TABLE public.permissions (
+  key TEXT NOT NULL PRIMARY KEY,
+  category TEXT NOT NULL,
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view permissions"
+ON public.permissions
+FOR SELECT
+USING (true);
+
+INSERT INTO public.permissions (key, category, label, sort_order) VALUES
+  ('timesheet.submit', 'Timesheets', 'Log time and submit their own timesheets', 10),
+  ('timesheets.review', 'Timesheets', 'Approve, reject and reopen their team''s timesheets', 20),
+  ('timesheets.review.all', 'Timesheets', 'Review timesheets of every team', 30),
+  ('tickets.correct.any', 'Timesheets', 'Correct other employees'' tickets', 40),
+  ('tickets.audit.view', 'Timesheets', 'View ticket change logs', 50),
+  ('reports.view.team', 'Reports', 'View team reports and everyone''s logged time', 60),
+  ('catalog.view', 'Catalog', 'View the task catalog', 70),
+  ('catalog.edit', 'Catalog', 'Edit the task catalog', 80),
+  ('clients.view', 'Catalog', 'View clients', 90),
+  ('clients.edit', 'Catalog', 'Add and edit clients', 100),
+  ('dropdowns.edit', 'Catalog', 'Edit and publish dropdown lists', 110),
+  ('employees.manage', 'Administration', 'Add, edit and deactivate employees', 120),
+  ('employees.bulk', 'Administration', 'Bulk upload, export and delete employees', 130),
+  ('employees.reset_password', 'Administration', 'Reset employee passwords', 140),
+  ('policies.edit', 'Administration', 'Change backdating windows', 150),
+  ('roles.manage', 'Administration', 'Edit roles and their permissions', 160);
+
+-- System roles cannot be deleted; the super-user bundle cannot be changed so nobody can lock themselves out
+CREATE TABLE public.roles (
+  name TEXT NOT NULL PRIMARY KEY CHECK (name ~ '^[a-z][a-z0-9-]*$'),
+  label TEXT NOT NULL,
+  description TEXT,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+
+-- Readable before sign-in: the login form lists roles
+CREATE POLICY "Users can view roles"
+ON public.roles
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_roles_updated_at
+BEFORE UPDATE ON public.roles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.role_permissions (
+  role TEXT NOT NULL REFERENCES public.roles(name) ON DELETE CASCADE,
+  permission TEXT NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+USING (true);
+
+-- The four roles keep what they could do before
+INSERT INTO public.roles (name, label, description, is_system) VALUES
+  ('team-member', 'Team Member', 'Logs and submits their own time', true),
+  ('sme', 'SME', 'Reviews their team''s timesheets and maintains clients', true),
+  ('admin', 'Admin', 'Manages employees, the catalog and reports', true),
+  ('super-user', 'Super User', 'Everything, including roles', true);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'team-member', p FROM unnest(ARRAY['timesheet.submit', 'clients.view']) p
+UNION ALL
+SELECT 'sme', p FROM unnest(ARRAY[
+  'timesheet.submit', 'timesheets.review', 'tickets.correct.any', 'catalog.view', 'clients.view', 'clients.edit'
+]) p
+UNION ALL
+SELECT 'admin', key FROM public.permissions WHERE key NOT IN ('employees.bulk', 'roles.manage')
+UNION ALL
+SELECT 'super-user', key FROM public.permissions;
+
+-- Roles are no longer a fixed list
+ALTER TABLE public.employees DROP CONSTRAINT IF EXISTS employees_role_check;
+ALTER TABLE public.employees
+ADD CONSTRAINT employees_role_fkey FOREIGN KEY (role) REFERENCES public.roles(name);
+
+ALTER TABLE public.timesheet_policies DROP CONSTRAINT IF EXISTS timesheet_policies_role_check;
+ALTER TABLE public.timesheet_policies
+ADD CONSTRAINT timesheet_policies_role_fkey FOREIGN KEY (role) REFERENCES public.roles(name) ON DELETE CASCADE;
+
+-- Whether the signed-in user's role (from the JWT) grants a permission
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.role_permissions rp
+    WHERE rp.role = public.current_app_role()
+      AND rp.permission = p_permission
+  );
+$$;
+
+-- The actor passed to an RPC must be the signed-in employee, and their role must grant the permission
+CREATE OR REPLACE FUNCTION public.assert_permission(p_actor TEXT, p_permission TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_actor) OR NOT public.has_permission(p_permission) THEN
+    RAISE EXCEPTION 'Not allowed: requires the % permission', p_permission;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_task_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'catalog.edit');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_client_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'clients.edit');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assert_dropdown_manager(p_actor TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'dropdowns.edit');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_employee_password(p_actor TEXT, p_employee UUID, p_new_password TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'employees.reset_password');
+  PERFORM public.set_employee_password(p_employee, p_new_password, true);
+END;
+$$;
+
+-- Create or update a role and replace its permissions.
+-- p_role: { name, label, description, permissions: [keys] }
+CREATE OR REPLACE FUNCTION public.save_role(p_actor TEXT, p_role JSONB)
+RETURNS public.roles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT := lower(trim(p_role->>'name'));
+  v_permissions TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_role->'permissions', '[]'::jsonb)));
+  v_unknown TEXT;
+  v_saved public.roles;
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'roles.manage');
+
+  IF v_name IS NULL OR v_name = '' THEN
+    RAISE EXCEPTION 'Role name is required';
+  END IF;
+
+  IF NULLIF(trim(p_role->>'label'), '') IS NULL THEN
+    RAISE EXCEPTION 'Role label is required';
+  END IF;
+
+  IF v_name = 'super-user' THEN
+    RAISE EXCEPTION 'The Super User role cannot be changed';
+  END IF;
+
+  SELECT p INTO v_unknown
+  FROM unnest(v_permissions) p
+  WHERE NOT EXISTS (SELECT 1 FROM public.permissions pm WHERE pm.key = p)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown permission %', v_unknown;
+  END IF;
+
+  INSERT INTO public.roles (name, label, description)
+  VALUES (v_name, trim(p_role->>'label'), NULLIF(trim(p_role->>'description'), ''))
+  ON CONFLICT (name) DO UPDATE SET
+    label = EXCLUDED.label,
+    description = EXCLUDED.description
+  RETURNING * INTO v_saved;
+
+  DELETE FROM public.role_permissions WHERE role = v_name;
+  INSERT INTO public.role_permissions (role, permission)
+  SELECT DISTINCT v_name, p FROM unnest(v_permissions) p;
+
+  RETURN v_saved;
+END;
+$$;
+
+-- Only custom roles nobody holds can be deleted
+CREATE OR REPLACE FUNCTION public.delete_role(p_actor TEXT, p_name TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'roles.manage');
+
+  IF EXISTS (SELECT 1 FROM public.roles r WHERE r.name = p_name AND r.is_system) THEN
+    RAISE EXCEPTION 'Built-in roles cannot be deleted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.employees e WHERE e.role = p_name) THEN
+    RAISE EXCEPTION 'Role % is assigned to employees; move them to another role first', p_name;
+  END IF;
+
+  DELETE FROM public.roles WHERE name = p_name;
+END;
+$$;
+
+-- Row level security: who may see everyone's time and change shared settings now follows permissions
+CREATE OR REPLACE FUNCTION public.can_view_team_timesheets()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.has_permission('reports.view.team') OR public.has_permission('timesheets.review');
+$$;
+
+DROP POLICY IF EXISTS "Users can view their own ticket history" ON public.ticket_history;
+CREATE POLICY "Users can view their own ticket history"
+ON public.ticket_history
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(user_id) OR public.can_view_team_timesheets());
+
+DROP POLICY IF EXISTS "Users can view their own timesheet sessions" ON public.timesheet_sessions;
+CREATE POLICY "Users can view their own timesheet sessions"
+ON public.timesheet_sessions
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(employee_id) OR public.can_view_team_timesheets());
+
+DROP POLICY IF EXISTS "Users can view timesheet submissions" ON public.timesheet_submissions;
+CREATE POLICY "Users can view timesheet submissions"
+ON public.timesheet_submissions
+FOR SELECT
+TO authenticated
+USING (public.is_current_employee(user_id) OR public.can_view_team_timesheets());
+
+DROP POLICY IF EXISTS "Users can view timesheet submission reviews" ON public.timesheet_submission_reviews;
+CREATE POLICY "Users can view timesheet submission reviews"
+ON public.timesheet_submission_reviews
+FOR SELECT
+TO authenticated
+USING (
+  public.can_view_team_timesheets()
+  OR EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.id = submission_id AND public.is_current_employee(s.user_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view ticket history audit" ON public.ticket_history_audit;
+CREATE POLICY "Users can view ticket history audit"
+ON public.ticket_history_audit
+FOR SELECT
+TO authenticated
+USING (
+  public.has_permission('tickets.audit.view')
+  OR public.can_view_team_timesheets()
+  OR EXISTS (
+    SELECT 1 FROM public.ticket_history th
+    WHERE th.id = ticket_history_id AND public.is_current_employee(th.user_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can add employees" ON public.employees;
+DROP POLICY IF EXISTS "Admins can update employees" ON public.employees;
+DROP POLICY IF EXISTS "Admins can delete employees" ON public.employees;
+
+CREATE POLICY "Employee managers can add employees"
+ON public.employees
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission('employees.manage'));
+
+CREATE POLICY "Employee managers can update employees"
+ON public.employees
+FOR UPDATE
+TO authenticated
+USING (public.has_permission('employees.manage'))
+WITH CHECK (public.has_permission('employees.manage'));
+
+CREATE POLICY "Employee managers can delete employees"
+ON public.employees
+FOR DELETE
+TO authenticated
+USING (public.has_permission('employees.manage'));
+
+DROP POLICY IF EXISTS "Admins can manage timesheet policies" ON public.timesheet_policies;
+CREATE POLICY "Policy editors can manage timesheet policies"
+ON public.timesheet_policies
+FOR ALL
+TO authenticated
+USING (public.has_permission('policies.edit'))
+WITH CHECK (public.has_permission('policies.edit'));
+
+-- Reviewing: any role with timesheets.review; owners may still resubmit their own timesheet
+CREATE OR REPLACE FUNCTION public.review_timesheet_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.timesheet_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_actor) THEN
+    RAISE EXCEPTION 'Reviewer must be the signed-in user';
+  END IF;
+
+  IF NOT public.has_permission('timesheets.review') AND NOT (
+    p_action = 'resubmit' AND EXISTS (
+      SELECT 1 FROM public.timesheet_submissions s
+      WHERE s.id = p_submission_id AND public.is_current_employee(s.user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to % this timesheet', p_action;
+  END IF;
+
+  RETURN public.review_timesheet_submission_unchecked(p_submission_id, p_action, p_actor, p_comment);
+END;
+$$;
+
+-- Reviewers see their own team, or every team with timesheets.review.all
+CREATE OR REPLACE FUNCTION public.get_review_queue(
+  p_reviewer TEXT,
+  p_status TEXT DEFAULT 'submitted'
+)
+RETURNS TABLE(
+  submission_id UUID,
+  user_id TEXT,
+  employee_name TEXT,
+  team TEXT,
+  submission_date DATE,
+  status TEXT,
+  entry_count INTEGER,
+  total_seconds INTEGER,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by TEXT,
+  review_comment TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewer public.employees;
+  v_all_teams BOOLEAN := public.has_permission('timesheets.review.all');
+BEGIN
+  IF NOT public.is_current_employee(p_reviewer) OR NOT public.has_permission('timesheets.review') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_reviewer
+  FROM public.employees e
+  WHERE e.auth_user_id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    COALESCE(emp.full_name, s.user_id),
+    emp.team,
+    s.submission_date,
+    s.status,
+    COUNT(th.id)::integer,
+    COALESCE(SUM(th.time_logged_seconds), 0)::integer,
+    s.created_at,
+    s.reviewed_by,
+    s.review_comment
+  FROM public.timesheet_submissions s
+  LEFT JOIN LATERAL (
+    -- ticket_history.user_id holds the employee's name, id or email depending on how they signed in
+    SELECT e.full_name, e.team
+    FROM public.employees e
+    WHERE s.user_id IN (e.employee_id, e.email, e.full_name)
+    LIMIT 1
+  ) emp ON true
+  LEFT JOIN public.ticket_history th ON th.submission_id = s.id
+  WHERE s.status <> 'draft'
+    AND (p_status = 'all' OR s.status = p_status)
+    AND (v_all_teams OR emp.team = v_reviewer.team)
+  GROUP BY s.id, emp.full_name, emp.team
+  ORDER BY s.submission_date DESC, s.created_at DESC;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_review_queue_unchecked(TEXT, TEXT);
+
+-- Owners correct their own tickets; tickets.correct.any allows correcting anyone's
+CREATE OR REPLACE FUNCTION public.correct_ticket_history(
+  p_ticket_id UUID,
+  p_changes JSONB,
+  p_changed_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.ticket_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_changed_by) THEN
+    RAISE EXCEPTION 'Corrections must be made as the signed-in user';
+  END IF;
+
+  IF NOT public.has_permission('tickets.correct.any') AND NOT EXISTS (
+    SELECT 1 FROM public.ticket_history th
+    WHERE th.id = p_ticket_id AND public.is_current_employee(th.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to correct this ticket';
+  END IF;
+
+  RETURN public.correct_ticket_history_unchecked(p_ticket_id, p_changes, p_changed_by, p_reason);
+END;
+$$;
+
+-- The permission check moved to correct_ticket_history
+CREATE OR REPLACE FUNCTION public.correct_ticket_history_unchecked(
+  p_ticket_id UUID,
+  p_changes JSONB,
+  p_changed_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.ticket_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before public.ticket_history;
+  v_after public.ticket_history;
+  v_changed TEXT[];
+BEGIN
+  IF NULLIF(trim(p_changed_by), '') IS NULL THEN
+    RAISE EXCEPTION 'changed_by is required';
+  END IF;
+
+  SELECT * INTO v_before
+  FROM public.ticket_history
+  WHERE id = p_ticket_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket % not found', p_ticket_id;
+  END IF;
+
+  IF p_changes ? 'ticket_number' AND NULLIF(trim(p_changes->>'ticket_number'), '') IS NULL THEN
+    RAISE EXCEPTION 'Ticket number is required';
+  END IF;
+
+  IF p_changes ? 'category' AND NULLIF(trim(p_changes->>'category'), '') IS NULL THEN
+    RAISE EXCEPTION 'Category is required';
+  END IF;
+
+  IF p_changes ? 'time_logged_seconds' AND (p_changes->>'time_logged_seconds')::integer < 0 THEN
+    RAISE EXCEPTION 'Logged time cannot be negative';
+  END IF;
+
+  UPDATE public.ticket_history
+  SET ticket_number = CASE WHEN p_changes ? 'ticket_number' THEN trim(p_changes->>'ticket_number') ELSE ticket_number END,
+      category = CASE WHEN p_changes ? 'category' THEN trim(p_changes->>'category') ELSE category END,
+      subcategory = CASE WHEN p_changes ? 'subcategory' THEN COALESCE(p_changes->>'subcategory', '') ELSE subcategory END,
+      task_name = CASE
+        WHEN p_changes ? 'category' OR p_changes ? 'subcategory'
+        THEN concat_ws(' - ',
+          CASE WHEN p_changes ? 'category' THEN trim(p_changes->>'category') ELSE category END,
+          NULLIF(CASE WHEN p_changes ? 'subcategory' THEN p_changes->>'subcategory' ELSE subcategory END, ''))
+        ELSE task_name
+      END,
+      status = CASE WHEN p_changes ? 'status' THEN COALESCE(NULLIF(p_changes->>'status', ''), status) ELSE status END,
+      time_logged_seconds = CASE WHEN p_changes ? 'time_logged_seconds' THEN (p_changes->>'time_logged_seconds')::integer ELSE time_logged_seconds END,
+      comments = CASE WHEN p_changes ? 'comments' THEN COALESCE(p_changes->>'comments', '') ELSE comments END
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_after;
+
+  SELECT COALESCE(array_agg(b.key ORDER BY b.key), '{}')
+  INTO v_changed
+  FROM jsonb_each(to_jsonb(v_before)) b
+  JOIN jsonb_each(to_jsonb(v_after)) a ON a.key = b.key
+  WHERE a.value IS DISTINCT FROM b.value
+    AND b.key NOT IN ('updated_at');
+
+  IF array_length(v_changed, 1) IS NULL THEN
+    RETURN v_after;
+  END IF;
+
+  INSERT INTO public.ticket_history_audit (ticket_history_id, changed_by, reason, changed_fields, before, after)
+  VALUES (p_ticket_id, p_changed_by, NULLIF(trim(p_reason), ''), v_changed, to_jsonb(v_before), to_jsonb(v_after));
+
+  RETURN v_after;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.correct_ticket_history_unchecked(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.is_reviewer();
+DROP FUNCTION IF EXISTS public.is_admin();
+
+REVOKE EXECUTE ON FUNCTION
+  public.get_review_queue(TEXT, TEXT),
+  public.save_role(TEXT, JSONB),
+  public.delete_role(TEXT, TEXT)
+FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION
+  public.get_review_queue(TEXT, TEXT),
+  public.save_role(TEXT, JSONB),
+  public.delete_role(TEXT, TEXT)
+TO authenticated;
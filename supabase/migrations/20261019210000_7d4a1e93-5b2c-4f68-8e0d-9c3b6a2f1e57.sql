@@ -0,0 +1,553 @@
+-- Teams as a table instead of free text on employees: each team has an optional manager and parent team,
+-- employees keep an effective-dated membership history, and timesheet data is scoped to the teams a user
+-- manages (with their sub-teams) unless their role may see every team.
+INSERT INTO public.permissions (key, category, label, sort_order) VALUES
+  ('teams.view.all', 'Reports', 'See the timesheets of every team, not only the teams they manage', 65),
+  ('teams.manage', 'Administration', 'Create teams and assign managers and parent teams', 155);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT r, p FROM unnest(ARRAY['admin', 'super-user']) r, unnest(ARRAY['teams.view.all', 'teams.manage']) p;
+
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- 'All Teams' is what tasks use for "every team"
+  name TEXT NOT NULL UNIQUE CHECK (trim(name) <> '' AND name <> 'All Teams'),
+  parent_id UUID REFERENCES public.teams(id) ON DELETE RESTRICT,
+  manager_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in reads; changes go through save_team and delete_team
+CREATE POLICY "Users can view teams"
+ON public.teams
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_teams_updated_at
+BEFORE UPDATE ON public.teams
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The teams that were hard-coded in the app, plus any other name already in use
+INSERT INTO public.teams (name)
+SELECT DISTINCT trim(name) FROM (
+  SELECT unnest(ARRAY['Support', 'CI', 'Migration', 'Config', 'Exxat One']) AS name
+  UNION ALL
+  SELECT team FROM public.employees
+  UNION ALL
+  SELECT team FROM public.tasks
+) names
+WHERE NULLIF(trim(name), '') IS NOT NULL AND trim(name) <> 'All Teams';
+
+-- employees.team and tasks.team stay as the team's name so existing readers keep working;
+-- team_id is the source of truth and the name follows it
+ALTER TABLE public.employees ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE RESTRICT;
+ALTER TABLE public.tasks ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_employees_team_id ON public.employees(team_id);
+CREATE INDEX idx_tasks_team_id ON public.tasks(team_id);
+
+ALTER TABLE public.employees DISABLE TRIGGER update_employee_last_active_trigger;
+UPDATE public.employees e
+SET team_id = t.id, team = t.name
+FROM public.teams t
+WHERE t.name = trim(e.team);
+ALTER TABLE public.employees ENABLE TRIGGER update_employee_last_active_trigger;
+
+UPDATE public.tasks ta
+SET team_id = t.id, team = t.name
+FROM public.teams t
+WHERE t.name = trim(ta.team);
+
+GRANT SELECT (team_id) ON public.employees TO authenticated;
+
+-- Who was in which team and when. valid_to is exclusive and NULL for the current team.
+CREATE TABLE public.team_memberships (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE RESTRICT,
+  valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_to DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (valid_to IS NULL OR valid_to > valid_from)
+);
+
+CREATE UNIQUE INDEX team_memberships_current_idx ON public.team_memberships(employee_id) WHERE valid_to IS NULL;
+CREATE INDEX idx_team_memberships_team_id ON public.team_memberships(team_id);
+
+ALTER TABLE public.team_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the employees trigger below
+CREATE POLICY "Users can view team memberships"
+ON public.team_memberships
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.team_memberships (employee_id, team_id, valid_from)
+SELECT id, team_id, COALESCE(join_date, created_at::date)
+FROM public.employees
+WHERE team_id IS NOT NULL;
+
+-- Team id for a team name. Blank means no team; unknown names are refused.
+CREATE OR REPLACE FUNCTION public.resolve_team_id(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NULLIF(trim(p_name), '') IS NULL OR trim(p_name) = 'All Teams' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT t.id INTO v_id
+  FROM public.teams t
+  WHERE lower(t.name) = lower(trim(p_name));
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Unknown team %', p_name;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Forms and bulk uploads still send the team's name; keep team_id and team in step
+CREATE OR REPLACE FUNCTION public.sync_employee_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.team_id IS NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.team IS DISTINCT FROM OLD.team AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id) THEN
+    NEW.team_id := public.resolve_team_id(NEW.team);
+  END IF;
+
+  NEW.team := (SELECT t.name FROM public.teams t WHERE t.id = NEW.team_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_employee_team_trigger
+BEFORE INSERT OR UPDATE OF team, team_id ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_employee_team();
+
+-- Close the current membership and open a new one whenever an employee changes team.
+-- A membership that started today is replaced rather than closed.
+CREATE OR REPLACE FUNCTION public.record_team_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.team_memberships
+  WHERE employee_id = NEW.id AND valid_to IS NULL AND valid_from >= CURRENT_DATE;
+
+  UPDATE public.team_memberships
+  SET valid_to = CURRENT_DATE
+  WHERE employee_id = NEW.id AND valid_to IS NULL;
+
+  IF NEW.team_id IS NOT NULL THEN
+    INSERT INTO public.team_memberships (employee_id, team_id, valid_from)
+    VALUES (NEW.id, NEW.team_id, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_team_membership_trigger
+AFTER INSERT OR UPDATE OF team_id ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.record_team_membership();
+
+CREATE OR REPLACE FUNCTION public.sync_task_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.team_id IS NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.team IS DISTINCT FROM OLD.team AND NEW.team_id IS NOT DISTINCT FROM OLD.team_id) THEN
+    NEW.team_id := public.resolve_team_id(NEW.team);
+  END IF;
+
+  NEW.team := COALESCE((SELECT t.name FROM public.teams t WHERE t.id = NEW.team_id), 'All Teams');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_team_trigger
+BEFORE INSERT OR UPDATE OF team, team_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_task_team();
+
+-- Renaming a team renames it on its employees and tasks
+CREATE OR REPLACE FUNCTION public.rename_team_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.employees SET team = NEW.name WHERE team_id = NEW.id;
+  UPDATE public.tasks SET team = NEW.name WHERE team_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_team_references_trigger
+AFTER UPDATE OF name ON public.teams
+FOR EACH ROW
+WHEN (NEW.name IS DISTINCT FROM OLD.name)
+EXECUTE FUNCTION public.rename_team_references();
+
+-- Updates made by other triggers (such as a team rename) are not activity
+CREATE OR REPLACE FUNCTION public.update_employee_last_active()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.last_active = CURRENT_DATE;
+  RETURN NEW;
+END;
+$$;
+
+-- The team an employee was in on a date; their current team for dates before their first membership
+CREATE OR REPLACE FUNCTION public.employee_team_on(p_employee UUID, p_date DATE)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT m.team_id
+      FROM public.team_memberships m
+      WHERE m.employee_id = p_employee
+        AND m.valid_from <= p_date
+        AND (m.valid_to IS NULL OR m.valid_to > p_date)
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    ),
+    (SELECT e.team_id FROM public.employees e WHERE e.id = p_employee)
+  );
+$$;
+
+-- Teams whose timesheets the signed-in employee may see: every team with teams.view.all, otherwise the
+-- teams they manage and their own team when their role reviews or reports on it, each with its sub-teams
+CREATE OR REPLACE FUNCTION public.visible_team_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE me AS (
+    SELECT e.id, e.team_id
+    FROM public.employees e
+    WHERE e.auth_user_id = auth.uid() AND e.is_active = true
+  ),
+  scope AS (
+    SELECT t.id FROM public.teams t WHERE public.has_permission('teams.view.all')
+    UNION
+    SELECT t.id FROM public.teams t JOIN me ON t.manager_id = me.id
+    UNION
+    SELECT me.team_id FROM me
+    WHERE me.team_id IS NOT NULL
+      AND (public.has_permission('timesheets.review') OR public.has_permission('reports.view.team'))
+    UNION
+    SELECT child.id FROM public.teams child JOIN scope ON child.parent_id = scope.id
+  )
+  SELECT id FROM scope;
+$$;
+
+-- Whether the signed-in employee may see time logged under a user key (employee id, email or name)
+CREATE OR REPLACE FUNCTION public.can_view_employee_data(p_user_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_current_employee(p_user_key)
+    OR public.has_permission('teams.view.all')
+    OR EXISTS (
+      SELECT 1 FROM public.employees e
+      WHERE p_user_key IN (e.employee_id, e.email, e.full_name)
+        AND e.team_id IN (SELECT public.visible_team_ids())
+    );
+$$;
+
+DROP POLICY IF EXISTS "Users can view their own ticket history" ON public.ticket_history;
+CREATE POLICY "Users can view their own ticket history"
+ON public.ticket_history
+FOR SELECT
+TO authenticated
+USING (public.can_view_employee_data(user_id));
+
+DROP POLICY IF EXISTS "Users can view their own timesheet sessions" ON public.timesheet_sessions;
+CREATE POLICY "Users can view their own timesheet sessions"
+ON public.timesheet_sessions
+FOR SELECT
+TO authenticated
+USING (public.can_view_employee_data(employee_id));
+
+DROP POLICY IF EXISTS "Users can view timesheet submissions" ON public.timesheet_submissions;
+CREATE POLICY "Users can view timesheet submissions"
+ON public.timesheet_submissions
+FOR SELECT
+TO authenticated
+USING (public.can_view_employee_data(user_id));
+
+DROP POLICY IF EXISTS "Users can view timesheet submission reviews" ON public.timesheet_submission_reviews;
+CREATE POLICY "Users can view timesheet submission reviews"
+ON public.timesheet_submission_reviews
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.id = submission_id AND public.can_view_employee_data(s.user_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view ticket history audit" ON public.ticket_history_audit;
+CREATE POLICY "Users can view ticket history audit"
+ON public.ticket_history_audit
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.ticket_history th
+    WHERE th.id = ticket_history_id
+      AND (public.has_permission('tickets.audit.view') OR public.can_view_employee_data(th.user_id))
+  )
+);
+
+DROP FUNCTION IF EXISTS public.can_view_team_timesheets();
+
+-- Whether the signed-in reviewer may act on a submission: every team with timesheets.review.all, otherwise
+-- the team the submitter was in on the submitted day must be one they can see
+CREATE OR REPLACE FUNCTION public.can_review_submission(p_submission_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('timesheets.review') AND (
+    public.has_permission('timesheets.review.all') OR EXISTS (
+      SELECT 1
+      FROM public.timesheet_submissions s
+      JOIN public.employees e ON s.user_id IN (e.employee_id, e.email, e.full_name)
+      WHERE s.id = p_submission_id
+        AND public.employee_team_on(e.id, s.submission_date) IN (SELECT public.visible_team_ids())
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_timesheet_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.timesheet_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_current_employee(p_actor) THEN
+    RAISE EXCEPTION 'Reviewer must be the signed-in user';
+  END IF;
+
+  IF NOT public.can_review_submission(p_submission_id) AND NOT (
+    p_action = 'resubmit' AND EXISTS (
+      SELECT 1 FROM public.timesheet_submissions s
+      WHERE s.id = p_submission_id AND public.is_current_employee(s.user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to % this timesheet', p_action;
+  END IF;
+
+  RETURN public.review_timesheet_submission_unchecked(p_submission_id, p_action, p_actor, p_comment);
+END;
+$$;
+
+-- Submissions are routed by the team the submitter was in on the submitted day
+CREATE OR REPLACE FUNCTION public.get_review_queue(
+  p_reviewer TEXT,
+  p_status TEXT DEFAULT 'submitted'
+)
+RETURNS TABLE(
+  submission_id UUID,
+  user_id TEXT,
+  employee_name TEXT,
+  team TEXT,
+  submission_date DATE,
+  status TEXT,
+  entry_count INTEGER,
+  total_seconds INTEGER,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by TEXT,
+  review_comment TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_all_teams BOOLEAN := public.has_permission('timesheets.review.all');
+BEGIN
+  IF NOT public.is_current_employee(p_reviewer) OR NOT public.has_permission('timesheets.review') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    COALESCE(emp.full_name, s.user_id),
+    t.name,
+    s.submission_date,
+    s.status,
+    COUNT(th.id)::integer,
+    COALESCE(SUM(th.time_logged_seconds), 0)::integer,
+    s.created_at,
+    s.reviewed_by,
+    s.review_comment
+  FROM public.timesheet_submissions s
+  LEFT JOIN LATERAL (
+    -- ticket_history.user_id holds the employee's name, id or email depending on how they signed in
+    SELECT e.full_name, public.employee_team_on(e.id, s.submission_date) AS team_id
+    FROM public.employees e
+    WHERE s.user_id IN (e.employee_id, e.email, e.full_name)
+    LIMIT 1
+  ) emp ON true
+  LEFT JOIN public.teams t ON t.id = emp.team_id
+  LEFT JOIN public.ticket_history th ON th.submission_id = s.id
+  WHERE s.status <> 'draft'
+    AND (p_status = 'all' OR s.status = p_status)
+    AND (v_all_teams OR emp.team_id IN (SELECT public.visible_team_ids()))
+  GROUP BY s.id, emp.full_name, t.name
+  ORDER BY s.submission_date DESC, s.created_at DESC;
+END;
+$$;
+
+-- Create or update a team.
+-- p_team: { id?, name, parent_id, manager_id, is_active }
+CREATE OR REPLACE FUNCTION public.save_team(p_actor TEXT, p_team JSONB)
+RETURNS public.teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := (p_team->>'id')::uuid;
+  v_name TEXT := trim(p_team->>'name');
+  v_parent UUID := NULLIF(p_team->>'parent_id', '')::uuid;
+  v_manager UUID := NULLIF(p_team->>'manager_id', '')::uuid;
+  v_saved public.teams;
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'teams.manage');
+
+  IF NULLIF(v_name, '') IS NULL THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+
+  IF v_name = 'All Teams' THEN
+    RAISE EXCEPTION 'All Teams is reserved for tasks shared by every team';
+  END IF;
+
+  IF v_parent IS NOT NULL AND v_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE subtree AS (
+      SELECT v_id AS id
+      UNION
+      SELECT child.id FROM public.teams child JOIN subtree ON child.parent_id = subtree.id
+    )
+    SELECT 1 FROM subtree WHERE id = v_parent
+  ) THEN
+    RAISE EXCEPTION 'A team cannot be placed under itself or one of its sub-teams';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.teams (name, parent_id, manager_id, is_active)
+    VALUES (v_name, v_parent, v_manager, COALESCE((p_team->>'is_active')::boolean, true))
+    RETURNING * INTO v_saved;
+  ELSE
+    UPDATE public.teams SET
+      name = v_name,
+      parent_id = v_parent,
+      manager_id = v_manager,
+      is_active = COALESCE((p_team->>'is_active')::boolean, is_active)
+    WHERE id = v_id
+    RETURNING * INTO v_saved;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team % not found', v_id;
+    END IF;
+  END IF;
+
+  RETURN v_saved;
+END;
+$$;
+
+-- Only teams that never had members, sub-teams or tasks can be deleted; others are deactivated
+CREATE OR REPLACE FUNCTION public.delete_team(p_actor TEXT, p_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'teams.manage');
+
+  IF EXISTS (SELECT 1 FROM public.team_memberships m WHERE m.team_id = p_id)
+    OR EXISTS (SELECT 1 FROM public.teams t WHERE t.parent_id = p_id)
+    OR EXISTS (SELECT 1 FROM public.tasks ta WHERE ta.team_id = p_id) THEN
+    RAISE EXCEPTION 'This team has members, sub-teams or tasks; deactivate it instead';
+  END IF;
+
+  DELETE FROM public.teams WHERE id = p_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION
+  public.visible_team_ids(),
+  public.save_team(TEXT, JSONB),
+  public.delete_team(TEXT, UUID)
+FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION
+  public.visible_team_ids(),
+  public.save_team(TEXT, JSONB),
+  public.delete_team(TEXT, UUID)
+TO authenticated;
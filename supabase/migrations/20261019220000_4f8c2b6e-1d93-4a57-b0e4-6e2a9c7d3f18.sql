@@ -0,0 +1,101 @@
+-- Shift schedules and a company holiday calendar. Expected hours (utilization, remaining time, average
+-- daily hours) follow the schedule assigned to each employee, or to their team, instead of a flat 8 hours.
+INSERT INTO public.permissions (key, category, label, sort_order) VALUES
+  ('schedules.manage', 'Administration', 'Edit shift schedules and the holiday calendar', 157);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT r, 'schedules.manage' FROM unnest(ARRAY['admin', 'super-user']) r;
+
+CREATE TABLE public.shift_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (trim(name) <> ''),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL, -- earlier than start_time for overnight shifts
+  -- ISO weekdays, 1 = Monday
+  working_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}' CHECK (working_days <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  break_minutes INTEGER NOT NULL DEFAULT 60 CHECK (break_minutes >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (start_time <> end_time)
+);
+
+ALTER TABLE public.shift_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shift schedules"
+ON public.shift_schedules
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Schedule managers can manage shift schedules"
+ON public.shift_schedules
+FOR ALL
+TO authenticated
+USING (public.has_permission('schedules.manage'))
+WITH CHECK (public.has_permission('schedules.manage'));
+
+CREATE TRIGGER update_shift_schedules_updated_at
+BEFORE UPDATE ON public.shift_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- What the app assumed so far: a nine-hour day with an hour's break, Monday to Friday
+INSERT INTO public.shift_schedules (name, start_time, end_time, working_days, break_minutes)
+VALUES ('Standard', '09:00', '18:00', '{1,2,3,4,5}', 60);
+
+-- A schedule applies to an employee or to a whole team from valid_from until valid_to (exclusive).
+-- An employee's own assignment wins over their team's; fte_ratio scales the hours for part-timers.
+CREATE TABLE public.schedule_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.shift_schedules(id) ON DELETE RESTRICT,
+  employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+  fte_ratio NUMERIC(3, 2) NOT NULL DEFAULT 1 CHECK (fte_ratio > 0 AND fte_ratio <= 1),
+  valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_to DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((employee_id IS NULL) <> (team_id IS NULL)),
+  CHECK (valid_to IS NULL OR valid_to > valid_from)
+);
+
+CREATE INDEX idx_schedule_assignments_employee_id ON public.schedule_assignments(employee_id);
+CREATE INDEX idx_schedule_assignments_team_id ON public.schedule_assignments(team_id);
+
+ALTER TABLE public.schedule_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view schedule assignments"
+ON public.schedule_assignments
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Schedule managers can manage schedule assignments"
+ON public.schedule_assignments
+FOR ALL
+TO authenticated
+USING (public.has_permission('schedules.manage'))
+WITH CHECK (public.has_permission('schedules.manage'));
+
+-- Company-wide days off; nobody is expected to work on them
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  holiday_date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view holidays"
+ON public.holidays
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Schedule managers can manage holidays"
+ON public.holidays
+FOR ALL
+TO authenticated
+USING (public.has_permission('schedules.manage'))
+WITH CHECK (public.has_permission('schedules.manage'));
@@ -0,0 +1,243 @@
+-- Leave and absence. Employees request leave, reviewers approve it for the teams they can see, and approved
+-- leave takes the day (or half of it) out of the hours they are expected to work.
+INSERT INTO public.permissions (key, category, label, sort_order) VALUES
+  ('leave.request', 'Leave', 'Request leave for themselves', 52),
+  ('leave.approve', 'Leave', 'Approve and reject leave of their team', 54);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT r, 'leave.request' FROM unnest(ARRAY['team-member', 'sme', 'admin', 'super-user']) r
+UNION ALL
+SELECT r, 'leave.approve' FROM unnest(ARRAY['sme', 'admin', 'super-user']) r;
+
+CREATE TABLE public.leave_types (
+  key TEXT NOT NULL PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9-]*$'),
+  label TEXT NOT NULL CHECK (trim(label) <> ''),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leave types"
+ON public.leave_types
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.leave_types (key, label, sort_order) VALUES
+  ('vacation', 'Vacation', 10),
+  ('sick', 'Sick Leave', 20),
+  ('comp-off', 'Comp-off', 30);
+
+-- One request covers start_date to end_date (inclusive); half_day only for single days
+CREATE TABLE public.leave_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL REFERENCES public.leave_types(key),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  half_day BOOLEAN NOT NULL DEFAULT false,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (NOT half_day OR start_date = end_date)
+);
+
+CREATE INDEX idx_leave_requests_employee_id ON public.leave_requests(employee_id);
+CREATE INDEX idx_leave_requests_dates ON public.leave_requests(start_date, end_date);
+
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are written through the RPCs below. Everyone sees their own requests and the approved leave of
+-- their team (the team calendar); reviewers and reports see everything for the teams they can see.
+CREATE POLICY "Users can view leave requests"
+ON public.leave_requests
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.id = employee_id
+      AND (
+        public.can_view_employee_data(e.employee_id)
+        OR (
+          status = 'approved'
+          AND e.team_id IN (SELECT me.team_id FROM public.employees me WHERE me.auth_user_id = auth.uid())
+        )
+      )
+  )
+);
+
+CREATE TRIGGER update_leave_requests_updated_at
+BEFORE UPDATE ON public.leave_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the signed-in reviewer may decide on a request: never their own, and the requester must have been
+-- in a team they can see when the leave starts
+CREATE OR REPLACE FUNCTION public.can_review_leave(p_request_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('leave.approve') AND EXISTS (
+    SELECT 1
+    FROM public.leave_requests r
+    JOIN public.employees e ON e.id = r.employee_id
+    WHERE r.id = p_request_id
+      AND e.auth_user_id IS DISTINCT FROM auth.uid()
+      AND (
+        public.has_permission('teams.view.all')
+        OR public.employee_team_on(e.id, r.start_date) IN (SELECT public.visible_team_ids())
+      )
+  );
+$$;
+
+-- Request leave for the signed-in employee.
+-- p_leave: { leave_type, start_date, end_date, half_day?, reason? }
+CREATE OR REPLACE FUNCTION public.request_leave(p_actor TEXT, p_leave JSONB)
+RETURNS public.leave_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee UUID;
+  v_start DATE := (p_leave->>'start_date')::date;
+  v_end DATE := (p_leave->>'end_date')::date;
+  v_half_day BOOLEAN := COALESCE((p_leave->>'half_day')::boolean, false);
+  v_saved public.leave_requests;
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'leave.request');
+
+  SELECT e.id INTO v_employee
+  FROM public.employees e
+  WHERE e.auth_user_id = auth.uid() AND e.is_active = true;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leave_types t WHERE t.key = p_leave->>'leave_type' AND t.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Unknown leave type %', p_leave->>'leave_type';
+  END IF;
+
+  IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+    RAISE EXCEPTION 'Leave must end on or after the day it starts';
+  END IF;
+
+  IF v_half_day AND v_start <> v_end THEN
+    RAISE EXCEPTION 'Half-day leave must be a single day';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.leave_requests r
+    WHERE r.employee_id = v_employee
+      AND r.status IN ('pending', 'approved')
+      AND r.start_date <= v_end
+      AND r.end_date >= v_start
+  ) THEN
+    RAISE EXCEPTION 'You already have leave requested for some of these days';
+  END IF;
+
+  INSERT INTO public.leave_requests (employee_id, leave_type, start_date, end_date, half_day, reason)
+  VALUES (v_employee, p_leave->>'leave_type', v_start, v_end, v_half_day, NULLIF(trim(p_leave->>'reason'), ''))
+  RETURNING * INTO v_saved;
+
+  RETURN v_saved;
+END;
+$$;
+
+-- p_action: approve or reject; rejecting needs a comment
+CREATE OR REPLACE FUNCTION public.review_leave_request(
+  p_actor TEXT,
+  p_request_id UUID,
+  p_action TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.leave_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_saved public.leave_requests;
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'leave.approve');
+
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Unknown leave action %', p_action;
+  END IF;
+
+  IF NOT public.can_review_leave(p_request_id) THEN
+    RAISE EXCEPTION 'Not allowed to % this leave request', p_action;
+  END IF;
+
+  IF p_action = 'reject' AND NULLIF(trim(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'A comment is required to reject leave';
+  END IF;
+
+  UPDATE public.leave_requests SET
+    status = CASE p_action WHEN 'approve' THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = p_actor,
+    reviewed_at = now(),
+    review_comment = NULLIF(trim(p_comment), '')
+  WHERE id = p_request_id AND status = 'pending'
+  RETURNING * INTO v_saved;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending leave can be reviewed';
+  END IF;
+
+  RETURN v_saved;
+END;
+$$;
+
+-- Employees can withdraw pending leave, and approved leave that has not started yet
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_actor TEXT, p_request_id UUID)
+RETURNS public.leave_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_saved public.leave_requests;
+BEGIN
+  IF NOT public.is_current_employee(p_actor) THEN
+    RAISE EXCEPTION 'Only the signed-in user can cancel their leave';
+  END IF;
+
+  UPDATE public.leave_requests r SET status = 'cancelled'
+  FROM public.employees e
+  WHERE r.id = p_request_id
+    AND e.id = r.employee_id
+    AND e.auth_user_id = auth.uid()
+    AND (r.status = 'pending' OR (r.status = 'approved' AND r.start_date > CURRENT_DATE))
+  RETURNING r.* INTO v_saved;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your pending or upcoming leave can be cancelled';
+  END IF;
+
+  RETURN v_saved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION
+  public.can_review_leave(UUID),
+  public.request_leave(TEXT, JSONB),
+  public.review_leave_request(TEXT, UUID, TEXT, TEXT),
+  public.cancel_leave_request(TEXT, UUID)
+FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION
+  public.can_review_leave(UUID),
+  public.request_leave(TEXT, JSONB),
+  public.review_leave_request(TEXT, UUID, TEXT, TEXT),
+  public.cancel_leave_request(TEXT, UUID)
+TO authenticated;
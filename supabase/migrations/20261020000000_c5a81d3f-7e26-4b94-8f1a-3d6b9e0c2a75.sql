@@ -0,0 +1,80 @@
+-- Categorized breaks. The global break on the timesheet used to live in React state and was lost on reload;
+-- each break is now a row, and the break types carry the allowances that compliance is measured against.
+UPDATE public.permissions
+SET label = 'Change backdating windows and break allowances'
+WHERE key = 'policies.edit';
+
+-- NULL allowances mean no limit
+CREATE TABLE public.break_types (
+  key TEXT NOT NULL PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9-]*$'),
+  label TEXT NOT NULL CHECK (trim(label) <> ''),
+  daily_allowance_minutes INTEGER CHECK (daily_allowance_minutes >= 0),
+  max_minutes_per_break INTEGER CHECK (max_minutes_per_break > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.break_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view break types"
+ON public.break_types
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Policy editors can manage break types"
+ON public.break_types
+FOR ALL
+TO authenticated
+USING (public.has_permission('policies.edit'))
+WITH CHECK (public.has_permission('policies.edit'));
+
+CREATE TRIGGER update_break_types_updated_at
+BEFORE UPDATE ON public.break_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.break_types (key, label, daily_allowance_minutes, max_minutes_per_break, sort_order) VALUES
+  ('lunch', 'Lunch', 60, 60, 10),
+  ('short', 'Short Break', 30, 15, 20),
+  ('training', 'Training', 120, NULL, 30),
+  ('system-down', 'System Down', NULL, NULL, 40);
+
+-- One row per break taken from the timesheet. Ids are generated client-side so breaks recorded offline
+-- can be replayed from the outbox; end_at is NULL while the break is running.
+CREATE TABLE public.employee_breaks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id TEXT NOT NULL, -- same user key as timesheet_sessions.employee_id
+  break_type TEXT NOT NULL REFERENCES public.break_types(key),
+  work_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_at TIMESTAMP WITH TIME ZONE,
+  duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_at IS NULL OR end_at >= start_at)
+);
+
+CREATE INDEX idx_employee_breaks_employee_date ON public.employee_breaks(employee_id, work_date);
+CREATE UNIQUE INDEX idx_employee_breaks_one_open ON public.employee_breaks(employee_id) WHERE end_at IS NULL;
+
+ALTER TABLE public.employee_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view breaks"
+ON public.employee_breaks
+FOR SELECT
+TO authenticated
+USING (public.can_view_employee_data(employee_id));
+
+CREATE POLICY "Users can record their own breaks"
+ON public.employee_breaks
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_current_employee(employee_id));
+
+CREATE POLICY "Users can end their own breaks"
+ON public.employee_breaks
+FOR UPDATE
+TO authenticated
+USING (public.is_current_employee(employee_id))
+WITH CHECK (public.is_current_employee(employee_id));
@@ -0,0 +1,66 @@
+-- How long a running timer may go without any activity before it is paused and the employee is asked
+-- what the idle time was. 0 turns idle detection off for the team.
+ALTER TABLE public.teams
+ADD COLUMN idle_threshold_minutes INTEGER NOT NULL DEFAULT 15 CHECK (idle_threshold_minutes BETWEEN 0 AND 480);
+
+CREATE OR REPLACE FUNCTION public.save_team(p_actor TEXT, p_team JSONB)
+RETURNS public.teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID := (p_team->>'id')::uuid;
+  v_name TEXT := trim(p_team->>'name');
+  v_parent UUID := NULLIF(p_team->>'parent_id', '')::uuid;
+  v_manager UUID := NULLIF(p_team->>'manager_id', '')::uuid;
+  v_idle INTEGER := (p_team->>'idle_threshold_minutes')::integer;
+  v_saved public.teams;
+BEGIN
+  PERFORM public.assert_permission(p_actor, 'teams.manage');
+
+  IF NULLIF(v_name, '') IS NULL THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+
+  IF v_name = 'All Teams' THEN
+    RAISE EXCEPTION 'All Teams is reserved for tasks shared by every team';
+  END IF;
+
+  IF v_idle IS NOT NULL AND (v_idle < 0 OR v_idle > 480) THEN
+    RAISE EXCEPTION 'The idle threshold must be between 0 and 480 minutes';
+  END IF;
+
+  IF v_parent IS NOT NULL AND v_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE subtree AS (
+      SELECT v_id AS id
+      UNION
+      SELECT child.id FROM public.teams child JOIN subtree ON child.parent_id = subtree.id
+    )
+    SELECT 1 FROM subtree WHERE id = v_parent
+  ) THEN
+    RAISE EXCEPTION 'A team cannot be placed under itself or one of its sub-teams';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.teams (name, parent_id, manager_id, is_active, idle_threshold_minutes)
+    VALUES (v_name, v_parent, v_manager, COALESCE((p_team->>'is_active')::boolean, true), COALESCE(v_idle, 15))
+    RETURNING * INTO v_saved;
+  ELSE
+    UPDATE public.teams SET
+      name = v_name,
+      parent_id = v_parent,
+      manager_id = v_manager,
+      is_active = COALESCE((p_team->>'is_active')::boolean, is_active),
+      idle_threshold_minutes = COALESCE(v_idle, idle_threshold_minutes)
+    WHERE id = v_id
+    RETURNING * INTO v_saved;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team % not found', v_id;
+    END IF;
+  END IF;
+
+  RETURN v_saved;
+END;
+$$;
@@ -0,0 +1,45 @@
+-- Team presence board. Open timer spans say who is working right now; the ticket, task and AHT the timer
+-- was started for are kept on the span, because the timesheet rows themselves only live in the browser.
+INSERT INTO public.permissions (key, category, label, sort_order) VALUES
+  ('presence.view', 'Reports', 'See who in their team is working on what right now', 62);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT r, 'presence.view' FROM unnest(ARRAY['sme', 'admin', 'super-user']) r;
+
+ALTER TABLE public.timesheet_sessions
+ADD COLUMN ticket_number TEXT,
+ADD COLUMN task_label TEXT,
+ADD COLUMN aht_minutes NUMERIC CHECK (aht_minutes >= 0);
+
+-- Last time each employee used the app, refreshed at most once a minute while they are active
+CREATE TABLE public.employee_presence (
+  employee_id TEXT NOT NULL PRIMARY KEY, -- same user key as timesheet_sessions.employee_id
+  last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.employee_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view presence"
+ON public.employee_presence
+FOR SELECT
+TO authenticated
+USING (public.can_view_employee_data(employee_id));
+
+CREATE POLICY "Users can record their own presence"
+ON public.employee_presence
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_current_employee(employee_id));
+
+CREATE POLICY "Users can refresh their own presence"
+ON public.employee_presence
+FOR UPDATE
+TO authenticated
+USING (public.is_current_employee(employee_id))
+WITH CHECK (public.is_current_employee(employee_id));
+
+-- Changes are pushed to the board through Supabase Realtime, which applies the SELECT policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.timesheet_sessions,
+  public.employee_breaks,
+  public.employee_presence;
@@ -0,0 +1,241 @@
+-- Supabase Auth sessions enforce the password rules themselves instead of relying on the client
+-- calling authenticate_employee first:
+-- - every password check made by Auth counts towards the lockout, and locked accounts are refused
+-- - the access token carries a must_change_password claim; while it is set the session has no role
+--   and is not the employee, so row level security and the RPCs refuse it
+-- Both hooks are enabled in supabase/config.toml (auth.hook.*).
+
+-- Whether the employee must change their password before working: first login, admin reset or expired
+CREATE OR REPLACE FUNCTION public.employee_must_change_password(p_employee public.employees)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_employee.must_change_password OR COALESCE((
+    SELECT p.max_age_days > 0
+      AND p_employee.password_changed_at < now() - make_interval(days => p.max_age_days)
+    FROM public.password_policy p
+  ), false);
+$$;
+
+-- Count a failed password check; reaching the policy limit locks the account for the lockout period.
+-- Returns when the account opens again, or NULL while it is not locked.
+CREATE OR REPLACE FUNCTION public.register_failed_login(p_employee UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.password_policy;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_policy FROM public.password_policy;
+
+  UPDATE public.employees e SET
+    failed_login_attempts = CASE
+      WHEN COALESCE(v_policy.max_failed_attempts, 0) > 0
+        AND e.failed_login_attempts + 1 >= v_policy.max_failed_attempts THEN 0
+      ELSE e.failed_login_attempts + 1
+    END,
+    locked_until = CASE
+      WHEN COALESCE(v_policy.max_failed_attempts, 0) > 0
+        AND e.failed_login_attempts + 1 >= v_policy.max_failed_attempts
+        THEN now() + make_interval(mins => v_policy.lockout_minutes)
+      ELSE e.locked_until
+    END
+  WHERE e.id = p_employee
+  RETURNING e.locked_until INTO v_locked_until;
+
+  RETURN v_locked_until;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_failed_login(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Auth hook run on every password sign-in: refuses locked accounts and counts failures
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee public.employees;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_employee
+  FROM public.employees e
+  WHERE e.auth_user_id = (event->>'user_id')::uuid;
+
+  -- Auth users that are not employees keep the default behaviour
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  IF NOT v_employee.is_active
+    OR (v_employee.locked_until IS NOT NULL AND v_employee.locked_until > now()) THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account is locked after too many failed attempts. Try again later.',
+      'should_logout_user', true
+    );
+  END IF;
+
+  IF (event->>'valid')::boolean THEN
+    IF v_employee.failed_login_attempts > 0 OR v_employee.locked_until IS NOT NULL THEN
+      UPDATE public.employees e SET failed_login_attempts = 0, locked_until = NULL
+      WHERE e.id = v_employee.id;
+    END IF;
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  v_locked_until := public.register_failed_login(v_employee.id);
+  IF v_locked_until IS NOT NULL AND v_locked_until > now() THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account is locked after too many failed attempts. Try again later.',
+      'should_logout_user', true
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Auth hook run whenever an access token is issued or refreshed: adds the must_change_password claim
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employee public.employees;
+  v_must_change BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_employee
+  FROM public.employees e
+  WHERE e.auth_user_id = (event->>'user_id')::uuid;
+
+  IF FOUND THEN
+    v_must_change := public.employee_must_change_password(v_employee);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'claims', jsonb_set(event->'claims', '{must_change_password}', to_jsonb(v_must_change))
+  );
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION
+  public.hook_password_verification_attempt(JSONB),
+  public.custom_access_token_hook(JSONB)
+TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION
+  public.hook_password_verification_attempt(JSONB),
+  public.custom_access_token_hook(JSONB)
+FROM PUBLIC, anon, authenticated;
+
+-- Whether the signed-in session still has to change its password. Tokens issued without the
+-- access token hook carry no claim and are treated as needing a change.
+CREATE OR REPLACE FUNCTION public.password_change_required()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((auth.jwt() ->> 'must_change_password')::boolean, true);
+$$;
+
+-- Role claim of the signed-in user; none until the password has been changed
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.password_change_required() THEN NULL
+    ELSE auth.jwt() -> 'app_metadata' ->> 'role'
+  END;
+$$;
+
+-- Whether a user key stored on rows (employee id, email or full name) belongs to the signed-in employee,
+-- who must not have a password change pending
+CREATE OR REPLACE FUNCTION public.is_current_employee(p_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.password_change_required() AND EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.auth_user_id = auth.uid()
+      AND e.is_active = true
+      AND p_key IN (e.employee_id, e.email, e.full_name)
+  );
+$$;
+
+-- Same body; a session with a password change pending manages no team
+CREATE OR REPLACE FUNCTION public.visible_team_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE me AS (
+    SELECT e.id, e.team_id
+    FROM public.employees e
+    WHERE e.auth_user_id = auth.uid() AND e.is_active = true
+      AND NOT public.password_change_required()
+  ),
+  scope AS (
+    SELECT t.id FROM public.teams t WHERE public.has_permission('teams.view.all')
+    UNION
+    SELECT t.id FROM public.teams t JOIN me ON t.manager_id = me.id
+    UNION
+    SELECT me.team_id FROM me
+    WHERE me.team_id IS NOT NULL
+      AND (public.has_permission('timesheets.review') OR public.has_permission('reports.view.team'))
+    UNION
+    SELECT child.id FROM public.teams child JOIN scope ON child.parent_id = scope.id
+  )
+  SELECT id FROM scope;
+$$;
+
+-- Policies that match the signed-in user directly rather than through the functions above
+DROP POLICY IF EXISTS "Signed in users can view employees" ON public.employees;
+
+CREATE POLICY "Signed in users can view employees"
+ON public.employees
+FOR SELECT
+TO authenticated
+USING (NOT public.password_change_required());
+
+DROP POLICY IF EXISTS "Users can view leave requests" ON public.leave_requests;
+
+CREATE POLICY "Users can view leave requests"
+ON public.leave_requests
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.id = employee_id
+      AND (
+        public.can_view_employee_data(e.employee_id)
+        OR (
+          status = 'approved'
+          AND NOT public.password_change_required()
+          AND e.team_id IN (SELECT me.team_id FROM public.employees me WHERE me.auth_user_id = auth.uid())
+        )
+      )
+  )
+);
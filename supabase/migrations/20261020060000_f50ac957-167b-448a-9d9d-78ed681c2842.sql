@@ -0,0 +1,50 @@
+-- change_employee_password is called before sign-in, so it checks the current password the same way
+-- authenticate_employee does: locked accounts are refused and every wrong password counts towards the lockout.
+-- It now returns the outcome instead of raising, so the counted attempt is not rolled back with the error.
+DROP FUNCTION IF EXISTS public.change_employee_password(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.change_employee_password(p_login TEXT, p_current_password TEXT, p_new_password TEXT)
+RETURNS TABLE(
+  changed BOOLEAN,
+  locked_until TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_employee public.employees;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_employee
+  FROM public.employees e
+  WHERE e.is_active = true
+    AND p_login IN (e.employee_id, e.email);
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  IF v_employee.locked_until IS NOT NULL AND v_employee.locked_until > now() THEN
+    RETURN QUERY SELECT false, v_employee.locked_until;
+    RETURN;
+  END IF;
+
+  IF extensions.crypt(COALESCE(p_current_password, ''), v_employee.password_hash) <> v_employee.password_hash THEN
+    v_locked_until := public.register_failed_login(v_employee.id);
+    RETURN QUERY SELECT false, CASE WHEN v_locked_until > now() THEN v_locked_until END;
+    RETURN;
+  END IF;
+
+  IF p_new_password = p_current_password THEN
+    RAISE EXCEPTION 'New password must be different from the current one';
+  END IF;
+
+  -- Also clears the failed attempts
+  PERFORM public.set_employee_password(v_employee.id, p_new_password, false);
+
+  RETURN QUERY SELECT true, NULL::timestamptz;
+END;
+$$;
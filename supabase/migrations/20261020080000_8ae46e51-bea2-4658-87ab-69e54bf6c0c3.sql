@@ -0,0 +1,46 @@
+-- employees.manage lets its holders edit employees, but not hand out permissions: changing an employee's role
+-- needs roles.manage, and a new employee may only get a role whose permissions the creator holds as well.
+-- Moving employees between teams stays part of employee management.
+-- Writes made without a signed-in user (service role, migrations) are not checked.
+
+-- Whether every permission of the role is also held by the signed-in user
+CREATE OR REPLACE FUNCTION public.role_within_own_permissions(p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.role_permissions rp
+    WHERE rp.role = p_role AND NOT public.has_permission(rp.permission)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_employee_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.has_permission('roles.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only role managers can change an employee''s role';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT public.role_within_own_permissions(NEW.role) THEN
+    RAISE EXCEPTION 'Role % has permissions you do not have', NEW.role;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_employee_role_trigger
+BEFORE INSERT OR UPDATE OF role ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_employee_role();
@@ -0,0 +1,130 @@
+-- Reviewers never decide on their own timesheets, even when their role reviews every team; the same rule
+-- leave requests follow. Their own days leave the review queue, and resubmitting stays the only action they
+-- can take on them.
+
+-- Whether the signed-in reviewer may act on a submission: never their own, and with timesheets.review.all
+-- any other, otherwise the team the submitter was in on the submitted day must be one they can see
+CREATE OR REPLACE FUNCTION public.can_review_submission(p_submission_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('timesheets.review')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.timesheet_submissions s
+      JOIN public.employees e ON s.user_id IN (e.employee_id, e.email)
+      WHERE s.id = p_submission_id
+        AND e.auth_user_id = auth.uid()
+    )
+    AND (
+      public.has_permission('timesheets.review.all') OR EXISTS (
+        SELECT 1
+        FROM public.timesheet_submissions s
+        JOIN public.employees e ON s.user_id IN (e.employee_id, e.email)
+        WHERE s.id = p_submission_id
+          AND public.employee_team_on(e.id, s.submission_date) IN (SELECT public.visible_team_ids())
+      )
+    );
+$$;
+
+-- Same body, refusing a review of the reviewer's own timesheet with its own message
+CREATE OR REPLACE FUNCTION public.review_timesheet_submission(
+  p_submission_id UUID,
+  p_action TEXT,
+  p_actor TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS public.timesheet_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_own BOOLEAN;
+BEGIN
+  IF NOT public.is_current_employee(p_actor) THEN
+    RAISE EXCEPTION 'Reviewer must be the signed-in user';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.timesheet_submissions s
+    WHERE s.id = p_submission_id AND public.is_current_employee(s.user_id)
+  ) INTO v_own;
+
+  IF v_own AND p_action <> 'resubmit' THEN
+    RAISE EXCEPTION 'You cannot % your own timesheet', p_action;
+  END IF;
+
+  IF NOT public.can_review_submission(p_submission_id) AND NOT (p_action = 'resubmit' AND v_own) THEN
+    RAISE EXCEPTION 'Not allowed to % this timesheet', p_action;
+  END IF;
+
+  RETURN public.review_timesheet_submission_unchecked(p_submission_id, p_action, p_actor, p_comment);
+END;
+$$;
+
+-- Same body, leaving out the reviewer's own submissions
+CREATE OR REPLACE FUNCTION public.get_review_queue(
+  p_reviewer TEXT,
+  p_status TEXT DEFAULT 'submitted'
+)
+RETURNS TABLE(
+  submission_id UUID,
+  user_id TEXT,
+  employee_name TEXT,
+  team TEXT,
+  submission_date DATE,
+  status TEXT,
+  entry_count INTEGER,
+  total_seconds INTEGER,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by TEXT,
+  review_comment TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_all_teams BOOLEAN := public.has_permission('timesheets.review.all');
+BEGIN
+  IF NOT public.is_current_employee(p_reviewer) OR NOT public.has_permission('timesheets.review') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.user_id,
+    COALESCE(emp.full_name, s.user_id),
+    t.name,
+    s.submission_date,
+    s.status,
+    COUNT(th.id)::integer,
+    COALESCE(SUM(th.time_logged_seconds), 0)::integer,
+    s.created_at,
+    s.reviewed_by,
+    s.review_comment
+  FROM public.timesheet_submissions s
+  LEFT JOIN LATERAL (
+    SELECT e.full_name, public.employee_team_on(e.id, s.submission_date) AS team_id
+    FROM public.employees e
+    WHERE s.user_id IN (e.employee_id, e.email)
+    LIMIT 1
+  ) emp ON true
+  LEFT JOIN public.teams t ON t.id = emp.team_id
+  LEFT JOIN public.ticket_history th ON th.submission_id = s.id
+  WHERE s.status <> 'draft'
+    AND (p_status = 'all' OR s.status = p_status)
+    AND (v_all_teams OR emp.team_id IN (SELECT public.visible_team_ids()))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.employees me
+      WHERE me.auth_user_id = auth.uid() AND s.user_id IN (me.employee_id, me.email)
+    )
+  GROUP BY s.id, emp.full_name, t.name
+  ORDER BY s.submission_date DESC, s.created_at DESC;
+END;
+$$;
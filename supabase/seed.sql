@@ -0,0 +1,7 @@
+-- Demo data for local development; loaded by `supabase db reset`, never applied to a deployed database
+
+INSERT INTO public.clients (university, domain, client_type, contact_name, contact_email, phone, created_by) VALUES
+  ('Harvard University', 'Healthcare', 'New', 'Dr. Sarah Johnson', 's.johnson@harvard.edu', '+1-617-495-1000', 'admin@company.com'),
+  ('MIT', 'Technology', 'BAU', 'Prof. John Smith', 'j.smith@mit.edu', '+1-617-253-1000', 'sme@company.com'),
+  ('Stanford University', 'Finance', 'New', 'Dr. Lisa Chen', 'l.chen@stanford.edu', '+1-650-723-2300', 'admin@company.com')
+ON CONFLICT (university) DO NOTHING;